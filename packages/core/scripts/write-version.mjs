@@ -0,0 +1,14 @@
+// Writes src/version.ts from package.json, so CORE_VERSION can't drift from
+// the published version. Runs before every build and on `npm version`.
+import { readFileSync, writeFileSync } from 'fs';
+
+const { version } = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+
+writeFileSync(
+  new URL('../src/version.ts', import.meta.url),
+  `// Generated from package.json by scripts/write-version.mjs. Do not edit.
+
+/** Version of this @jam-nodes/core build, checked against plugins' \`coreVersion\`. */
+export const CORE_VERSION = '${version}';
+`
+);
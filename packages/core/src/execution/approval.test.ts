@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { Workflow, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { executeWorkflow, resumeWorkflow } from './execute-workflow';
+import { approveNode, rejectNode } from './approval';
+import { MemoryExecutionStateStore } from './state-store';
+
+const review = defineNode({
+  type: 'review',
+  name: 'Review',
+  description: 'Drafts an email that needs approval',
+  category: 'action',
+  capabilities: { supportsApproval: true },
+  inputSchema: z.object({}),
+  outputSchema: z.object({ draft: z.string() }),
+  executor: async () => ({
+    success: true,
+    output: { draft: 'Hello there' },
+    needsApproval: { resourceIds: ['draft-1'], resourceType: 'email', message: 'Review the draft' },
+  }),
+}) as WorkflowNode['node'];
+
+const echo = defineNode({
+  type: 'echo',
+  name: 'Echo',
+  description: 'Returns its message',
+  category: 'action',
+  inputSchema: z.object({ message: z.string() }),
+  outputSchema: z.object({ message: z.string() }),
+  executor: async ({ message }) => ({ success: true, output: { message } }),
+}) as WorkflowNode['node'];
+
+/** review → send, plus an independent log node. */
+const workflow: Workflow = {
+  entryNodeId: 'review',
+  nodes: [
+    { id: 'review', type: 'review', node: review, input: {} },
+    { id: 'send', type: 'echo', node: echo, input: { message: 'sending {{review.draft}}' } },
+    { id: 'log', type: 'echo', node: echo, input: { message: 'logged' } },
+  ],
+  edges: [{ from: 'review', to: 'send' }],
+};
+
+async function pause() {
+  const store = new MemoryExecutionStateStore();
+  const paused = await executeWorkflow(workflow, new ExecutionContext(), { stateStore: store });
+  return { store, paused };
+}
+
+describe('approval requests', () => {
+  it('hold the downstream branch while independent nodes run', async () => {
+    const { store, paused } = await pause();
+
+    expect(paused.success).toBe(false);
+    expect(paused.statuses).toEqual({ review: 'waiting_approval', send: 'idle', log: 'success' });
+    expect(paused.pendingApprovals).toEqual({
+      review: { resourceIds: ['draft-1'], resourceType: 'email', message: 'Review the draft' },
+    });
+    expect(await store.load(paused.executionId)).toMatchObject({ status: 'waiting_approval' });
+  });
+
+  it('stay pending when the run is resumed', async () => {
+    const { store, paused } = await pause();
+
+    const resumed = await resumeWorkflow(workflow, paused.executionId, store);
+
+    expect(resumed.statuses).toMatchObject({ review: 'waiting_approval', send: 'idle' });
+    expect(resumed.pendingApprovals).toHaveProperty('review');
+  });
+});
+
+describe('approveNode', () => {
+  it('stores the output and continues the run', async () => {
+    const { store, paused } = await pause();
+
+    const approved = await approveNode(workflow, paused.executionId, 'review', store);
+
+    expect(approved.success).toBe(true);
+    expect(approved.statuses).toEqual({ review: 'success', send: 'success', log: 'success' });
+    expect(approved.results['send']?.output).toEqual({ message: 'sending Hello there' });
+    expect(approved.pendingApprovals).toBeUndefined();
+    expect(await store.load(paused.executionId)).toMatchObject({ status: 'completed' });
+  });
+
+  it('throws for an unknown or non-pending node', async () => {
+    const { store, paused } = await pause();
+
+    await expect(approveNode(workflow, paused.executionId, 'missing', store)).rejects.toThrow(
+      'Node "missing" is not waiting for approval (status: unknown)',
+    );
+    await expect(approveNode(workflow, paused.executionId, 'log', store)).rejects.toThrow(
+      'Node "log" is not waiting for approval (status: success)',
+    );
+    await expect(approveNode(workflow, 'wf_missing', 'review', store)).rejects.toThrow(
+      'No saved state found for execution "wf_missing"',
+    );
+  });
+
+  it('cannot approve a node twice', async () => {
+    const { store, paused } = await pause();
+    await approveNode(workflow, paused.executionId, 'review', store);
+
+    await expect(approveNode(workflow, paused.executionId, 'review', store)).rejects.toThrow(
+      'Node "review" is not waiting for approval (status: success)',
+    );
+  });
+});
+
+describe('rejectNode', () => {
+  it('fails the node and skips its downstream branch', async () => {
+    const { store, paused } = await pause();
+
+    const rejected = await rejectNode(workflow, paused.executionId, 'review', store);
+
+    expect(rejected.success).toBe(false);
+    expect(rejected.statuses).toEqual({ review: 'error', send: 'skipped', log: 'success' });
+    expect(rejected.results['review']).toEqual({
+      success: false,
+      error: 'Approval for node "review" was rejected',
+      errorCode: 'APPROVAL_REJECTED',
+    });
+    expect(await store.load(paused.executionId)).toMatchObject({ status: 'failed', rejectedNodes: ['review'] });
+  });
+
+  it('keeps a rejected node failed when the run is resumed', async () => {
+    const { store, paused } = await pause();
+    await rejectNode(workflow, paused.executionId, 'review', store);
+
+    const resumed = await resumeWorkflow(workflow, paused.executionId, store);
+
+    expect(resumed.statuses).toEqual({ review: 'error', send: 'skipped', log: 'success' });
+    await expect(rejectNode(workflow, paused.executionId, 'review', store)).rejects.toThrow(
+      'Node "review" is not waiting for approval (status: error)',
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import type {
+  Workflow,
+  WorkflowExecutionConfig,
+  WorkflowExecutionResult,
+  ExecutionSnapshot,
+  ExecutionStateStore,
+} from '../types/execution.js';
+import { ExecutionContext } from './context.js';
+import { continueFromSnapshot, loadSnapshot } from './execute-workflow.js';
+
+/**
+ * Approve a node that returned `needsApproval` and continue its downstream branch.
+ *
+ * The node's output is stored in the context as if it had just succeeded,
+ * then the execution resumes from the persisted state.
+ *
+ * @example
+ * ```typescript
+ * const result = await executeWorkflow(workflow, ctx, { stateStore: store });
+ * if (result.pendingApprovals?.['draft']) {
+ *   // ...after a human reviews the drafts
+ *   await approveNode(workflow, result.executionId, 'draft', store);
+ * }
+ * ```
+ *
+ * @throws Error if the execution is unknown or the node is not waiting for approval
+ */
+export async function approveNode(
+  workflow: Workflow,
+  executionId: string,
+  nodeId: string,
+  store: ExecutionStateStore,
+  config?: WorkflowExecutionConfig,
+): Promise<WorkflowExecutionResult> {
+  const snapshot = await loadWaitingSnapshot(store, executionId, nodeId);
+  const result = snapshot.results[nodeId]!;
+
+  const context = new ExecutionContext(snapshot.variables);
+  context.restoreOutputOwners(snapshot.outputOwners ?? {});
+  if (result.output !== undefined) {
+    context.storeNodeOutput(nodeId, result.output, config?.outputScoping);
+  }
+
+  return continueFromSnapshot(
+    workflow,
+    {
+      ...snapshot,
+      statuses: { ...snapshot.statuses, [nodeId]: 'success' },
+      variables: context.getAllVariables(),
+      outputOwners: context.getOutputOwners(),
+    },
+    store,
+    config,
+  );
+}
+
+/**
+ * Reject a node that returned `needsApproval`.
+ *
+ * The node fails with errorCode 'APPROVAL_REJECTED' and everything downstream
+ * of it is skipped; the rest of the execution resumes from the persisted state.
+ *
+ * @throws Error if the execution is unknown or the node is not waiting for approval
+ */
+export async function rejectNode(
+  workflow: Workflow,
+  executionId: string,
+  nodeId: string,
+  store: ExecutionStateStore,
+  config?: WorkflowExecutionConfig,
+): Promise<WorkflowExecutionResult> {
+  const snapshot = await loadWaitingSnapshot(store, executionId, nodeId);
+
+  return continueFromSnapshot(
+    workflow,
+    {
+      ...snapshot,
+      statuses: { ...snapshot.statuses, [nodeId]: 'error' },
+      rejectedNodes: [...(snapshot.rejectedNodes ?? []), nodeId],
+    },
+    store,
+    config,
+  );
+}
+
+async function loadWaitingSnapshot(
+  store: ExecutionStateStore,
+  executionId: string,
+  nodeId: string,
+): Promise<ExecutionSnapshot> {
+  const snapshot = await loadSnapshot(store, executionId);
+  const status = snapshot.statuses[nodeId];
+  if (status !== 'waiting_approval' || !snapshot.results[nodeId]) {
+    throw new Error(
+      `Node "${nodeId}" is not waiting for approval (status: ${status ?? 'unknown'})`
+    );
+  }
+  return snapshot;
+}
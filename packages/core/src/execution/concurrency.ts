@@ -0,0 +1,76 @@
+/** Releases a slot acquired from a ConcurrencyGate. */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  nodeType: string;
+  grant: (release: ReleaseSlot) => void;
+}
+
+/**
+ * Limits how many nodes run at once, overall and per node type.
+ *
+ * Slots are granted in request order, except that a waiter blocked only by
+ * its type's cap does not hold up waiters of other types.
+ *
+ * @internal
+ */
+export class ConcurrencyGate {
+  private running = 0;
+  private readonly runningByType = new Map<string, number>();
+  private readonly waiters: Waiter[] = [];
+
+  constructor(
+    private readonly maxConcurrency = Infinity,
+    private readonly nodeTypeConcurrency: Record<string, number> = {},
+  ) {
+    assertLimit('maxConcurrency', maxConcurrency);
+    for (const [nodeType, limit] of Object.entries(nodeTypeConcurrency)) {
+      assertLimit(`nodeTypeConcurrency.${nodeType}`, limit);
+    }
+  }
+
+  /** Wait for a free slot for a node of the given type. */
+  acquire(nodeType: string): Promise<ReleaseSlot> {
+    return new Promise((grant) => {
+      this.waiters.push({ nodeType, grant });
+      this.drain();
+    });
+  }
+
+  private canRun(nodeType: string): boolean {
+    const limit = this.nodeTypeConcurrency[nodeType] ?? Infinity;
+    return this.running < this.maxConcurrency && (this.runningByType.get(nodeType) ?? 0) < limit;
+  }
+
+  private drain(): void {
+    for (let i = 0; i < this.waiters.length && this.running < this.maxConcurrency; ) {
+      const waiter = this.waiters[i]!;
+      if (!this.canRun(waiter.nodeType)) {
+        i++;
+        continue;
+      }
+      this.waiters.splice(i, 1);
+      waiter.grant(this.take(waiter.nodeType));
+    }
+  }
+
+  private take(nodeType: string): ReleaseSlot {
+    this.running++;
+    this.runningByType.set(nodeType, (this.runningByType.get(nodeType) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.running--;
+      this.runningByType.set(nodeType, this.runningByType.get(nodeType)! - 1);
+      this.drain();
+    };
+  }
+}
+
+function assertLimit(name: string, limit: number): void {
+  if (limit !== Infinity && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error(`${name} must be a positive integer, got ${limit}`);
+  }
+}
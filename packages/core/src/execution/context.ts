@@ -1,6 +1,23 @@
 import { JSONPath } from 'jsonpath-plus';
 import type { NodeExecutionContext } from '../types/index.js';
 import type { NodeServices } from '../types/index.js';
+import type { OutputCollision, OutputScoping } from '../types/index.js';
+import {
+  evaluateExpression,
+  formatValue,
+  parseExpression,
+  parseTemplate,
+} from '../expression/index.js';
+
+/** Options for ExecutionContext.interpolate and prepareNodeInput. */
+export interface InterpolateOptions {
+  /**
+   * Keep `{{ }}` blocks that are not valid expressions (and an unterminated
+   * `{{`) as literal text instead of throwing a TemplateSyntaxError.
+   * Default false; write `\{{` for a literal `{{`.
+   */
+  lenient?: boolean;
+}
 
 /**
  * Manages workflow variables and provides utilities for:
@@ -11,6 +28,8 @@ import type { NodeServices } from '../types/index.js';
  */
 export class ExecutionContext {
   private variables: Record<string, unknown>;
+  /** Node that last stored each variable via storeNodeOutput */
+  private outputOwners = new Map<string, string>();
 
   constructor(initialVariables: Record<string, unknown> = {}) {
     this.variables = { ...initialVariables };
@@ -49,6 +68,7 @@ export class ExecutionContext {
    */
   deleteVariable(name: string): void {
     delete this.variables[name];
+    this.outputOwners.delete(name);
   }
 
   /**
@@ -56,6 +76,7 @@ export class ExecutionContext {
    */
   clearAll(): void {
     this.variables = {};
+    this.outputOwners.clear();
   }
 
   /**
@@ -102,44 +123,47 @@ export class ExecutionContext {
    * - Nested access: "Email: {{contact.email}}"
    * - JSONPath: "First email: {{$.contacts[0].email}}"
    * - Direct value replacement: "{{contacts}}" returns the actual array
+   * - Filters: "{{contact.name | upper}}", "{{title | default: 'Untitled'}}"
+   * - Arithmetic and comparisons: "{{count + 1}}", "{{score >= 0.8}}"
+   * - Escapes: "\\{{not interpolated}}" produces "{{not interpolated}}"
    *
-   * @returns The interpolated value. If the entire string is a single variable
-   * reference, returns the actual value. Otherwise returns an interpolated string.
+   * `{{ }}` blocks that are not valid expressions (e.g. "{{#each items}}") throw
+   * unless `options.lenient` is set, which keeps them as literal text.
+   *
+   * @returns The interpolated value. If the entire string is a single expression,
+   * returns its actual value. Otherwise returns an interpolated string.
+   * @throws TemplateSyntaxError if the template or one of its expressions is invalid (unless `options.lenient` is set)
    */
-  interpolate(template: string): unknown {
-    if (typeof template !== 'string') {
+  interpolate(template: string, options: InterpolateOptions = {}): unknown {
+    if (typeof template !== 'string' || !template.includes('{{')) {
       return template;
     }
 
-    // Check if the entire string is just a single variable reference
-    const singleVarMatch = template.match(/^\{\{([^}]+)\}\}$/);
-    if (singleVarMatch) {
-      const expression = singleVarMatch[1]!.trim();
-
-      // Return the actual value for single variable references
-      if (expression.startsWith('$')) {
-        return this.evaluateJsonPath(expression);
-      }
+    const parts = parseTemplate(template, { lenient: options.lenient });
 
-      return this.resolveNestedPath(expression);
+    // Return the actual value when the entire string is a single expression
+    const [first] = parts;
+    if (parts.length === 1 && first?.kind === 'expression') {
+      return evaluateExpression(first.expression, this);
     }
 
-    // Match {{variable}} or {{$.jsonpath.expression}}
-    const regex = /\{\{([^}]+)\}\}/g;
-
-    return template.replace(regex, (match, expression: string) => {
-      const trimmed = expression.trim();
-
-      // Check if it's a JSONPath expression
-      if (trimmed.startsWith('$')) {
-        const result = this.evaluateJsonPath(trimmed);
-        return this.formatValue(result);
-      }
+    return parts
+      .map((part) => part.kind === 'text' ? part.value : formatValue(evaluateExpression(part.expression, this)))
+      .join('');
+  }
 
-      // Handle dot notation (e.g., contact.email)
-      const value = this.resolveNestedPath(trimmed);
-      return this.formatValue(value);
-    });
+  /**
+   * Evaluate a template expression (the part between {{ and }}) against
+   * workflow variables. See evaluateExpression for the supported syntax.
+   *
+   * @example
+   * ctx.evaluate('posts | length') // 3
+   * ctx.evaluate('$.contacts[0].email | default: "none"')
+   *
+   * @throws ExpressionError if the expression is invalid
+   */
+  evaluate(expression: string): unknown {
+    return evaluateExpression(parseExpression(expression.trim()), this);
   }
 
   /**
@@ -148,10 +172,10 @@ export class ExecutionContext {
    * Processes all string values in the object and interpolates variables.
    * Useful for interpolating variables in node settings.
    */
-  interpolateObject<T>(obj: T): T {
+  interpolateObject<T>(obj: T, options: InterpolateOptions = {}): T {
     // Check for string FIRST
     if (typeof obj === 'string') {
-      return this.interpolate(obj) as T;
+      return this.interpolate(obj, options) as T;
     }
 
     // Then check for non-objects
@@ -160,12 +184,12 @@ export class ExecutionContext {
     }
 
     if (Array.isArray(obj)) {
-      return obj.map((item) => this.interpolateObject(item)) as T;
+      return obj.map((item) => this.interpolateObject(item, options)) as T;
     }
 
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
-      result[key] = this.interpolateObject(value);
+      result[key] = this.interpolateObject(value, options);
     }
 
     return result as T;
@@ -225,51 +249,61 @@ export class ExecutionContext {
   }
 
   /**
-   * Format a value for string interpolation
+   * Store a node's output as variables
+   *
+   * The output is stored under the node's ID. In 'legacy' scoping (the
+   * default) a plain-object output is also merged into root variables; in
+   * 'strict' scoping it is only reachable through the node ID.
+   *
+   * @example
+   * // Node "search_contacts" returns { contacts: [...] }
+   * // legacy: { search_contacts: { contacts: [...] }, contacts: [...] }
+   * // strict: { search_contacts: { contacts: [...] } }
+   *
+   * @returns Variables this call overwrote that another node's output (or
+   * anything other than a node output, like a workflow input) had set
    */
-  private formatValue(value: unknown): string {
-    if (value === null || value === undefined) {
-      return '';
+  storeNodeOutput(
+    nodeId: string,
+    output: unknown,
+    scoping: OutputScoping = 'legacy'
+  ): OutputCollision[] {
+    const entries: [string, unknown][] = [[nodeId, output]];
+    if (scoping === 'legacy' && output && typeof output === 'object' && !Array.isArray(output)) {
+      entries.push(...Object.entries(output));
     }
 
-    if (typeof value === 'string') {
-      return value;
-    }
-
-    if (typeof value === 'number' || typeof value === 'boolean') {
-      return String(value);
-    }
-
-    if (Array.isArray(value)) {
-      return value.map((v) => this.formatValue(v)).join(', ');
-    }
-
-    if (typeof value === 'object') {
-      return JSON.stringify(value);
-    }
+    const collisions: OutputCollision[] = [];
+    entries.forEach(([key, value], index) => {
+      const previousNodeId = this.outputOwners.get(key);
+      const clobbered = previousNodeId === undefined
+        ? this.hasVariable(key)
+        // A node writing its own keys again (e.g. a resumed run) is not a
+        // collision, unless an output key replaces the output stored under its ID
+        : previousNodeId !== nodeId || (index > 0 && key === nodeId);
+      if (clobbered) {
+        collisions.push({ key, nodeId, ...(previousNodeId !== undefined && { previousNodeId }) });
+      }
+      this.setVariable(key, value);
+      this.outputOwners.set(key, nodeId);
+    });
+    return collisions;
+  }
 
-    return String(value);
+  /**
+   * Get the node that last stored each variable via storeNodeOutput
+   */
+  getOutputOwners(): Record<string, string> {
+    return Object.fromEntries(this.outputOwners);
   }
 
   /**
-   * Store a node's output as variables
-   *
-   * The output is stored under the node's ID and also merged into root variables
-   * if it's a plain object.
-   *
-   * @example
-   * // Node "search_contacts" returns { contacts: [...] }
-   * // Variables become: { search_contacts: { contacts: [...] }, contacts: [...] }
+   * Restore output owners saved with getOutputOwners (e.g. from a snapshot),
+   * so later collisions name the node that stored the overwritten variable
    */
-  storeNodeOutput(nodeId: string, output: unknown): void {
-    // Store under node ID
-    this.setVariable(nodeId, output);
-
-    // If output is a plain object, merge keys into root
-    if (output && typeof output === 'object' && !Array.isArray(output)) {
-      for (const [key, value] of Object.entries(output)) {
-        this.setVariable(key, value);
-      }
+  restoreOutputOwners(owners: Record<string, string>): void {
+    for (const [key, nodeId] of Object.entries(owners)) {
+      this.outputOwners.set(key, nodeId);
     }
   }
 
@@ -339,10 +373,22 @@ export function createExecutionContext(
 
 /**
  * Prepare node input by interpolating variables from execution context
+ *
+ * @param rawKeys - Top-level keys to pass through untouched (see NodeDefinition.rawInputKeys)
  */
 export function prepareNodeInput<T extends Record<string, unknown>>(
   nodeSettings: T,
-  context: ExecutionContext
+  context: ExecutionContext,
+  rawKeys?: string[],
+  options?: InterpolateOptions
 ): T {
-  return context.interpolateObject(nodeSettings);
+  if (!rawKeys || rawKeys.length === 0) {
+    return context.interpolateObject(nodeSettings, options);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(nodeSettings)) {
+    result[key] = rawKeys.includes(key) ? value : context.interpolateObject(value, options);
+  }
+  return result as T;
 }
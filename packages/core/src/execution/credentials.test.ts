@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { CredentialProvider, Workflow, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { MissingCredentialsError, resolveNodeCredentials } from './credentials';
+import { executeWorkflow } from './execute-workflow';
+
+/** A node that returns the credentials it received. */
+const reporter = (type: string, credentials?: { required?: string[]; optional?: string[] }) =>
+  defineNode({
+    type,
+    name: type,
+    description: 'Reports the credentials it received',
+    category: 'integration',
+    inputSchema: z.object({}),
+    outputSchema: z.object({ credentials: z.unknown() }),
+    credentials,
+    executor: async (_input, context) => ({ success: true, output: { credentials: context.credentials } }),
+  }) as WorkflowNode['node'];
+
+/** Stores `twitter` (expired, refreshed on demand) and `openai`, and records every call. */
+function createProvider() {
+  const calls: string[] = [];
+  const stored: Record<string, Record<string, unknown>> = {
+    twitter: { accessToken: 'expired', expiresAt: 0 },
+    openai: { apiKey: 'sk-test' },
+  };
+  const provider: CredentialProvider = {
+    getCredentials: async (name) => {
+      calls.push(`get ${name}`);
+      return stored[name] ?? null;
+    },
+    hasCredentials: async (name) => name in stored,
+    refreshIfNeeded: async (name) => {
+      calls.push(`refresh ${name}`);
+      return name === 'twitter' ? { accessToken: 'fresh' } : null;
+    },
+  };
+  return { provider, calls };
+}
+
+describe('resolveNodeCredentials', () => {
+  it('merges refreshed and stored credentials over the static ones, leaving out missing optional ones', async () => {
+    const { provider, calls } = createProvider();
+    const node = reporter('tweet', { required: ['twitter'], optional: ['openai', 'anthropic'] });
+
+    const credentials = await resolveNodeCredentials(node, {
+      credentialProvider: provider,
+      credentials: { devto: { apiKey: 'static' } },
+    });
+
+    expect(credentials).toEqual({
+      devto: { apiKey: 'static' },
+      twitter: { accessToken: 'fresh' },
+      openai: { apiKey: 'sk-test' },
+    });
+    expect(calls.sort()).toEqual(['get anthropic', 'get openai', 'refresh anthropic', 'refresh openai', 'refresh twitter']);
+  });
+
+  it('returns the static credentials for nodes that declare none', async () => {
+    const { provider, calls } = createProvider();
+
+    const credentials = await resolveNodeCredentials(reporter('plain'), {
+      credentialProvider: provider,
+      credentials: { devto: { apiKey: 'static' } },
+    });
+
+    expect(credentials).toEqual({ devto: { apiKey: 'static' } });
+    expect(calls).toEqual([]);
+  });
+
+  it('throws MissingCredentialsError listing the missing required credentials', async () => {
+    const { provider } = createProvider();
+    const node = reporter('post', { required: ['wordpress', 'twitter', 'devto'] });
+
+    const error = await resolveNodeCredentials(node, { credentialProvider: provider }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MissingCredentialsError);
+    expect(error).toMatchObject({
+      code: 'MISSING_CREDENTIALS',
+      nodeType: 'post',
+      missing: ['devto', 'wordpress'],
+      message: 'Node "post" requires credentials that are not configured: devto, wordpress',
+    });
+  });
+});
+
+describe('executeWorkflow with a credentialProvider', () => {
+  it('passes each node its credentials and fails nodes missing required ones', async () => {
+    const { provider } = createProvider();
+    const workflow: Workflow = {
+      entryNodeId: 'tweet',
+      nodes: [
+        { id: 'tweet', type: 'tweet', node: reporter('tweet', { required: ['twitter'] }), input: {} },
+        { id: 'post', type: 'post', node: reporter('post', { required: ['wordpress'] }), input: {} },
+      ],
+      edges: [],
+    };
+
+    const result = await executeWorkflow(workflow, new ExecutionContext(), { credentialProvider: provider });
+
+    expect(result.results['tweet']).toEqual({ success: true, output: { credentials: { twitter: { accessToken: 'fresh' } } } });
+    expect(result.statuses['post']).toBe('error');
+    expect(result.results['post']).toEqual({
+      success: false,
+      error: 'Node "post" requires credentials that are not configured: wordpress',
+      errorCode: 'MISSING_CREDENTIALS',
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import type { NodeCredentials, NodeDefinition } from '../types/node.js';
+import type { ResolvedCredentials } from '../types/credentials.js';
+import type { WorkflowExecutionConfig } from '../types/execution.js';
+
+/**
+ * Error thrown when a node's required credentials are not configured.
+ * The node fails with errorCode 'MISSING_CREDENTIALS'.
+ */
+export class MissingCredentialsError extends Error {
+  readonly code = 'MISSING_CREDENTIALS';
+
+  constructor(
+    public readonly nodeType: string,
+    public readonly missing: string[]
+  ) {
+    super(`Node "${nodeType}" requires credentials that are not configured: ${missing.join(', ')}`);
+    this.name = 'MissingCredentialsError';
+  }
+}
+
+/**
+ * Build the credentials passed to a node: the static `config.credentials`
+ * plus the credentials the node declares, resolved from `config.credentialProvider`.
+ *
+ * Each declared credential is refreshed with `refreshIfNeeded` when the provider
+ * implements it, falling back to `getCredentials`. Missing optional credentials
+ * are left out.
+ *
+ * @throws MissingCredentialsError if a required credential cannot be resolved
+ */
+export async function resolveNodeCredentials(
+  node: NodeDefinition,
+  config: WorkflowExecutionConfig | undefined,
+): Promise<NodeCredentials | undefined> {
+  const provider = config?.credentialProvider;
+  const required = node.credentials?.required ?? [];
+  const optional = node.credentials?.optional ?? [];
+  if (!provider || required.length + optional.length === 0) {
+    return config?.credentials;
+  }
+
+  const resolved: Record<string, ResolvedCredentials> = {};
+  const missing: string[] = [];
+
+  await Promise.all(
+    [...required, ...optional].map(async (name) => {
+      const credentials =
+        (await provider.refreshIfNeeded?.(name)) ?? (await provider.getCredentials(name));
+      if (credentials) {
+        resolved[name] = credentials;
+      } else if (required.includes(name)) {
+        missing.push(name);
+      }
+    }),
+  );
+
+  if (missing.length > 0) {
+    throw new MissingCredentialsError(node.type, missing.sort());
+  }
+
+  return { ...config?.credentials, ...resolved } as NodeCredentials;
+}
+
+/**
+ * Refresh the credentials a node declares after an API rejected them (the
+ * node failed with errorCode '401'), with `config.credentialProvider.refresh`.
+ *
+ * @returns The node's credentials with the refreshed ones merged in, or
+ *   undefined if the provider refreshed none of them
+ * @throws Whatever the provider throws, e.g. OAuth2Error('invalid_grant')
+ */
+export async function refreshNodeCredentials(
+  node: NodeDefinition,
+  credentials: NodeCredentials | undefined,
+  config: WorkflowExecutionConfig | undefined,
+): Promise<NodeCredentials | undefined> {
+  const provider = config?.credentialProvider;
+  const names = [...(node.credentials?.required ?? []), ...(node.credentials?.optional ?? [])];
+  if (!provider?.refresh || names.length === 0) {
+    return undefined;
+  }
+
+  const refreshed: Record<string, ResolvedCredentials> = {};
+  await Promise.all(
+    names.map(async (name) => {
+      const updated = await provider.refresh!(name);
+      if (updated) refreshed[name] = updated;
+    }),
+  );
+
+  if (Object.keys(refreshed).length === 0) {
+    return undefined;
+  }
+  return { ...credentials, ...refreshed } as NodeCredentials;
+}
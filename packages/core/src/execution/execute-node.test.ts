@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { OutputValidationIssue, Workflow, WorkflowEvent, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { executeNode } from './execute-node';
+import { executeWorkflow } from './execute-workflow';
+import { MemoryCacheStore } from './memory-cache';
+
+/** Returns a count as a string plus an extra field; coercion can fix it. */
+const sloppy = defineNode({
+  type: 'sloppy_api',
+  name: 'Sloppy API',
+  description: 'Returns a count as a string and an extra field',
+  category: 'integration',
+  inputSchema: z.object({}),
+  outputSchema: z.object({ count: z.coerce.number(), source: z.string().default('api') }),
+  executor: async () => ({ success: true, output: { count: '42', debug: true } as never }),
+}) as WorkflowNode['node'];
+
+/** Returns an ID of the wrong type; coercion cannot fix it. */
+const broken = defineNode({
+  type: 'broken_api',
+  name: 'Broken API',
+  description: 'Returns a malformed payload',
+  category: 'integration',
+  inputSchema: z.object({}),
+  outputSchema: z.object({ items: z.array(z.object({ id: z.string() })) }),
+  executor: async () => ({ success: true, output: { items: [{ id: 1 }] } as never }),
+}) as WorkflowNode['node'];
+
+const nodeContext = () => new ExecutionContext().toNodeContext('user_1', 'wf_1');
+
+const invalidOutput = {
+  success: false,
+  error: 'Invalid output from node "broken_api": items[0].id: Expected string, received number',
+  errorCode: 'INVALID_OUTPUT',
+};
+
+describe('executeNode validateOutput', () => {
+  it('does not check outputs by default', async () => {
+    expect(await executeNode(broken, {}, nodeContext())).toEqual({ success: true, output: { items: [{ id: 1 }] } });
+  });
+
+  it('strict fails invalid outputs and keeps valid ones as returned', async () => {
+    expect(await executeNode(broken, {}, nodeContext(), { validateOutput: 'strict' })).toEqual(invalidOutput);
+    expect(await executeNode(sloppy, {}, nodeContext(), { validateOutput: 'strict' })).toEqual({
+      success: true,
+      output: { count: '42', debug: true },
+    });
+  });
+
+  it('warn reports the issues and keeps the result', async () => {
+    const onInvalidOutput = vi.fn<(issues: OutputValidationIssue[]) => void>();
+
+    const result = await executeNode(broken, {}, nodeContext(), { validateOutput: 'warn', onInvalidOutput });
+
+    expect(result).toEqual({ success: true, output: { items: [{ id: 1 }] } });
+    expect(onInvalidOutput).toHaveBeenCalledWith([{ path: 'items[0].id', message: 'Expected string, received number' }]);
+  });
+
+  it('coerce replaces the output with the parsed value and fails what cannot be parsed', async () => {
+    expect(await executeNode(sloppy, {}, nodeContext(), { validateOutput: 'coerce' })).toEqual({
+      success: true,
+      output: { count: 42, source: 'api' },
+    });
+    expect(await executeNode(broken, {}, nodeContext(), { validateOutput: 'coerce' })).toEqual(invalidOutput);
+  });
+
+  it('caches the coerced output and never caches invalid ones', async () => {
+    const store = new MemoryCacheStore();
+    const cache = { enabled: true, store };
+
+    await executeNode(sloppy, {}, nodeContext(), { validateOutput: 'coerce', cache });
+    await executeNode(broken, {}, nodeContext(), { validateOutput: 'strict', cache: { ...cache, keyFn: () => 'broken' } });
+
+    expect(await store.get('{}')).toEqual({ success: true, output: { count: 42, source: 'api' } });
+    expect(await store.get('broken')).toBeUndefined();
+  });
+
+  it('skips results waiting for approval', async () => {
+    const drafting = { ...broken, executor: async () => ({ success: true, output: { items: [{ id: 1 }] }, needsApproval: { resourceIds: ['d1'] } }) };
+
+    const result = await executeNode(drafting, {}, nodeContext(), { validateOutput: 'strict' });
+
+    expect(result.success).toBe(true);
+  });
+});
+
+describe('executeWorkflow validateOutput', () => {
+  const workflow: Workflow = {
+    entryNodeId: 'sloppy',
+    nodes: [
+      { id: 'sloppy', type: 'sloppy_api', node: sloppy, input: {} },
+      { id: 'broken', type: 'broken_api', node: broken, input: {} },
+    ],
+    edges: [],
+  };
+
+  it('emits node_output_invalid before node_succeeded in warn mode', async () => {
+    const events: WorkflowEvent[] = [];
+
+    const result = await executeWorkflow(workflow, new ExecutionContext(), {
+      validateOutput: 'warn',
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.success).toBe(true);
+    const brokenEvents = events.filter((event) => 'nodeId' in event && event.nodeId === 'broken');
+    expect(brokenEvents.map((event) => event.type)).toEqual(['node_queued', 'node_started', 'node_output_invalid', 'node_succeeded']);
+    expect(brokenEvents[2]).toMatchObject({ issues: [{ path: 'items[0].id' }] });
+  });
+
+  it('applies a per node type mode', async () => {
+    const result = await executeWorkflow(workflow, new ExecutionContext(), {
+      nodeConfig: { broken_api: { validateOutput: 'strict' } },
+    });
+
+    expect(result.statuses).toEqual({ sloppy: 'success', broken: 'error' });
+    expect(result.results['broken']).toEqual(invalidOutput);
+  });
+});
@@ -1,5 +1,9 @@
 import type { NodeDefinition, NodeExecutionContext, NodeExecutionResult } from '../types/node.js';
-import type { ExecutionConfig } from '../types/execution.js';
+import type { ExecutionConfig, OutputValidationIssue } from '../types/execution.js';
+import type { Span } from '../types/tracing.js';
+import { acquireRateLimit } from '../rate-limit/acquire.js';
+import { noopTracer } from '../tracing/noop.js';
+import { formatPath } from '../workflow/document.js';
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -10,12 +14,19 @@ function sleep(ms: number): Promise<void> {
  *
  * Input is validated against the node's inputSchema before execution.
  * When caching is enabled, successful results are stored and returned
- * on subsequent calls with the same input.
+ * on subsequent calls with the same input. When a rate limit is set, a slot
+ * is acquired from its bucket before each attempt.
+ *
+ * With `validateOutput`, successful results are checked against the node's
+ * outputSchema before they are cached or returned (see OutputValidationMode).
+ *
+ * With a `tracer`, each attempt is recorded as a 'node.attempt' span nested
+ * under `context.span`, and cache lookups set 'jam.cache.hit' on that span.
  *
  * @param node - The node definition to execute
  * @param input - Raw input (validated against node.inputSchema)
  * @param context - Execution context passed to the node executor
- * @param config - Optional retry, cache, timeout, and signal configuration
+ * @param config - Optional retry, cache, timeout, rate limit, output validation, and signal configuration
  */
 export async function executeNode<TInput, TOutput>(
   node: NodeDefinition<TInput, TOutput>,
@@ -29,9 +40,13 @@ export async function executeNode<TInput, TOutput>(
     const { store, ttlMs, keyFn } = config.cache;
     const cacheKey = (keyFn ?? defaultKeyFn)(validatedInput);
     const cached = await store.get<NodeExecutionResult<TOutput>>(cacheKey);
-    if (cached) return cached;
+    context.span?.setAttribute('jam.cache.hit', cached !== undefined);
+    if (cached) {
+      config.onCacheHit?.(cacheKey);
+      return cached;
+    }
 
-    const result = await executeWithRetry(node, validatedInput, context, config);
+    const result = checkOutput(node, await executeWithRetry(node, validatedInput, context, config), config);
 
     if (result.success) {
       await store.set(cacheKey, result, ttlMs);
@@ -40,7 +55,42 @@ export async function executeNode<TInput, TOutput>(
     return result;
   }
 
-  return executeWithRetry(node, validatedInput, context, config);
+  return checkOutput(node, await executeWithRetry(node, validatedInput, context, config), config);
+}
+
+/**
+ * Apply the configured validateOutput mode to a successful result.
+ * Results waiting for approval are not checked (their output is not final).
+ */
+function checkOutput<TInput, TOutput>(
+  node: NodeDefinition<TInput, TOutput>,
+  result: NodeExecutionResult<TOutput>,
+  config?: ExecutionConfig,
+): NodeExecutionResult<TOutput> {
+  const mode = config?.validateOutput;
+  if (!mode || !result.success || result.needsApproval) return result;
+
+  const parsed = node.outputSchema.safeParse(result.output);
+  if (parsed.success) {
+    return mode === 'coerce' ? { ...result, output: parsed.data as TOutput } : result;
+  }
+
+  const issues: OutputValidationIssue[] = parsed.error.issues.map((issue) => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+  }));
+
+  if (mode === 'warn') {
+    config.onInvalidOutput?.(issues);
+    return result;
+  }
+
+  const details = issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ');
+  return {
+    success: false,
+    error: `Invalid output from node "${node.type}": ${details}`,
+    errorCode: 'INVALID_OUTPUT',
+  };
 }
 
 function defaultKeyFn(input: unknown): string {
@@ -59,15 +109,29 @@ async function executeWithRetry<TInput, TOutput>(
   const maxBackoffMs = config?.retry?.maxBackoffMs ?? Infinity;
   const retryOn = config?.retry?.retryOn;
 
+  const tracer = config?.tracer ?? context.tracer ?? noopTracer;
+
   let lastError: Error | undefined;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     if (config?.signal?.aborted) {
-      return { success: false, error: 'Execution aborted' };
+      return { success: false, error: 'Execution aborted', errorCode: 'ABORTED' };
     }
 
+    config?.onAttempt?.(attempt);
+    const span = tracer.startSpan('node.attempt', {
+      parent: context.span,
+      attributes: { 'jam.node.type': node.type, 'jam.node.attempt': attempt },
+    });
+
     try {
-      const result = await executeWithTimeout(node, input, context, config);
+      if (config?.rateLimit) {
+        const { waitedMs } = await acquireRateLimit(config.rateLimit, config.signal);
+        span.setAttribute('jam.rate_limit.waited_ms', waitedMs);
+      }
+
+      const result = await executeWithTimeout(node, input, { ...context, tracer, span }, config);
+      endAttemptSpan(span, result.success ? undefined : result.error ?? 'Node execution failed');
 
       // A non-success result with an error is treated as a retriable failure
       if (!result.success && result.error && attempt < maxAttempts) {
@@ -85,6 +149,8 @@ async function executeWithRetry<TInput, TOutput>(
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
       lastError = error;
+      span.recordException(error);
+      endAttemptSpan(span, error.message);
 
       if (attempt < maxAttempts && (!retryOn || retryOn(error))) {
         config?.onRetry?.(attempt, error);
@@ -93,13 +159,18 @@ async function executeWithRetry<TInput, TOutput>(
         continue;
       }
 
-      return { success: false, error: error.message };
+      return { success: false, error: error.message, ...errorCodeOf(err) };
     }
   }
 
   return { success: false, error: lastError?.message ?? 'Execution failed' };
 }
 
+function endAttemptSpan(span: Span, error: string | undefined): void {
+  span.setStatus(error === undefined ? { code: 'ok' } : { code: 'error', message: error });
+  span.end();
+}
+
 async function executeWithTimeout<TInput, TOutput>(
   node: NodeDefinition<TInput, TOutput>,
   input: TInput,
@@ -123,7 +194,7 @@ async function executeWithTimeout<TInput, TOutput>(
     promises.push(
       new Promise<NodeExecutionResult<TOutput>>((_, reject) => {
         timeoutId = setTimeout(
-          () => reject(new Error(`Execution timed out after ${timeoutMs}ms`)),
+          () => reject(codedError(`Execution timed out after ${timeoutMs}ms`, 'TIMEOUT')),
           timeoutMs,
         );
       }),
@@ -134,10 +205,10 @@ async function executeWithTimeout<TInput, TOutput>(
     promises.push(
       new Promise<NodeExecutionResult<TOutput>>((_, reject) => {
         if (signal.aborted) {
-          reject(new Error('Execution aborted'));
+          reject(codedError('Execution aborted', 'ABORTED'));
           return;
         }
-        signal.addEventListener('abort', () => reject(new Error('Execution aborted')), { once: true });
+        signal.addEventListener('abort', () => reject(codedError('Execution aborted', 'ABORTED')), { once: true });
       }),
     );
   }
@@ -148,3 +219,19 @@ async function executeWithTimeout<TInput, TOutput>(
     if (timeoutId) clearTimeout(timeoutId);
   }
 }
+
+function codedError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * @internal Extract a structured error code from a thrown error:
+ * its string `code` (e.g. 'ECONNRESET') or numeric HTTP `status` (e.g. '429').
+ */
+export function errorCodeOf(err: unknown): { errorCode?: string } {
+  if (!err || typeof err !== 'object') return {};
+  const { code, status } = err as { code?: unknown; status?: unknown };
+  if (typeof code === 'string') return { errorCode: code };
+  if (typeof status === 'number') return { errorCode: String(status) };
+  return {};
+}
@@ -4,19 +4,59 @@ import type {
   WorkflowExecutionResult,
   NodeStatus,
   ExecutionConfig,
+  ExecutionSnapshot,
+  ExecutionSnapshotStatus,
+  ExecutionStateStore,
+  WorkflowReference,
+  WorkflowRuntime,
+  WorkflowEvent,
+  WorkflowEventBase,
+  NodeExecutionMetrics,
+  OutputCollision,
 } from '../types/execution.js';
-import type { NodeExecutionResult } from '../types/node.js';
+import type {
+  NodeApprovalRequest,
+  NodeCredentials,
+  NodeDefinition,
+  NodeExecutionResult,
+} from '../types/node.js';
+import type { Span } from '../types/tracing.js';
+import { loadWorkflow } from '../workflow/document.js';
 import { ExecutionContext, prepareNodeInput } from './context.js';
-import { executeNode } from './execute-node.js';
+import { errorCodeOf, executeNode } from './execute-node.js';
+import { ConcurrencyGate } from './concurrency.js';
+import { refreshNodeCredentials, resolveNodeCredentials } from './credentials.js';
+import { interruptionOf, summarizeMetrics } from './metrics.js';
 import { topologicalSort } from './topological-sort.js';
+import { noopTracer } from '../tracing/noop.js';
+import { SecretRedactor } from '../redaction/redactor.js';
+
+const DEFAULT_MAX_WORKFLOW_DEPTH = 10;
 
 /**
  * Execute a workflow DAG with configurable retry, caching, and timeout.
  *
- * Nodes are executed in topologically-sorted waves. Independent nodes
- * within the same wave run in parallel via Promise.allSettled().
+ * Each node starts as soon as all of its upstream nodes have finished, so a
+ * slow node only delays its own downstream branch. Independent nodes run in
+ * parallel, up to `config.maxConcurrency` at once and
+ * `config.nodeTypeConcurrency[type]` per node type.
  * Each node's output is stored in the execution context so downstream
- * nodes can reference it via {{nodeId.field}} interpolation.
+ * nodes can reference it via {{nodeId.field}} interpolation. By default its
+ * keys are also merged into root variables ({{field}}); set
+ * `config.outputScoping` to 'strict' to turn that off. Root variables
+ * overwritten by another node's output are reported in `outputCollisions`.
+ *
+ * When `config.stateStore` is set, a snapshot is saved after each node
+ * completes so the run can be continued later with resumeWorkflow.
+ *
+ * When `config.credentialProvider` is set, the credentials each node declares
+ * are resolved (and refreshed) right before it runs.
+ *
+ * When `config.tracer` is set, the run is recorded as a 'workflow' span with
+ * a 'node' span per executed node; node attempts and HTTP calls nest below.
+ *
+ * Credential values and secret patterns are redacted from the returned
+ * result, events and callbacks (see `config.redaction`).
  *
  * @param workflow - The workflow DAG to execute
  * @param context - Execution context for variable interpolation and output storage
@@ -27,13 +67,155 @@ export async function executeWorkflow(
   context: ExecutionContext,
   config?: WorkflowExecutionConfig,
 ): Promise<WorkflowExecutionResult> {
-  const waves = topologicalSort(workflow);
-  const workflowExecutionId = `wf_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  const redactor = createRedactor(config);
+  const result = await runWorkflow(workflow, context, config, redactor, {
+    executionId: config?.executionId ?? generateExecutionId(),
+    startedAt: Date.now(),
+    completed: {},
+    waiting: {},
+    rejected: [],
+  });
+  return redactor.redactValue(result);
+}
+
+/**
+ * Continue a checkpointed workflow execution.
+ *
+ * Nodes that already succeeded are not run again: their results and outputs
+ * are restored from the snapshot (conditional branches they chose stay skipped).
+ * Nodes still waiting for approval keep holding their downstream branch.
+ * Every other node — failed, interrupted, or never started — runs normally.
+ * Progress keeps being saved to the same store under the same execution ID.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileExecutionStateStore('./.jam/executions');
+ * const result = await resumeWorkflow(workflow, executionId, store);
+ * ```
+ *
+ * @param workflow - The same workflow that was originally executed
+ * @param executionId - ID returned in WorkflowExecutionResult.executionId
+ * @param store - Store holding the execution's snapshot
+ * @param config - Optional execution configuration for the remaining nodes
+ * @throws Error if no snapshot exists for the execution ID
+ */
+export async function resumeWorkflow(
+  workflow: Workflow,
+  executionId: string,
+  store: ExecutionStateStore,
+  config?: WorkflowExecutionConfig,
+): Promise<WorkflowExecutionResult> {
+  const snapshot = await loadSnapshot(store, executionId);
+  return continueFromSnapshot(workflow, snapshot, store, config);
+}
+
+/**
+ * Load a snapshot or throw if the execution is unknown.
+ * @internal
+ */
+export async function loadSnapshot(
+  store: ExecutionStateStore,
+  executionId: string,
+): Promise<ExecutionSnapshot> {
+  const snapshot = await store.load(executionId);
+  if (!snapshot) {
+    throw new Error(`No saved state found for execution "${executionId}"`);
+  }
+  return snapshot;
+}
 
+/**
+ * Run the remaining nodes of a workflow from a (possibly modified) snapshot.
+ * @internal
+ */
+export async function continueFromSnapshot(
+  workflow: Workflow,
+  snapshot: ExecutionSnapshot,
+  store: ExecutionStateStore,
+  config?: WorkflowExecutionConfig,
+): Promise<WorkflowExecutionResult> {
+  const completed: Record<string, NodeExecutionResult> = {};
+  const waiting: Record<string, NodeExecutionResult> = {};
+  for (const node of workflow.nodes) {
+    const result = snapshot.results[node.id];
+    if (!result) continue;
+    if (snapshot.statuses[node.id] === 'success') {
+      completed[node.id] = result;
+    } else if (snapshot.statuses[node.id] === 'waiting_approval') {
+      waiting[node.id] = result;
+    }
+  }
+
+  const context = new ExecutionContext(snapshot.variables);
+  context.restoreOutputOwners(snapshot.outputOwners ?? {});
+
+  const redactor = createRedactor(config);
+  const result = await runWorkflow(
+    workflow,
+    context,
+    { ...config, stateStore: config?.stateStore ?? store },
+    redactor,
+    {
+      executionId: snapshot.executionId,
+      startedAt: snapshot.startedAt,
+      completed,
+      waiting,
+      rejected: snapshot.rejectedNodes ?? [],
+    },
+  );
+  return redactor.redactValue(result);
+}
+
+interface RunState {
+  executionId: string;
+  startedAt: number;
+  /** Results of nodes that already succeeded in a previous run */
+  completed: Record<string, NodeExecutionResult>;
+  /** Results of nodes still waiting for approval from a previous run */
+  waiting: Record<string, NodeExecutionResult>;
+  /** Nodes whose approval request was rejected */
+  rejected: string[];
+  /**
+   * Workflows this run is nested in, outermost first: their IDs, or undefined
+   * for workflows not resolved by ID. Empty for top-level runs.
+   */
+  parents?: Array<string | undefined>;
+}
+
+/**
+ * Run a workflow. The result keeps real values, since composite nodes pass
+ * child outputs on; callers redact it before returning it to users.
+ */
+async function runWorkflow(
+  workflow: Workflow,
+  context: ExecutionContext,
+  config: WorkflowExecutionConfig | undefined,
+  redactor: SecretRedactor,
+  state: RunState,
+): Promise<WorkflowExecutionResult> {
+  const { executionId } = state;
+  const runStartedAt = Date.now();
+  const emit = createEmitter(config, executionId, redactor);
+  const tracer = config?.tracer ?? noopTracer;
+  const workflowSpan = tracer.startSpan('workflow', {
+    parent: config?.parentSpan,
+    attributes: {
+      'jam.execution.id': executionId,
+      'jam.workflow.name': workflow.metadata?.name,
+      'jam.workflow.nodes': workflow.nodes.length,
+    },
+  });
+
+  const gate = new ConcurrencyGate(config?.maxConcurrency, config?.nodeTypeConcurrency);
   const nodeMap = new Map(workflow.nodes.map((n) => [n.id, n]));
   const statuses: Record<string, NodeStatus> = {};
+  const metrics: Record<string, NodeExecutionMetrics> = {};
   const results: Record<string, NodeExecutionResult> = {};
   const skippedNodes = new Set<string>();
+  // Nodes downstream of a pending approval: left idle until it is resolved
+  const heldNodes = new Set<string>();
+  const pendingApprovals: Record<string, NodeApprovalRequest> = {};
+  const outputCollisions: OutputCollision[] = [];
 
   // Build a map of downstream nodes for skip propagation
   const downstreamOf = new Map<string, string[]>();
@@ -51,72 +233,224 @@ export async function executeWorkflow(
     edgesFrom.set(edge.from, list);
   }
 
-  for (const id of nodeMap.keys()) {
+  const skipUntakenBranches = (nodeId: string, nextNodeId: string): void => {
+    const edges = edgesFrom.get(nodeId) ?? [];
+    for (const edge of edges) {
+      if (edge.condition && edge.condition !== nextNodeId) {
+        skippedNodes.add(edge.to);
+        markDownstreamSkipped(edge.to, skippedNodes, downstreamOf);
+      }
+    }
+  };
+
+  for (const [id, node] of nodeMap) {
     statuses[id] = 'idle';
+    metrics[id] = { nodeType: node.type, status: 'idle', attempts: 0 };
   }
 
-  for (const wave of waves) {
-    const wavePromises = wave.map(async (nodeId) => {
-      if (skippedNodes.has(nodeId)) {
-        statuses[nodeId] = 'skipped';
-        return;
-      }
+  // Restore nodes that succeeded in a previous run
+  for (const [id, result] of Object.entries(state.completed)) {
+    statuses[id] = 'success';
+    results[id] = result;
+    if (result.nextNodeId) {
+      skipUntakenBranches(id, result.nextNodeId);
+    }
+  }
 
-      if (config?.signal?.aborted) {
-        statuses[nodeId] = 'skipped';
-        return;
-      }
+  for (const [id, result] of Object.entries(state.waiting)) {
+    statuses[id] = 'waiting_approval';
+    results[id] = result;
+    if (result.needsApproval) {
+      pendingApprovals[id] = result.needsApproval;
+    }
+    markDownstreamSkipped(id, heldNodes, downstreamOf);
+  }
 
-      const workflowNode = nodeMap.get(nodeId);
-      if (!workflowNode) {
-        statuses[nodeId] = 'error';
-        results[nodeId] = { success: false, error: `Node "${nodeId}" not found in workflow` };
+  // Rejected nodes stay failed and are not run again; their downstream is skipped
+  for (const id of state.rejected) {
+    if (!nodeMap.has(id)) continue;
+    statuses[id] = 'error';
+    results[id] = {
+      success: false,
+      error: `Approval for node "${id}" was rejected`,
+      errorCode: 'APPROVAL_REJECTED',
+    };
+    markDownstreamSkipped(id, skippedNodes, downstreamOf);
+  }
+
+  const store = config?.stateStore;
+  let saving: Promise<void> = Promise.resolve();
+  let saveError: Error | undefined;
+  const checkpoint = (status: ExecutionSnapshotStatus): void => {
+    if (!store) return;
+    const snapshot = {
+      executionId,
+      status,
+      statuses: { ...statuses },
+      results: { ...results },
+      variables: context.getAllVariables(),
+      outputOwners: context.getOutputOwners(),
+      ...(state.rejected.length > 0 && { rejectedNodes: [...state.rejected] }),
+      startedAt: state.startedAt,
+      updatedAt: Date.now(),
+    };
+    // Saves are serialized so snapshots land in order. A failed save is
+    // reported without stopping later ones or failing the nodes that ran.
+    saving = saving
+      .then(() => store.save(snapshot))
+      .catch((err: unknown) => {
+        const error = redactor.redactError(err instanceof Error ? err : new Error(String(err)));
+        saveError ??= error;
+        emit({ type: 'checkpoint_failed', status, error: error.message });
+      });
+  };
+
+  checkpoint('running');
+  emit({ type: 'workflow_started' });
+
+  const skipAborted = (nodeId: string): void => {
+    statuses[nodeId] = 'skipped';
+    if (metrics[nodeId]) metrics[nodeId].interrupted = 'aborted';
+    emit({ type: 'node_skipped', nodeId, nodeType: nodeMap.get(nodeId)?.type ?? '' });
+  };
+
+  const runNode = async (nodeId: string): Promise<void> => {
+    if (nodeId in state.completed || nodeId in state.waiting || state.rejected.includes(nodeId)) {
+      return;
+    }
+
+    if (skippedNodes.has(nodeId)) {
+      statuses[nodeId] = 'skipped';
+      emit({ type: 'node_skipped', nodeId, nodeType: nodeMap.get(nodeId)?.type ?? '' });
+      return;
+    }
+
+    if (heldNodes.has(nodeId)) {
+      return;
+    }
+
+    if (config?.signal?.aborted) {
+      skipAborted(nodeId);
+      return;
+    }
+
+    const workflowNode = nodeMap.get(nodeId);
+    if (!workflowNode) {
+      statuses[nodeId] = 'error';
+      results[nodeId] = { success: false, error: `Node "${nodeId}" not found in workflow` };
+      return;
+    }
+
+    const nodeType = workflowNode.type;
+    const nodeMetrics = metrics[nodeId]!;
+    nodeMetrics.queuedAt = Date.now();
+    emit({ type: 'node_queued', nodeId, nodeType });
+
+    const release = await gate.acquire(nodeType);
+    try {
+      if (config?.signal?.aborted) {
+        skipAborted(nodeId);
         return;
       }
 
       statuses[nodeId] = 'running';
-      config?.onNodeStart?.(nodeId, workflowNode.type);
+      config?.onNodeStart?.(nodeId, nodeType);
+      emit({ type: 'node_started', nodeId, nodeType });
+      const nodeStartedAt = Date.now();
+      nodeMetrics.startedAt = nodeStartedAt;
+      nodeMetrics.queueMs = nodeStartedAt - nodeMetrics.queuedAt;
 
       // Resolve per-node config: merge base config with node-specific overrides
-      const nodeConfig = resolveNodeConfig(config, workflowNode.type);
-
-      // Interpolate variables into the node input
-      const interpolatedInput = prepareNodeInput(workflowNode.input, context);
+      const nodeConfig = observeNodeConfig(
+        resolveNodeConfig(config, nodeType),
+        config,
+        emit,
+        redactor,
+        nodeId,
+        nodeType,
+        nodeMetrics,
+      );
 
-      const nodeContext = context.toNodeContext(config?.userId ?? '', workflowExecutionId);
+      const nodeSpan = tracer.startSpan('node', {
+        parent: workflowSpan,
+        attributes: { 'jam.node.id': nodeId, 'jam.node.type': nodeType },
+      });
+      const nodeContext = {
+        ...context.toNodeContext(config?.userId ?? '', executionId),
+        runtime: createRuntime(nodeId, executionId, config, redactor, nodeSpan, state.parents),
+        tracer,
+        span: nodeSpan,
+      };
 
       try {
-        const result = await executeNode(
-          workflowNode.node,
-          interpolatedInput,
-          nodeContext,
-          nodeConfig,
+        // Interpolate variables into the node input (invalid templates fail the node unless lenient)
+        const interpolatedInput = prepareNodeInput(
+          workflowNode.input,
+          context,
+          workflowNode.node.rawInputKeys,
+          { lenient: config?.lenientTemplates },
+        );
+
+        const result = await executeWithCredentials(workflowNode.node, config, redactor, (credentials) =>
+          executeNode(
+            workflowNode.node,
+            interpolatedInput,
+            { ...nodeContext, credentials },
+            nodeConfig,
+          ),
         );
 
         results[nodeId] = result as NodeExecutionResult;
+        const reported = redactor.redactValue(result as NodeExecutionResult);
 
-        if (result.success) {
+        if (result.success && result.needsApproval) {
+          // Suspend this branch until approveNode/rejectNode is called
+          statuses[nodeId] = 'waiting_approval';
+          pendingApprovals[nodeId] = result.needsApproval;
+          markDownstreamSkipped(nodeId, heldNodes, downstreamOf);
+          config?.onNodeApprovalRequired?.(nodeId, reported.needsApproval!);
+          emit({
+            type: 'node_waiting_approval',
+            nodeId,
+            nodeType,
+            request: result.needsApproval,
+            durationMs: Date.now() - nodeStartedAt,
+          });
+        } else if (result.success) {
           statuses[nodeId] = 'success';
-          config?.onNodeComplete?.(nodeId, result as NodeExecutionResult);
+          config?.onNodeComplete?.(nodeId, reported);
+          emit({
+            type: 'node_succeeded',
+            nodeId,
+            nodeType,
+            result: result as NodeExecutionResult,
+            durationMs: Date.now() - nodeStartedAt,
+          });
 
           if (result.output !== undefined) {
-            context.storeNodeOutput(nodeId, result.output);
+            const collisions = context.storeNodeOutput(nodeId, result.output, config?.outputScoping);
+            if (collisions.length > 0) {
+              outputCollisions.push(...collisions);
+              emit({ type: 'node_output_collision', nodeId, nodeType, collisions });
+            }
           }
 
           // Handle conditional branching: skip branches not taken
           if (result.nextNodeId) {
-            const edges = edgesFrom.get(nodeId) ?? [];
-            for (const edge of edges) {
-              if (edge.condition && edge.condition !== result.nextNodeId) {
-                skippedNodes.add(edge.to);
-                markDownstreamSkipped(edge.to, skippedNodes, downstreamOf);
-              }
-            }
+            skipUntakenBranches(nodeId, result.nextNodeId);
           }
         } else {
           statuses[nodeId] = 'error';
-          const error = new Error(result.error ?? 'Node execution failed');
+          const error = new Error(reported.error ?? 'Node execution failed');
           config?.onNodeError?.(nodeId, error);
+          emit({
+            type: 'node_failed',
+            nodeId,
+            nodeType,
+            error: error.message,
+            ...(result.errorCode && { errorCode: result.errorCode }),
+            durationMs: Date.now() - nodeStartedAt,
+          });
 
           if (config?.stopOnError !== false) {
             markDownstreamSkipped(nodeId, skippedNodes, downstreamOf);
@@ -124,23 +458,380 @@ export async function executeWorkflow(
         }
       } catch (err) {
         statuses[nodeId] = 'error';
-        const error = err instanceof Error ? err : new Error(String(err));
-        results[nodeId] = { success: false, error: error.message };
+        const error = redactor.redactError(err instanceof Error ? err : new Error(String(err)));
+        results[nodeId] = { success: false, error: error.message, ...errorCodeOf(err) };
         config?.onNodeError?.(nodeId, error);
+        emit({
+          type: 'node_failed',
+          nodeId,
+          nodeType,
+          error: error.message,
+          ...errorCodeOf(err),
+          durationMs: Date.now() - nodeStartedAt,
+        });
 
         if (config?.stopOnError !== false) {
           markDownstreamSkipped(nodeId, skippedNodes, downstreamOf);
         }
       }
-    });
 
-    await Promise.allSettled(wavePromises);
-  }
+      nodeMetrics.finishedAt = Date.now();
+      nodeMetrics.durationMs = nodeMetrics.finishedAt - nodeStartedAt;
+      if (nodeConfig?.cache?.enabled && !nodeMetrics.cache && nodeMetrics.attempts > 0) {
+        nodeMetrics.cache = 'miss';
+      }
+      const interrupted = interruptionOf(results[nodeId]?.errorCode);
+      if (interrupted) nodeMetrics.interrupted = interrupted;
+
+      endNodeSpan(nodeSpan, statuses[nodeId]!, results[nodeId], redactor);
+      checkpoint('running');
+    } finally {
+      release();
+    }
+  };
+
+  // Errors escaping runNode come from callbacks or the tracer, outside the
+  // node's own error handling. They fail the node unless it already failed;
+  // callbacks are not called again, since they may be what threw.
+  const failEscaped = (nodeId: string, err: unknown): void => {
+    if (statuses[nodeId] !== 'error') {
+      const error = redactor.redactError(err instanceof Error ? err : new Error(String(err)));
+      statuses[nodeId] = 'error';
+      results[nodeId] = { success: false, error: error.message, ...errorCodeOf(err) };
+      if (config?.stopOnError !== false) {
+        markDownstreamSkipped(nodeId, skippedNodes, downstreamOf);
+      }
+    }
+    checkpoint('running');
+  };
+
+  await runInDependencyOrder(workflow, runNode, failEscaped);
 
   const allStatuses = Object.values(statuses);
   const success = allStatuses.every((s) => s === 'success' || s === 'skipped');
+  const waiting = Object.keys(pendingApprovals).length > 0;
+
+  const finalStatus: ExecutionSnapshotStatus = success ? 'completed'
+    : allStatuses.includes('error') || !waiting ? 'failed'
+    : 'waiting_approval';
+  checkpoint(finalStatus);
+  await saving;
+
+  workflowSpan.setAttribute('jam.workflow.status', finalStatus);
+  workflowSpan.setStatus({ code: finalStatus === 'failed' ? 'error' : 'ok' });
+  workflowSpan.end();
+
+  for (const [id, status] of Object.entries(statuses)) {
+    if (metrics[id]) metrics[id].status = status;
+  }
+
+  const result: WorkflowExecutionResult = {
+    success,
+    results,
+    statuses,
+    executionId,
+    ...(saveError && { error: `Failed to save execution state: ${saveError.message}` }),
+    ...(waiting && { pendingApprovals }),
+    ...(outputCollisions.length > 0 && { outputCollisions }),
+    metrics: summarizeMetrics(metrics, runStartedAt, Date.now()),
+  };
+  emit({ type: 'workflow_finished', result, durationMs: Date.now() - runStartedAt });
+
+  return result;
+}
+
+/** A WorkflowEvent without the fields filled in by the emitter. */
+type WorkflowEventInput<E = WorkflowEvent> = E extends WorkflowEvent
+  ? Omit<E, keyof WorkflowEventBase>
+  : never;
+
+function createEmitter(
+  config: WorkflowExecutionConfig | undefined,
+  executionId: string,
+  redactor: SecretRedactor,
+): (event: WorkflowEventInput) => void {
+  return (event) => {
+    if (!config?.onEvent) return;
+    config.onEvent(
+      redactor.redactValue({ ...event, executionId, timestamp: Date.now() } as WorkflowEvent),
+    );
+  };
+}
+
+/**
+ * The redactor for a run, knowing the static `config.credentials`. Credentials
+ * resolved for each node are added as the run goes, and child runs share it.
+ */
+function createRedactor(config: WorkflowExecutionConfig | undefined): SecretRedactor {
+  const option = config?.redaction;
+  const redactor = option instanceof SecretRedactor ? option
+    : option === false ? new SecretRedactor({ patterns: [], minSecretLength: Infinity })
+    : new SecretRedactor(option);
+  redactor.addSecrets(config?.credentials);
+  return redactor;
+}
+
+/**
+ * Hook a node's attempt, retry, cache and output validation callbacks so they
+ * are also reported as events and, when given, recorded in the node's metrics.
+ */
+function observeNodeConfig(
+  nodeConfig: ExecutionConfig | undefined,
+  config: WorkflowExecutionConfig | undefined,
+  emit: (event: WorkflowEventInput) => void,
+  redactor: SecretRedactor,
+  nodeId: string,
+  nodeType: string,
+  metrics?: NodeExecutionMetrics,
+): ExecutionConfig | undefined {
+  if (!metrics && !nodeConfig) return nodeConfig;
+
+  return {
+    ...nodeConfig,
+    onAttempt: (attempt) => {
+      nodeConfig?.onAttempt?.(attempt);
+      if (metrics) metrics.attempts = attempt;
+    },
+    onRetry: (attempt, error) => {
+      const redacted = redactor.redactError(error);
+      nodeConfig?.onRetry?.(attempt, redacted);
+      emit({ type: 'node_retrying', nodeId, nodeType, attempt, error: redacted.message });
+    },
+    onCacheHit: (cacheKey) => {
+      nodeConfig?.onCacheHit?.(cacheKey);
+      if (metrics) metrics.cache = 'hit';
+      emit({ type: 'node_cache_hit', nodeId, nodeType, cacheKey });
+    },
+    onInvalidOutput: (issues) => {
+      nodeConfig?.onInvalidOutput?.(issues);
+      emit({ type: 'node_output_invalid', nodeId, nodeType, issues });
+    },
+  };
+}
+
+/**
+ * Run a node with the credentials it declares. When it fails with errorCode
+ * '401', its credentials are refreshed (see refreshNodeCredentials) and it
+ * runs once more.
+ */
+async function executeWithCredentials(
+  node: NodeDefinition,
+  config: WorkflowExecutionConfig | undefined,
+  redactor: SecretRedactor,
+  run: (credentials: NodeCredentials | undefined) => Promise<NodeExecutionResult>,
+): Promise<NodeExecutionResult> {
+  const credentials = await resolveNodeCredentials(node, config);
+  redactor.addSecrets(credentials);
+  const result = await run(credentials);
+  if (result.success || result.errorCode !== '401') {
+    return result;
+  }
+
+  const refreshed = await refreshNodeCredentials(node, credentials, config);
+  if (!refreshed) {
+    return result;
+  }
+  redactor.addSecrets(refreshed);
+  return run(refreshed);
+}
+
+function endNodeSpan(
+  span: Span,
+  status: NodeStatus,
+  result: NodeExecutionResult | undefined,
+  redactor: SecretRedactor,
+): void {
+  span.setAttribute('jam.node.status', status);
+  span.setStatus(
+    status === 'error'
+      ? { code: 'error', message: result?.error && redactor.redact(result.error) }
+      : { code: 'ok' },
+  );
+  span.end();
+}
+
+function generateExecutionId(): string {
+  return `wf_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function createRuntime(
+  nodeId: string,
+  executionId: string,
+  config: WorkflowExecutionConfig | undefined,
+  redactor: SecretRedactor,
+  span: Span,
+  parents: Array<string | undefined> = [],
+): WorkflowRuntime {
+  let childRuns = 0;
+  const nested = (id: string) => `${nodeId}/${id}`;
+  const emit = createEmitter(config, executionId, redactor);
+  // IDs of the workflows this node resolved, so their runs extend `parents`
+  const resolvedIds = new WeakMap<Workflow, string>();
+
+  return {
+    nodeId,
+    signal: config?.signal,
+    rateLimitStore: config?.rateLimitStore,
+    resolveWorkflow: async (ref) => {
+      if (typeof ref === 'string' && parents.includes(ref)) {
+        const chain = [...parents.slice(parents.indexOf(ref)), ref].map((id) => id ?? '(inline)');
+        throw new Error(`Workflow "${ref}" calls itself (${chain.join(' → ')})`);
+      }
+      const workflow = await resolveWorkflowReference(ref, config);
+      if (typeof ref === 'string') resolvedIds.set(workflow, ref);
+      return workflow;
+    },
+    executeWorkflow: async (workflow, variables = {}, options = {}) => {
+      const maxDepth = config?.maxWorkflowDepth ?? DEFAULT_MAX_WORKFLOW_DEPTH;
+      if (parents.length >= maxDepth) {
+        throw new Error(`Workflows are nested more than ${maxDepth} levels deep (see maxWorkflowDepth)`);
+      }
+      childRuns++;
+      const prefix = options.id !== undefined ? nested(options.id) : nodeId;
+      const childExecutionId = `${executionId}/${prefix}${childRuns > 1 && options.id === undefined ? `#${childRuns}` : ''}`;
+      const childContext = new ExecutionContext(variables);
+      const result = await runWorkflow(
+        workflow,
+        childContext,
+        nestConfig(config, prefix, childExecutionId, span),
+        redactor,
+        {
+          executionId: childExecutionId,
+          startedAt: Date.now(),
+          completed: {},
+          waiting: {},
+          rejected: [],
+          parents: [...parents, resolvedIds.get(workflow)],
+        },
+      );
+      return { ...result, variables: childContext.getAllVariables() };
+    },
+    executeNode: async (type, input, options = {}) => {
+      const definition = config?.registry?.getDefinition(type);
+      if (!definition) {
+        return {
+          success: false,
+          error: config?.registry
+            ? `Node type "${type}" is not registered`
+            : `Cannot execute node type "${type}": no registry in the execution config`,
+        };
+      }
+
+      const childId = nested(options.id ?? type);
+      const childContext = new ExecutionContext(options.variables ?? {});
+      const childSpan = (config?.tracer ?? noopTracer).startSpan('node', {
+        parent: span,
+        attributes: { 'jam.node.id': childId, 'jam.node.type': type },
+      });
+      const nodeContext = {
+        ...childContext.toNodeContext(config?.userId ?? '', executionId),
+        runtime: createRuntime(childId, executionId, config, redactor, childSpan, parents),
+        tracer: config?.tracer ?? noopTracer,
+        span: childSpan,
+      };
 
-  return { success, results, statuses };
+      config?.onNodeStart?.(childId, type);
+      emit({ type: 'node_started', nodeId: childId, nodeType: type });
+      const startedAt = Date.now();
+      let result: NodeExecutionResult;
+      try {
+        const childInput = prepareNodeInput(input, childContext, definition.rawInputKeys, {
+          lenient: config?.lenientTemplates,
+        });
+        const childConfig = observeNodeConfig(resolveNodeConfig(config, type), config, emit, redactor, childId, type);
+        result = await executeWithCredentials(definition, config, redactor, (credentials) =>
+          executeNode(definition, childInput, { ...nodeContext, credentials }, childConfig),
+        );
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        result = { success: false, error: error.message, ...errorCodeOf(err) };
+      }
+
+      // The calling node gets the real result; callbacks get the redacted one
+      const reported = redactor.redactValue(result);
+      const durationMs = Date.now() - startedAt;
+      if (result.success) {
+        config?.onNodeComplete?.(childId, reported);
+        emit({ type: 'node_succeeded', nodeId: childId, nodeType: type, result, durationMs });
+      } else {
+        const error = reported.error ?? 'Node execution failed';
+        config?.onNodeError?.(childId, new Error(error));
+        emit({
+          type: 'node_failed',
+          nodeId: childId,
+          nodeType: type,
+          error,
+          ...(result.errorCode && { errorCode: result.errorCode }),
+          durationMs,
+        });
+      }
+      endNodeSpan(childSpan, result.success ? 'success' : 'error', result, redactor);
+      return result;
+    },
+  };
+}
+
+/**
+ * Derive the config for a child workflow: same user, credentials, signal and
+ * overrides, with callbacks reporting nested node IDs (e.g. 'notify/send')
+ * and spans nested under the parent node's span.
+ * Child runs are not checkpointed; the parent node's result is. Their own
+ * workflow_started/workflow_finished events are not passed on, so the parent
+ * stream has exactly one of each.
+ */
+function nestConfig(
+  config: WorkflowExecutionConfig | undefined,
+  prefix: string,
+  executionId: string,
+  parentSpan: Span,
+): WorkflowExecutionConfig {
+  const nested = (childId: string) => `${prefix}/${childId}`;
+
+  return {
+    ...config,
+    executionId,
+    stateStore: undefined,
+    parentSpan,
+    onNodeStart: config?.onNodeStart &&
+      ((id, type) => config.onNodeStart!(nested(id), type)),
+    onNodeComplete: config?.onNodeComplete &&
+      ((id, result) => config.onNodeComplete!(nested(id), result)),
+    onNodeError: config?.onNodeError &&
+      ((id, error) => config.onNodeError!(nested(id), error)),
+    onNodeApprovalRequired: config?.onNodeApprovalRequired &&
+      ((id, request) => config.onNodeApprovalRequired!(nested(id), request)),
+    onEvent: config?.onEvent &&
+      ((event) => {
+        if ('nodeId' in event) config.onEvent!({ ...event, nodeId: nested(event.nodeId) });
+      }),
+  };
+}
+
+async function resolveWorkflowReference(
+  ref: WorkflowReference,
+  config: WorkflowExecutionConfig | undefined,
+): Promise<Workflow> {
+  let resolved = ref;
+
+  if (typeof resolved === 'string') {
+    if (!config?.workflowProvider) {
+      throw new Error(`Cannot resolve workflow "${resolved}": no workflowProvider configured`);
+    }
+    const found = await config.workflowProvider.getWorkflow(resolved);
+    if (!found) {
+      throw new Error(`Workflow "${resolved}" not found`);
+    }
+    resolved = found;
+  }
+
+  if ('formatVersion' in resolved) {
+    if (!config?.registry) {
+      throw new Error('Loading a workflow document requires a registry in the execution config');
+    }
+    return loadWorkflow(resolved, config.registry);
+  }
+
+  return resolved;
 }
 
 function resolveNodeConfig(
@@ -150,26 +841,36 @@ function resolveNodeConfig(
   if (!config) return undefined;
 
   const override = config.nodeConfig?.[nodeType];
-  if (!override) {
-    return extractBaseConfig(config);
+  const base = extractBaseConfig(config);
+  const merged: ExecutionConfig = override
+    ? {
+        ...base,
+        ...override,
+        retry: override.retry ?? base?.retry,
+        cache: override.cache ?? base?.cache,
+        rateLimit: override.rateLimit ?? base?.rateLimit,
+      }
+    : base;
+
+  // Limiters without their own store share the execution's default store
+  if (merged.rateLimit && !merged.rateLimit.store && config.rateLimitStore) {
+    merged.rateLimit = { ...merged.rateLimit, store: config.rateLimitStore };
   }
 
-  const base = extractBaseConfig(config);
-  return {
-    ...base,
-    ...override,
-    retry: override.retry ?? base?.retry,
-    cache: override.cache ?? base?.cache,
-  };
+  return merged;
 }
 
 function extractBaseConfig(config: WorkflowExecutionConfig): ExecutionConfig {
   return {
     retry: config.retry,
     cache: config.cache,
+    rateLimit: config.rateLimit,
     timeout: config.timeout,
     signal: config.signal,
     onRetry: config.onRetry,
+    tracer: config.tracer,
+    validateOutput: config.validateOutput,
+    onInvalidOutput: config.onInvalidOutput,
   };
 }
 
@@ -186,3 +887,50 @@ function markDownstreamSkipped(
     }
   }
 }
+
+/**
+ * Run every node once, starting each as soon as all of its upstream nodes
+ * have finished (whatever their outcome) rather than waiting for a whole
+ * topological wave. Resolves when every node has finished; a rejected `run`
+ * is reported to `onError` and its downstream nodes still start.
+ *
+ * @throws Error if the workflow graph contains a cycle
+ */
+async function runInDependencyOrder(
+  workflow: Workflow,
+  run: (nodeId: string) => Promise<void>,
+  onError: (nodeId: string, err: unknown) => void,
+): Promise<void> {
+  // Only used to reject cycles before anything runs
+  topologicalSort(workflow);
+
+  const remaining = new Map(workflow.nodes.map((n) => [n.id, 0]));
+  const downstreamOf = new Map<string, string[]>();
+  for (const edge of workflow.edges) {
+    remaining.set(edge.to, (remaining.get(edge.to) ?? 0) + 1);
+    downstreamOf.set(edge.from, [...(downstreamOf.get(edge.from) ?? []), edge.to]);
+  }
+
+  await new Promise<void>((resolve) => {
+    let active = 0;
+
+    const start = (nodeId: string): void => {
+      active++;
+      run(nodeId)
+        .catch((err: unknown) => onError(nodeId, err))
+        .finally(() => {
+          active--;
+          for (const next of downstreamOf.get(nodeId) ?? []) {
+            const left = remaining.get(next)! - 1;
+            remaining.set(next, left);
+            if (left === 0) start(next);
+          }
+          if (active === 0) resolve();
+        });
+    };
+
+    const roots = [...remaining].filter(([, count]) => count === 0).map(([id]) => id);
+    if (roots.length === 0) resolve();
+    roots.forEach(start);
+  });
+}
@@ -3,7 +3,12 @@ export {
   createExecutionContext,
   prepareNodeInput,
 } from './context.js';
+export type { InterpolateOptions } from './context.js';
 
 export { executeNode } from './execute-node.js';
-export { executeWorkflow } from './execute-workflow.js';
+export { MissingCredentialsError, refreshNodeCredentials, resolveNodeCredentials } from './credentials.js';
+export { executeWorkflow, resumeWorkflow } from './execute-workflow.js';
+export { executeWorkflowStream } from './stream.js';
+export { approveNode, rejectNode } from './approval.js';
 export { MemoryCacheStore } from './memory-cache.js';
+export { MemoryExecutionStateStore, FileExecutionStateStore } from './state-store.js';
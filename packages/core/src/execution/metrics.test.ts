@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { NodeExecutionMetrics, Workflow, WorkflowExecutionConfig, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { executeWorkflow } from './execute-workflow';
+import { MemoryCacheStore } from './memory-cache';
+import { summarizeMetrics } from './metrics';
+
+const step = (type: string, run: (attempt: number) => boolean, ms = 0) => {
+  let attempts = 0;
+  return defineNode({
+    type,
+    name: type,
+    description: 'Succeeds when `run` returns true',
+    category: 'action',
+    inputSchema: z.object({}),
+    outputSchema: z.object({}),
+    executor: async () => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return run(++attempts) ? { success: true, output: {} } : { success: false, error: `${type} failed` };
+    },
+  }) as WorkflowNode['node'];
+};
+
+/** cached → retried, cached → failing → after */
+function createWorkflow(): Workflow {
+  return {
+    entryNodeId: 'cached',
+    nodes: [
+      { id: 'cached', type: 'cached', node: step('cached', () => true), input: {} },
+      { id: 'retried', type: 'retried', node: step('retried', (attempt) => attempt > 1), input: {} },
+      { id: 'failing', type: 'failing', node: step('failing', () => false), input: {} },
+      { id: 'after', type: 'after', node: step('after', () => true), input: {} },
+    ],
+    edges: [
+      { from: 'cached', to: 'retried' },
+      { from: 'cached', to: 'failing' },
+      { from: 'failing', to: 'after' },
+    ],
+  };
+}
+
+describe('workflow metrics', () => {
+  it('count attempts, retries, failures and cache outcomes per run', async () => {
+    const config: WorkflowExecutionConfig = {
+      nodeConfig: {
+        cached: { cache: { enabled: true, store: new MemoryCacheStore() } },
+        retried: { retry: { maxAttempts: 2, backoffMs: 0 } },
+      },
+    };
+
+    const first = await executeWorkflow(createWorkflow(), new ExecutionContext(), config);
+
+    expect(first.metrics.nodes).toMatchObject({
+      cached: { nodeType: 'cached', status: 'success', attempts: 1, cache: 'miss' },
+      retried: { status: 'success', attempts: 2 },
+      failing: { status: 'error', attempts: 1 },
+      after: { status: 'skipped', attempts: 0 },
+    });
+    expect(first.metrics.nodes['retried']?.cache).toBeUndefined();
+    expect(first.metrics.totals).toMatchObject({
+      nodes: 4,
+      succeeded: 2,
+      failed: 1,
+      skipped: 1,
+      waitingApproval: 0,
+      attempts: 4,
+      retries: 1,
+      cacheHits: 0,
+      cacheMisses: 1,
+      timeouts: 0,
+      aborts: 0,
+    });
+    expect(first.metrics.wallTimeMs).toBe(first.metrics.finishedAt - first.metrics.startedAt);
+
+    const second = await executeWorkflow(createWorkflow(), new ExecutionContext(), config);
+
+    expect(second.metrics.nodes['cached']).toMatchObject({ status: 'success', attempts: 0, cache: 'hit' });
+    expect(second.metrics.totals).toMatchObject({ cacheHits: 1, cacheMisses: 0, attempts: 3 });
+  });
+
+  it('record queue and run times', async () => {
+    const { metrics } = await executeWorkflow(createWorkflow(), new ExecutionContext());
+    const cached = metrics.nodes['cached']!;
+
+    expect(cached.queuedAt).toBeLessThanOrEqual(cached.startedAt!);
+    expect(cached.startedAt).toBeLessThanOrEqual(cached.finishedAt!);
+    expect(cached.queueMs).toBe(cached.startedAt! - cached.queuedAt!);
+    expect(cached.durationMs).toBe(cached.finishedAt! - cached.startedAt!);
+    // Skipped nodes never start
+    expect(metrics.nodes['after']).not.toHaveProperty('startedAt');
+  });
+
+  it('mark timed out nodes as interrupted', async () => {
+    const { metrics } = await executeWorkflow(
+      { entryNodeId: 'slow', nodes: [{ id: 'slow', type: 'slow', node: step('slow', () => true, 200), input: {} }], edges: [] },
+      new ExecutionContext(),
+      { timeout: 20 },
+    );
+
+    expect(metrics.nodes['slow']).toMatchObject({ status: 'error', attempts: 1, interrupted: 'timeout' });
+    expect(metrics.totals).toMatchObject({ failed: 1, timeouts: 1, aborts: 0 });
+  });
+});
+
+describe('summarizeMetrics', () => {
+  it('sums node durations and picks the slowest node', () => {
+    const node = (durationMs?: number): NodeExecutionMetrics => ({ nodeType: 'step', status: 'success', attempts: 1, durationMs });
+
+    const { totals, wallTimeMs } = summarizeMetrics({ a: node(30), b: node(50), c: node() }, 100, 160);
+
+    expect(wallTimeMs).toBe(60);
+    expect(totals).toMatchObject({ nodes: 3, succeeded: 3, attempts: 3, nodeTimeMs: 80, slowestNodeId: 'b' });
+  });
+
+  it('leaves slowestNodeId unset when no node ran', () => {
+    expect(summarizeMetrics({}, 0, 0).totals.slowestNodeId).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import type {
+  NodeExecutionMetrics,
+  NodeInterruption,
+  WorkflowExecutionMetrics,
+  WorkflowMetricsSummary,
+} from '../types/execution.js';
+
+/** Map a failed result's error code to an interruption reason. */
+export function interruptionOf(errorCode: string | undefined): NodeInterruption | undefined {
+  if (errorCode === 'TIMEOUT') return 'timeout';
+  if (errorCode === 'ABORTED') return 'aborted';
+  return undefined;
+}
+
+/** Build the metrics of a finished run from its per-node metrics. */
+export function summarizeMetrics(
+  nodes: Record<string, NodeExecutionMetrics>,
+  startedAt: number,
+  finishedAt: number,
+): WorkflowExecutionMetrics {
+  const totals: WorkflowMetricsSummary = {
+    nodes: 0,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    waitingApproval: 0,
+    attempts: 0,
+    retries: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+    timeouts: 0,
+    aborts: 0,
+    nodeTimeMs: 0,
+  };
+  let slowestMs = -1;
+
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    totals.nodes++;
+    if (node.status === 'success') totals.succeeded++;
+    if (node.status === 'error') totals.failed++;
+    if (node.status === 'skipped') totals.skipped++;
+    if (node.status === 'waiting_approval') totals.waitingApproval++;
+    totals.attempts += node.attempts;
+    totals.retries += Math.max(node.attempts - 1, 0);
+    if (node.cache === 'hit') totals.cacheHits++;
+    if (node.cache === 'miss') totals.cacheMisses++;
+    if (node.interrupted === 'timeout') totals.timeouts++;
+    if (node.interrupted === 'aborted') totals.aborts++;
+
+    if (node.durationMs !== undefined) {
+      totals.nodeTimeMs += node.durationMs;
+      if (node.durationMs > slowestMs) {
+        slowestMs = node.durationMs;
+        totals.slowestNodeId = nodeId;
+      }
+    }
+  }
+
+  return {
+    startedAt,
+    finishedAt,
+    wallTimeMs: finishedAt - startedAt,
+    nodes,
+    totals,
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { Workflow, WorkflowEvent, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { executeWorkflow } from './execute-workflow';
+
+/** Returns its input as output, so tests choose which keys a node stores. */
+const emit = defineNode({
+  type: 'emit',
+  name: 'Emit',
+  description: 'Returns its input',
+  category: 'transform',
+  inputSchema: z.record(z.unknown()),
+  outputSchema: z.record(z.unknown()),
+  executor: async (input) => ({ success: true, output: input }),
+}) as WorkflowNode['node'];
+
+/** Two nodes that both return `results` and `count`, read by a report node. */
+const workflow: Workflow = {
+  entryNodeId: 'filter',
+  nodes: [
+    { id: 'filter', type: 'emit', node: emit, input: { results: [3, 4], count: 2 } },
+    { id: 'sort', type: 'emit', node: emit, input: { results: [4, 3, 2, 1], count: 4 } },
+    {
+      id: 'report', type: 'emit', node: emit,
+      input: { message: "root={{results | default: 'none'}} filter={{filter.results}} sort={{sort.results}}" },
+    },
+  ],
+  edges: [
+    { from: 'filter', to: 'sort' },
+    { from: 'sort', to: 'report' },
+  ],
+};
+
+const reportMessage = (result: Awaited<ReturnType<typeof executeWorkflow>>) =>
+  (result.results['report']?.output as { message: string }).message;
+
+describe('legacy output scoping', () => {
+  it('merges output keys into root variables and reports what they overwrite', async () => {
+    const events: WorkflowEvent[] = [];
+    const result = await executeWorkflow(workflow, new ExecutionContext({ count: 10 }), {
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(reportMessage(result)).toBe('root=4, 3, 2, 1 filter=3, 4 sort=4, 3, 2, 1');
+    expect(result.outputCollisions).toEqual([
+      { key: 'count', nodeId: 'filter' },
+      { key: 'results', nodeId: 'sort', previousNodeId: 'filter' },
+      { key: 'count', nodeId: 'sort', previousNodeId: 'filter' },
+    ]);
+    expect(events.filter((event) => event.type === 'node_output_collision')).toEqual([
+      expect.objectContaining({ nodeId: 'filter', collisions: [{ key: 'count', nodeId: 'filter' }] }),
+      expect.objectContaining({ nodeId: 'sort', collisions: result.outputCollisions!.slice(1) }),
+    ]);
+  });
+});
+
+describe('strict output scoping', () => {
+  it('stores outputs only under the node ID', async () => {
+    const events: WorkflowEvent[] = [];
+    const result = await executeWorkflow(workflow, new ExecutionContext({ count: 10 }), {
+      outputScoping: 'strict',
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(reportMessage(result)).toBe('root=none filter=3, 4 sort=4, 3, 2, 1');
+    expect(result.outputCollisions ?? []).toEqual([]);
+    expect(events.some((event) => event.type === 'node_output_collision')).toBe(false);
+  });
+});
+
+describe('ExecutionContext.storeNodeOutput', () => {
+  it('does not report a node storing its own keys again', () => {
+    const context = new ExecutionContext();
+    context.storeNodeOutput('search', { contacts: [1] });
+
+    expect(context.storeNodeOutput('search', { contacts: [2] })).toEqual([]);
+    expect(context.getOutputOwners()).toEqual({ search: 'search', contacts: 'search' });
+  });
+
+  it('reports an output key that clobbers the output stored under its own node ID', () => {
+    const context = new ExecutionContext({ results: 'input' });
+
+    expect(context.storeNodeOutput('results', { results: [1] })).toEqual([
+      { key: 'results', nodeId: 'results' },
+      { key: 'results', nodeId: 'results', previousNodeId: 'results' },
+    ]);
+    expect(context.storeNodeOutput('results', { results: [2] })).toEqual([
+      { key: 'results', nodeId: 'results', previousNodeId: 'results' },
+    ]);
+    expect(context.getVariable('results')).toEqual([2]);
+  });
+
+  it('never reports collisions in strict scoping, except over existing variables', () => {
+    const context = new ExecutionContext({ search: 'input' });
+
+    expect(context.storeNodeOutput('search', { contacts: [1] }, 'strict')).toEqual([{ key: 'search', nodeId: 'search' }]);
+    expect(context.storeNodeOutput('search', { contacts: [2] }, 'strict')).toEqual([]);
+    expect(context.hasVariable('contacts')).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { Workflow, WorkflowExecutionConfig, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { executeWorkflow } from './execute-workflow';
+
+/**
+ * Nodes that wait for `ms` and record how many nodes (and how many of their
+ * type) were running when they started.
+ */
+function createTracker() {
+  let running = 0;
+  const runningByType = new Map<string, number>();
+  const peaks = { overall: 0, byType: new Map<string, number>() };
+
+  const define = (type: string) =>
+    defineNode({
+      type,
+      name: type,
+      description: 'Waits for the given number of milliseconds',
+      category: 'action',
+      inputSchema: z.object({ ms: z.number() }),
+      outputSchema: z.object({}),
+      executor: async ({ ms }) => {
+        running++;
+        runningByType.set(type, (runningByType.get(type) ?? 0) + 1);
+        peaks.overall = Math.max(peaks.overall, running);
+        peaks.byType.set(type, Math.max(peaks.byType.get(type) ?? 0, runningByType.get(type)!));
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        running--;
+        runningByType.set(type, runningByType.get(type)! - 1);
+        return { success: true, output: {} };
+      },
+    }) as WorkflowNode['node'];
+
+  return { define, peaks };
+}
+
+/** Two independent branches: a slow monitor feeding one analyzer, a fast one feeding the other. */
+function fanOut(define: (type: string) => WorkflowNode['node']): Workflow {
+  const monitor = define('monitor');
+  const analyze = define('analyze');
+  return {
+    entryNodeId: 'slowMonitor',
+    nodes: [
+      { id: 'slowMonitor', type: 'monitor', node: monitor, input: { ms: 80 } },
+      { id: 'fastMonitor', type: 'monitor', node: monitor, input: { ms: 5 } },
+      { id: 'slowAnalyzer', type: 'analyze', node: analyze, input: { ms: 5 } },
+      { id: 'fastAnalyzer', type: 'analyze', node: analyze, input: { ms: 5 } },
+    ],
+    edges: [
+      { from: 'slowMonitor', to: 'slowAnalyzer' },
+      { from: 'fastMonitor', to: 'fastAnalyzer' },
+    ],
+  };
+}
+
+async function run(workflow: Workflow, config: WorkflowExecutionConfig = {}) {
+  const finished: string[] = [];
+  const queued: string[] = [];
+  const result = await executeWorkflow(workflow, new ExecutionContext(), {
+    ...config,
+    onNodeComplete: (nodeId) => finished.push(nodeId),
+    onEvent: (event) => {
+      if (event.type === 'node_queued') queued.push(event.nodeId);
+    },
+  });
+  return { result, finished, queued };
+}
+
+describe('executeWorkflow scheduling', () => {
+  it('starts a node as soon as its own upstream nodes finish', async () => {
+    const { define, peaks } = createTracker();
+    const { result, finished } = await run(fanOut(define));
+
+    expect(result.success).toBe(true);
+    // The fast branch completes without waiting for the slow monitor
+    expect(finished).toEqual(['fastMonitor', 'fastAnalyzer', 'slowMonitor', 'slowAnalyzer']);
+    expect(peaks.overall).toBe(2);
+  });
+
+  it('caps the number of nodes running at once with maxConcurrency', async () => {
+    const { define, peaks } = createTracker();
+    const { result, finished, queued } = await run(fanOut(define), { maxConcurrency: 1 });
+
+    expect(result.success).toBe(true);
+    expect(peaks.overall).toBe(1);
+    expect(finished).toEqual(['slowMonitor', 'fastMonitor', 'slowAnalyzer', 'fastAnalyzer']);
+    expect(queued).toContain('fastMonitor');
+    expect(result.metrics.nodes['fastMonitor']?.queueMs).toBeGreaterThan(0);
+  });
+
+  it('caps a node type without holding up other types', async () => {
+    const { define, peaks } = createTracker();
+    const { result, finished } = await run(fanOut(define), { nodeTypeConcurrency: { monitor: 1 } });
+
+    expect(result.success).toBe(true);
+    expect(peaks.byType.get('monitor')).toBe(1);
+    // The slow monitor holds the only monitor slot, so the fast branch waits for it
+    expect(finished).toEqual(['slowMonitor', 'fastMonitor', 'slowAnalyzer', 'fastAnalyzer']);
+  });
+
+  it('runs other types while one type waits for its cap', async () => {
+    const { define, peaks } = createTracker();
+    const monitor = define('monitor');
+    const analyze = define('analyze');
+    const workflow: Workflow = {
+      entryNodeId: 'm1',
+      nodes: [
+        { id: 'm1', type: 'monitor', node: monitor, input: { ms: 40 } },
+        { id: 'm2', type: 'monitor', node: monitor, input: { ms: 5 } },
+        { id: 'a1', type: 'analyze', node: analyze, input: { ms: 5 } },
+      ],
+      edges: [],
+    };
+
+    const { finished } = await run(workflow, { nodeTypeConcurrency: { monitor: 1 } });
+
+    expect(finished).toEqual(['a1', 'm1', 'm2']);
+    expect(peaks.overall).toBe(2);
+  });
+
+  it('rejects invalid caps before running anything', async () => {
+    const { define } = createTracker();
+    await expect(run(fanOut(define), { maxConcurrency: 0 })).rejects.toThrow('maxConcurrency');
+    await expect(run(fanOut(define), { nodeTypeConcurrency: { monitor: 1.5 } })).rejects.toThrow(
+      'nodeTypeConcurrency.monitor',
+    );
+  });
+
+  it('fails a node whose callbacks throw and keeps running the other branches', async () => {
+    const { define } = createTracker();
+
+    const result = await executeWorkflow(fanOut(define), new ExecutionContext(), {
+      onNodeStart: (nodeId) => {
+        if (nodeId === 'slowMonitor') throw new Error('listener crashed');
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.statuses).toEqual({
+      slowMonitor: 'error',
+      fastMonitor: 'success',
+      slowAnalyzer: 'skipped',
+      fastAnalyzer: 'success',
+    });
+    expect(result.results['slowMonitor']).toEqual({ success: false, error: 'listener crashed' });
+  });
+});
@@ -0,0 +1,159 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { ExecutionSnapshot, ExecutionStateStore, Workflow, WorkflowEvent, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { executeWorkflow, resumeWorkflow } from './execute-workflow';
+import { FileExecutionStateStore, MemoryExecutionStateStore } from './state-store';
+
+/** count → flaky → notify, where flaky fails until `flakyFails` is cleared. */
+function createResumable() {
+  const runs = { count: 0, flaky: 0, notify: 0 };
+  let flakyFails = true;
+
+  const step = (type: keyof typeof runs, run: (input: Record<string, unknown>) => Record<string, unknown> | undefined) =>
+    defineNode({
+      type,
+      name: type,
+      description: 'Counts how often it runs',
+      category: 'action',
+      inputSchema: z.record(z.unknown()),
+      outputSchema: z.record(z.unknown()),
+      executor: async (input) => {
+        runs[type]++;
+        const output = run(input);
+        return output ? { success: true, output } : { success: false, error: 'Deploy interrupted' };
+      },
+    }) as WorkflowNode['node'];
+
+  const workflow: Workflow = {
+    entryNodeId: 'count',
+    nodes: [
+      { id: 'count', type: 'count', node: step('count', () => ({ total: 3 })), input: {} },
+      { id: 'flaky', type: 'flaky', node: step('flaky', (input) => (flakyFails ? undefined : input)), input: { total: '{{count.total}}' } },
+      { id: 'notify', type: 'notify', node: step('notify', (input) => input), input: { message: 'sent {{flaky.total}}' } },
+    ],
+    edges: [
+      { from: 'count', to: 'flaky' },
+      { from: 'flaky', to: 'notify' },
+    ],
+  };
+
+  return { workflow, runs, recover: () => (flakyFails = false) };
+}
+
+describe.each([
+  ['MemoryExecutionStateStore', async () => ({ store: new MemoryExecutionStateStore(), cleanup: async () => {} })],
+  ['FileExecutionStateStore', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'jam-state-'));
+    return { store: new FileExecutionStateStore(dir), cleanup: () => rm(dir, { recursive: true, force: true }) };
+  }],
+])('resumeWorkflow with %s', (_name, createStore) => {
+  let store: ExecutionStateStore;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createStore());
+  });
+
+  afterEach(() => cleanup());
+
+  it('skips completed nodes and re-runs the failed one', async () => {
+    const { workflow, runs, recover } = createResumable();
+    const first = await executeWorkflow(workflow, new ExecutionContext(), { stateStore: store });
+
+    expect(first.statuses).toEqual({ count: 'success', flaky: 'error', notify: 'skipped' });
+    expect(await store.load(first.executionId)).toMatchObject({ status: 'failed' });
+
+    recover();
+    const resumed = await resumeWorkflow(workflow, first.executionId, store);
+
+    expect(runs).toEqual({ count: 1, flaky: 2, notify: 1 });
+    expect(resumed.executionId).toBe(first.executionId);
+    expect(resumed.statuses).toEqual({ count: 'success', flaky: 'success', notify: 'success' });
+    // Restored outputs are interpolated into the nodes that run again
+    expect(resumed.results['flaky']?.output).toEqual({ total: 3 });
+    expect(resumed.results['notify']?.output).toEqual({ message: 'sent 3' });
+    expect(resumed.metrics.nodes['count']).toMatchObject({ status: 'success', attempts: 0 });
+    expect(await store.load(first.executionId)).toMatchObject({ status: 'completed' });
+  });
+
+  it('throws for an unknown execution', async () => {
+    const { workflow } = createResumable();
+
+    await expect(resumeWorkflow(workflow, 'wf_missing', store)).rejects.toThrow(
+      'No saved state found for execution "wf_missing"',
+    );
+  });
+});
+
+describe('FileExecutionStateStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jam-state-'));
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('round-trips a snapshot and deletes it', async () => {
+    const store = new FileExecutionStateStore(join(dir, 'nested'));
+    const snapshot: ExecutionSnapshot = {
+      executionId: 'wf_1/notify',
+      status: 'waiting_approval',
+      statuses: { draft: 'waiting_approval', send: 'idle' },
+      results: { draft: { success: true, output: { body: 'Hi' }, needsApproval: { resourceIds: ['d1'], resourceType: 'email' } } },
+      variables: { draft: { body: 'Hi' }, body: 'Hi' },
+      outputOwners: { draft: 'draft', body: 'draft' },
+      rejectedNodes: ['other'],
+      startedAt: 1,
+      updatedAt: 2,
+    };
+
+    await store.save(snapshot);
+
+    expect(await store.load('wf_1/notify')).toEqual(snapshot);
+    expect(await readdir(join(dir, 'nested'))).toEqual(['wf_1%2Fnotify.json']);
+
+    await store.delete('wf_1/notify');
+    expect(await store.load('wf_1/notify')).toBeUndefined();
+  });
+
+  it('returns undefined for unknown executions', async () => {
+    expect(await new FileExecutionStateStore(dir).load('wf_missing')).toBeUndefined();
+  });
+});
+
+describe('checkpoint failures', () => {
+  it('keeps saving later snapshots and reports the failure without failing the run', async () => {
+    const { workflow, recover } = createResumable();
+    recover();
+    const saved: ExecutionSnapshot[] = [];
+    let saves = 0;
+    const store: ExecutionStateStore = {
+      save: async (snapshot) => {
+        if (++saves === 2) throw new Error('disk full');
+        saved.push(snapshot);
+      },
+      load: async () => undefined,
+      delete: async () => {},
+    };
+    const events: WorkflowEvent[] = [];
+
+    const result = await executeWorkflow(workflow, new ExecutionContext(), {
+      stateStore: store,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.error).toBe('Failed to save execution state: disk full');
+    expect(saved.map((snapshot) => snapshot.status)).toEqual(['running', 'running', 'running', 'completed']);
+    expect(events.filter((event) => event.type === 'checkpoint_failed')).toEqual([
+      expect.objectContaining({ status: 'running', error: 'disk full' }),
+    ]);
+    expect(events.at(-1)?.type).toBe('workflow_finished');
+  });
+});
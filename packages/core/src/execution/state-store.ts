@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { ExecutionSnapshot, ExecutionStateStore } from '../types/execution.js';
+
+/**
+ * Simple in-memory execution state store backed by a Map.
+ * Snapshots are cloned on save and load so callers can't mutate stored state.
+ */
+export class MemoryExecutionStateStore implements ExecutionStateStore {
+  private snapshots = new Map<string, ExecutionSnapshot>();
+
+  async save(snapshot: ExecutionSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.executionId, structuredClone(snapshot));
+  }
+
+  async load(executionId: string): Promise<ExecutionSnapshot | undefined> {
+    const snapshot = this.snapshots.get(executionId);
+    return snapshot ? structuredClone(snapshot) : undefined;
+  }
+
+  async delete(executionId: string): Promise<void> {
+    this.snapshots.delete(executionId);
+  }
+}
+
+/**
+ * Execution state store that writes one JSON file per execution.
+ * Writes go to a temporary file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated snapshot behind.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileExecutionStateStore('./.jam/executions');
+ * const result = await executeWorkflow(workflow, ctx, { stateStore: store });
+ * // ...after a crash or deploy
+ * await resumeWorkflow(workflow, result.executionId, store);
+ * ```
+ */
+export class FileExecutionStateStore implements ExecutionStateStore {
+  constructor(private readonly directory: string) {}
+
+  async save(snapshot: ExecutionSnapshot): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.pathFor(snapshot.executionId);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(snapshot), 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  async load(executionId: string): Promise<ExecutionSnapshot | undefined> {
+    try {
+      const raw = await fs.readFile(this.pathFor(executionId), 'utf-8');
+      return JSON.parse(raw) as ExecutionSnapshot;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  async delete(executionId: string): Promise<void> {
+    await fs.rm(this.pathFor(executionId), { force: true });
+  }
+
+  private pathFor(executionId: string): string {
+    return join(this.directory, `${encodeURIComponent(executionId)}.json`);
+  }
+}
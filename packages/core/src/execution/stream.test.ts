@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import type { Workflow, WorkflowEvent, WorkflowNode } from '../types';
+import { ExecutionContext } from './context';
+import { executeWorkflowStream } from './stream';
+
+const echo = defineNode({
+  type: 'echo',
+  name: 'Echo',
+  description: 'Returns its message',
+  category: 'action',
+  inputSchema: z.object({ message: z.string() }),
+  outputSchema: z.object({ message: z.string() }),
+  executor: async ({ message }) => ({ success: true, output: { message } }),
+}) as WorkflowNode['node'];
+
+const child: Workflow = {
+  entryNodeId: 'draft',
+  nodes: [
+    { id: 'draft', type: 'echo', node: echo, input: { message: 'draft for {{name}}' } },
+    { id: 'send', type: 'echo', node: echo, input: { message: '{{draft.message}} sent' } },
+  ],
+  edges: [{ from: 'draft', to: 'send' }],
+};
+
+/** Runs `child` through the runtime, like the sub_workflow node. */
+const notify = defineNode({
+  type: 'notify',
+  name: 'Notify',
+  description: 'Runs the child workflow',
+  category: 'logic',
+  inputSchema: z.object({ name: z.string() }),
+  outputSchema: z.object({ message: z.unknown() }),
+  executor: async ({ name }, context) => {
+    const result = await context.runtime!.executeWorkflow(child, { name });
+    return { success: result.success, output: { message: result.results['send']?.output } };
+  },
+}) as WorkflowNode['node'];
+
+const workflow: Workflow = {
+  entryNodeId: 'start',
+  nodes: [
+    { id: 'start', type: 'echo', node: echo, input: { message: 'start' } },
+    { id: 'notify', type: 'notify', node: notify, input: { name: 'Ada' } },
+  ],
+  edges: [{ from: 'start', to: 'notify' }],
+};
+
+// Both echo nodes return `message`; strict scoping keeps collision events out of the way
+const config = { outputScoping: 'strict' } as const;
+
+const describeEvent = (event: WorkflowEvent) => ('nodeId' in event ? `${event.type}:${event.nodeId}` : event.type);
+
+describe('executeWorkflowStream', () => {
+  it('yields nested node events in order, between one workflow_started and workflow_finished', async () => {
+    const events: WorkflowEvent[] = [];
+    for await (const event of executeWorkflowStream(workflow, new ExecutionContext(), config)) {
+      events.push(event);
+    }
+
+    expect(events.map(describeEvent)).toEqual([
+      'workflow_started',
+      'node_queued:start',
+      'node_started:start',
+      'node_succeeded:start',
+      'node_queued:notify',
+      'node_started:notify',
+      'node_queued:notify/draft',
+      'node_started:notify/draft',
+      'node_succeeded:notify/draft',
+      'node_queued:notify/send',
+      'node_started:notify/send',
+      'node_succeeded:notify/send',
+      'node_succeeded:notify',
+      'workflow_finished',
+    ]);
+
+    const finished = events.at(-1);
+    const executionId = events[0]!.executionId;
+    expect(finished).toMatchObject({ type: 'workflow_finished', executionId, result: { success: true } });
+    expect(events.find((event) => describeEvent(event) === 'node_started:notify/send')?.executionId).toBe(
+      `${executionId}/notify`,
+    );
+  });
+
+  it('passes the events to onEvent too', async () => {
+    const received: string[] = [];
+    const streamed: string[] = [];
+    for await (const event of executeWorkflowStream(workflow, new ExecutionContext(), {
+      ...config,
+      onEvent: (event) => received.push(describeEvent(event)),
+    })) {
+      streamed.push(describeEvent(event));
+    }
+
+    expect(received).toEqual(streamed);
+    expect(received.filter((type) => type === 'workflow_finished')).toHaveLength(1);
+  });
+
+  it('aborts the remaining nodes when the consumer stops early', async () => {
+    let notified = false;
+    const slow = defineNode({
+      type: 'slow',
+      name: 'Slow',
+      description: 'Waits before returning',
+      category: 'action',
+      inputSchema: z.object({}),
+      outputSchema: z.object({}),
+      executor: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return { success: true, output: {} };
+      },
+    }) as WorkflowNode['node'];
+    const tracked = { ...echo, executor: async () => ((notified = true), { success: true, output: {} }) };
+
+    for await (const event of executeWorkflowStream(
+      {
+        entryNodeId: 'slow',
+        nodes: [
+          { id: 'slow', type: 'slow', node: slow, input: {} },
+          { id: 'after', type: 'echo', node: tracked, input: { message: 'x' } },
+        ],
+        edges: [{ from: 'slow', to: 'after' }],
+      },
+      new ExecutionContext(),
+    )) {
+      if (event.type === 'node_started') break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(notified).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Workflow, WorkflowEvent, WorkflowExecutionConfig } from '../types/execution.js';
+import type { ExecutionContext } from './context.js';
+import { executeWorkflow } from './execute-workflow.js';
+
+/**
+ * Execute a workflow and stream its events as they happen.
+ *
+ * Yields a `workflow_started` event, node events (queued, started, retrying,
+ * cache hit, skipped, succeeded, waiting approval, failed) and finally a
+ * `workflow_finished` event carrying the WorkflowExecutionResult. Node events
+ * from nested runs (sub-workflows, retry and loop bodies) are included with
+ * nested node IDs; their own workflow_started/finished events are not. Lifecycle callbacks in `config` are still called.
+ *
+ * Execution starts when iteration begins. Breaking out of the loop early
+ * aborts the remaining nodes.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of executeWorkflowStream(workflow, ctx)) {
+ *   if (event.type === 'node_started') console.log(`▶ ${event.nodeId}`);
+ *   if (event.type === 'workflow_finished') console.log(event.result.success);
+ * }
+ * ```
+ *
+ * @param workflow - The workflow DAG to execute
+ * @param context - Execution context for variable interpolation and output storage
+ * @param config - Optional execution configuration with per-node overrides
+ * @throws Error if the workflow cannot be executed (e.g. it contains a cycle)
+ */
+export async function* executeWorkflowStream(
+  workflow: Workflow,
+  context: ExecutionContext,
+  config?: WorkflowExecutionConfig,
+): AsyncGenerator<WorkflowEvent, void, undefined> {
+  const queue: WorkflowEvent[] = [];
+  let wake: (() => void) | undefined;
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+
+  // Abort the run if the consumer stops iterating, or if the caller's signal aborts
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (config?.signal?.aborted) abort();
+  config?.signal?.addEventListener('abort', abort, { once: true });
+
+  executeWorkflow(workflow, context, {
+    ...config,
+    signal: controller.signal,
+    onEvent: (event) => {
+      config?.onEvent?.(event);
+      queue.push(event);
+      notify();
+    },
+  })
+    .catch((error: unknown) => {
+      failure = { error };
+    })
+    .finally(() => {
+      finished = true;
+      config?.signal?.removeEventListener('abort', abort);
+      notify();
+    });
+
+  try {
+    for (;;) {
+      const event = queue.shift();
+      if (event) {
+        yield event;
+        continue;
+      }
+      if (finished) break;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    if (!finished) abort();
+  }
+
+  if (failure) throw failure.error;
+}
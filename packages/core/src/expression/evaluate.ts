@@ -0,0 +1,87 @@
+import { builtInFilters } from './filters.js';
+import { formatValue } from './format.js';
+import type { ExpressionNode } from './parser.js';
+
+/** Resolves the variables an expression refers to. */
+export interface ExpressionScope {
+  resolveNestedPath(path: string): unknown;
+  evaluateJsonPath(path: string): unknown;
+}
+
+/**
+ * Evaluate a parsed expression. Never runs user code: only paths, literals,
+ * the built-in operators and the built-in filters are supported.
+ *
+ * `+` concatenates when either side is a string and adds otherwise; other
+ * arithmetic converts both sides to numbers. `==` and `!=` compare strictly.
+ * `&&` and `||` return one of their operands, so `a || "fallback"` works.
+ */
+export function evaluateExpression(node: ExpressionNode, scope: ExpressionScope): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return scope.resolveNestedPath(node.path);
+    case 'jsonpath':
+      return scope.evaluateJsonPath(node.path);
+    case 'unary': {
+      const operand = evaluateExpression(node.operand, scope);
+      return node.operator === '!' ? !operand : -Number(operand);
+    }
+    case 'filter':
+      return builtInFilters[node.name]!(
+        evaluateExpression(node.input, scope),
+        ...node.args.map((arg) => evaluateExpression(arg, scope)),
+      );
+    case 'binary':
+      return evaluateBinary(node, scope);
+  }
+}
+
+function evaluateBinary(
+  node: Extract<ExpressionNode, { kind: 'binary' }>,
+  scope: ExpressionScope,
+): unknown {
+  const left = evaluateExpression(node.left, scope);
+
+  // Short-circuit before evaluating the right-hand side
+  if (node.operator === '&&') return left ? evaluateExpression(node.right, scope) : left;
+  if (node.operator === '||') return left ? left : evaluateExpression(node.right, scope);
+
+  const right = evaluateExpression(node.right, scope);
+  switch (node.operator) {
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? formatValue(left) + formatValue(right)
+        : Number(left) + Number(right);
+    case '-':
+      return Number(left) - Number(right);
+    case '*':
+      return Number(left) * Number(right);
+    case '/':
+      return Number(left) / Number(right);
+    case '%':
+      return Number(left) % Number(right);
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+      return compare(left, right) < 0;
+    case '<=':
+      return compare(left, right) <= 0;
+    case '>':
+      return compare(left, right) > 0;
+    case '>=':
+      return compare(left, right) >= 0;
+  }
+}
+
+/** Compare strings lexically and everything else numerically (NaN compares false). */
+function compare(left: unknown, right: unknown): number {
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  const difference = Number(left) - Number(right);
+  return Number.isNaN(difference) ? NaN : difference;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { ExecutionContext } from '../execution/context';
+import { ExpressionError, parseExpression } from './parser';
+import { TemplateSyntaxError } from './template';
+
+const ctx = new ExecutionContext({
+  contact: { name: 'Alice', tags: ['vip', 'beta'] },
+  posts: [{ score: 0.9 }, { score: 0.4 }, { score: 0.7 }],
+  publishedAt: '2026-03-05T14:30:00Z',
+  count: 2,
+  price: 3.14159,
+  empty: '',
+  'search-contacts': { total: 7 },
+});
+
+describe('expression filters', () => {
+  it.each([
+    ['{{contact.name | upper}}', 'ALICE'],
+    ['{{contact.name | lower}}', 'alice'],
+    ['{{contact.tags | length}}', 2],
+    ['{{contact | length}}', 2],
+    ['{{missing | length}}', 0],
+    ['{{title | default: "Untitled"}}', 'Untitled'],
+    ['{{empty | default: "none"}}', 'none'],
+    ['{{count | default: 5}}', 2],
+    ['{{publishedAt | formatDate: "yyyy-MM-dd HH:mm"}}', '2026-03-05 14:30'],
+    ["{{publishedAt | formatDate: \"d 'of' M\"}}", '5 of 3'],
+    ['{{contact.tags | join: " / "}}', 'vip / beta'],
+    ['{{contact.tags | first}}', 'vip'],
+    ['{{contact.tags | last | upper}}', 'BETA'],
+    ['{{price | round: 2}}', 3.14],
+    ['{{contact.tags | json}}', '["vip","beta"]'],
+  ])('%s → %j', (template, expected) => {
+    expect(ctx.interpolate(template)).toEqual(expected);
+  });
+
+  it('returns undefined from formatDate for missing or invalid dates', () => {
+    expect(ctx.interpolate('{{missing | formatDate}}')).toBeUndefined();
+    expect(ctx.interpolate('{{contact.name | formatDate}}')).toBeUndefined();
+  });
+});
+
+describe('expression operators', () => {
+  it.each([
+    ['{{count + 1}}', 3],
+    ['{{count * 3 - 1}}', 5],
+    ['{{count / 4}}', 0.5],
+    ['{{7 % count}}', 1],
+    ['{{-count}}', -2],
+    ['{{"n=" + count}}', 'n=2'],
+    ['{{count * 3 >= 6 && contact.name == "Alice"}}', true],
+    ['{{count != 2 || !contact.name}}', false],
+    ['{{count == "2"}}', false],
+    ['{{contact.nickname || contact.name}}', 'Alice'],
+    ['{{(contact.tags | length) > 1}}', true],
+    ['{{search-contacts.total - count}}', 5],
+    ['{{$.posts[?(@.score > 0.5)] | length}}', 2],
+  ])('%s → %j', (template, expected) => {
+    expect(ctx.interpolate(template)).toEqual(expected);
+  });
+
+  it('returns the value for a single expression and a string otherwise', () => {
+    expect(ctx.interpolate('{{contact.tags}}')).toEqual(['vip', 'beta']);
+    expect(ctx.interpolate('Tags: {{contact.tags}}, next: {{count + 1}}')).toBe('Tags: vip, beta, next: 3');
+  });
+
+  it('evaluates a bare expression with evaluate()', () => {
+    expect(ctx.evaluate('posts | length')).toBe(3);
+    expect(() => ctx.evaluate('count +')).toThrow(ExpressionError);
+  });
+});
+
+describe('expression sandbox', () => {
+  it.each([
+    ['constructor.constructor("return 1")()', 'Unexpected "("'],
+    ['name | shout', 'Unknown filter "shout"'],
+    ['count +', 'Unexpected end of expression'],
+    ['count = 1', 'Unexpected'],
+  ])('rejects %s', (expression, reason) => {
+    expect(() => parseExpression(expression)).toThrow(reason);
+  });
+});
+
+describe('invalid templates', () => {
+  it('throws TemplateSyntaxError by default', () => {
+    expect(() => ctx.interpolate('{{#if vip}}')).toThrow(TemplateSyntaxError);
+    expect(() => ctx.interpolate('Hi {{contact.name')).toThrow(TemplateSyntaxError);
+    expect(() => ctx.interpolateObject({ body: ['{{count +}}'] })).toThrow('Unexpected end of expression');
+  });
+
+  it('keeps invalid {{ }} blocks as literal text when lenient', () => {
+    const lenient = { lenient: true };
+
+    expect(ctx.interpolate('{{#if vip}}Dear {{contact.name}},{{/if}}', lenient)).toBe('{{#if vip}}Dear Alice,{{/if}}');
+    expect(ctx.interpolate('Body: {"total": {{count + 1}}}', lenient)).toBe('Body: {"total": 3}');
+    expect(ctx.interpolate('Hi {{ }} there', lenient)).toBe('Hi {{ }} there');
+    expect(ctx.interpolate('Hi {{contact.name', lenient)).toBe('Hi {{contact.name');
+    expect(ctx.interpolate("Don't {{ isn't }} {{contact.name}}", lenient)).toBe("Don't {{ isn't }} Alice");
+  });
+
+  it('keeps them as text in interpolateObject too', () => {
+    expect(ctx.interpolateObject({ body: '{{> partial}}', to: ['{{contact.name}}'] }, { lenient: true })).toEqual({
+      body: '{{> partial}}',
+      to: ['Alice'],
+    });
+  });
+});
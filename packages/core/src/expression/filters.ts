@@ -0,0 +1,69 @@
+import { formatValue } from './format.js';
+
+/** A filter applied with `{{value | name: arg1, arg2}}`. */
+export type ExpressionFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * Filters available in `{{ }}` expressions.
+ *
+ * - `upper`, `lower`, `trim`: string case and whitespace
+ * - `length`: length of a string or array, key count of an object (0 for null)
+ * - `default: fallback`: fallback when the value is null, undefined or ''
+ * - `formatDate: "yyyy-MM-dd"`: format a date, ISO string or epoch ms in UTC
+ * - `join: ", "`, `first`, `last`: array helpers
+ * - `round: digits`: round a number (default 0 digits)
+ * - `json`: JSON-encode the value
+ */
+export const builtInFilters: Record<string, ExpressionFilter> = {
+  upper: (value) => formatValue(value).toUpperCase(),
+  lower: (value) => formatValue(value).toLowerCase(),
+  trim: (value) => formatValue(value).trim(),
+  length: (value) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  },
+  default: (value, fallback) =>
+    value === undefined || value === null || value === '' ? fallback : value,
+  formatDate: (value, format = 'yyyy-MM-dd') => formatDate(value, String(format)),
+  join: (value, separator = ', ') =>
+    Array.isArray(value) ? value.map((v) => formatValue(v)).join(String(separator)) : formatValue(value),
+  first: (value) => (Array.isArray(value) ? value[0] : value),
+  last: (value) => (Array.isArray(value) ? value[value.length - 1] : value),
+  round: (value, digits = 0) => {
+    const factor = 10 ** Number(digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  json: (value) => JSON.stringify(value),
+};
+
+const DATE_TOKENS = /yyyy|yy|MM|M|dd|d|HH|H|mm|ss|SSS|'[^']*'/g;
+
+/**
+ * Format a date with yyyy, yy, MM, M, dd, d, HH, H, mm, ss and SSS tokens
+ * (text in single quotes is kept as is). Returns undefined for invalid dates.
+ */
+function formatDate(value: unknown, format: string): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) return undefined;
+
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const parts: Record<string, string> = {
+    yyyy: String(date.getUTCFullYear()),
+    yy: pad(date.getUTCFullYear() % 100),
+    MM: pad(date.getUTCMonth() + 1),
+    M: String(date.getUTCMonth() + 1),
+    dd: pad(date.getUTCDate()),
+    d: String(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    H: String(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    SSS: pad(date.getUTCMilliseconds(), 3),
+  };
+
+  return format.replace(DATE_TOKENS, (token) =>
+    token.startsWith("'") ? token.slice(1, -1) : parts[token]!,
+  );
+}
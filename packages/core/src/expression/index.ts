@@ -0,0 +1,9 @@
+export { ExpressionError, parseExpression } from './parser.js';
+export type { ExpressionNode, BinaryOperator } from './parser.js';
+export { TemplateSyntaxError, parseTemplate } from './template.js';
+export type { TemplatePart, ParseTemplateOptions } from './template.js';
+export { evaluateExpression } from './evaluate.js';
+export type { ExpressionScope } from './evaluate.js';
+export { builtInFilters } from './filters.js';
+export type { ExpressionFilter } from './filters.js';
+export { formatValue } from './format.js';
@@ -0,0 +1,264 @@
+import { builtInFilters } from './filters.js';
+
+/**
+ * Error thrown when a `{{ }}` expression cannot be parsed.
+ * `offset` is the character index in `expression` where parsing failed.
+ */
+export class ExpressionError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly expression: string,
+    public readonly offset: number
+  ) {
+    super(`${reason} at offset ${offset} in "${expression}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '&&' | '||';
+
+/** Parsed form of an expression. */
+export type ExpressionNode =
+  | { kind: 'literal'; value: unknown }
+  /** Dot/bracket path resolved like ExecutionContext.resolveNestedPath (e.g. 'contacts[0].email') */
+  | { kind: 'path'; path: string }
+  /** JSONPath expression starting with '$' */
+  | { kind: 'jsonpath'; path: string }
+  | { kind: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'filter'; name: string; input: ExpressionNode; args: ExpressionNode[] };
+
+type TokenType = 'number' | 'string' | 'path' | 'jsonpath' | 'operator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  offset: number;
+}
+
+// Longest first so '===' is not read as '==' followed by '='
+const OPERATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '|', ':', ',',
+];
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+const PATH_START = /[A-Za-z_[]/;
+const PATH_CHAR = /[\w.[\]]/;
+const WORD_CHAR = /\w/;
+
+/**
+ * Split an expression into tokens.
+ *
+ * Paths may contain '-' between word characters (so node IDs like
+ * 'search-contacts' keep working); write subtraction with spaces: `a - b`.
+ * A JSONPath runs from '$' to the first whitespace, '|', ')' or ',' outside
+ * brackets, parentheses and quotes.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], offset: start });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1]!;
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (i >= source.length) {
+        throw new ExpressionError('Unterminated string', source, start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, offset: start });
+      continue;
+    }
+
+    if (char === '$') {
+      i = scanJsonPath(source, i);
+      tokens.push({ type: 'jsonpath', value: source.slice(start, i), offset: start });
+      continue;
+    }
+
+    if (PATH_START.test(char)) {
+      while (
+        i < source.length &&
+        (PATH_CHAR.test(source[i]!) ||
+          (source[i] === '-' && WORD_CHAR.test(source[i - 1] ?? '') && WORD_CHAR.test(source[i + 1] ?? '')))
+      ) {
+        i++;
+      }
+      tokens.push({ type: 'path', value: source.slice(start, i), offset: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, source, start);
+    }
+    tokens.push({ type: 'operator', value: operator, offset: start });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', offset: source.length });
+  return tokens;
+}
+
+function scanJsonPath(source: string, start: number): number {
+  let depth = 0;
+  let quote: string | undefined;
+  let i = start;
+
+  for (; i < source.length; i++) {
+    const char = source[i]!;
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '[' || char === '(') depth++;
+    else if ((char === ']' || char === ')') && depth > 0) depth--;
+    else if (depth === 0 && (/\s/.test(char) || char === '|' || char === ')' || char === ',')) break;
+  }
+
+  if (depth > 0 || quote) {
+    throw new ExpressionError('Unterminated JSONPath', source, start);
+  }
+  return i;
+}
+
+/**
+ * Parse an expression such as `contact.name | upper`, `count + 1` or
+ * `title | default: "Untitled"`.
+ *
+ * Precedence, lowest first: `|` filters, `||`, `&&`, `==` `!=`,
+ * `<` `<=` `>` `>=`, `+` `-`, `*` `/` `%`, unary `!` `-`.
+ *
+ * @throws ExpressionError on invalid syntax or an unknown filter
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (): Token => tokens[position]!;
+  const next = (): Token => tokens[position++]!;
+  const isOperator = (...values: string[]): boolean =>
+    peek().type === 'operator' && values.includes(peek().value);
+  const fail = (message: string, token = peek()): never => {
+    throw new ExpressionError(message, source, token.offset);
+  };
+  const expectOperator = (value: string): void => {
+    if (!isOperator(value)) fail(`Expected "${value}"`);
+    position++;
+  };
+
+  const binary = (operators: string[], operand: () => ExpressionNode) => (): ExpressionNode => {
+    let left = operand();
+    while (isOperator(...operators)) {
+      const raw = next().value;
+      const operator = (raw === '===' ? '==' : raw === '!==' ? '!=' : raw) as BinaryOperator;
+      left = { kind: 'binary', operator, left, right: operand() };
+    }
+    return left;
+  };
+
+  const primary = (): ExpressionNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'jsonpath':
+        return { kind: 'jsonpath', path: token.value };
+      case 'path':
+        return token.value in KEYWORDS
+          ? { kind: 'literal', value: KEYWORDS[token.value] }
+          : { kind: 'path', path: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const inner = pipe();
+          expectOperator(')');
+          return inner;
+        }
+        return fail(`Unexpected "${token.value}"`, token);
+      default:
+        return fail('Unexpected end of expression', token);
+    }
+  };
+
+  const unary = (): ExpressionNode => {
+    if (isOperator('!', '-')) {
+      const operator = next().value as '!' | '-';
+      return { kind: 'unary', operator, operand: unary() };
+    }
+    return primary();
+  };
+
+  const multiplicative = binary(['*', '/', '%'], unary);
+  const additive = binary(['+', '-'], multiplicative);
+  const comparison = binary(['<', '<=', '>', '>='], additive);
+  const equality = binary(['==', '!=', '===', '!=='], comparison);
+  const and = binary(['&&'], equality);
+  const or = binary(['||'], and);
+
+  const pipe = (): ExpressionNode => {
+    let input = or();
+    while (isOperator('|')) {
+      position++;
+      const name = next();
+      if (name.type !== 'path' || !/^\w+$/.test(name.value)) {
+        fail('Expected a filter name after "|"', name);
+      }
+      if (!Object.hasOwn(builtInFilters, name.value)) {
+        fail(`Unknown filter "${name.value}"`, name);
+      }
+
+      const args: ExpressionNode[] = [];
+      if (isOperator(':')) {
+        position++;
+        args.push(or());
+        while (isOperator(',')) {
+          position++;
+          args.push(or());
+        }
+      }
+      input = { kind: 'filter', name: name.value, input, args };
+    }
+    return input;
+  };
+
+  const expression = pipe();
+  if (peek().type !== 'end') {
+    fail(`Unexpected "${peek().value}"`);
+  }
+  return expression;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import { ExecutionContext } from '../execution/context';
+import { executeWorkflow } from '../execution/execute-workflow';
+import type { Workflow, WorkflowEvent, WorkflowNode } from '../types';
+import { TemplateSyntaxError, parseTemplate } from './template';
+
+const ctx = new ExecutionContext({
+  user: { name: 'Alice' },
+  snippets: [{ name: 'closer', code: '}}' }, { name: 'opener', code: '{{' }],
+});
+
+describe('parseTemplate', () => {
+  it('splits text and expressions', () => {
+    expect(parseTemplate('Hi {{ user.name }}!')).toEqual([
+      { kind: 'text', value: 'Hi ' },
+      { kind: 'expression', source: 'user.name', offset: 3, expression: { kind: 'path', path: 'user.name' } },
+      { kind: 'text', value: '!' },
+    ]);
+  });
+
+  it('handles escapes', () => {
+    expect(ctx.interpolate('\\{{#if user}}{{user.name}}\\{{/if}}')).toBe('{{#if user}}Alice{{/if}}');
+    expect(ctx.interpolate('Path: \\\\{{user.name}}')).toBe('Path: \\Alice');
+  });
+
+  it('does not end an expression at }} inside quotes, brackets or parentheses', () => {
+    expect(ctx.interpolate("{{$.snippets[?(@.code == '}}')].name}}")).toBe('closer');
+    expect(ctx.interpolate('{{$.snippets[?(@.code == "{{")].name | upper}}')).toBe('OPENER');
+    expect(ctx.interpolate('Braces: {} } {{user.name}}}')).toBe('Braces: {} } Alice}');
+  });
+
+  it.each([
+    ['Hi {{user.name', 'Unterminated expression (missing "}}")', 3],
+    ['Hi {{ }} there', 'Empty expression', 3],
+    ["{{user.name | default: 'x}}", 'Unterminated string in expression', 23],
+    ['Total: {{1 + * 2}}', 'Unexpected "*"', 13],
+  ])('reports %s with its offset', (template, reason, offset) => {
+    const error = (() => {
+      try {
+        parseTemplate(template);
+      } catch (err) {
+        return err;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(TemplateSyntaxError);
+    expect(error).toMatchObject({ reason, template, offset, code: 'INVALID_TEMPLATE' });
+  });
+
+  it('keeps unparseable blocks as text when lenient', () => {
+    expect(parseTemplate('{{#each items}}{{user.name}}', { lenient: true })).toEqual([
+      { kind: 'text', value: '{{#each items}}' },
+      expect.objectContaining({ kind: 'expression', source: 'user.name' }),
+    ]);
+    expect(parseTemplate('Hi {{user.name', { lenient: true })).toEqual([{ kind: 'text', value: 'Hi {{user.name' }]);
+  });
+});
+
+describe('lenientTemplates', () => {
+  const echo = defineNode({
+    type: 'echo',
+    name: 'Echo',
+    description: 'Returns its message',
+    category: 'action',
+    inputSchema: z.object({ message: z.string() }),
+    outputSchema: z.object({ message: z.string() }),
+    executor: async ({ message }) => ({ success: true, output: { message } }),
+  }) as WorkflowNode['node'];
+
+  const workflow: Workflow = {
+    entryNodeId: 'broken',
+    nodes: [
+      { id: 'broken', type: 'echo', node: echo, input: { message: 'Total: {{count +}}' } },
+      { id: 'after', type: 'echo', node: echo, input: { message: 'after' } },
+      { id: 'other', type: 'echo', node: echo, input: { message: '{{#if vip}}ok{{/if}}' } },
+    ],
+    edges: [{ from: 'broken', to: 'after' }],
+  };
+
+  it('fails only the node with the invalid template by default', async () => {
+    const events: WorkflowEvent[] = [];
+    const result = await executeWorkflow(workflow, new ExecutionContext(), {
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.statuses).toEqual({ broken: 'error', after: 'skipped', other: 'error' });
+    expect(result.results['broken']).toMatchObject({
+      success: false,
+      errorCode: 'INVALID_TEMPLATE',
+      error: expect.stringContaining('Unexpected end of expression'),
+    });
+    expect(events).toContainEqual(expect.objectContaining({
+      type: 'node_failed',
+      nodeId: 'broken',
+      errorCode: 'INVALID_TEMPLATE',
+    }));
+  });
+
+  it('keeps invalid templates as text when enabled', async () => {
+    const result = await executeWorkflow(workflow, new ExecutionContext(), { lenientTemplates: true });
+
+    expect(result.success).toBe(true);
+    expect(result.results['broken']?.output).toEqual({ message: 'Total: {{count +}}' });
+  });
+});
@@ -0,0 +1,152 @@
+import { ExpressionError, parseExpression } from './parser.js';
+import type { ExpressionNode } from './parser.js';
+
+/**
+ * Error thrown when a template string cannot be parsed: an unterminated
+ * `{{`, an empty expression, or an invalid expression.
+ * `offset` is the character index in `template` where the problem is.
+ */
+export class TemplateSyntaxError extends Error {
+  /** errorCode of the node result when a workflow node's input fails to parse */
+  readonly code = 'INVALID_TEMPLATE';
+
+  constructor(
+    public readonly reason: string,
+    public readonly template: string,
+    public readonly offset: number
+  ) {
+    super(`${reason} at offset ${offset} in template "${template}"`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+/** A literal run of text or a `{{ }}` expression within a template. */
+export type TemplatePart =
+  | { kind: 'text'; value: string }
+  | {
+      kind: 'expression';
+      /** Expression source between the braces, trimmed */
+      source: string;
+      /** Offset of the opening `{{` in the template */
+      offset: number;
+      expression: ExpressionNode;
+    };
+
+/** Options for parseTemplate. */
+export interface ParseTemplateOptions {
+  /**
+   * Keep `{{ }}` blocks that are not valid expressions (e.g. Handlebars
+   * `{{#each items}}`) as literal text instead of throwing. An unterminated
+   * `{{` is kept as text on its own. Default false.
+   */
+  lenient?: boolean;
+}
+
+/**
+ * Split a template into text and parsed `{{ }}` expressions.
+ *
+ * - `\{{` produces a literal `{{` (e.g. for Handlebars snippets), and `\\{{`
+ *   a literal backslash followed by an expression. Other backslashes are kept.
+ * - An expression ends at the first `}}` outside quotes, brackets, parentheses
+ *   and braces, so JSONPath filters like `{{$.items[?(@.tag == '}}')]}}` work.
+ *
+ * @throws TemplateSyntaxError with the template and offset of the problem
+ * (unless `options.lenient` is set)
+ */
+export function parseTemplate(template: string, options: ParseTemplateOptions = {}): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let text = '';
+  let i = 0;
+
+  while (i < template.length) {
+    if (template.startsWith('\\{{', i)) {
+      text += '{{';
+      i += 3;
+      continue;
+    }
+    if (template.startsWith('\\\\{{', i)) {
+      text += '\\';
+      i += 2;
+      continue;
+    }
+    if (!template.startsWith('{{', i)) {
+      text += template[i];
+      i++;
+      continue;
+    }
+
+    let end = -1;
+    let part: TemplatePart;
+    try {
+      end = findExpressionEnd(template, i);
+      part = parseExpressionPart(template, i, end);
+    } catch (err) {
+      if (!options.lenient || !(err instanceof TemplateSyntaxError)) throw err;
+      const literal = end === -1 ? '{{' : template.slice(i, end + 2);
+      text += literal;
+      i += literal.length;
+      continue;
+    }
+
+    if (text) {
+      parts.push({ kind: 'text', value: text });
+      text = '';
+    }
+    parts.push(part);
+    i = end + 2;
+  }
+
+  if (text) {
+    parts.push({ kind: 'text', value: text });
+  }
+  return parts;
+}
+
+/** Parse the expression between the `{{` at `start` and the `}}` at `end`. */
+function parseExpressionPart(template: string, start: number, end: number): TemplatePart {
+  const source = template.slice(start + 2, end);
+  if (!source.trim()) {
+    throw new TemplateSyntaxError('Empty expression', template, start);
+  }
+
+  let expression: ExpressionNode;
+  try {
+    expression = parseExpression(source);
+  } catch (err) {
+    if (!(err instanceof ExpressionError)) throw err;
+    throw new TemplateSyntaxError(err.reason, template, start + 2 + err.offset);
+  }
+  return { kind: 'expression', source: source.trim(), offset: start, expression };
+}
+
+/** Index of the `}}` closing the expression opened at `start`. */
+function findExpressionEnd(template: string, start: number): number {
+  let depth = 0;
+  let quote: string | undefined;
+  let quoteStart = start;
+
+  for (let i = start + 2; i < template.length; i++) {
+    const char = template[i]!;
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      quoteStart = i;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (depth > 0 && (char === ')' || char === ']' || char === '}')) {
+      depth--;
+    } else if (char === '}' && template[i + 1] === '}') {
+      return i;
+    }
+  }
+
+  if (quote) {
+    throw new TemplateSyntaxError('Unterminated string in expression', template, quoteStart);
+  }
+  throw new TemplateSyntaxError('Unterminated expression (missing "}}")', template, start);
+}
@@ -6,6 +6,9 @@ export type {
   NodeExecutor,
   NodeApprovalRequest,
   NodeCapabilities,
+  NodeCredentialRequirements,
+  NodeInputMigration,
+  AnyNodeDefinition,
   NodeCategory,
   NodeMetadata,
   NodeDefinition,
@@ -56,13 +59,75 @@ export type {
   RetryConfig,
   CacheStore,
   CacheConfig,
+  RateLimitStrategy,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitConfig,
+  RateLimitAcquisition,
+  OutputValidationMode,
+  OutputValidationIssue,
+  OutputScoping,
+  OutputCollision,
   ExecutionConfig,
   WorkflowExecutionConfig,
   WorkflowExecutionResult,
+  WorkflowExecutionMetrics,
+  WorkflowMetricsSummary,
+  NodeExecutionMetrics,
+  NodeInterruption,
   Workflow,
   WorkflowNode,
   WorkflowEdge,
   NodeStatus,
+  ExecutionSnapshot,
+  ExecutionSnapshotStatus,
+  ExecutionStateStore,
+  WorkflowProvider,
+  WorkflowReference,
+  WorkflowRuntime,
+  ChildWorkflowResult,
+  WorkflowEvent,
+  WorkflowEventBase,
+  NodeEventBase,
+  WorkflowStartedEvent,
+  NodeQueuedEvent,
+  NodeStartedEvent,
+  NodeRetryingEvent,
+  NodeCacheHitEvent,
+  NodeOutputInvalidEvent,
+  NodeOutputCollisionEvent,
+  NodeSkippedEvent,
+  NodeSucceededEvent,
+  NodeWaitingApprovalEvent,
+  NodeFailedEvent,
+  CheckpointFailedEvent,
+  WorkflowFinishedEvent,
+  // Tracing types
+  SpanAttributeValue,
+  SpanAttributes,
+  SpanStatusCode,
+  SpanStatus,
+  Span,
+  SpanOptions,
+  Tracer,
+  TraceContext,
+  // Workflow document types
+  WorkflowMetadata,
+  WorkflowDocument,
+  WorkflowDocumentNode,
+  WorkflowDocumentEdge,
+  WorkflowDocumentIssue,
+  LoadWorkflowOptions,
+  WorkflowDiagnosticCode,
+  WorkflowDiagnostic,
+  WorkflowValidationResult,
+  // Plugin types
+  JamNodesPlugin,
+  // JSON Schema types
+  JsonSchemaType,
+  JsonSchema,
+  NodeJsonSchemas,
+  NodeJsonMetadata,
 } from './types/index.js';
 
 // Credential helpers
@@ -79,12 +144,108 @@ export {
   createExecutionContext,
   prepareNodeInput,
   executeNode,
+  MissingCredentialsError,
+  refreshNodeCredentials,
+  resolveNodeCredentials,
   executeWorkflow,
+  executeWorkflowStream,
+  resumeWorkflow,
+  approveNode,
+  rejectNode,
   MemoryCacheStore,
+  MemoryExecutionStateStore,
+  FileExecutionStateStore,
 } from './execution/index.js';
+export type { InterpolateOptions } from './execution/index.js';
+
+// Expressions
+export {
+  ExpressionError,
+  TemplateSyntaxError,
+  parseExpression,
+  parseTemplate,
+  evaluateExpression,
+  builtInFilters,
+  formatValue,
+} from './expression/index.js';
+export type {
+  ExpressionNode,
+  BinaryOperator,
+  TemplatePart,
+  ParseTemplateOptions,
+  ExpressionScope,
+  ExpressionFilter,
+} from './expression/index.js';
+
+// OAuth2
+export {
+  OAuth2Client,
+  OAuth2Error,
+  withOAuth2Refresh,
+  createCodeVerifier,
+  createCodeChallenge,
+  createState,
+  startMockOAuth2Server,
+} from './oauth/index.js';
+export type {
+  OAuth2ClientOptions,
+  OAuth2AuthorizationRequest,
+  OAuth2Tokens,
+  MockOAuth2Server,
+  MockOAuth2ServerOptions,
+  MockOAuth2TokenRequest,
+} from './oauth/index.js';
+
+// Redaction
+export { SecretRedactor, REDACTED, DEFAULT_REDACTION_PATTERNS, DEFAULT_SECRET_FIELDS } from './redaction/index.js';
+export type { RedactionOptions } from './redaction/index.js';
+
+// Rate limiting
+export {
+  acquireRateLimit,
+  MemoryRateLimitStore,
+  FileRateLimitStore,
+} from './rate-limit/index.js';
+
+// Tracing
+export {
+  noopTracer,
+  startSpan,
+  InMemoryTracer,
+  createOpenTelemetryTracer,
+} from './tracing/index.js';
+export type {
+  FinishedSpan,
+  OpenTelemetrySpanLike,
+  OpenTelemetryTracerLike,
+  OpenTelemetryApiLike,
+} from './tracing/index.js';
+
+// Workflow documents
+export {
+  WORKFLOW_FORMAT_VERSION,
+  WorkflowDocumentError,
+  parseWorkflowDocument,
+  loadWorkflow,
+  serializeWorkflow,
+  validateWorkflow,
+} from './workflow/index.js';
 
 // Registry
-export { NodeRegistry, createRegistry } from './registry/index.js';
+export { NodeRegistry, createRegistry, DEFAULT_NODE_VERSION } from './registry/index.js';
+
+// Plugins
+export {
+  CORE_VERSION,
+  PluginError,
+  definePlugin,
+  resolvePluginManifest,
+  satisfiesVersionRange,
+} from './plugin/index.js';
+
+// JSON Schema
+export { zodToJsonSchema, JSON_SCHEMA_DIALECT } from './json-schema/index.js';
+export type { JsonSchemaOptions } from './json-schema/index.js';
 
 // Utilities
 export { defineNode } from './utils/index.js';
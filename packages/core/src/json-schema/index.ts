@@ -0,0 +1,5 @@
+export {
+  zodToJsonSchema,
+  JSON_SCHEMA_DIALECT,
+  type JsonSchemaOptions,
+} from './zod-to-json-schema.js';
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { z as z4 } from 'zod/v4';
+import { JSON_SCHEMA_DIALECT, zodToJsonSchema } from './zod-to-json-schema';
+
+const convert = (schema: unknown, io?: 'input' | 'output') =>
+  zodToJsonSchema(schema as z.ZodTypeAny, { $schema: false, ...(io && { io }) });
+
+describe('zodToJsonSchema with Zod 3', () => {
+  it('converts objects with defaults, descriptions and constraints', () => {
+    const schema = z.object({
+      query: z.string().min(1).describe('Search terms'),
+      limit: z.number().int().positive().max(100).default(10),
+      tags: z.array(z.enum(['news', 'blog'])).max(3).optional(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search terms' },
+        limit: { type: 'integer', exclusiveMinimum: 0, maximum: 100, default: 10 },
+        tags: { type: 'array', items: { type: 'string', enum: ['news', 'blog'] }, maxItems: 3 },
+      },
+      required: ['query'],
+    });
+    expect(convert(schema, 'output').required).toEqual(['query', 'limit']);
+  });
+
+  it('converts unions, nullables, records and recursive schemas', () => {
+    interface Category {
+      name: string;
+      children: Category[];
+    }
+    const category: z.ZodType<Category> = z.lazy(() => z.object({ name: z.string(), children: z.array(category) }));
+
+    expect(convert(z.union([z.literal('a'), z.literal('b')]))).toEqual({ type: 'string', enum: ['a', 'b'] });
+    expect(convert(z.string().email().nullable())).toEqual({ type: ['string', 'null'], format: 'email' });
+    expect(convert(z.record(z.number()))).toEqual({ type: 'object', additionalProperties: { type: 'number' } });
+    expect(convert(category)).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } },
+      required: ['name', 'children'],
+    });
+  });
+
+  it('describes transforms by their input, or accepts anything as output', () => {
+    const schema = z.string().transform((value) => value.length);
+
+    expect(convert(schema)).toEqual({ type: 'string' });
+    expect(convert(schema, 'output')).toEqual({});
+  });
+
+  it('throws on schema types it does not know', () => {
+    const unknown = { _def: { typeName: 'ZodFuture' }, isOptional: () => false };
+
+    expect(() => convert(unknown)).toThrow('Cannot convert Zod type "ZodFuture" to JSON Schema');
+  });
+});
+
+describe('zodToJsonSchema with Zod 4', () => {
+  it('converts objects with defaults, descriptions and constraints', () => {
+    const schema = z4.object({
+      query: z4.string().min(1).describe('Search terms'),
+      limit: z4.number().int().positive().max(100).default(10),
+      tags: z4.array(z4.enum(['news', 'blog'])).max(3).optional(),
+    });
+
+    expect(zodToJsonSchema(schema as never)).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search terms' },
+        limit: { type: 'integer', exclusiveMinimum: 0, maximum: 100, default: 10 },
+        tags: { type: 'array', items: { type: 'string', enum: ['news', 'blog'] }, maxItems: 3 },
+      },
+      required: ['query'],
+    });
+    expect(convert(schema, 'output').required).toEqual(['query', 'limit']);
+  });
+
+  it.each([
+    ['z.email()', z4.email(), { type: 'string', format: 'email' }],
+    ['z.string().url()', z4.string().url(), { type: 'string', format: 'uri' }],
+    ['z.iso.datetime()', z4.iso.datetime(), { type: 'string', format: 'date-time' }],
+    ['z.ipv6()', z4.ipv6(), { type: 'string', format: 'ipv6' }],
+    ['startsWith + regex', z4.string().startsWith('a.').regex(/\d+/), { type: 'string', pattern: '^a\\.', allOf: [{ pattern: '\\d+' }] }],
+    ['z.int().multipleOf(5)', z4.int().multipleOf(5), { type: 'integer', multipleOf: 5 }],
+    ['z.literal(["a", "b"])', z4.literal(['a', 'b']), { type: 'string', enum: ['a', 'b'] }],
+    ['z.literal(3)', z4.literal(3), { type: 'integer', const: 3 }],
+    ['z.tuple([z.string()], z.number())', z4.tuple([z4.string()], z4.number()), {
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      minItems: 1,
+    }],
+    ['z.set(z.string()).min(1)', z4.set(z4.string()).min(1), { type: 'array', uniqueItems: true, items: { type: 'string' }, minItems: 1 }],
+    ['z.string().nullable()', z4.string().nullable(), { type: ['string', 'null'] }],
+    ['z.strictObject()', z4.strictObject({ a: z4.boolean() }), {
+      type: 'object',
+      properties: { a: { type: 'boolean' } },
+      required: ['a'],
+      additionalProperties: false,
+    }],
+    ['z.record()', z4.record(z4.string(), z4.date()), {
+      type: 'object',
+      additionalProperties: { type: 'string', format: 'date-time' },
+    }],
+    ['z.discriminatedUnion()', z4.discriminatedUnion('kind', [
+      z4.object({ kind: z4.literal('a') }),
+      z4.object({ kind: z4.literal('b') }),
+    ]), {
+      oneOf: [
+        { type: 'object', properties: { kind: { type: 'string', const: 'a' } }, required: ['kind'] },
+        { type: 'object', properties: { kind: { type: 'string', const: 'b' } }, required: ['kind'] },
+      ],
+    }],
+    ['z.any()', z4.any(), {}],
+  ])('converts %s', (_label, schema, expected) => {
+    expect(convert(schema)).toEqual(expected);
+  });
+
+  it('converts recursive schemas and pipes', () => {
+    const category = z4.object({
+      name: z4.string(),
+      get children() {
+        return z4.array(category);
+      },
+    });
+    const length = z4.string().transform((value) => value.length);
+
+    expect(convert(category)).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } },
+      required: ['name', 'children'],
+    });
+    expect(convert(length)).toEqual({ type: 'string' });
+    expect(convert(length, 'output')).toEqual({});
+  });
+
+  it('throws on schema types it does not know', () => {
+    const unknown = { _zod: { def: { type: 'future' } } };
+
+    expect(() => convert(unknown)).toThrow('Cannot convert Zod type "future" to JSON Schema');
+  });
+});
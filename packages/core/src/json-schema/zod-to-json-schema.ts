@@ -0,0 +1,640 @@
+import type { z } from 'zod';
+import type { JsonSchema } from '../types/json-schema.js';
+
+/** Dialect URI of JSON Schema draft 2020-12. */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export interface JsonSchemaOptions {
+  /**
+   * Describe what a schema accepts ('input', the default) or what it
+   * produces ('output'). They differ for defaults (a field with a default is
+   * optional in input, always present in output), pipelines and transforms.
+   */
+  io?: 'input' | 'output';
+  /** Set `$schema` on the root schema (default true) */
+  $schema?: boolean;
+}
+
+/** The parts of a Zod 3 schema definition the converter reads */
+interface ZodDefLike {
+  typeName?: string;
+  checks?: ZodCheckLike[];
+  // Objects
+  shape?: () => Record<string, ZodLike>;
+  unknownKeys?: string;
+  catchall?: ZodLike;
+  // Wrappers, arrays and effects
+  type?: ZodLike;
+  innerType?: ZodLike;
+  schema?: ZodLike;
+  effect?: { type: string };
+  defaultValue?: () => unknown;
+  getter?: () => ZodLike;
+  in?: ZodLike;
+  out?: ZodLike;
+  // Unions, intersections and tuples
+  options?: ZodLike[];
+  left?: ZodLike;
+  right?: ZodLike;
+  items?: ZodLike[];
+  rest?: ZodLike | null;
+  // Records, maps and sets
+  keyType?: ZodLike;
+  valueType?: ZodLike;
+  // Enums and literals
+  values?: unknown;
+  value?: unknown;
+  // Array and set sizes
+  minLength?: { value: number } | null;
+  maxLength?: { value: number } | null;
+  exactLength?: { value: number } | null;
+  minSize?: { value: number } | null;
+  maxSize?: { value: number } | null;
+}
+
+interface ZodCheckLike {
+  kind: string;
+  value?: unknown;
+  inclusive?: boolean;
+  regex?: RegExp;
+  version?: string;
+}
+
+interface ZodLike {
+  _def: ZodDefLike;
+  description?: string;
+  isOptional(): boolean;
+}
+
+/** The parts of a Zod 4 check definition the converter reads */
+interface Zod4CheckDefLike {
+  check: string;
+  format?: string;
+  pattern?: RegExp;
+  prefix?: string;
+  suffix?: string;
+  includes?: string;
+  minimum?: number;
+  maximum?: number;
+  length?: number;
+  size?: number;
+  value?: number;
+  inclusive?: boolean;
+}
+
+/**
+ * The parts of a Zod 4 schema definition (`schema._zod.def`) the converter
+ * reads. Schemas like z.email() or z.int() carry their check on the definition.
+ */
+interface Zod4DefLike extends Partial<Zod4CheckDefLike> {
+  type: string;
+  checks?: { _zod: { def: Zod4CheckDefLike } }[];
+  // Objects
+  shape?: Record<string, Zod4Like>;
+  catchall?: Zod4Like;
+  // Wrappers and arrays
+  element?: Zod4Like;
+  innerType?: Zod4Like;
+  defaultValue?: unknown;
+  getter?: () => Zod4Like;
+  in?: Zod4Like;
+  out?: Zod4Like;
+  // Unions, intersections and tuples
+  options?: Zod4Like[];
+  discriminator?: string;
+  left?: Zod4Like;
+  right?: Zod4Like;
+  items?: Zod4Like[];
+  rest?: Zod4Like | null;
+  // Records, maps and sets
+  keyType?: Zod4Like;
+  valueType?: Zod4Like;
+  // Enums and literals
+  entries?: Record<string, string | number>;
+  values?: unknown[];
+}
+
+interface Zod4Like {
+  _zod: {
+    def: Zod4DefLike;
+    /** 'optional' when an object may leave the key out of its input / output */
+    optin?: 'optional';
+    optout?: 'optional';
+  };
+  description?: string;
+}
+
+type SchemaLike = ZodLike | Zod4Like;
+
+/** String checks that map to a `format` */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+};
+
+/** Zod 4 number formats that only allow integers */
+const INTEGER_FORMATS = new Set(['safeint', 'int32', 'uint32', 'int64', 'uint64']);
+
+/**
+ * Convert a Zod 3 or Zod 4 schema to JSON Schema (draft 2020-12).
+ *
+ * Covers objects, arrays, tuples, records, unions, intersections, enums,
+ * literals, nullable/optional wrappers, defaults, descriptions and the
+ * string/number/array constraints that have a JSON Schema keyword. Refinements
+ * and transforms can't be expressed, so they are described by the schema
+ * they wrap (best effort). Recursive schemas (`z.lazy`) become `$ref`s.
+ * Types with no JSON equivalent (functions, symbols, custom types) accept
+ * anything (`{}`).
+ *
+ * @example
+ * ```typescript
+ * zodToJsonSchema(z.object({ query: z.string().describe('Search terms'), limit: z.number().int().default(10) }));
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   type: 'object',
+ * //   properties: {
+ * //     query: { type: 'string', description: 'Search terms' },
+ * //     limit: { type: 'integer', default: 10 },
+ * //   },
+ * //   required: ['query'],
+ * // }
+ * ```
+ *
+ * @throws Error for a schema type the converter doesn't know, e.g. from a
+ *   newer Zod version
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, options: JsonSchemaOptions = {}): JsonSchema {
+  const converter = new Converter(options.io ?? 'input');
+  const root = converter.convert(schema as unknown as SchemaLike, []);
+  return options.$schema === false ? root : { $schema: JSON_SCHEMA_DIALECT, ...root };
+}
+
+class Converter {
+  /** JSON pointer of each schema being converted, to detect recursion */
+  private inProgress = new Map<SchemaLike, string[]>();
+
+  constructor(private readonly io: 'input' | 'output') {}
+
+  convert(schema: SchemaLike, path: string[]): JsonSchema {
+    const recursive = this.inProgress.get(schema);
+    if (recursive) {
+      return { $ref: `#${recursive.map((part) => `/${part.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')}` };
+    }
+
+    this.inProgress.set(schema, path);
+    try {
+      const converted =
+        '_zod' in schema ? this.convertZod4Def(schema._zod.def, path) : this.convertDef(schema._def, path);
+      return schema.description !== undefined ? { ...converted, description: schema.description } : converted;
+    } finally {
+      this.inProgress.delete(schema);
+    }
+  }
+
+  private convertDef(def: ZodDefLike, path: string[]): JsonSchema {
+    switch (def.typeName) {
+      case 'ZodString':
+        return this.string(def.checks ?? []);
+      case 'ZodNumber':
+        return this.number(def.checks ?? []);
+      case 'ZodBigInt':
+        return { type: 'integer' };
+      case 'ZodBoolean':
+        return { type: 'boolean' };
+      case 'ZodDate':
+        return { type: 'string', format: 'date-time' };
+      case 'ZodNull':
+        return { type: 'null' };
+      case 'ZodNever':
+      case 'ZodUndefined':
+      case 'ZodVoid':
+        return { not: {} };
+      case 'ZodLiteral':
+        return literal(def.value);
+      case 'ZodEnum':
+        return { type: 'string', enum: [...(def.values as string[])] };
+      case 'ZodNativeEnum':
+        return nativeEnum(def.values as Record<string, string | number>);
+      case 'ZodObject':
+        return this.object(def, path);
+      case 'ZodArray':
+        return {
+          type: 'array',
+          items: this.convert(def.type!, [...path, 'items']),
+          ...sizeKeywords(def.exactLength?.value ?? def.minLength?.value, def.exactLength?.value ?? def.maxLength?.value),
+        };
+      case 'ZodSet':
+        return {
+          type: 'array',
+          uniqueItems: true,
+          items: this.convert(def.valueType!, [...path, 'items']),
+          ...sizeKeywords(def.minSize?.value, def.maxSize?.value),
+        };
+      case 'ZodTuple':
+        return this.tuple(def.items ?? [], def.rest ?? null, path);
+      case 'ZodRecord':
+        return this.record(def.keyType!, def.valueType!, path);
+      case 'ZodMap':
+        return this.map(def.keyType!, def.valueType!, path);
+      case 'ZodUnion':
+        return this.union(def.options ?? [], path, 'anyOf');
+      case 'ZodDiscriminatedUnion':
+        return this.union(def.options ?? [], path, 'oneOf');
+      case 'ZodIntersection':
+        return {
+          allOf: [this.convert(def.left!, [...path, 'allOf', '0']), this.convert(def.right!, [...path, 'allOf', '1'])],
+        };
+      case 'ZodOptional':
+        // Whether the key may be left out is decided by the parent object
+        return this.convert(def.innerType!, path);
+      case 'ZodNullable':
+        return this.nullable(def.innerType!, path);
+      case 'ZodDefault':
+        return { ...this.convert(def.innerType!, path), default: def.defaultValue?.() };
+      case 'ZodReadonly':
+        return { ...this.convert(def.innerType!, path), readOnly: true };
+      case 'ZodCatch':
+      case 'ZodPromise':
+        return this.convert(def.innerType ?? def.type!, path);
+      case 'ZodBranded':
+        return this.convert(def.type!, path);
+      case 'ZodLazy':
+        return this.convert(def.getter!(), path);
+      case 'ZodPipeline':
+        return this.convert(this.io === 'input' ? def.in! : def.out!, path);
+      case 'ZodEffects':
+        // A transform's output has no schema; refinements and preprocessing
+        // are described by the schema they wrap
+        if (this.io === 'output' && def.effect?.type === 'transform') return {};
+        return this.convert(def.schema!, path);
+      case 'ZodAny':
+      case 'ZodUnknown':
+      case 'ZodFunction':
+      case 'ZodSymbol':
+      case 'ZodNaN':
+        return {};
+      default:
+        throw new Error(`Cannot convert Zod type "${def.typeName}" to JSON Schema`);
+    }
+  }
+
+  private convertZod4Def(def: Zod4DefLike, path: string[]): JsonSchema {
+    switch (def.type) {
+      case 'string':
+        return this.string(zod4Checks(def));
+      case 'number':
+        return this.number(zod4Checks(def));
+      case 'bigint':
+        return { type: 'integer' };
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'date':
+        return { type: 'string', format: 'date-time' };
+      case 'null':
+        return { type: 'null' };
+      case 'never':
+      case 'undefined':
+      case 'void':
+        return { not: {} };
+      case 'template_literal':
+        return { type: 'string' };
+      case 'literal': {
+        const values = def.values ?? [];
+        return values.length === 1 ? literal(values[0]) : literalEnum(values.map(literal)) ?? {};
+      }
+      case 'enum':
+        return nativeEnum(def.entries ?? {});
+      case 'object': {
+        const result = this.properties(def.shape ?? {}, path, (field) =>
+          (this.io === 'input' ? field._zod.optin : field._zod.optout) === 'optional'
+        );
+        if (def.catchall?._zod.def.type === 'never') {
+          result.additionalProperties = false;
+        } else if (def.catchall) {
+          result.additionalProperties = this.convert(def.catchall, [...path, 'additionalProperties']);
+        }
+        return result;
+      }
+      case 'array': {
+        const sizes = zod4Sizes(def);
+        return {
+          type: 'array',
+          items: this.convert(def.element!, [...path, 'items']),
+          ...sizeKeywords(sizes.min, sizes.max),
+        };
+      }
+      case 'set': {
+        const sizes = zod4Sizes(def);
+        return {
+          type: 'array',
+          uniqueItems: true,
+          items: this.convert(def.valueType!, [...path, 'items']),
+          ...sizeKeywords(sizes.min, sizes.max),
+        };
+      }
+      case 'tuple':
+        return this.tuple(def.items ?? [], def.rest ?? null, path);
+      case 'record':
+        return this.record(def.keyType!, def.valueType!, path);
+      case 'map':
+        return this.map(def.keyType!, def.valueType!, path);
+      case 'union':
+        return this.union(def.options ?? [], path, def.discriminator === undefined ? 'anyOf' : 'oneOf');
+      case 'intersection':
+        return {
+          allOf: [this.convert(def.left!, [...path, 'allOf', '0']), this.convert(def.right!, [...path, 'allOf', '1'])],
+        };
+      case 'optional':
+      case 'nonoptional':
+        // Whether the key may be left out is decided by the parent object
+        return this.convert(def.innerType!, path);
+      case 'nullable':
+        return this.nullable(def.innerType!, path);
+      case 'default':
+      case 'prefault':
+        return { ...this.convert(def.innerType!, path), default: def.defaultValue };
+      case 'readonly':
+        return { ...this.convert(def.innerType!, path), readOnly: true };
+      case 'catch':
+      case 'promise':
+        return this.convert(def.innerType!, path);
+      case 'lazy':
+        return this.convert(def.getter!(), path);
+      case 'pipe':
+        return this.convert(this.io === 'input' ? def.in! : def.out!, path);
+      case 'transform':
+        // A transform's output has no schema
+        return {};
+      case 'any':
+      case 'unknown':
+      case 'function':
+      case 'symbol':
+      case 'nan':
+      case 'custom':
+        return {};
+      default:
+        throw new Error(`Cannot convert Zod type "${def.type}" to JSON Schema`);
+    }
+  }
+
+  private string(checks: ZodCheckLike[]): JsonSchema {
+    const result: JsonSchema = { type: 'string' };
+    const patterns: string[] = [];
+
+    for (const check of checks) {
+      const format = STRING_FORMATS[check.kind];
+      if (format) {
+        result.format = format;
+        continue;
+      }
+      switch (check.kind) {
+        case 'min':
+          result.minLength = check.value as number;
+          break;
+        case 'max':
+          result.maxLength = check.value as number;
+          break;
+        case 'length':
+          result.minLength = check.value as number;
+          result.maxLength = check.value as number;
+          break;
+        case 'ip':
+          result.format = check.version === 'v6' ? 'ipv6' : 'ipv4';
+          break;
+        case 'regex':
+          patterns.push(check.regex!.source);
+          break;
+        case 'startsWith':
+          patterns.push(`^${escapeRegExp(String(check.value))}`);
+          break;
+        case 'endsWith':
+          patterns.push(`${escapeRegExp(String(check.value))}$`);
+          break;
+        case 'includes':
+          patterns.push(escapeRegExp(String(check.value)));
+          break;
+      }
+    }
+
+    const [pattern, ...more] = patterns;
+    if (pattern !== undefined) result.pattern = pattern;
+    if (more.length > 0) result.allOf = more.map((extra) => ({ pattern: extra }));
+    return result;
+  }
+
+  private number(checks: ZodCheckLike[]): JsonSchema {
+    const result: JsonSchema = { type: 'number' };
+    for (const check of checks) {
+      const value = check.value as number;
+      switch (check.kind) {
+        case 'int':
+          result.type = 'integer';
+          break;
+        case 'min':
+          if (check.inclusive) result.minimum = value;
+          else result.exclusiveMinimum = value;
+          break;
+        case 'max':
+          if (check.inclusive) result.maximum = value;
+          else result.exclusiveMaximum = value;
+          break;
+        case 'multipleOf':
+          result.multipleOf = value;
+          break;
+      }
+    }
+    return result;
+  }
+
+  private object(def: ZodDefLike, path: string[]): JsonSchema {
+    const result = this.properties(
+      def.shape?.() ?? {},
+      path,
+      // Defaults fill in missing input, so the output always has the key
+      (field) => field.isOptional() && !(this.io === 'output' && field._def.typeName === 'ZodDefault')
+    );
+
+    if (def.catchall && def.catchall._def.typeName !== 'ZodNever') {
+      result.additionalProperties = this.convert(def.catchall, [...path, 'additionalProperties']);
+    } else if (def.unknownKeys === 'strict') {
+      result.additionalProperties = false;
+    }
+    return result;
+  }
+
+  /** An object schema with `properties` and `required`, without additional properties */
+  private properties<T extends SchemaLike>(
+    shape: Record<string, T>,
+    path: string[],
+    isOptional: (field: T) => boolean
+  ): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, field] of Object.entries(shape)) {
+      properties[key] = this.convert(field, [...path, 'properties', key]);
+      if (!isOptional(field)) required.push(key);
+    }
+
+    const result: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) result.required = required;
+    return result;
+  }
+
+  private tuple(items: SchemaLike[], rest: SchemaLike | null, path: string[]): JsonSchema {
+    return {
+      type: 'array',
+      prefixItems: items.map((item, i) => this.convert(item, [...path, 'prefixItems', String(i)])),
+      items: rest ? this.convert(rest, [...path, 'items']) : false,
+      minItems: items.length,
+    };
+  }
+
+  private record(keyType: SchemaLike, valueType: SchemaLike, path: string[]): JsonSchema {
+    const keys = this.convert(keyType, [...path, 'propertyNames']);
+    const { type: _type, ...keyConstraints } = keys;
+    return {
+      type: 'object',
+      additionalProperties: this.convert(valueType, [...path, 'additionalProperties']),
+      ...(Object.keys(keyConstraints).length > 0 && { propertyNames: keys }),
+    };
+  }
+
+  private map(keyType: SchemaLike, valueType: SchemaLike, path: string[]): JsonSchema {
+    return {
+      type: 'array',
+      items: {
+        type: 'array',
+        prefixItems: [
+          this.convert(keyType, [...path, 'items', 'prefixItems', '0']),
+          this.convert(valueType, [...path, 'items', 'prefixItems', '1']),
+        ],
+        items: false,
+        minItems: 2,
+      },
+    };
+  }
+
+  private union(options: SchemaLike[], path: string[], keyword: 'anyOf' | 'oneOf'): JsonSchema {
+    const converted = options.map((option, i) => this.convert(option, [...path, keyword, String(i)]));
+    // A union of literals reads better as an enum
+    return literalEnum(converted) ?? (keyword === 'anyOf' ? { anyOf: converted } : { oneOf: converted });
+  }
+
+  private nullable(inner: SchemaLike, path: string[]): JsonSchema {
+    const converted = this.convert(inner, [...path, 'anyOf', '0']);
+    const { type } = converted;
+    // Primitive types take 'null' directly; anything else (which may hold
+    // $refs into the anyOf) stays wrapped
+    if (typeof type === 'string' && type !== 'object' && type !== 'array' && !converted.enum && !('const' in converted)) {
+      return { ...converted, type: [type, 'null'] };
+    }
+    return { anyOf: [converted, { type: 'null' }] };
+  }
+}
+
+function literal(value: unknown): JsonSchema {
+  if (value === null) return { type: 'null', const: null };
+  switch (typeof value) {
+    case 'string':
+      return { type: 'string', const: value };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number', const: value };
+    case 'boolean':
+      return { type: 'boolean', const: value };
+    default:
+      // undefined, bigint and symbol literals have no JSON form
+      return {};
+  }
+}
+
+/** An enum of literal schemas (`{ const }`), or undefined if any isn't a plain literal */
+function literalEnum(literals: JsonSchema[]): JsonSchema | undefined {
+  if (!literals.every((option) => 'const' in option && Object.keys(option).length <= 2)) return undefined;
+  const types = [...new Set(literals.map((option) => option.type))];
+  return {
+    ...(types.length === 1 && types[0] !== undefined && { type: types[0] }),
+    enum: literals.map((option) => option.const),
+  };
+}
+
+/** Zod 4 string and number checks in the Zod 3 form `string()` and `number()` read */
+function zod4Checks(def: Zod4DefLike): ZodCheckLike[] {
+  const checks = [...(def.check ? [def as Zod4CheckDefLike] : []), ...(def.checks ?? []).map((check) => check._zod.def)];
+  return checks.flatMap((check): ZodCheckLike[] => {
+    switch (check.check) {
+      case 'min_length':
+        return [{ kind: 'min', value: check.minimum }];
+      case 'max_length':
+        return [{ kind: 'max', value: check.maximum }];
+      case 'length_equals':
+        return [{ kind: 'length', value: check.length }];
+      case 'greater_than':
+        return [{ kind: 'min', value: check.value, inclusive: check.inclusive }];
+      case 'less_than':
+        return [{ kind: 'max', value: check.value, inclusive: check.inclusive }];
+      case 'multiple_of':
+        return [{ kind: 'multipleOf', value: check.value }];
+      case 'number_format':
+        return INTEGER_FORMATS.has(check.format!) ? [{ kind: 'int' }] : [];
+      case 'string_format':
+        switch (check.format) {
+          case 'regex':
+            return [{ kind: 'regex', regex: check.pattern! }];
+          case 'starts_with':
+            return [{ kind: 'startsWith', value: check.prefix }];
+          case 'ends_with':
+            return [{ kind: 'endsWith', value: check.suffix }];
+          case 'includes':
+            return [{ kind: 'includes', value: check.includes }];
+          case 'ipv4':
+          case 'ipv6':
+            return [{ kind: 'ip', version: check.format.slice(2) }];
+          case 'guid':
+            return [{ kind: 'uuid' }];
+          default:
+            return [{ kind: check.format! }];
+        }
+      default:
+        // Refinements have no JSON Schema equivalent
+        return [];
+    }
+  });
+}
+
+/** Item count bounds of a Zod 4 array or set */
+function zod4Sizes(def: Zod4DefLike): { min?: number; max?: number } {
+  const sizes: { min?: number; max?: number } = {};
+  for (const { _zod: { def: check } } of def.checks ?? []) {
+    if (check.check === 'min_length' || check.check === 'min_size') sizes.min = check.minimum;
+    if (check.check === 'max_length' || check.check === 'max_size') sizes.max = check.maximum;
+    if (check.check === 'length_equals') sizes.min = sizes.max = check.length;
+    if (check.check === 'size_equals') sizes.min = sizes.max = check.size;
+  }
+  return sizes;
+}
+
+function nativeEnum(values: Record<string, string | number>): JsonSchema {
+  // Numeric TypeScript enums map each value back to its name; skip those entries
+  const members = Object.keys(values)
+    .filter((key) => typeof values[values[key]!] !== 'number')
+    .map((key) => values[key]!);
+  const types = [...new Set(members.map((member) => (typeof member === 'number' ? 'number' : 'string')))];
+  return { type: types.length === 1 ? types[0]! : types, enum: members };
+}
+
+function sizeKeywords(min: number | undefined, max: number | undefined): JsonSchema {
+  return {
+    ...(min !== undefined && { minItems: min }),
+    ...(max !== undefined && { maxItems: max }),
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
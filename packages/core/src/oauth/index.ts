@@ -0,0 +1,13 @@
+export { OAuth2Client, OAuth2Error, withOAuth2Refresh } from './oauth2-client.js';
+export type {
+  OAuth2ClientOptions,
+  OAuth2AuthorizationRequest,
+  OAuth2Tokens,
+} from './oauth2-client.js';
+export { createCodeVerifier, createCodeChallenge, createState } from './pkce.js';
+export { startMockOAuth2Server } from './mock-server.js';
+export type {
+  MockOAuth2Server,
+  MockOAuth2ServerOptions,
+  MockOAuth2TokenRequest,
+} from './mock-server.js';
@@ -0,0 +1,230 @@
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createCodeChallenge } from './pkce.js';
+
+export interface MockOAuth2ServerOptions {
+  /** When set, token requests must authenticate as this client */
+  clientId?: string;
+  clientSecret?: string;
+  /** Access token lifetime in seconds (default 7200, like Twitter) */
+  expiresIn?: number;
+  /** Issue a new refresh token on every refresh and invalidate the old one (default true) */
+  rotateRefreshTokens?: boolean;
+}
+
+/** A token request received by the mock server. */
+export interface MockOAuth2TokenRequest {
+  grantType: string;
+  clientId?: string;
+  /** How the client authenticated */
+  clientAuth: 'basic' | 'body' | 'none';
+  params: Record<string, string>;
+}
+
+export interface MockOAuth2Server {
+  /** Base URL, e.g. http://127.0.0.1:53412 */
+  url: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  /** Token requests received, in order */
+  requests: MockOAuth2TokenRequest[];
+  /**
+   * Simulate the user approving an authorization URL: follows it and returns
+   * the code and state from the redirect.
+   */
+  authorize(authorizationUrl: string): Promise<{ code: string; state: string | null }>;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  redirectUri: string | null;
+  codeChallenge: string | null;
+}
+
+/**
+ * Start a local OAuth2 authorization server for tests, listening on a random
+ * port. It implements the authorization code grant (with S256 PKCE) and the
+ * refresh token grant, and answers errors like a real provider
+ * (`{ error: 'invalid_grant' }` with status 400).
+ *
+ * @example
+ * ```typescript
+ * const server = await startMockOAuth2Server({ expiresIn: 60 });
+ * const client = new OAuth2Client(
+ *   {
+ *     ...twitterCredential,
+ *     config: {
+ *       ...twitterCredential.config,
+ *       authorizationUrl: server.authorizationUrl,
+ *       tokenUrl: server.tokenUrl,
+ *     },
+ *   },
+ *   { clientId: 'test', redirectUri: 'http://localhost/callback' },
+ * );
+ * const { url, codeVerifier } = client.createAuthorizationUrl();
+ * const { code } = await server.authorize(url);
+ * await client.exchangeCode(code, codeVerifier);
+ * await server.close();
+ * ```
+ */
+export async function startMockOAuth2Server(
+  options: MockOAuth2ServerOptions = {}
+): Promise<MockOAuth2Server> {
+  const codes = new Map<string, PendingCode>();
+  const refreshTokens = new Set<string>();
+  const requests: MockOAuth2TokenRequest[] = [];
+  let issued = 0;
+  let authorized = 0;
+
+  const send = (res: ServerResponse, status: number, body: Record<string, unknown>) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  const fail = (res: ServerResponse, status: number, error: string, description: string) =>
+    send(res, status, { error, error_description: description });
+
+  const issueTokens = (res: ServerResponse, withRefreshToken = true) => {
+    issued++;
+    const refreshToken = `mock-refresh-${issued}`;
+    if (withRefreshToken) refreshTokens.add(refreshToken);
+    send(res, 200, {
+      access_token: `mock-access-${issued}`,
+      ...(withRefreshToken && { refresh_token: refreshToken }),
+      token_type: 'bearer',
+      expires_in: options.expiresIn ?? 7200,
+    });
+  };
+
+  const handleAuthorize = (url: URL, res: ServerResponse) => {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (!redirectUri) {
+      fail(res, 400, 'invalid_request', 'Missing redirect_uri');
+      return;
+    }
+    const method = url.searchParams.get('code_challenge_method');
+    if (method && method !== 'S256') {
+      fail(res, 400, 'invalid_request', `Unsupported code_challenge_method "${method}"`);
+      return;
+    }
+
+    const code = `mock-code-${++authorized}`;
+    codes.set(code, {
+      redirectUri,
+      codeChallenge: url.searchParams.get('code_challenge'),
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    const state = url.searchParams.get('state');
+    if (state !== null) location.searchParams.set('state', state);
+    res.writeHead(302, { Location: location.toString() });
+    res.end();
+  };
+
+  const handleToken = (req: IncomingMessage, body: string, res: ServerResponse) => {
+    const params = Object.fromEntries(new URLSearchParams(body));
+    let clientId = params['client_id'];
+    let clientSecret = params['client_secret'];
+    let clientAuth: MockOAuth2TokenRequest['clientAuth'] = clientId ? 'body' : 'none';
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Basic ')) {
+      const [id = '', secret = ''] = Buffer.from(authorization.slice(6), 'base64')
+        .toString()
+        .split(':');
+      clientId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret);
+      clientAuth = 'basic';
+    }
+
+    const grantType = params['grant_type'] ?? '';
+    requests.push({ grantType, clientId, clientAuth, params });
+
+    if (
+      (options.clientId && clientId !== options.clientId) ||
+      (options.clientSecret && clientSecret !== options.clientSecret)
+    ) {
+      fail(res, 401, 'invalid_client', 'Client authentication failed');
+      return;
+    }
+
+    if (grantType === 'authorization_code') {
+      const code = params['code'] ?? '';
+      const pending = codes.get(code);
+      codes.delete(code);
+      if (!pending) {
+        fail(res, 400, 'invalid_grant', 'Unknown or already used authorization code');
+      } else if (pending.redirectUri !== (params['redirect_uri'] ?? null)) {
+        fail(res, 400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+      } else if (
+        pending.codeChallenge &&
+        createCodeChallenge(params['code_verifier'] ?? '') !== pending.codeChallenge
+      ) {
+        fail(res, 400, 'invalid_grant', 'code_verifier does not match the code_challenge');
+      } else {
+        issueTokens(res);
+      }
+      return;
+    }
+
+    if (grantType === 'refresh_token') {
+      const refreshToken = params['refresh_token'] ?? '';
+      if (!refreshTokens.has(refreshToken)) {
+        fail(res, 400, 'invalid_grant', 'Invalid or revoked refresh token');
+        return;
+      }
+      const rotate = options.rotateRefreshTokens ?? true;
+      if (rotate) refreshTokens.delete(refreshToken);
+      issueTokens(res, rotate);
+      return;
+    }
+
+    fail(res, 400, 'unsupported_grant_type', `Unsupported grant_type "${grantType}"`);
+  };
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (req.method === 'GET' && url.pathname === '/authorize') {
+        handleAuthorize(url, res);
+      } else if (req.method === 'POST' && url.pathname === '/token') {
+        handleToken(req, body, res);
+      } else {
+        fail(res, 404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    url,
+    authorizationUrl: `${url}/authorize`,
+    tokenUrl: `${url}/token`,
+    requests,
+    async authorize(authorizationUrl) {
+      const response = await fetch(authorizationUrl, { redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status !== 302 || !location) {
+        throw new Error(`Authorization failed with status ${response.status}: ${await response.text()}`);
+      }
+      const redirect = new URL(location);
+      return {
+        code: redirect.searchParams.get('code') ?? '',
+        state: redirect.searchParams.get('state'),
+      };
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
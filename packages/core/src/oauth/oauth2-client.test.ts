@@ -0,0 +1,213 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import { ExecutionContext } from '../execution/context';
+import { executeWorkflow } from '../execution/execute-workflow';
+import { defineOAuth2Credential } from '../types/credentials';
+import type { CredentialProvider, ResolvedCredentials } from '../types/credentials';
+import type { Workflow, WorkflowNode } from '../types';
+import { OAuth2Client, OAuth2Error, withOAuth2Refresh } from './oauth2-client';
+import { startMockOAuth2Server, type MockOAuth2Server } from './mock-server';
+import { createCodeChallenge } from './pkce';
+
+let server: MockOAuth2Server | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+/** A mock server, an in-memory credential store and a client for the 'crm' credential. */
+async function setup(stored: ResolvedCredentials = {}) {
+  server = await startMockOAuth2Server({ clientId: 'jam-client', clientSecret: 'shh' });
+  const vault: Record<string, ResolvedCredentials> = { crm: { clientId: 'jam-client', ...stored } };
+  const store: CredentialProvider = {
+    getCredentials: async (name) => vault[name] ?? null,
+    hasCredentials: async (name) => name in vault,
+    saveCredentials: async (name, credentials) => {
+      vault[name] = credentials;
+    },
+  };
+  const credential = defineOAuth2Credential({
+    pkce: true,
+    name: 'crm',
+    displayName: 'CRM',
+    schema: z.object({ accessToken: z.string() }),
+    config: { authorizationUrl: server.authorizationUrl, tokenUrl: server.tokenUrl, scopes: ['contacts.read'] },
+  });
+  const client = new OAuth2Client(credential, {
+    clientId: 'jam-client',
+    clientSecret: 'shh',
+    redirectUri: 'http://localhost:3000/callback',
+    credentialProvider: store,
+  });
+  return { server, vault, store, client };
+}
+
+describe('OAuth2Client', () => {
+  it('exchanges an authorization code with PKCE and saves the tokens', async () => {
+    const { server, vault, client } = await setup({ consumerKey: 'keep-me' });
+    const request = client.createAuthorizationUrl();
+    const params = new URL(request.url).searchParams;
+
+    expect(params.get('code_challenge')).toBe(createCodeChallenge(request.codeVerifier!));
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('scope')).toBe('contacts.read');
+
+    const callback = await server.authorize(request.url);
+    const tokens = await client.exchangeCode(callback.code, request.codeVerifier);
+
+    expect(callback.state).toBe(request.state);
+    expect(tokens).toMatchObject({ accessToken: 'mock-access-1', refreshToken: 'mock-refresh-1', tokenType: 'bearer' });
+    expect(vault['crm']).toEqual({
+      clientId: 'jam-client',
+      consumerKey: 'keep-me',
+      accessToken: 'mock-access-1',
+      refreshToken: 'mock-refresh-1',
+      expiresAt: expect.any(Number),
+    });
+    expect(server.requests).toEqual([
+      expect.objectContaining({ grantType: 'authorization_code', clientId: 'jam-client', clientAuth: 'basic' }),
+    ]);
+  });
+
+  it('rejects a code verifier that does not match the challenge', async () => {
+    const { server, client } = await setup();
+    const request = client.createAuthorizationUrl();
+    const { code } = await server.authorize(request.url);
+
+    const error = await client.exchangeCode(code, 'not-the-verifier').catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(OAuth2Error);
+    expect(error).toMatchObject({ code: 'invalid_grant', status: 400 });
+    expect((error as Error).message).toContain('code_verifier does not match');
+  });
+
+  it('requires the code verifier for PKCE credentials', async () => {
+    const { client } = await setup();
+
+    await expect(client.exchangeCode('mock-code-1')).rejects.toMatchObject({ code: 'invalid_request' });
+  });
+
+  it('rejects an authorization code that was already used', async () => {
+    const { server, client } = await setup();
+    const request = client.createAuthorizationUrl();
+    const { code } = await server.authorize(request.url);
+    await client.exchangeCode(code, request.codeVerifier);
+
+    const error = await client.exchangeCode(code, request.codeVerifier).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(OAuth2Error);
+    expect(error).toMatchObject({ code: 'invalid_grant', status: 400 });
+  });
+
+  it('refreshes tokens that expire within the margin', async () => {
+    const { server, vault, client } = await setup();
+    const request = client.createAuthorizationUrl();
+    const { code } = await server.authorize(request.url);
+    await client.exchangeCode(code, request.codeVerifier);
+
+    expect(client.isExpired(vault['crm']!)).toBe(false);
+    expect(await client.refreshIfNeeded()).toMatchObject({ accessToken: 'mock-access-1' });
+
+    vault['crm'] = { ...vault['crm'], expiresAt: Date.now() + 30_000 };
+    expect(client.isExpired(vault['crm'])).toBe(true);
+
+    const [first, second] = await Promise.all([client.refreshIfNeeded(), client.refreshIfNeeded()]);
+    expect(first).toMatchObject({ accessToken: 'mock-access-2', refreshToken: 'mock-refresh-2' });
+    expect(second).toBe(first);
+    expect(server.requests.map((request) => request.grantType)).toEqual(['authorization_code', 'refresh_token']);
+
+    // The mock server rotates refresh tokens, so the first one is now revoked
+    await expect(client.refresh('mock-refresh-1')).rejects.toMatchObject({ code: 'invalid_grant' });
+  });
+
+  it('fails with NO_REFRESH_TOKEN when nothing can be refreshed', async () => {
+    const { client } = await setup({ accessToken: 'expired', expiresAt: Date.now() - 1000 });
+
+    await expect(client.refreshIfNeeded()).rejects.toMatchObject({ code: 'NO_REFRESH_TOKEN' });
+  });
+});
+
+describe('withOAuth2Refresh', () => {
+  /** Fails with errorCode '401' unless it gets the given access token. */
+  const crmNode = (acceptedToken: string) => defineNode({
+    type: 'crm_contacts',
+    name: 'CRM Contacts',
+    description: 'Reports the access token it was given',
+    category: 'integration',
+    inputSchema: z.object({}),
+    outputSchema: z.object({ token: z.string() }),
+    credentials: { required: ['crm'] },
+    executor: async (_input, context) => {
+      const token = String((context.credentials as Record<string, ResolvedCredentials>)['crm']?.['accessToken']);
+      return token === acceptedToken
+        ? { success: true, output: { token } }
+        : { success: false, error: `Token ${token} rejected`, errorCode: '401' };
+    },
+  }) as WorkflowNode['node'];
+
+  const workflowFor = (node: WorkflowNode['node']): Workflow => ({
+    entryNodeId: 'contacts',
+    nodes: [{ id: 'contacts', type: 'crm_contacts', node, input: {} }],
+    edges: [],
+  });
+
+  it('refreshes expired tokens before the node runs', async () => {
+    const { server, vault, store, client } = await setup();
+    const request = client.createAuthorizationUrl();
+    await client.exchangeCode((await server.authorize(request.url)).code, request.codeVerifier);
+    vault['crm'] = { ...vault['crm'], expiresAt: Date.now() - 1000 };
+
+    const result = await executeWorkflow(workflowFor(crmNode('mock-access-2')), new ExecutionContext(), {
+      credentialProvider: withOAuth2Refresh(store, [client]),
+      redaction: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(vault['crm']).toMatchObject({ accessToken: 'mock-access-2', refreshToken: 'mock-refresh-2' });
+  });
+
+  it('refreshes a rejected token and runs the node again on 401', async () => {
+    const { server, vault, store, client } = await setup();
+    const request = client.createAuthorizationUrl();
+    await client.exchangeCode((await server.authorize(request.url)).code, request.codeVerifier);
+    let runs = 0;
+    const node = crmNode('mock-access-2');
+    const counted = { ...node, executor: (...args: Parameters<typeof node.executor>) => (runs++, node.executor(...args)) };
+
+    const result = await executeWorkflow(workflowFor(counted), new ExecutionContext(), {
+      credentialProvider: withOAuth2Refresh(store, [client]),
+      redaction: false,
+    });
+
+    expect(runs).toBe(2);
+    expect(result.results['contacts']).toMatchObject({ success: true, output: { token: 'mock-access-2' } });
+    expect(vault['crm']).toMatchObject({ accessToken: 'mock-access-2' });
+  });
+
+  it('fails the node when the refreshed token is rejected too', async () => {
+    const { server, store, client } = await setup();
+    const request = client.createAuthorizationUrl();
+    await client.exchangeCode((await server.authorize(request.url)).code, request.codeVerifier);
+
+    const result = await executeWorkflow(workflowFor(crmNode('never')), new ExecutionContext(), {
+      credentialProvider: withOAuth2Refresh(store, [client]),
+      redaction: false,
+    });
+
+    expect(result.results['contacts']).toMatchObject({ success: false, errorCode: '401', error: 'Token mock-access-2 rejected' });
+    expect(server.requests.filter((request) => request.grantType === 'refresh_token')).toHaveLength(1);
+  });
+
+  it('does not retry without a provider that can refresh', async () => {
+    const { store } = await setup({ accessToken: 'revoked' });
+
+    const result = await executeWorkflow(workflowFor(crmNode('fresh')), new ExecutionContext(), {
+      credentialProvider: store,
+      redaction: false,
+    });
+
+    expect(result.results['contacts']).toMatchObject({ success: false, errorCode: '401', error: 'Token revoked rejected' });
+  });
+});
@@ -0,0 +1,330 @@
+import type {
+  CredentialProvider,
+  OAuth2CredentialDefinition,
+  ResolvedCredentials,
+} from '../types/credentials.js';
+import { createCodeChallenge, createCodeVerifier, createState } from './pkce.js';
+
+/**
+ * Error thrown when a token request fails or no refresh token is available.
+ * `code` is the OAuth2 error from the token endpoint (e.g. 'invalid_grant'),
+ * so a node failing on it reports that code as its errorCode.
+ */
+export class OAuth2Error extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'OAuth2Error';
+  }
+}
+
+export interface OAuth2ClientOptions {
+  clientId: string;
+  /** Omit for public clients; they send only client_id */
+  clientSecret?: string;
+  /** Must match the redirect URI registered with the provider */
+  redirectUri: string;
+  /** Where tokens are loaded from and saved to, under the credential's name */
+  credentialProvider?: CredentialProvider;
+  /** Refresh tokens this long before `expiresAt` (default 60 seconds) */
+  refreshMarginMs?: number;
+}
+
+/** Authorization URL plus the values needed to complete the flow. */
+export interface OAuth2AuthorizationRequest {
+  url: string;
+  /** Compare with the `state` query parameter on the redirect */
+  state: string;
+  /** PKCE verifier to keep (e.g. in the session) and pass to exchangeCode */
+  codeVerifier?: string;
+}
+
+/** Tokens returned by the token endpoint. */
+export interface OAuth2Tokens {
+  accessToken: string;
+  refreshToken?: string;
+  /** Access token expiration timestamp (unix ms), if the provider sent `expires_in` */
+  expiresAt?: number;
+  tokenType?: string;
+  scope?: string;
+}
+
+const DEFAULT_REFRESH_MARGIN_MS = 60_000;
+
+/**
+ * Runs the OAuth2 authorization code flow for an OAuth2CredentialDefinition:
+ * builds authorization URLs (with PKCE for 'oauth2_pkce' credentials),
+ * exchanges codes, and refreshes access tokens before they expire.
+ *
+ * New tokens are merged into the stored credentials and saved with
+ * `credentialProvider.saveCredentials`, keeping other fields (client ID,
+ * OAuth 1.0a keys, ...) as they were.
+ *
+ * The client secret is sent with HTTP Basic auth unless the credential's
+ * `config.tokenRequestMethod` is 'body'.
+ *
+ * @example
+ * ```typescript
+ * const twitter = new OAuth2Client(twitterCredential, {
+ *   clientId, clientSecret, redirectUri, credentialProvider,
+ * });
+ *
+ * const { url, state, codeVerifier } = twitter.createAuthorizationUrl();
+ * // ...redirect the user to `url`, then on the callback:
+ * await twitter.exchangeCode(code, codeVerifier);
+ *
+ * // Before each run: refreshes when the access token is about to expire
+ * const credentials = await twitter.refreshIfNeeded();
+ * ```
+ */
+export class OAuth2Client {
+  /** Refreshes in progress, keyed by whether they were forced */
+  private readonly pending = new Map<boolean, Promise<ResolvedCredentials | null>>();
+
+  constructor(
+    public readonly credential: OAuth2CredentialDefinition,
+    private readonly options: OAuth2ClientOptions
+  ) {}
+
+  /** Credential name the tokens are stored under */
+  get name(): string {
+    return this.credential.name;
+  }
+
+  private get usesPkce(): boolean {
+    return this.credential.type === 'oauth2_pkce' || this.credential.config.pkce === true;
+  }
+
+  /**
+   * Build the URL to send the user to for authorization.
+   * @param state - Defaults to a random value
+   */
+  createAuthorizationUrl(state: string = createState()): OAuth2AuthorizationRequest {
+    const { config } = this.credential;
+    const url = new URL(config.authorizationUrl);
+    const params: Record<string, string> = {
+      ...config.authQueryParameters,
+      response_type: 'code',
+      client_id: this.options.clientId,
+      redirect_uri: this.options.redirectUri,
+      state,
+    };
+    if (config.scopes.length > 0) {
+      params['scope'] = config.scopes.join(' ');
+    }
+
+    let codeVerifier: string | undefined;
+    if (this.usesPkce) {
+      codeVerifier = createCodeVerifier();
+      params['code_challenge'] = createCodeChallenge(codeVerifier);
+      params['code_challenge_method'] = 'S256';
+    }
+
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return { url: url.toString(), state, codeVerifier };
+  }
+
+  /**
+   * Exchange the authorization code from the redirect for tokens, and save them.
+   * @throws OAuth2Error if the token endpoint rejects the code
+   */
+  async exchangeCode(code: string, codeVerifier?: string): Promise<OAuth2Tokens> {
+    if (this.usesPkce && !codeVerifier) {
+      throw new OAuth2Error(
+        'invalid_request',
+        `Credential "${this.name}" uses PKCE; pass the codeVerifier from createAuthorizationUrl`
+      );
+    }
+
+    const tokens = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.options.redirectUri,
+      ...(codeVerifier && { code_verifier: codeVerifier }),
+    });
+    await this.save(tokens);
+    return tokens;
+  }
+
+  /**
+   * Get a new access token, and save it.
+   * @param refreshToken - Defaults to the stored refresh token
+   * @throws OAuth2Error if there is no refresh token or the endpoint rejects it
+   */
+  async refresh(refreshToken?: string): Promise<OAuth2Tokens> {
+    const token = refreshToken ?? stringField(await this.load(), 'refreshToken');
+    if (!token) {
+      throw new OAuth2Error(
+        'NO_REFRESH_TOKEN',
+        `Credential "${this.name}" has no refresh token; authorize again`
+      );
+    }
+
+    const tokens = await this.requestToken({ grant_type: 'refresh_token', refresh_token: token });
+    // Providers that don't rotate refresh tokens leave it out of the response
+    const refreshed = { ...tokens, refreshToken: tokens.refreshToken ?? token };
+    await this.save(refreshed);
+    return refreshed;
+  }
+
+  /**
+   * Whether stored credentials expire within the refresh margin.
+   * Credentials without `expiresAt` never expire.
+   */
+  isExpired(credentials: ResolvedCredentials): boolean {
+    const expiresAt = credentials['expiresAt'];
+    const margin = this.options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+    return typeof expiresAt === 'number' && expiresAt - margin <= Date.now();
+  }
+
+  /**
+   * Load the stored credentials, refreshing them first if they are about to expire.
+   * Concurrent calls share one refresh, since most providers invalidate a
+   * refresh token once it has been used.
+   *
+   * @returns The credentials, or null if none are stored
+   * @throws OAuth2Error if the refresh fails
+   */
+  async refreshIfNeeded(): Promise<ResolvedCredentials | null> {
+    return this.loadRefreshed(false);
+  }
+
+  /**
+   * Load the stored credentials with a new access token, whether or not the
+   * current one has expired (e.g. after an API rejected it with HTTP 401).
+   * Concurrent calls share one refresh.
+   *
+   * @returns The credentials, or null if none are stored
+   * @throws OAuth2Error if the refresh fails
+   */
+  async refreshStored(): Promise<ResolvedCredentials | null> {
+    return this.loadRefreshed(true);
+  }
+
+  private loadRefreshed(force: boolean): Promise<ResolvedCredentials | null> {
+    let pending = this.pending.get(force);
+    if (!pending) {
+      pending = this.refreshStoredTokens(force).finally(() => this.pending.delete(force));
+      this.pending.set(force, pending);
+    }
+    return pending;
+  }
+
+  private async refreshStoredTokens(force: boolean): Promise<ResolvedCredentials | null> {
+    const stored = await this.load();
+    if (!stored || (!force && !this.isExpired(stored))) {
+      return stored;
+    }
+    return mergeTokens(stored, await this.refresh(stringField(stored, 'refreshToken')));
+  }
+
+  private async load(): Promise<ResolvedCredentials | null> {
+    return (await this.options.credentialProvider?.getCredentials(this.name)) ?? null;
+  }
+
+  private async save(tokens: OAuth2Tokens): Promise<void> {
+    const provider = this.options.credentialProvider;
+    if (!provider?.saveCredentials) return;
+    await provider.saveCredentials(this.name, mergeTokens((await this.load()) ?? {}, tokens));
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<OAuth2Tokens> {
+    const { tokenUrl, tokenRequestMethod } = this.credential.config;
+    const { clientId, clientSecret } = this.options;
+    const body = new URLSearchParams(params);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (clientSecret && tokenRequestMethod !== 'body') {
+      const basic = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(basic).toString('base64')}`;
+    } else {
+      body.set('client_id', clientId);
+      if (clientSecret) body.set('client_secret', clientSecret);
+    }
+
+    const response = await fetch(tokenUrl, { method: 'POST', headers, body });
+    const data = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    const accessToken = stringField(data, 'access_token');
+
+    if (!response.ok || !accessToken) {
+      const code = stringField(data, 'error') ?? 'token_request_failed';
+      const description = stringField(data, 'error_description');
+      throw new OAuth2Error(
+        code,
+        `Token request for "${this.name}" failed with status ${response.status}: ${code}` +
+          (description ? ` (${description})` : ''),
+        response.status
+      );
+    }
+
+    const expiresIn = Number(data['expires_in'] ?? NaN);
+    return {
+      accessToken,
+      refreshToken: stringField(data, 'refresh_token'),
+      expiresAt: Number.isFinite(expiresIn) ? Date.now() + expiresIn * 1000 : undefined,
+      tokenType: stringField(data, 'token_type'),
+      scope: stringField(data, 'scope'),
+    };
+  }
+}
+
+/**
+ * Wrap a CredentialProvider so `refreshIfNeeded` refreshes OAuth2 credentials
+ * through their client before a node runs, and `refresh` gets a new access
+ * token when a node fails with HTTP 401. Other names fall through to the
+ * provider's own `refreshIfNeeded` and `refresh`, if any.
+ *
+ * @example
+ * ```typescript
+ * const provider = withOAuth2Refresh(store, [twitterOAuth]);
+ * await executeWorkflow(workflow, ctx, { credentialProvider: provider });
+ * ```
+ */
+export function withOAuth2Refresh(
+  provider: CredentialProvider,
+  clients: OAuth2Client[]
+): CredentialProvider {
+  const clientsByName = new Map(clients.map((client) => [client.name, client]));
+
+  return {
+    getCredentials: (name) => provider.getCredentials(name),
+    hasCredentials: (name) => provider.hasCredentials(name),
+    saveCredentials: provider.saveCredentials?.bind(provider),
+    refreshIfNeeded: async (name) => {
+      const client = clientsByName.get(name);
+      if (client) return client.refreshIfNeeded();
+      return (await provider.refreshIfNeeded?.(name)) ?? null;
+    },
+    refresh: async (name) => {
+      const client = clientsByName.get(name);
+      if (client) return client.refreshStored();
+      return (await provider.refresh?.(name)) ?? null;
+    },
+  };
+}
+
+/** Stored credentials with the token fields replaced by `tokens`. */
+function mergeTokens(stored: ResolvedCredentials, tokens: OAuth2Tokens): ResolvedCredentials {
+  const merged: ResolvedCredentials = {
+    ...stored,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken ?? stored['refreshToken'],
+    expiresAt: tokens.expiresAt,
+  };
+  if (merged['refreshToken'] === undefined) delete merged['refreshToken'];
+  if (merged['expiresAt'] === undefined) delete merged['expiresAt'];
+  return merged;
+}
+
+function stringField(data: Record<string, unknown> | null, key: string): string | undefined {
+  const value = data?.[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
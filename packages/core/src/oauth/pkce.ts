@@ -0,0 +1,22 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Create a random PKCE code verifier (43 base64url characters).
+ */
+export function createCodeVerifier(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Derive the S256 code challenge sent with the authorization request.
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Create a random `state` value for CSRF protection.
+ */
+export function createState(): string {
+  return randomBytes(16).toString('base64url');
+}
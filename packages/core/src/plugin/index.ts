@@ -0,0 +1,3 @@
+export { PluginError, definePlugin, resolvePluginManifest } from './plugin.js';
+export { CORE_VERSION } from '../version.js';
+export { satisfiesVersionRange } from './version-range.js';
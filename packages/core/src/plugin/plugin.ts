@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import type { JamNodesPlugin } from '../types/plugin.js';
+
+/**
+ * Error thrown when a plugin can't be loaded: a malformed manifest, an
+ * incompatible core version, or nodes that are already registered.
+ */
+export class PluginError extends Error {
+  constructor(
+    message: string,
+    /** Plugin name, when the manifest got far enough to have one */
+    public readonly pluginName?: string
+  ) {
+    super(message);
+    this.name = 'PluginError';
+  }
+}
+
+const pluginManifestSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().optional(),
+  coreVersion: z.string().optional(),
+  nodes: z
+    .array(
+      z
+        .object({
+          type: z.string().min(1),
+          executor: z.custom((value) => typeof value === 'function', 'Expected an executor function'),
+        })
+        .passthrough()
+    )
+    .optional(),
+  credentials: z
+    .array(z.object({ name: z.string().min(1), type: z.string() }).passthrough())
+    .optional(),
+});
+
+/**
+ * Define a plugin manifest with type checking.
+ *
+ * @example
+ * ```typescript
+ * // index.ts of @acme/jam-nodes
+ * export default definePlugin({
+ *   name: '@acme/jam-nodes',
+ *   version: '1.0.0',
+ *   coreVersion: '^0.2.0',
+ *   nodes: [crmLookupNode, ticketCreateNode],
+ *   credentials: [acmeCrmCredential],
+ * });
+ * ```
+ */
+export function definePlugin(plugin: JamNodesPlugin): JamNodesPlugin {
+  return plugin;
+}
+
+/**
+ * Get the manifest from a plugin module: its default export, a named
+ * `plugin` export, or the manifest itself. Handles CommonJS modules whose
+ * default export is wrapped once more by `import()`.
+ *
+ * @throws PluginError if no valid manifest is found
+ */
+export function resolvePluginManifest(module: unknown): JamNodesPlugin {
+  let candidate = module;
+  for (let depth = 0; depth < 3 && isObject(candidate) && !('name' in candidate); depth++) {
+    candidate = candidate['default'] ?? candidate['plugin'];
+  }
+
+  const parsed = pluginManifestSchema.safeParse(candidate);
+  if (!parsed.success) {
+    const name = isObject(candidate) && typeof candidate['name'] === 'string' ? candidate['name'] : undefined;
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new PluginError(
+      `Invalid plugin manifest${name ? ` "${name}"` : ''}: ${issues}`,
+      name
+    );
+  }
+  // Validated above; keep the caller's objects rather than zod's copies
+  return candidate as JamNodesPlugin;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
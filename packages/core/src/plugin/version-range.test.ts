@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { CORE_VERSION } from '../version';
+import { satisfiesVersionRange } from './version-range';
+
+describe('satisfiesVersionRange', () => {
+  it.each([
+    // Exact versions and x-ranges
+    ['0.2.10', '0.2.10', true],
+    ['0.2.10', '=v0.2.10', true],
+    ['0.2.11', '0.2.10', false],
+    ['0.2.10', '0.2', true],
+    ['0.3.0', '0.2.x', false],
+    ['5.0.0', '*', true],
+    ['1.9.9', '1.X', true],
+    // Caret ranges on 1.x and later allow minor and patch updates
+    ['1.4.0', '^1.2.0', true],
+    ['2.0.0', '^1.2.0', false],
+    ['1.1.9', '^1.2.0', false],
+    // On 0.x a caret range only allows patch updates
+    ['0.2.0', '^0.2.0', true],
+    ['0.2.10', '^0.2.0', true],
+    ['0.3.0', '^0.2.0', false],
+    ['0.1.9', '^0.2.0', false],
+    ['0.0.3', '^0.0.3', true],
+    ['0.0.4', '^0.0.3', false],
+    ['0.0.9', '^0.0', true],
+    ['0.1.0', '^0.0', false],
+    ['0.9.0', '^0', true],
+    ['1.0.0', '^0', false],
+    // Tilde ranges
+    ['0.2.15', '~0.2.3', true],
+    ['0.3.0', '~0.2.3', false],
+    ['1.9.0', '~1', true],
+    // Comparators, with or without spaces after the operator
+    ['0.5.0', '>=0.2.0 <1.0.0', true],
+    ['1.0.0', '>= 0.2.0 < 1.0.0', false],
+    ['0.2.0', '>0.2.0', false],
+    ['0.2.1', '>0.2.0', true],
+    ['0.3.0', '>0.2', true],
+    ['0.2.9', '>0.2', false],
+    ['0.2.9', '<=0.2', true],
+    ['0.3.0', '<=0.2', false],
+    // Alternatives
+    ['1.4.0', '^0.2.0 || ^1', true],
+    ['0.2.10', '^0.2.0 || ^1', true],
+    ['2.0.0', '^0.2.0 || ^1', false],
+    ['0.1.0', '<0.2.0 || >=1.0.0', true],
+    ['0.5.0', '<0.2.0 || >=1.0.0', false],
+  ])('%s satisfies %s: %s', (version, range, expected) => {
+    expect(satisfiesVersionRange(version, range)).toBe(expected);
+  });
+
+  it('ignores prerelease and build tags', () => {
+    expect(satisfiesVersionRange('0.3.0-beta.1', '^0.3.0')).toBe(true);
+    expect(satisfiesVersionRange('0.3.0-beta.1', '^0.2.0')).toBe(false);
+    expect(satisfiesVersionRange('1.0.0+build.5', '1.0.0')).toBe(true);
+    expect(satisfiesVersionRange('0.2.10', '>=0.2.10-rc.1 <0.3.0')).toBe(true);
+    expect(satisfiesVersionRange('0.2.10', '^0.2.0-alpha || ^1.0.0-beta')).toBe(true);
+  });
+
+  it.each([
+    ['0.2', '^0.2.0', 'Invalid version "0.2"'],
+    ['latest', '^0.2.0', 'Invalid version "latest"'],
+    ['0.2.10', '^zero', 'Invalid version range "^zero"'],
+    ['0.2.10', '^0.2.0 || ~', 'Invalid version range "^0.2.0 || ~"'],
+  ])('throws on %s / %s', (version, range, message) => {
+    expect(() => satisfiesVersionRange(version, range)).toThrow(message);
+  });
+});
+
+describe('CORE_VERSION', () => {
+  it('matches package.json', () => {
+    const { version } = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf8'));
+
+    expect(CORE_VERSION).toBe(version);
+  });
+});
@@ -0,0 +1,110 @@
+type Version = [number, number, number];
+
+/** Allowed versions: `min` inclusive, `max` exclusive (either may be open) */
+interface VersionBounds {
+  min?: Version;
+  max?: Version;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:[-+][\w.+-]*)?$/;
+const COMPARATOR_PATTERN =
+  /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+][\w.+-]*)?$/;
+
+/**
+ * Check a version against an npm-style range.
+ *
+ * Supports exact versions, x-ranges (`1.x`, `*`), caret and tilde ranges,
+ * comparators (`>=0.2.0 <1.0.0`) and `||` alternatives. Prerelease tags are
+ * ignored.
+ *
+ * @example
+ * ```typescript
+ * satisfiesVersionRange('0.2.10', '^0.2.0');      // true
+ * satisfiesVersionRange('0.3.0', '^0.2.0');       // false
+ * satisfiesVersionRange('1.4.0', '^0.2.0 || ^1'); // true
+ * ```
+ *
+ * @throws Error if the version or range can't be parsed
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  const parsed = VERSION_PATTERN.exec(version.trim());
+  if (!parsed) {
+    throw new Error(`Invalid version "${version}"`);
+  }
+  const target: Version = [Number(parsed[1]), Number(parsed[2]), Number(parsed[3])];
+
+  // Parse every alternative first, so an invalid one throws even when an
+  // earlier one matches
+  const alternatives = range.split('||').map((alternative) =>
+    alternative
+      // `>= 1.2.0` is one comparator
+      .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((comparator) => comparatorBounds(comparator, range))
+  );
+
+  return alternatives.some((comparators) =>
+    comparators.every(
+      (bounds) =>
+        (!bounds.min || compareVersions(target, bounds.min) >= 0) &&
+        (!bounds.max || compareVersions(target, bounds.max) < 0)
+    )
+  );
+}
+
+function comparatorBounds(comparator: string, range: string): VersionBounds {
+  const match = COMPARATOR_PATTERN.exec(comparator);
+  if (!match) {
+    throw new Error(`Invalid version range "${range}"`);
+  }
+
+  const operator = match[1] ?? '=';
+  // Numbers up to the first wildcard or missing part; `1.x.3` is treated as `1.x`
+  const parts: number[] = [];
+  for (const part of match.slice(2, 5)) {
+    if (part === undefined || !/^\d+$/.test(part)) break;
+    parts.push(Number(part));
+  }
+
+  const [major = 0, minor = 0, patch = 0] = parts;
+  const lower: Version = [major, minor, patch];
+  // Exclusive upper bound of the x-range, e.g. 1.2 -> 1.3.0, 1.2.3 -> 1.2.4
+  const next = parts.length === 0 ? undefined : bump(lower, parts.length - 1);
+
+  switch (operator) {
+    case '>=':
+      return { min: lower };
+    case '>':
+      // Nothing is greater than `*`
+      return next ? { min: next } : { max: [0, 0, 0] };
+    case '<':
+      return parts.length === 0 ? { max: [0, 0, 0] } : { max: lower };
+    case '<=':
+      return { max: next };
+    case '~':
+      return { min: lower, max: parts.length >= 2 ? bump(lower, 1) : next };
+    case '^': {
+      if (parts.length === 0) return {};
+      if (major > 0 || parts.length === 1) return { min: lower, max: bump(lower, 0) };
+      if (minor > 0 || parts.length === 2) return { min: lower, max: bump(lower, 1) };
+      return { min: lower, max: bump(lower, 2) };
+    }
+    default:
+      return parts.length === 0 ? {} : { min: lower, max: next };
+  }
+}
+
+/** Increment one part of a version and reset the parts after it */
+function bump(version: Version, index: number): Version {
+  return version.map((part, i) => (i < index ? part : i === index ? part + 1 : 0)) as Version;
+}
+
+function compareVersions(a: Version, b: Version): number {
+  for (let i = 0; i < 3; i++) {
+    const diff = a[i]! - b[i]!;
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
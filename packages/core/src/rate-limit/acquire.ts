@@ -0,0 +1,126 @@
+import type {
+  RateLimitAcquisition,
+  RateLimitConfig,
+  RateLimitState,
+  RateLimitStore,
+} from '../types/execution.js';
+import { MemoryRateLimitStore } from './rate-limit-store.js';
+
+/** Process-wide store used when neither the limiter nor the execution sets one. */
+const defaultStore = new MemoryRateLimitStore();
+
+/**
+ * Wait until the limiter's bucket has room, then take one slot.
+ *
+ * Strategies:
+ * - fixed: at most `limit` requests per `windowMs` window
+ * - sliding: at most `limit` requests in any trailing `windowMs`
+ * - token_bucket: bursts up to `limit`, refilling `limit` tokens every `windowMs`
+ *
+ * @example
+ * ```typescript
+ * await acquireRateLimit({ bucket: 'twitter', strategy: 'sliding', limit: 50, windowMs: 900_000 });
+ * ```
+ *
+ * @throws Error if the signal is aborted while waiting
+ */
+export async function acquireRateLimit(
+  config: RateLimitConfig,
+  signal?: AbortSignal,
+): Promise<RateLimitAcquisition> {
+  const store: RateLimitStore = config.store ?? defaultStore;
+  let waitedMs = 0;
+
+  for (;;) {
+    if (signal?.aborted) {
+      throw new Error(`Aborted while waiting for rate limit "${config.bucket}"`);
+    }
+
+    let waitMs = 0;
+    let used = 0;
+    await store.update(config.bucket, (state) => {
+      const outcome = take(config, state, Date.now());
+      waitMs = outcome.waitMs;
+      used = outcome.used;
+      return outcome.state;
+    });
+
+    if (waitMs <= 0) {
+      return { waitedMs, used };
+    }
+
+    const sleptAt = Date.now();
+    await sleep(waitMs, signal);
+    waitedMs += Date.now() - sleptAt;
+  }
+}
+
+interface TakeOutcome {
+  state: RateLimitState;
+  /** 0 when a slot was taken, otherwise how long to wait before trying again */
+  waitMs: number;
+  used: number;
+}
+
+function take(
+  config: RateLimitConfig,
+  previous: RateLimitState | undefined,
+  now: number,
+): TakeOutcome {
+  const { strategy, limit, windowMs } = config;
+  // State written by a different strategy starts over
+  const state = previous?.strategy === strategy ? previous : undefined;
+
+  if (strategy === 'fixed') {
+    const fresh = !state?.windowStart || now - state.windowStart >= windowMs;
+    const windowStart = fresh ? now : state.windowStart!;
+    const count = fresh ? 0 : state.count ?? 0;
+
+    if (count < limit) {
+      return { state: { strategy, windowStart, count: count + 1 }, waitMs: 0, used: count + 1 };
+    }
+    return { state: { strategy, windowStart, count }, waitMs: windowStart + windowMs - now, used: count };
+  }
+
+  if (strategy === 'sliding') {
+    const timestamps = (state?.timestamps ?? []).filter((t) => now - t < windowMs);
+
+    if (timestamps.length < limit) {
+      timestamps.push(now);
+      return { state: { strategy, timestamps }, waitMs: 0, used: timestamps.length };
+    }
+    return { state: { strategy, timestamps }, waitMs: timestamps[0]! + windowMs - now, used: timestamps.length };
+  }
+
+  // token_bucket
+  const refillPerMs = limit / windowMs;
+  const elapsed = state?.updatedAt !== undefined ? now - state.updatedAt : 0;
+  const tokens = Math.min(limit, (state?.tokens ?? limit) + elapsed * refillPerMs);
+
+  if (tokens >= 1) {
+    const remaining = tokens - 1;
+    return {
+      state: { strategy, tokens: remaining, updatedAt: now },
+      waitMs: 0,
+      used: Math.ceil(limit - remaining),
+    };
+  }
+  return {
+    state: { strategy, tokens, updatedAt: now },
+    waitMs: Math.ceil((1 - tokens) / refillPerMs),
+    used: limit,
+  };
+}
+
+/** Sleep that ends early when the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
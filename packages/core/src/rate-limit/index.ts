@@ -0,0 +1,2 @@
+export { acquireRateLimit } from './acquire.js';
+export { MemoryRateLimitStore, FileRateLimitStore } from './rate-limit-store.js';
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { RateLimitState, RateLimitStore } from '../types/execution.js';
+
+/**
+ * In-memory rate limit store backed by a Map.
+ * Shares limits between all nodes and workflow runs in one process.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitState>();
+
+  async update(
+    bucket: string,
+    updater: (state: RateLimitState | undefined) => RateLimitState,
+  ): Promise<RateLimitState> {
+    // The updater is synchronous, so read-modify-write can't interleave
+    const next = updater(this.buckets.get(bucket));
+    this.buckets.set(bucket, next);
+    return next;
+  }
+
+  async delete(bucket: string): Promise<void> {
+    this.buckets.delete(bucket);
+  }
+}
+
+/**
+ * Rate limit store that keeps one JSON file per bucket, so limits are shared
+ * across processes on the same machine. Updates hold an exclusive lock file;
+ * locks older than `staleLockMs` (left by a crashed process) are broken.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileRateLimitStore('./.jam/rate-limits');
+ * await executeWorkflow(workflow, ctx, { rateLimitStore: store, nodeConfig: { ... } });
+ * ```
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly directory: string,
+    private readonly staleLockMs = 10_000,
+  ) {}
+
+  async update(
+    bucket: string,
+    updater: (state: RateLimitState | undefined) => RateLimitState,
+  ): Promise<RateLimitState> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.pathFor(bucket);
+    const release = await this.lock(`${file}.lock`);
+
+    try {
+      const next = updater(await this.read(file));
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(next), 'utf-8');
+      await fs.rename(temp, file);
+      return next;
+    } finally {
+      await release();
+    }
+  }
+
+  async delete(bucket: string): Promise<void> {
+    await fs.rm(this.pathFor(bucket), { force: true });
+  }
+
+  private async read(file: string): Promise<RateLimitState | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as RateLimitState;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  private async lock(lockFile: string): Promise<() => Promise<void>> {
+    for (;;) {
+      try {
+        const handle = await fs.open(lockFile, 'wx');
+        await handle.close();
+        return () => fs.rm(lockFile, { force: true });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+
+      const stat = await fs.stat(lockFile).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > this.staleLockMs) {
+        await fs.rm(lockFile, { force: true });
+        continue;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  private pathFor(bucket: string): string {
+    return join(this.directory, `${encodeURIComponent(bucket)}.json`);
+  }
+}
@@ -0,0 +1,7 @@
+export {
+  SecretRedactor,
+  REDACTED,
+  DEFAULT_REDACTION_PATTERNS,
+  DEFAULT_SECRET_FIELDS,
+  type RedactionOptions,
+} from './redactor.js';
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import { ExecutionContext } from '../execution/context';
+import { executeWorkflow } from '../execution/execute-workflow';
+import type { WorkflowEvent, WorkflowNode } from '../types';
+import { DEFAULT_REDACTION_PATTERNS, REDACTED, SecretRedactor } from './redactor';
+
+describe('SecretRedactor', () => {
+  it('redacts secret credential fields and their URL-encoded forms', () => {
+    const redactor = new SecretRedactor();
+    redactor.addSecrets({
+      twitter: { accessToken: 'tw-secret-token-42', refreshToken: 'tw-refresh-99' },
+      wordpress: { applicationPassword: 'abcd efgh ijkl' },
+    });
+
+    expect(redactor.redact('token tw-secret-token-42, refresh tw-refresh-99')).toBe(
+      `token ${REDACTED}, refresh ${REDACTED}`,
+    );
+    expect(redactor.redact('https://example.com/?p=abcd%20efgh%20ijkl')).toBe(`https://example.com/?p=${REDACTED}`);
+  });
+
+  it('keeps site URLs, usernames and IDs readable', () => {
+    const redactor = new SecretRedactor();
+    redactor.addSecrets({
+      wordpress: { siteUrl: 'https://blog.example.com', username: 'editor-jane', applicationPassword: 'abcd efgh ijkl' },
+      discord: { guildId: '123456789012', channelId: '987654321098', botToken: 'bot-token-value' },
+    });
+
+    expect(redactor.redact('editor-jane posted to https://blog.example.com in 987654321098')).toBe(
+      'editor-jane posted to https://blog.example.com in 987654321098',
+    );
+    expect(redactor.redact('Bot bot-token-value')).toBe(`Bot ${REDACTED}`);
+  });
+
+  it('uses an explicit list of secret fields', () => {
+    const redactor = new SecretRedactor({ secretFields: ['pin'] });
+    redactor.addSecrets({ bank: { pin: '246810', apiKey: 'not-listed-key' } });
+
+    expect(redactor.redact('pin 246810, key not-listed-key')).toBe(`pin ${REDACTED}, key not-listed-key`);
+  });
+
+  it('treats a string passed on its own as a secret', () => {
+    const redactor = new SecretRedactor();
+    redactor.addSecrets('plain-secret');
+
+    expect(redactor.redact('value plain-secret')).toBe(`value ${REDACTED}`);
+  });
+
+  it('skips values shorter than minSecretLength', () => {
+    const redactor = new SecretRedactor({ minSecretLength: 8 });
+    redactor.addSecrets({ apiKey: 'short', apiSecret: 'long-enough' });
+
+    expect(redactor.redact('short long-enough')).toBe(`short ${REDACTED}`);
+  });
+
+  it('redacts values in nested data and errors', () => {
+    const redactor = new SecretRedactor();
+    redactor.addSecrets({ apiKey: 'sk-live-123456' });
+
+    expect(redactor.redactValue({ headers: ['x-api-key: sk-live-123456'], count: 2 })).toEqual({
+      headers: [`x-api-key: ${REDACTED}`],
+      count: 2,
+    });
+    const error = Object.assign(new Error('Invalid key sk-live-123456'), { status: 401 });
+    expect(redactor.redactError(error)).toMatchObject({ message: `Invalid key ${REDACTED}`, status: 401 });
+  });
+});
+
+describe('DEFAULT_REDACTION_PATTERNS', () => {
+  const redactor = new SecretRedactor();
+
+  it.each([
+    ['https://discord.com/api/webhooks/123/abc-DEF_456', REDACTED],
+    ['https://hooks.slack.com/services/T000/B000/XXXX', REDACTED],
+    ['Authorization: Bearer abc.def', REDACTED],
+    ['{"authorization": "Basic dXNlcjpwYXNz"}', `{"${REDACTED}"}`],
+    ['sent Bearer eyJhbGciOiJIUzI1NiJ9.e30.sig', `sent ${REDACTED}`],
+    ['sent Basic YWRtaW46c2VjcmV0MTIz', `sent ${REDACTED}`],
+  ])('redacts %s', (text, expected) => {
+    expect(redactor.redact(text)).toBe(expected);
+  });
+
+  it('leaves prose unchanged', () => {
+    const prose = 'Basic information about Bearer instruments is under Basic Settings. Bearer responsibilities apply.';
+
+    expect(redactor.redact(prose)).toBe(prose);
+  });
+
+  it('can be extended with custom patterns', () => {
+    const custom = new SecretRedactor({ patterns: [...DEFAULT_REDACTION_PATTERNS, /sk-[A-Za-z0-9]{10,}/] });
+
+    expect(custom.redact('key sk-ABCDEFGHIJKL')).toBe(`key ${REDACTED}`);
+  });
+});
+
+describe('executeWorkflow redaction', () => {
+  const leakyPost = defineNode({
+    type: 'leaky_post',
+    name: 'Leaky Post',
+    description: 'Fails with an error quoting its token and site',
+    category: 'integration',
+    inputSchema: z.object({}),
+    outputSchema: z.object({}),
+    credentials: { required: ['wordpress'] },
+    executor: async (_input, context) => {
+      const { siteUrl, applicationPassword } = context.credentials!.wordpress!;
+      return { success: false, error: `${siteUrl} rejected password ${applicationPassword}` };
+    },
+  }) as WorkflowNode['node'];
+
+  const workflow = {
+    entryNodeId: 'post',
+    nodes: [{ id: 'post', type: 'leaky_post', node: leakyPost, input: {} }],
+    edges: [],
+  };
+  const credentialProvider = {
+    getCredentials: async () => ({ siteUrl: 'https://blog.example.com', username: 'editor', applicationPassword: 'abcd efgh ijkl' }),
+    hasCredentials: async () => true,
+  };
+
+  it('redacts resolved secrets from results and events', async () => {
+    const events: WorkflowEvent[] = [];
+    const result = await executeWorkflow(workflow, new ExecutionContext(), {
+      credentialProvider,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.results['post']?.error).toBe(`https://blog.example.com rejected password ${REDACTED}`);
+    expect(JSON.stringify(events)).not.toContain('abcd efgh ijkl');
+  });
+
+  it('keeps values when redaction is off', async () => {
+    const result = await executeWorkflow(workflow, new ExecutionContext(), { credentialProvider, redaction: false });
+
+    expect(result.results['post']?.error).toBe('https://blog.example.com rejected password abcd efgh ijkl');
+  });
+});
@@ -0,0 +1,180 @@
+/** Text that replaces each redacted secret. */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Patterns for secrets that are recognizable without knowing their value.
+ * Each match is replaced as a whole.
+ */
+export const DEFAULT_REDACTION_PATTERNS: readonly RegExp[] = [
+  // Discord webhook URLs carry their token in the path
+  /https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+/g,
+  // Slack incoming webhooks
+  /https:\/\/hooks\.slack\.com\/services\/[\w/]+/g,
+  // Authorization header values, e.g. `Authorization: Bearer <token>`
+  /\bAuthorization["']?\s*[:=]\s*["']?(?:Bearer|Basic|Bot|Token)\s+[\w\-.~+/]+=*/gi,
+  // Bearer and Basic values outside a header when they look like a token
+  // (16+ characters with a digit), not prose such as "Basic Settings"
+  /\bBearer\s+(?=[\w\-.~+/]*\d)[\w\-.~+/]{16,}=*/g,
+  /\bBasic\s+(?=[A-Za-z0-9+/]*\d)[A-Za-z0-9+/]{16,}={0,2}/g,
+];
+
+/**
+ * Credential fields whose values are secrets: tokens, keys, passwords and
+ * webhook URLs. Fields like `siteUrl`, `username` or a Discord `guildId` are
+ * not redacted.
+ */
+export const DEFAULT_SECRET_FIELDS = /token|secret|password|key|webhook|cookie/i;
+
+export interface RedactionOptions {
+  /** Patterns to redact in addition to known secret values (default: DEFAULT_REDACTION_PATTERNS) */
+  patterns?: readonly RegExp[];
+  /** Known values shorter than this are not redacted (default 6), so short fields like IDs don't mangle text */
+  minSecretLength?: number;
+  /**
+   * Credential fields `addSecrets` treats as secret, as field names or a
+   * pattern they match (default: DEFAULT_SECRET_FIELDS)
+   */
+  secretFields?: RegExp | readonly string[];
+}
+
+const DEFAULT_MIN_SECRET_LENGTH = 6;
+
+/**
+ * Scrubs secrets from text and data before it leaves the process (results,
+ * errors, events, logs).
+ *
+ * It redacts every known secret value (added with `addSecrets`, e.g. the
+ * credentials resolved for a run) plus anything matching `patterns`, such as
+ * Discord webhook URLs and `Bearer` tokens.
+ *
+ * @example
+ * ```typescript
+ * const redactor = new SecretRedactor();
+ * redactor.addSecrets({ twitter: { accessToken: 'abc123xyz' } });
+ * redactor.redact('Twitter API error: 401 - token abc123xyz expired');
+ * // 'Twitter API error: 401 - token [REDACTED] expired'
+ * ```
+ */
+export class SecretRedactor {
+  private readonly secrets = new Set<string>();
+  private readonly patterns: RegExp[];
+  private readonly minSecretLength: number;
+  private readonly isSecretField: (field: string) => boolean;
+  /** Known secrets, longest first so overlapping values are fully replaced */
+  private sorted: string[] = [];
+
+  constructor(options: RedactionOptions = {}) {
+    this.patterns = (options.patterns ?? DEFAULT_REDACTION_PATTERNS).map((pattern) =>
+      pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+    );
+    this.minSecretLength = options.minSecretLength ?? DEFAULT_MIN_SECRET_LENGTH;
+    this.isSecretField = fieldMatcher(options.secretFields ?? DEFAULT_SECRET_FIELDS);
+  }
+
+  /**
+   * Remember the strings under secret fields of `credentials` (searched
+   * recursively, e.g. `{ wordpress: { applicationPassword } }`) as secrets.
+   * A string passed on its own is always a secret. URL-encoded forms are
+   * added too, since secrets often end up in URLs.
+   */
+  addSecrets(credentials: unknown): void {
+    const before = this.secrets.size;
+    for (const value of this.collectSecrets(credentials)) {
+      if (value.length < this.minSecretLength) continue;
+      this.secrets.add(value);
+      this.secrets.add(encodeURIComponent(value));
+    }
+    if (this.secrets.size !== before) {
+      this.sorted = [...this.secrets].sort((a, b) => b.length - a.length);
+    }
+  }
+
+  /** Replace known secrets and pattern matches in a string. */
+  redact(text: string): string {
+    let redacted = text;
+    for (const secret of this.sorted) {
+      if (redacted.includes(secret)) {
+        redacted = redacted.split(secret).join(REDACTED);
+      }
+    }
+    for (const pattern of this.patterns) {
+      redacted = redacted.replace(pattern, REDACTED);
+    }
+    return redacted;
+  }
+
+  /**
+   * Copy of `value` with every string redacted, searching arrays and plain
+   * objects recursively. Other objects (dates, class instances) are kept as is.
+   */
+  redactValue<T>(value: T): T {
+    return this.redactDeep(value, new WeakMap()) as T;
+  }
+
+  /**
+   * Error with a redacted message, keeping the original's name, `code` and
+   * `status` (the stack is dropped, since it repeats the message).
+   */
+  redactError(error: Error): Error {
+    const redacted = new Error(this.redact(error.message));
+    redacted.name = error.name;
+    const { code, status } = error as { code?: unknown; status?: unknown };
+    if (code !== undefined) Object.assign(redacted, { code });
+    if (status !== undefined) Object.assign(redacted, { status });
+    return redacted;
+  }
+
+  private collectSecrets(value: unknown, found: string[] = []): string[] {
+    if (typeof value === 'string') {
+      found.push(value);
+    } else if (value && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        if (this.isSecretField(key)) collectStrings(item, found);
+        else if (item && typeof item === 'object') this.collectSecrets(item, found);
+      }
+    }
+    return found;
+  }
+
+  private redactDeep(value: unknown, seen: WeakMap<object, unknown>): unknown {
+    if (typeof value === 'string') return this.redact(value);
+    if (value === null || typeof value !== 'object') return value;
+    if (seen.has(value)) return seen.get(value);
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      for (const item of value) copy.push(this.redactDeep(item, seen));
+      return copy;
+    }
+    if (!isPlainObject(value)) return value;
+
+    const copy: Record<string, unknown> = {};
+    seen.set(value, copy);
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = this.redactDeep(item, seen);
+    }
+    return copy;
+  }
+}
+
+function fieldMatcher(fields: RegExp | readonly string[]): (field: string) => boolean {
+  if (!(fields instanceof RegExp)) return (field) => fields.includes(field);
+  // Without the g/y flags, test() doesn't carry lastIndex between fields
+  const pattern = new RegExp(fields.source, fields.flags.replace(/[gy]/g, ''));
+  return (field) => pattern.test(field);
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function collectStrings(value: unknown, found: string[] = []): string[] {
+  if (typeof value === 'string') {
+    found.push(value);
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectStrings(item, found);
+  }
+  return found;
+}
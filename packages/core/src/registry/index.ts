@@ -1 +1 @@
-export { NodeRegistry, createRegistry } from './node-registry.js';
+export { NodeRegistry, createRegistry, DEFAULT_NODE_VERSION } from './node-registry.js';
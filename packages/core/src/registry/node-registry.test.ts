@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import { NodeRegistry } from './node-registry';
+
+const greetV1 = defineNode({
+  type: 'greet',
+  name: 'Greet',
+  description: 'Greets a name',
+  category: 'action',
+  inputSchema: z.object({ name: z.string() }),
+  outputSchema: z.object({ text: z.string() }),
+  executor: async (input) => ({ success: true, output: { text: `Hello ${input.name}` } }),
+});
+
+/** Renames `name` to `person` and adds `greeting`. */
+const greetV2 = defineNode({
+  type: 'greet',
+  version: 2,
+  name: 'Greet',
+  description: 'Greets a person with a configurable greeting',
+  category: 'action',
+  inputSchema: z.object({ person: z.string(), greeting: z.string() }),
+  outputSchema: z.object({ text: z.string() }),
+  migrateInput: (fromVersion, input) => ({ person: input['name'], greeting: fromVersion === 1 ? 'Hello' : '?' }),
+  executor: async (input) => ({ success: true, output: { text: `${input.greeting}, ${input.person}!` } }),
+});
+
+/** Adds an optional field, so it has no migration. */
+const greetV3 = defineNode({
+  ...greetV2,
+  version: 3,
+  inputSchema: z.object({ person: z.string(), greeting: z.string(), emoji: z.string().optional() }),
+  migrateInput: undefined,
+});
+
+/** Prefixes the greeting with the version it was migrated from. */
+const greetV4 = defineNode({
+  ...greetV3,
+  version: 4,
+  migrateInput: (fromVersion, input) => ({ ...input, greeting: `v${fromVersion} ${input['greeting']}` }),
+});
+
+const createRegistry = () => new NodeRegistry().register(greetV1).register(greetV2).register(greetV3).register(greetV4);
+
+describe('NodeRegistry versions', () => {
+  it('lists the versions of a type and defaults to the highest one', () => {
+    const registry = createRegistry();
+
+    expect(registry.getVersions('greet')).toEqual([1, 2, 3, 4]);
+    expect(registry.getDefaultVersion('greet')).toBe(4);
+    expect(registry.getDefinition('greet')).toBe(greetV4);
+    expect(registry.getDefinition('greet', 1)).toBe(greetV1);
+    expect(registry.getMetadata('greet', 2)?.description).toBe('Greets a person with a configurable greeting');
+  });
+
+  it('rejects duplicate and invalid versions', () => {
+    const registry = createRegistry();
+
+    expect(() => registry.register(greetV2)).toThrow('Node type "greet" version 2 is already registered');
+    expect(() => registry.register(greetV1)).toThrow('Node type "greet" is already registered');
+    expect(() => registry.register({ ...greetV1, version: 1.5 })).toThrow(
+      'Node type "greet" has invalid version 1.5 (must be a positive integer)',
+    );
+  });
+
+  it('keeps a pinned default until that version is unregistered', () => {
+    const registry = createRegistry().setDefaultVersion('greet', 2);
+
+    expect(registry.getDefinition('greet')).toBe(greetV2);
+    expect(() => registry.setDefaultVersion('greet', 7)).toThrow('Node type "greet" version 7 is not registered');
+
+    registry.unregister('greet', 2);
+    expect(registry.getDefaultVersion('greet')).toBe(4);
+    registry.unregister('greet');
+    expect(registry.has('greet')).toBe(false);
+  });
+});
+
+describe('NodeRegistry.migrateInput', () => {
+  it('applies every migration between the versions in order, passing through versions without one', () => {
+    const registry = createRegistry();
+
+    expect(registry.migrateInput('greet', { name: 'Ada' }, 1, 2)).toEqual({ person: 'Ada', greeting: 'Hello' });
+    expect(registry.migrateInput('greet', { name: 'Ada' }, 1, 3)).toEqual({ person: 'Ada', greeting: 'Hello' });
+    // v4's migration receives the input as upgraded to v3
+    expect(registry.migrateInput('greet', { name: 'Ada' }, 1)).toEqual({ person: 'Ada', greeting: 'v3 Hello' });
+    expect(registry.migrateInput('greet', { person: 'Ada', greeting: 'Hi' }, 3)).toEqual({ person: 'Ada', greeting: 'v3 Hi' });
+  });
+
+  it('returns the input unchanged for the same version', () => {
+    const input = { person: 'Ada', greeting: 'Hi' };
+
+    expect(createRegistry().migrateInput('greet', input, 4)).toBe(input);
+  });
+
+  it('throws for unknown types and versions, and downgrades', () => {
+    const registry = createRegistry();
+
+    expect(() => registry.migrateInput('wave', {}, 1)).toThrow('Unknown node type: wave');
+    expect(() => registry.migrateInput('greet', {}, 1, 5)).toThrow('Node type "greet" version 5 is not registered');
+    expect(() => registry.migrateInput('greet', {}, 3, 2)).toThrow(
+      'Cannot migrate node type "greet" input from version 3 down to 2',
+    );
+  });
+});
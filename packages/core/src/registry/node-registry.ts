@@ -3,12 +3,39 @@ import type {
   NodeMetadata,
   NodeExecutor,
   NodeCategory,
+  NodeCredentialRequirements,
+  CredentialDefinition,
+  JamNodesPlugin,
+  NodeJsonSchemas,
+  NodeJsonMetadata,
 } from '../types/index.js';
+import { zodToJsonSchema } from '../json-schema/index.js';
+import {
+  CORE_VERSION,
+  PluginError,
+  resolvePluginManifest,
+  satisfiesVersionRange,
+} from '../plugin/index.js';
+
+/** Version of definitions that don't declare one. */
+export const DEFAULT_NODE_VERSION = 1;
+
+/** The registered versions of one node type. */
+interface NodeVersions {
+  definitions: Map<number, NodeDefinition>;
+  metadata: Map<number, NodeMetadata>;
+  /** Set with setDefaultVersion; otherwise the highest version is the default */
+  pinnedDefault?: number;
+}
 
 /**
  * Registry for workflow nodes.
  * Manages node definitions and provides lookup utilities.
  *
+ * A type can be registered in several versions (NodeDefinition.version).
+ * Lookups without a version return the default version: the highest one,
+ * unless changed with setDefaultVersion.
+ *
  * @template TNodeType - String union of valid node types
  *
  * @example
@@ -22,25 +49,38 @@ import type {
  * ```
  */
 export class NodeRegistry<TNodeType extends string = string> {
-  private definitions = new Map<TNodeType, NodeDefinition>();
-  private metadata = new Map<TNodeType, NodeMetadata>();
+  private types = new Map<TNodeType, NodeVersions>();
+  private credentials = new Map<string, CredentialDefinition>();
+  private plugins = new Map<string, JamNodesPlugin>();
 
   /**
    * Register a node definition
-   * @throws Error if node type is already registered
+   * @throws Error if this version of the node type is already registered
    */
   register<TInput, TOutput>(
     definition: NodeDefinition<TInput, TOutput>
   ): this {
     const type = definition.type as TNodeType;
+    const version = definition.version ?? DEFAULT_NODE_VERSION;
+
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Node type "${type}" has invalid version ${version} (must be a positive integer)`);
+    }
 
-    if (this.definitions.has(type)) {
-      throw new Error(`Node type "${type}" is already registered`);
+    const versions = this.types.get(type) ?? { definitions: new Map(), metadata: new Map() };
+    if (versions.definitions.has(version)) {
+      throw new Error(
+        definition.version === undefined
+          ? `Node type "${type}" is already registered`
+          : `Node type "${type}" version ${version} is already registered`
+      );
     }
 
     // Cast to unknown first to satisfy TypeScript's strict variance checks
-    this.definitions.set(type, definition as unknown as NodeDefinition);
-    this.metadata.set(type, this.extractMetadata(definition as unknown as NodeDefinition));
+    const stored = definition as unknown as NodeDefinition;
+    versions.definitions.set(version, stored);
+    versions.metadata.set(version, this.extractMetadata(stored));
+    this.types.set(type, versions);
 
     return this;
   }
@@ -56,61 +96,181 @@ export class NodeRegistry<TNodeType extends string = string> {
   }
 
   /**
-   * Unregister a node type
+   * Unregister a node type, or only one version of it
    */
-  unregister(type: TNodeType): boolean {
-    const hadDefinition = this.definitions.delete(type);
-    this.metadata.delete(type);
-    return hadDefinition;
+  unregister(type: TNodeType, version?: number): boolean {
+    if (version === undefined) {
+      return this.types.delete(type);
+    }
+
+    const versions = this.types.get(type);
+    if (!versions?.definitions.delete(version)) return false;
+    versions.metadata.delete(version);
+    if (versions.pinnedDefault === version) versions.pinnedDefault = undefined;
+    if (versions.definitions.size === 0) this.types.delete(type);
+    return true;
   }
 
   /**
-   * Check if a node type is registered
+   * Check if a node type (or a specific version of it) is registered
    */
-  has(type: TNodeType): boolean {
-    return this.definitions.has(type);
+  has(type: TNodeType, version?: number): boolean {
+    const versions = this.types.get(type);
+    if (!versions) return false;
+    return version === undefined || versions.definitions.has(version);
   }
 
   /**
    * Get node definition (includes executor)
+   * @param version - Defaults to the type's default version
    */
-  getDefinition(type: TNodeType): NodeDefinition | undefined {
-    return this.definitions.get(type);
+  getDefinition(type: TNodeType, version?: number): NodeDefinition | undefined {
+    const versions = this.types.get(type);
+    if (!versions) return undefined;
+    return versions.definitions.get(version ?? defaultVersionOf(versions));
   }
 
   /**
    * Get node metadata (client-safe, no executor)
+   * @param version - Defaults to the type's default version
+   */
+  getMetadata(type: TNodeType, version?: number): NodeMetadata | undefined {
+    const versions = this.types.get(type);
+    if (!versions) return undefined;
+    return versions.metadata.get(version ?? defaultVersionOf(versions));
+  }
+
+  /**
+   * Get a node's input and output schemas as JSON Schema (draft 2020-12),
+   * e.g. for form generation or LLM tool definitions
+   * @param version - Defaults to the type's default version
    */
-  getMetadata(type: TNodeType): NodeMetadata | undefined {
-    return this.metadata.get(type);
+  getJsonSchema(type: TNodeType, version?: number): NodeJsonSchemas | undefined {
+    const definition = this.getDefinition(type, version);
+    if (!definition) return undefined;
+    return {
+      input: zodToJsonSchema(definition.inputSchema, { io: 'input' }),
+      output: zodToJsonSchema(definition.outputSchema, { io: 'output' }),
+    };
+  }
+
+  /**
+   * Get all metadata with JSON Schema inputs and outputs (the default version
+   * of each type). The result is plain JSON, so clients can render and
+   * validate nodes without Zod.
+   */
+  exportMetadata(): NodeJsonMetadata[] {
+    return this.getNodeTypes().map((type) => {
+      const schemas = this.getJsonSchema(type)!;
+      return {
+        ...this.getMetadata(type)!,
+        inputSchema: schemas.input,
+        outputSchema: schemas.output,
+      };
+    });
   }
 
   /**
    * Get node executor
+   * @param version - Defaults to the type's default version
+   */
+  getExecutor(type: TNodeType, version?: number): NodeExecutor | undefined {
+    return this.getDefinition(type, version)?.executor;
+  }
+
+  /**
+   * Get the registered versions of a node type, lowest first
    */
-  getExecutor(type: TNodeType): NodeExecutor | undefined {
-    return this.definitions.get(type)?.executor;
+  getVersions(type: TNodeType): number[] {
+    const versions = this.types.get(type);
+    return versions ? sortedVersions(versions) : [];
+  }
+
+  /**
+   * Get the version used when a node type is looked up without one
+   */
+  getDefaultVersion(type: TNodeType): number | undefined {
+    const versions = this.types.get(type);
+    return versions && defaultVersionOf(versions);
+  }
+
+  /**
+   * Make a registered version the default, e.g. to keep v1 while v2 is rolled out
+   * @throws Error if the version is not registered
+   */
+  setDefaultVersion(type: TNodeType, version: number): this {
+    const versions = this.types.get(type);
+    if (!versions?.definitions.has(version)) {
+      throw new Error(`Node type "${type}" version ${version} is not registered`);
+    }
+    versions.pinnedDefault = version;
+    return this;
+  }
+
+  /**
+   * Upgrade input written for one version of a node type to a later version,
+   * applying the `migrateInput` of every registered version in between, in order.
+   * Versions without `migrateInput` pass the input through unchanged.
+   *
+   * @example
+   * ```typescript
+   * // v2 renamed `url` to `endpoint`
+   * registry.migrateInput('http_request', { url: 'https://example.com' }, 1);
+   * // { endpoint: 'https://example.com' }
+   * ```
+   *
+   * @param fromVersion - Version the input was written for
+   * @param toVersion - Defaults to the type's default version
+   * @throws Error if the type or target version is not registered, or toVersion is lower than fromVersion
+   */
+  migrateInput(
+    type: TNodeType,
+    input: Record<string, unknown>,
+    fromVersion: number,
+    toVersion?: number
+  ): Record<string, unknown> {
+    const versions = this.types.get(type);
+    if (!versions) {
+      throw new Error(`Unknown node type: ${type}`);
+    }
+    const target = toVersion ?? defaultVersionOf(versions);
+    if (!versions.definitions.has(target)) {
+      throw new Error(`Node type "${type}" version ${target} is not registered`);
+    }
+    if (target < fromVersion) {
+      throw new Error(`Cannot migrate node type "${type}" input from version ${fromVersion} down to ${target}`);
+    }
+
+    let migrated = input;
+    let current = fromVersion;
+    for (const version of sortedVersions(versions)) {
+      if (version <= fromVersion || version > target) continue;
+      const migrate = versions.definitions.get(version)?.migrateInput;
+      if (migrate) migrated = migrate(current, migrated);
+      current = version;
+    }
+    return migrated;
   }
 
   /**
    * Get all registered node types
    */
   getNodeTypes(): TNodeType[] {
-    return Array.from(this.definitions.keys());
+    return Array.from(this.types.keys());
   }
 
   /**
-   * Get all node definitions
+   * Get all node definitions (the default version of each type)
    */
   getAllDefinitions(): NodeDefinition[] {
-    return Array.from(this.definitions.values());
+    return this.getNodeTypes().map((type) => this.getDefinition(type)!);
   }
 
   /**
-   * Get all metadata (for client-side rendering)
+   * Get all metadata (for client-side rendering; the default version of each type)
    */
   getAllMetadata(): NodeMetadata[] {
-    return Array.from(this.metadata.values());
+    return this.getNodeTypes().map((type) => this.getMetadata(type)!);
   }
 
   /**
@@ -129,10 +289,11 @@ export class NodeRegistry<TNodeType extends string = string> {
 
   /**
    * Validate input against node's input schema
+   * @param version - Defaults to the type's default version
    * @throws ZodError if validation fails
    */
-  validateInput<TInput>(type: TNodeType, input: unknown): TInput {
-    const definition = this.definitions.get(type);
+  validateInput<TInput>(type: TNodeType, input: unknown, version?: number): TInput {
+    const definition = this.getDefinition(type, version);
     if (!definition) {
       throw new Error(`Unknown node type: ${type}`);
     }
@@ -141,10 +302,11 @@ export class NodeRegistry<TNodeType extends string = string> {
 
   /**
    * Validate output against node's output schema
+   * @param version - Defaults to the type's default version
    * @throws ZodError if validation fails
    */
-  validateOutput<TOutput>(type: TNodeType, output: unknown): TOutput {
-    const definition = this.definitions.get(type);
+  validateOutput<TOutput>(type: TNodeType, output: unknown, version?: number): TOutput {
+    const definition = this.getDefinition(type, version);
     if (!definition) {
       throw new Error(`Unknown node type: ${type}`);
     }
@@ -152,10 +314,134 @@ export class NodeRegistry<TNodeType extends string = string> {
   }
 
   /**
-   * Get count of registered nodes
+   * Get the credentials a node type declares
+   */
+  getCredentialRequirements(type: TNodeType): NodeCredentialRequirements | undefined {
+    return this.getDefinition(type)?.credentials;
+  }
+
+  /**
+   * Get all node types that use a credential (required or optional)
+   */
+  getNodeTypesByCredential(credentialName: string): TNodeType[] {
+    return this.getNodeTypes().filter((type) => {
+      const credentials = this.getDefinition(type)?.credentials;
+      return (
+        credentials?.required?.includes(credentialName) ||
+        credentials?.optional?.includes(credentialName)
+      );
+    });
+  }
+
+  /**
+   * Register a credential definition, so tools can find how a credential
+   * named in `credentials` requirements is shaped and tested
+   * @throws Error if a credential with the same name is already registered
+   */
+  registerCredential(definition: CredentialDefinition): this {
+    if (this.credentials.has(definition.name)) {
+      throw new Error(`Credential "${definition.name}" is already registered`);
+    }
+    this.credentials.set(definition.name, definition);
+    return this;
+  }
+
+  /**
+   * Get a registered credential definition by name
+   */
+  getCredentialDefinition(name: string): CredentialDefinition | undefined {
+    return this.credentials.get(name);
+  }
+
+  /**
+   * Get all registered credential definitions
+   */
+  getAllCredentialDefinitions(): CredentialDefinition[] {
+    return Array.from(this.credentials.values());
+  }
+
+  /**
+   * Load a plugin: register its nodes and credential definitions.
+   *
+   * Accepts a plugin module (e.g. the result of `await import('@acme/jam-nodes')`)
+   * or the manifest itself. Nothing is registered unless the whole plugin can
+   * be: the manifest must be valid, its `coreVersion` range must include this
+   * core version, and none of its node versions may already be registered.
+   * A credential definition that is already registered is shared if it is the
+   * same object (several plugins can reuse one definition).
+   *
+   * @example
+   * ```typescript
+   * registry.loadPlugin(await import('@acme/jam-nodes'));
+   * ```
+   *
+   * @returns The plugin's manifest
+   * @throws PluginError if the plugin can't be loaded
+   */
+  loadPlugin(module: unknown): JamNodesPlugin {
+    const plugin = resolvePluginManifest(module);
+    const fail = (reason: string) =>
+      new PluginError(`Cannot load plugin "${plugin.name}": ${reason}`, plugin.name);
+
+    if (this.plugins.has(plugin.name)) {
+      throw fail('a plugin with this name is already loaded');
+    }
+
+    if (plugin.coreVersion !== undefined) {
+      let compatible: boolean;
+      try {
+        compatible = satisfiesVersionRange(CORE_VERSION, plugin.coreVersion);
+      } catch (err) {
+        throw fail(err instanceof Error ? err.message : String(err));
+      }
+      if (!compatible) {
+        throw fail(`it requires @jam-nodes/core ${plugin.coreVersion} (installed: ${CORE_VERSION})`);
+      }
+    }
+
+    const nodes = (plugin.nodes ?? []) as NodeDefinition[];
+    const seen = new Set<string>();
+    for (const node of nodes) {
+      const version = node.version ?? DEFAULT_NODE_VERSION;
+      if (!Number.isInteger(version) || version < 1) {
+        throw fail(`node type "${node.type}" has invalid version ${version}`);
+      }
+      const key = `${node.type}@${version}`;
+      if (seen.has(key) || this.has(node.type as TNodeType, version)) {
+        throw fail(`node type "${node.type}" version ${version} is already registered`);
+      }
+      seen.add(key);
+    }
+
+    const credentials = (plugin.credentials ?? []).filter((credential) => {
+      const existing = this.credentials.get(credential.name);
+      if (existing && existing !== credential) {
+        throw fail(`credential "${credential.name}" is already registered`);
+      }
+      return !existing;
+    });
+
+    this.registerAll(nodes);
+    for (const credential of credentials) {
+      this.credentials.set(credential.name, credential);
+    }
+    this.plugins.set(plugin.name, plugin);
+
+    return plugin;
+  }
+
+  /**
+   * Get the manifests of all loaded plugins
+   */
+  getPlugins(): JamNodesPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  /**
+   * Get count of registered node types
    */
   get size(): number {
-    return this.definitions.size;
+    return this.types.size;
   }
 
   /**
@@ -164,15 +450,25 @@ export class NodeRegistry<TNodeType extends string = string> {
   private extractMetadata(definition: NodeDefinition): NodeMetadata {
     return {
       type: definition.type,
+      version: definition.version,
       name: definition.name,
       description: definition.description,
       category: definition.category,
       estimatedDuration: definition.estimatedDuration,
       capabilities: definition.capabilities,
+      credentials: definition.credentials,
     };
   }
 }
 
+function sortedVersions(versions: NodeVersions): number[] {
+  return Array.from(versions.definitions.keys()).sort((a, b) => a - b);
+}
+
+function defaultVersionOf(versions: NodeVersions): number {
+  return versions.pinnedDefault ?? Math.max(...versions.definitions.keys());
+}
+
 /**
  * Create a new node registry
  */
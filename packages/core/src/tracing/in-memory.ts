@@ -0,0 +1,104 @@
+import type {
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanOptions,
+  SpanStatus,
+  Tracer,
+} from '../types/tracing.js';
+
+/** A finished span as recorded by InMemoryTracer. */
+export interface FinishedSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  attributes: Record<string, SpanAttributeValue>;
+  status: SpanStatus;
+  /** Messages of exceptions recorded on the span */
+  exceptions: string[];
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+}
+
+/**
+ * Tracer that keeps finished spans in memory, like OpenTelemetry's
+ * InMemorySpanExporter. Intended for tests and local debugging.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new InMemoryTracer();
+ * await executeWorkflow(workflow, ctx, { tracer });
+ * console.table(tracer.getFinishedSpans().map((s) => [s.name, s.durationMs]));
+ * ```
+ */
+export class InMemoryTracer implements Tracer {
+  private finished: FinishedSpan[] = [];
+  private ids = new WeakMap<Span, { traceId: string; spanId: string }>();
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent && this.ids.get(options.parent);
+    const ids = { traceId: parent?.traceId ?? randomId(32), spanId: randomId(16) };
+    const startTime = Date.now();
+    const attributes: Record<string, SpanAttributeValue> = {};
+    const exceptions: string[] = [];
+    let status: SpanStatus = { code: 'unset' };
+    let ended = false;
+
+    const setAttributes = (values: SpanAttributes) => {
+      for (const [key, value] of Object.entries(values)) {
+        if (value !== undefined) attributes[key] = value;
+      }
+    };
+    setAttributes(options.attributes ?? {});
+
+    const span: Span = {
+      setAttribute: (key, value) => setAttributes({ [key]: value }),
+      setAttributes,
+      recordException: (error) => {
+        exceptions.push(error.message);
+      },
+      setStatus: (next) => {
+        status = next;
+      },
+      end: () => {
+        if (ended) return;
+        ended = true;
+        const endTime = Date.now();
+        this.finished.push({
+          name,
+          ...ids,
+          ...(parent && { parentSpanId: parent.spanId }),
+          attributes,
+          status,
+          exceptions,
+          startTime,
+          endTime,
+          durationMs: endTime - startTime,
+        });
+      },
+    };
+
+    this.ids.set(span, ids);
+    return span;
+  }
+
+  /** Finished spans in the order they ended */
+  getFinishedSpans(): FinishedSpan[] {
+    return [...this.finished];
+  }
+
+  reset(): void {
+    this.finished = [];
+  }
+}
+
+function randomId(length: number): string {
+  let id = '';
+  while (id.length < length) {
+    id += Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0');
+  }
+  return id.slice(0, length);
+}
@@ -0,0 +1,9 @@
+export { noopTracer, startSpan } from './noop.js';
+export { InMemoryTracer } from './in-memory.js';
+export type { FinishedSpan } from './in-memory.js';
+export { createOpenTelemetryTracer } from './opentelemetry.js';
+export type {
+  OpenTelemetrySpanLike,
+  OpenTelemetryTracerLike,
+  OpenTelemetryApiLike,
+} from './opentelemetry.js';
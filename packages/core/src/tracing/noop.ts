@@ -0,0 +1,37 @@
+import type { Span, SpanOptions, TraceContext, Tracer } from '../types/tracing.js';
+
+const noopSpan: Span = {
+  setAttribute: () => {},
+  setAttributes: () => {},
+  recordException: () => {},
+  setStatus: () => {},
+  end: () => {},
+};
+
+/**
+ * Tracer that records nothing. Used when no tracer is configured.
+ */
+export const noopTracer: Tracer = {
+  startSpan: (_name: string, _options?: SpanOptions) => noopSpan,
+};
+
+/**
+ * Start a span with the context's tracer (or the no-op tracer), nested under
+ * the context's current span.
+ *
+ * @example
+ * ```typescript
+ * const span = startSpan(context, 'apollo.search', { 'jam.limit': 25 });
+ * try { ... } finally { span.end(); }
+ * ```
+ */
+export function startSpan(
+  trace: TraceContext | undefined,
+  name: string,
+  attributes?: SpanOptions['attributes'],
+): Span {
+  return (trace?.tracer ?? noopTracer).startSpan(name, {
+    attributes,
+    parent: trace?.span,
+  });
+}
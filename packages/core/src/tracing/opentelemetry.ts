@@ -0,0 +1,85 @@
+import type { Span, SpanAttributes, SpanStatusCode, Tracer } from '../types/tracing.js';
+
+/** The parts of an `@opentelemetry/api` Span used by the adapter. */
+export interface OpenTelemetrySpanLike {
+  setAttribute(key: string, value: unknown): unknown;
+  setAttributes(attributes: Record<string, unknown>): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+/** The parts of an `@opentelemetry/api` Tracer used by the adapter. */
+export interface OpenTelemetryTracerLike {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, unknown> },
+    context?: unknown,
+  ): OpenTelemetrySpanLike;
+}
+
+/** The `trace` and `context` namespaces of `@opentelemetry/api`. */
+export interface OpenTelemetryApiLike {
+  trace: { setSpan(context: unknown, span: OpenTelemetrySpanLike): unknown };
+  context: { active(): unknown };
+}
+
+/** OpenTelemetry's numeric SpanStatusCode values */
+const STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Adapt an OpenTelemetry tracer so workflow, node and HTTP spans are exported
+ * through your OpenTelemetry SDK setup. The API is passed in rather than
+ * imported, so `@opentelemetry/api` stays an optional dependency.
+ *
+ * @example
+ * ```typescript
+ * import { trace, context } from '@opentelemetry/api';
+ *
+ * const tracer = createOpenTelemetryTracer(trace.getTracer('jam-nodes'), { trace, context });
+ * await executeWorkflow(workflow, ctx, { tracer });
+ * ```
+ */
+export function createOpenTelemetryTracer(
+  tracer: OpenTelemetryTracerLike,
+  api: OpenTelemetryApiLike,
+): Tracer {
+  const otelSpans = new WeakMap<Span, OpenTelemetrySpanLike>();
+
+  return {
+    startSpan(name, options = {}) {
+      const parent = options.parent && otelSpans.get(options.parent);
+      const parentContext = parent ? api.trace.setSpan(api.context.active(), parent) : undefined;
+      const otelSpan = tracer.startSpan(
+        name,
+        { attributes: definedAttributes(options.attributes) },
+        parentContext,
+      );
+
+      const span: Span = {
+        setAttribute: (key, value) => {
+          otelSpan.setAttribute(key, value);
+        },
+        setAttributes: (attributes) => {
+          otelSpan.setAttributes(definedAttributes(attributes));
+        },
+        recordException: (error) => {
+          otelSpan.recordException(error);
+        },
+        setStatus: (status) => {
+          otelSpan.setStatus({ code: STATUS_CODES[status.code], message: status.message });
+        },
+        end: () => {
+          otelSpan.end();
+        },
+      };
+
+      otelSpans.set(span, otelSpan);
+      return span;
+    },
+  };
+}
+
+function definedAttributes(attributes: SpanAttributes = {}): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
@@ -80,6 +80,8 @@ export interface OAuth2CredentialDefinition extends BaseCredentialDefinition {
   type: 'oauth2' | 'oauth2_pkce';
   /** OAuth2 configuration */
   config: OAuth2Config;
+  /** How to apply the access token (default: header with Authorization: Bearer {{accessToken}}) */
+  authenticate?: CredentialAuthenticate;
 }
 
 /**
@@ -158,6 +160,20 @@ export interface CredentialProvider {
    * @returns Updated credentials or null if refresh failed
    */
   refreshIfNeeded?(name: string): Promise<ResolvedCredentials | null>;
+
+  /**
+   * Refresh OAuth2 tokens an API rejected (HTTP 401), even if not expired.
+   * @param name - Credential name
+   * @returns Updated credentials or null if they cannot be refreshed
+   */
+  refresh?(name: string): Promise<ResolvedCredentials | null>;
+
+  /**
+   * Store updated credentials (e.g. tokens from an OAuth2 refresh).
+   * @param name - Credential name
+   * @param credentials - Complete credential data to replace the stored value
+   */
+  saveCredentials?(name: string, credentials: ResolvedCredentials): Promise<void>;
 }
 
 /**
@@ -1,4 +1,14 @@
-import type { NodeDefinition, NodeExecutionResult } from './node.js';
+import type {
+  NodeApprovalRequest,
+  NodeCredentials,
+  NodeDefinition,
+  NodeExecutionResult,
+} from './node.js';
+import type { WorkflowDocument, WorkflowMetadata } from './workflow.js';
+import type { NodeRegistry } from '../registry/node-registry.js';
+import type { Span, Tracer } from './tracing.js';
+import type { CredentialProvider } from './credentials.js';
+import type { RedactionOptions, SecretRedactor } from '../redaction/redactor.js';
 
 /**
  * Configuration for retry behavior on node execution failure.
@@ -40,19 +50,124 @@ export interface CacheConfig {
   store: CacheStore;
 }
 
+/** Algorithm used by a rate limiter. */
+export type RateLimitStrategy = 'fixed' | 'sliding' | 'token_bucket';
+
+/**
+ * Persisted state of a rate limit bucket.
+ * Which fields are used depends on the strategy.
+ */
+export interface RateLimitState {
+  strategy: RateLimitStrategy;
+  /** fixed: start of the current window (epoch ms) */
+  windowStart?: number;
+  /** fixed: requests made in the current window */
+  count?: number;
+  /** sliding: timestamps of requests within the window (epoch ms) */
+  timestamps?: number[];
+  /** token_bucket: tokens currently available */
+  tokens?: number;
+  /** token_bucket: last refill time (epoch ms) */
+  updatedAt?: number;
+}
+
+/**
+ * Interface for pluggable rate limit backends.
+ * `update` must apply the updater atomically so limits hold across
+ * concurrent nodes, workflow runs, and (for shared stores) processes.
+ */
+export interface RateLimitStore {
+  update(
+    bucket: string,
+    updater: (state: RateLimitState | undefined) => RateLimitState,
+  ): Promise<RateLimitState>;
+  delete(bucket: string): Promise<void>;
+}
+
+/**
+ * Configuration for a named rate limiter.
+ * Every limiter using the same bucket name (and store) shares one quota.
+ */
+export interface RateLimitConfig {
+  /** Shared bucket name (e.g. 'twitter' or 'apollo') */
+  bucket: string;
+  strategy: RateLimitStrategy;
+  /** Requests per window (fixed/sliding) or bucket capacity (token_bucket) */
+  limit: number;
+  /** Window length (fixed/sliding) or time to refill an empty bucket (token_bucket) */
+  windowMs: number;
+  /** Store holding the bucket state (default: a process-wide in-memory store) */
+  store?: RateLimitStore;
+}
+
+/** Outcome of acquiring a rate limit slot. */
+export interface RateLimitAcquisition {
+  /** Total time spent waiting for a slot in milliseconds */
+  waitedMs: number;
+  /** Slots in use after this acquisition (fixed/sliding) or tokens consumed (token_bucket) */
+  used: number;
+}
+
+/**
+ * How executeNode checks a successful result against the node's outputSchema:
+ * - 'strict': fail the node with errorCode 'INVALID_OUTPUT'
+ * - 'warn': keep the result and report the issues via onInvalidOutput
+ * - 'coerce': replace the output with the parsed value (defaults applied,
+ *   unknown keys stripped); fails like 'strict' if it cannot be parsed
+ */
+export type OutputValidationMode = 'strict' | 'warn' | 'coerce';
+
+/** A node output field that does not match the node's outputSchema. */
+export interface OutputValidationIssue {
+  /** Location in the output, e.g. 'contacts[0].email' ('' for the output itself) */
+  path: string;
+  message: string;
+}
+
 /**
  * Configuration for a single node execution.
- * Controls retry, caching, timeout, and cancellation.
+ * Controls retry, caching, timeout, rate limiting, and cancellation.
  */
 export interface ExecutionConfig {
   retry?: RetryConfig;
   cache?: CacheConfig;
-  /** Maximum execution time per attempt in milliseconds */
+  /** Rate limiter acquired before each attempt (cache hits don't count) */
+  rateLimit?: RateLimitConfig;
+  /** Maximum execution time per attempt in milliseconds (exceeding it fails with errorCode 'TIMEOUT') */
   timeout?: number;
-  /** AbortSignal for cancellation */
+  /** AbortSignal for cancellation (aborted nodes fail with errorCode 'ABORTED') */
   signal?: AbortSignal;
+  /** Called when an attempt starts */
+  onAttempt?: (attempt: number) => void;
   /** Called after each failed attempt before the next retry */
   onRetry?: (attempt: number, error: Error) => void;
+  /** Called when a cached result is returned instead of running the node */
+  onCacheHit?: (cacheKey: string) => void;
+  /** Records spans for workflows, node attempts and HTTP calls (default: no-op) */
+  tracer?: Tracer;
+  /** Check successful results against the node's outputSchema (default: not checked) */
+  validateOutput?: OutputValidationMode;
+  /** Called when an output does not match the node's outputSchema in 'warn' mode */
+  onInvalidOutput?: (issues: OutputValidationIssue[]) => void;
+}
+
+/**
+ * Where executeWorkflow stores each node's output:
+ * - 'legacy': under the node ID and, for plain objects, each key merged into
+ *   the root variables too (`{{search.contacts}}` and `{{contacts}}`).
+ *   Keys overwritten this way are reported as OutputCollisions.
+ * - 'strict': only under the node ID (`{{search.contacts}}`)
+ */
+export type OutputScoping = 'legacy' | 'strict';
+
+/** A variable overwritten when a node's output was stored. */
+export interface OutputCollision {
+  /** Variable that was overwritten */
+  key: string;
+  /** Node whose output overwrote it */
+  nodeId: string;
+  /** Node whose output it held before; absent for other variables (e.g. workflow inputs) */
+  previousNodeId?: string;
 }
 
 /**
@@ -62,17 +177,70 @@ export interface ExecutionConfig {
 export interface WorkflowExecutionConfig extends ExecutionConfig {
   /** User ID passed to each node's execution context */
   userId?: string;
+  /** Credentials passed to each node's execution context */
+  credentials?: NodeCredentials;
+  /**
+   * Resolves the credentials each node declares (NodeDefinition.credentials)
+   * right before it runs, refreshing them first when the provider supports it.
+   * Resolved credentials take precedence over `credentials`.
+   */
+  credentialProvider?: CredentialProvider;
+  /**
+   * Scrubs credential values and secret patterns (e.g. Discord webhook URLs)
+   * from results, errors, events and callbacks. On by default; pass a
+   * SecretRedactor to share it with your own logging, or false to disable.
+   * Node outputs stored for interpolation keep their real values.
+   */
+  redaction?: RedactionOptions | SecretRedactor | false;
+  /** Resolves workflows referenced by ID (e.g. by the sub_workflow node) */
+  workflowProvider?: WorkflowProvider;
+  /**
+   * Maximum nesting depth of child workflows run through WorkflowRuntime.executeWorkflow
+   * (default 10). A workflow resolved by ID that is already running further up
+   * fails immediately as a cycle.
+   */
+  maxWorkflowDepth?: number;
+  /** Registry used to resolve node types of WorkflowDocuments loaded at runtime */
+  registry?: NodeRegistry;
+  /** Default store for rate limiters that don't set their own */
+  rateLimitStore?: RateLimitStore;
   /** Per-node-type config overrides (keyed by node type, e.g. 'http_request') */
   nodeConfig?: Record<string, Partial<ExecutionConfig>>;
+  /** Maximum number of nodes running at once in this run (default: unlimited) */
+  maxConcurrency?: number;
+  /** Maximum number of nodes of a type running at once, keyed by node type (e.g. { http_request: 2 }) */
+  nodeTypeConcurrency?: Record<string, number>;
   /** If true (default), downstream nodes are skipped when a node fails */
   stopOnError?: boolean;
+  /**
+   * Keep `{{ }}` blocks in node inputs that are not valid expressions as
+   * literal text. By default such a node fails with errorCode 'INVALID_TEMPLATE'
+   * (default false)
+   */
+  lenientTemplates?: boolean;
+  /** Where node outputs are stored for interpolation (default: 'legacy'; see OutputScoping) */
+  outputScoping?: OutputScoping;
+  /**
+   * Store that receives a snapshot after each node completes, enabling resumeWorkflow.
+   * A failed save does not fail the run: it is reported as a checkpoint_failed
+   * event and in the result's `error`, and later snapshots are still saved.
+   */
+  stateStore?: ExecutionStateStore;
+  /** Execution ID to use instead of a generated one (also the key in stateStore) */
+  executionId?: string;
+  /** Span the workflow span is nested under (e.g. a request span in your server) */
+  parentSpan?: Span;
   onNodeStart?: (nodeId: string, nodeType: string) => void;
   onNodeComplete?: (nodeId: string, result: NodeExecutionResult) => void;
   onNodeError?: (nodeId: string, error: Error) => void;
+  /** Called when a node returns needsApproval and its downstream branch is suspended */
+  onNodeApprovalRequired?: (nodeId: string, request: NodeApprovalRequest) => void;
+  /** Receives every execution event (see executeWorkflowStream for an async iterable of them) */
+  onEvent?: (event: WorkflowEvent) => void;
 }
 
 /** Lifecycle state of a node during workflow execution. */
-export type NodeStatus = 'idle' | 'running' | 'success' | 'error' | 'skipped';
+export type NodeStatus = 'idle' | 'running' | 'success' | 'error' | 'skipped' | 'waiting_approval';
 
 /** A node instance within a workflow DAG. */
 export interface WorkflowNode {
@@ -100,6 +268,8 @@ export interface Workflow {
   edges: WorkflowEdge[];
   /** ID of the root node (used for documentation; execution order is derived from edges) */
   entryNodeId: string;
+  /** Descriptive metadata (name, version, tags) preserved when serialized */
+  metadata?: WorkflowMetadata;
 }
 
 /** Aggregate result returned by executeWorkflow. */
@@ -112,4 +282,277 @@ export interface WorkflowExecutionResult {
   statuses: Record<string, NodeStatus>;
   /** Workflow-level error message, if any */
   error?: string;
+  /** Unique ID of this execution (pass to resumeWorkflow to continue it) */
+  executionId: string;
+  /** Approval requests of nodes in 'waiting_approval', keyed by node ID (resolve with approveNode/rejectNode) */
+  pendingApprovals?: Record<string, NodeApprovalRequest>;
+  /** Variables overwritten by node outputs in this run, in the order they happened ('legacy' output scoping) */
+  outputCollisions?: OutputCollision[];
+  /** Timing, attempt and cache metrics for this run */
+  metrics: WorkflowExecutionMetrics;
+}
+
+/** Why a node stopped without completing normally. */
+export type NodeInterruption = 'timeout' | 'aborted';
+
+/**
+ * Metrics for one node in a workflow run. Timestamps are epoch milliseconds
+ * and are absent for nodes that did not run (skipped, held, or restored
+ * from a snapshot).
+ */
+export interface NodeExecutionMetrics {
+  nodeType: string;
+  status: NodeStatus;
+  /** When the node's dependencies were satisfied */
+  queuedAt?: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** Time between queued and started */
+  queueMs?: number;
+  /** Time between started and finished, including retries and backoff */
+  durationMs?: number;
+  /** Attempts made (0 for cache hits and nodes that did not run) */
+  attempts: number;
+  /** Cache outcome; absent when caching is disabled for the node */
+  cache?: 'hit' | 'miss';
+  /** Set when the node timed out, or was aborted or skipped because of the abort signal */
+  interrupted?: NodeInterruption;
+}
+
+/** Workflow-level aggregates of the node metrics. */
+export interface WorkflowMetricsSummary {
+  nodes: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  waitingApproval: number;
+  attempts: number;
+  /** Attempts beyond the first, summed over all nodes */
+  retries: number;
+  cacheHits: number;
+  cacheMisses: number;
+  timeouts: number;
+  aborts: number;
+  /** Sum of node durations (exceeds wallTimeMs when nodes run in parallel) */
+  nodeTimeMs: number;
+  /** Node with the longest duration */
+  slowestNodeId?: string;
+}
+
+/** Metrics of a workflow run, returned in WorkflowExecutionResult.metrics. */
+export interface WorkflowExecutionMetrics {
+  /** Epoch milliseconds when this run started (a resumed run starts anew) */
+  startedAt: number;
+  finishedAt: number;
+  wallTimeMs: number;
+  /** Per-node metrics keyed by node ID */
+  nodes: Record<string, NodeExecutionMetrics>;
+  totals: WorkflowMetricsSummary;
+}
+
+/** Fields shared by every workflow execution event. */
+export interface WorkflowEventBase {
+  /** Execution the event belongs to (child workflows use '<parentId>/<nodeId>') */
+  executionId: string;
+  /** Epoch milliseconds when the event occurred */
+  timestamp: number;
+}
+
+/** Fields shared by events about a single node. */
+export interface NodeEventBase extends WorkflowEventBase {
+  /** Node ID (nested runs report e.g. 'notify/send') */
+  nodeId: string;
+  nodeType: string;
+}
+
+export interface WorkflowStartedEvent extends WorkflowEventBase {
+  type: 'workflow_started';
+}
+
+/** The node's dependencies are satisfied and it is about to run. */
+export interface NodeQueuedEvent extends NodeEventBase {
+  type: 'node_queued';
+}
+
+export interface NodeStartedEvent extends NodeEventBase {
+  type: 'node_started';
+}
+
+/** An attempt failed and the node will be run again. */
+export interface NodeRetryingEvent extends NodeEventBase {
+  type: 'node_retrying';
+  /** Number of the attempt that failed */
+  attempt: number;
+  error: string;
+}
+
+/** The node's result was served from cache (a node_succeeded event follows). */
+export interface NodeCacheHitEvent extends NodeEventBase {
+  type: 'node_cache_hit';
+  cacheKey: string;
+}
+
+/** The node's output does not match its outputSchema ('warn' mode; a node_succeeded event follows). */
+export interface NodeOutputInvalidEvent extends NodeEventBase {
+  type: 'node_output_invalid';
+  issues: OutputValidationIssue[];
+}
+
+/** Storing the node's output overwrote other variables (follows its node_succeeded event). */
+export interface NodeOutputCollisionEvent extends NodeEventBase {
+  type: 'node_output_collision';
+  collisions: OutputCollision[];
+}
+
+/** The node will not run: untaken branch, failed or rejected upstream, or abort. */
+export interface NodeSkippedEvent extends NodeEventBase {
+  type: 'node_skipped';
+}
+
+export interface NodeSucceededEvent extends NodeEventBase {
+  type: 'node_succeeded';
+  result: NodeExecutionResult;
+  durationMs: number;
+}
+
+/** The node returned needsApproval; its downstream branch is held. */
+export interface NodeWaitingApprovalEvent extends NodeEventBase {
+  type: 'node_waiting_approval';
+  request: NodeApprovalRequest;
+  durationMs: number;
+}
+
+export interface NodeFailedEvent extends NodeEventBase {
+  type: 'node_failed';
+  error: string;
+  errorCode?: string;
+  durationMs: number;
+}
+
+/**
+ * The stateStore failed to save a snapshot. Later snapshots are still saved
+ * and the run goes on; it can only be resumed from the last saved snapshot.
+ */
+export interface CheckpointFailedEvent extends WorkflowEventBase {
+  type: 'checkpoint_failed';
+  /** Status of the snapshot that was not saved */
+  status: ExecutionSnapshotStatus;
+  error: string;
+}
+
+export interface WorkflowFinishedEvent extends WorkflowEventBase {
+  type: 'workflow_finished';
+  result: WorkflowExecutionResult;
+  durationMs: number;
+}
+
+/** An event emitted while a workflow executes, discriminated by `type`. */
+export type WorkflowEvent =
+  | WorkflowStartedEvent
+  | NodeQueuedEvent
+  | NodeStartedEvent
+  | NodeRetryingEvent
+  | NodeCacheHitEvent
+  | NodeOutputInvalidEvent
+  | NodeOutputCollisionEvent
+  | NodeSkippedEvent
+  | NodeSucceededEvent
+  | NodeWaitingApprovalEvent
+  | NodeFailedEvent
+  | CheckpointFailedEvent
+  | WorkflowFinishedEvent;
+
+/** Overall state of a checkpointed workflow execution. */
+export type ExecutionSnapshotStatus = 'running' | 'waiting_approval' | 'completed' | 'failed';
+
+/**
+ * Persisted progress of a workflow execution.
+ * Must stay JSON-serializable so any store can persist it.
+ */
+export interface ExecutionSnapshot {
+  executionId: string;
+  status: ExecutionSnapshotStatus;
+  /** Status of each node at the time of the snapshot */
+  statuses: Record<string, NodeStatus>;
+  /** Results of every node that has finished */
+  results: Record<string, NodeExecutionResult>;
+  /** Execution context variables (including stored node outputs) */
+  variables: Record<string, unknown>;
+  /** Node that last stored each variable, so resumed runs keep reporting collisions */
+  outputOwners?: Record<string, string>;
+  /** Nodes whose approval request was rejected (they stay failed and their downstream skipped) */
+  rejectedNodes?: string[];
+  /** Epoch milliseconds when the execution first started */
+  startedAt: number;
+  /** Epoch milliseconds of the last snapshot */
+  updatedAt: number;
+}
+
+/**
+ * Interface for pluggable execution state backends.
+ * Implement this to checkpoint workflow progress in a database, Redis, etc.
+ */
+export interface ExecutionStateStore {
+  save(snapshot: ExecutionSnapshot): Promise<void>;
+  load(executionId: string): Promise<ExecutionSnapshot | undefined>;
+  delete(executionId: string): Promise<void>;
+}
+
+/**
+ * Source of reusable workflows that can be referenced by ID.
+ * Implement this to load workflows from disk, a database, or an API.
+ */
+export interface WorkflowProvider {
+  getWorkflow(id: string): Promise<Workflow | WorkflowDocument | undefined>;
+}
+
+/** A workflow given by ID, as an executable Workflow, or as a portable WorkflowDocument. */
+export type WorkflowReference = string | Workflow | WorkflowDocument;
+
+/** Result of a child workflow run through WorkflowRuntime.executeWorkflow. */
+export interface ChildWorkflowResult extends WorkflowExecutionResult {
+  /** Final variables of the child execution context (inputs plus node outputs) */
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Engine services available to nodes while they run inside executeWorkflow.
+ * Composite nodes (e.g. sub_workflow) use this to run nested work with the
+ * parent's abort signal, user, credentials, and lifecycle callbacks.
+ */
+export interface WorkflowRuntime {
+  /** ID of the node being executed (nested IDs are joined with '/', e.g. 'notify/send') */
+  nodeId: string;
+  /** The parent execution's abort signal */
+  signal?: AbortSignal;
+  /** The execution's default rate limit store, if configured */
+  rateLimitStore?: RateLimitStore;
+  /**
+   * Resolve a workflow reference to an executable workflow.
+   * IDs go through `workflowProvider`; documents are loaded with `registry`.
+   * @throws Error if the ID belongs to a workflow this one is nested in
+   */
+  resolveWorkflow(ref: WorkflowReference): Promise<Workflow>;
+  /**
+   * Execute a child workflow with the parent's configuration.
+   * Child node IDs are reported to lifecycle callbacks as `${nodeId}/${childNodeId}`,
+   * or `${nodeId}/${options.id}/${childNodeId}` when an ID is given (e.g. a loop index).
+   * @throws Error if the child would be nested deeper than `maxWorkflowDepth`
+   */
+  executeWorkflow(
+    workflow: Workflow,
+    variables?: Record<string, unknown>,
+    options?: { id?: string },
+  ): Promise<ChildWorkflowResult>;
+  /**
+   * Execute a single node by type (resolved through `registry`), using the
+   * per-node-type config for retry, cache and timeout. The input is interpolated
+   * against `options.variables`. Reported to callbacks as `${nodeId}/${options.id ?? type}`.
+   * Failures are returned as unsuccessful results rather than thrown.
+   */
+  executeNode(
+    type: string,
+    input: Record<string, unknown>,
+    options?: { id?: string; variables?: Record<string, unknown> },
+  ): Promise<NodeExecutionResult>;
 }
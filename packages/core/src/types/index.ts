@@ -5,6 +5,9 @@ export type {
   NodeExecutor,
   NodeApprovalRequest,
   NodeCapabilities,
+  NodeCredentialRequirements,
+  NodeInputMigration,
+  AnyNodeDefinition,
   NodeCategory,
   NodeMetadata,
   NodeDefinition,
@@ -71,11 +74,79 @@ export type {
   RetryConfig,
   CacheStore,
   CacheConfig,
+  RateLimitStrategy,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitConfig,
+  RateLimitAcquisition,
+  OutputValidationMode,
+  OutputValidationIssue,
+  OutputScoping,
+  OutputCollision,
   ExecutionConfig,
   WorkflowExecutionConfig,
   WorkflowExecutionResult,
+  WorkflowExecutionMetrics,
+  WorkflowMetricsSummary,
+  NodeExecutionMetrics,
+  NodeInterruption,
   Workflow,
   WorkflowNode,
   WorkflowEdge,
   NodeStatus,
+  ExecutionSnapshot,
+  ExecutionSnapshotStatus,
+  ExecutionStateStore,
+  WorkflowProvider,
+  WorkflowReference,
+  WorkflowRuntime,
+  ChildWorkflowResult,
+  WorkflowEvent,
+  WorkflowEventBase,
+  NodeEventBase,
+  WorkflowStartedEvent,
+  NodeQueuedEvent,
+  NodeStartedEvent,
+  NodeRetryingEvent,
+  NodeCacheHitEvent,
+  NodeOutputInvalidEvent,
+  NodeOutputCollisionEvent,
+  NodeSkippedEvent,
+  NodeSucceededEvent,
+  NodeWaitingApprovalEvent,
+  NodeFailedEvent,
+  CheckpointFailedEvent,
+  WorkflowFinishedEvent,
 } from './execution.js';
+
+export type {
+  SpanAttributeValue,
+  SpanAttributes,
+  SpanStatusCode,
+  SpanStatus,
+  Span,
+  SpanOptions,
+  Tracer,
+  TraceContext,
+} from './tracing.js';
+
+export type { JamNodesPlugin } from './plugin.js';
+
+export type {
+  JsonSchemaType,
+  JsonSchema,
+  NodeJsonSchemas,
+  NodeJsonMetadata,
+} from './json-schema.js';
+
+export type {
+  WorkflowMetadata,
+  WorkflowDocument,
+  WorkflowDocumentNode,
+  WorkflowDocumentEdge,
+  WorkflowDocumentIssue,
+  LoadWorkflowOptions,
+  WorkflowDiagnosticCode,
+  WorkflowDiagnostic,
+  WorkflowValidationResult,
+} from './workflow.js';
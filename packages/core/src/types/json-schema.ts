@@ -0,0 +1,70 @@
+import type { NodeMetadata } from './node.js';
+
+/** Primitive types of JSON Schema's `type` keyword. */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * A JSON Schema (draft 2020-12), limited to the keywords zodToJsonSchema emits.
+ */
+export interface JsonSchema {
+  /** Dialect URI, set on root schemas */
+  $schema?: string;
+  /** JSON pointer to a schema in the same document (recursive schemas) */
+  $ref?: string;
+  $comment?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  readOnly?: boolean;
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  not?: JsonSchema;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // Arrays
+  items?: JsonSchema | false;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  propertyNames?: JsonSchema;
+}
+
+/** JSON Schemas of a node's input and output. */
+export interface NodeJsonSchemas {
+  input: JsonSchema;
+  output: JsonSchema;
+}
+
+/**
+ * Node metadata with its input and output described as JSON Schema, so it
+ * can be sent to clients (forms, docs, LLM tool definitions) as plain JSON.
+ */
+export interface NodeJsonMetadata extends NodeMetadata {
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+}
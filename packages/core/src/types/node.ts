@@ -1,5 +1,7 @@
 import type { z } from 'zod'
 import type { NodeServices } from './services.js'
+import type { WorkflowRuntime } from './execution.js'
+import type { Span, Tracer } from './tracing.js'
 
 /**
  * Credentials for API authentication.
@@ -96,6 +98,12 @@ export interface NodeExecutionContext {
    * @deprecated Use credentials instead for standalone operation.
    */
   services?: NodeServices
+  /** Engine services, set when the node runs inside executeWorkflow */
+  runtime?: WorkflowRuntime
+  /** Tracer for spans opened by the node (e.g. pass the context to fetchWithRetry) */
+  tracer?: Tracer
+  /** Span of the current execution attempt; parent for spans opened by the node */
+  span?: Span
 }
 
 /**
@@ -123,6 +131,8 @@ export interface NodeExecutionResult<TOutput = unknown> {
   output?: TOutput
   /** Error message on failure */
   error?: string
+  /** Machine-readable error code on failure (e.g. 'ECONNRESET' or an HTTP status like '429') */
+  errorCode?: string
   /** Next node ID for conditional branching */
   nextNodeId?: string
   /** Approval request if node needs user approval */
@@ -173,6 +183,12 @@ export type NodeCategory = 'action' | 'logic' | 'integration' | 'transform'
 export interface NodeMetadata {
   /** Unique node type identifier */
   type: string
+  /**
+   * Version of the node's input contract (a positive integer, default 1).
+   * Bump it when the input changes incompatibly; the registry can hold several
+   * versions of a type and workflow documents pin the version they were written for.
+   */
+  version?: number
   /** Display name */
   name: string
   /** Description of what the node does */
@@ -183,6 +199,27 @@ export interface NodeMetadata {
   estimatedDuration?: number
   /** Node capabilities */
   capabilities?: NodeCapabilities
+  /**
+   * Credentials the node uses. Resolved from
+   * WorkflowExecutionConfig.credentialProvider before the node runs.
+   */
+  credentials?: NodeCredentialRequirements
+}
+
+/**
+ * Credentials a node uses, by CredentialDefinition name (e.g. 'twitter').
+ * Resolved credentials are passed under the same key of context.credentials.
+ */
+export interface NodeCredentialRequirements {
+  /** Credentials the node cannot run without */
+  required?: string[]
+  /** Credentials the node uses when they are configured */
+  optional?: string[]
+  /**
+   * Fields the node reads from a credential, when that is not the fields its
+   * CredentialDefinition requires (e.g. { twitter: ['twitterApiIoKey'] })
+   */
+  fields?: Record<string, string[]>
 }
 
 /**
@@ -200,4 +237,32 @@ export interface NodeDefinition<
   outputSchema: z.ZodSchema<TOutput>
   /** Executor function */
   executor: NodeExecutor<TInput, TOutput>
+  /**
+   * Top-level input keys passed to the executor without {{variable}} interpolation,
+   * for inputs holding templates the node evaluates itself (e.g. a sub-workflow)
+   */
+  rawInputKeys?: string[]
+  /**
+   * Upgrade input written for an earlier version of this node type to this
+   * version's input. Receives raw (uninterpolated) input; `fromVersion` is the
+   * next lower registered version, or the version a document pinned.
+   */
+  migrateInput?: NodeInputMigration
+}
+
+/**
+ * A node definition of any input and output types, for lists of different
+ * nodes such as a plugin's `nodes`. Its executor takes `never`, since no one
+ * input type fits every node; validate with `inputSchema` before calling it.
+ */
+export type AnyNodeDefinition = Omit<NodeDefinition, 'executor'> & {
+  executor: NodeExecutor<never, unknown>
 }
+
+/**
+ * Converts node input from an earlier version (see NodeDefinition.migrateInput).
+ */
+export type NodeInputMigration = (
+  fromVersion: number,
+  input: Record<string, unknown>,
+) => Record<string, unknown>
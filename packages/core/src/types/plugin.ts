@@ -0,0 +1,25 @@
+import type { AnyNodeDefinition } from './node.js';
+import type { CredentialDefinition } from './credentials.js';
+
+/**
+ * Manifest of a plugin package: a set of third-party nodes and the
+ * credential definitions they use, loaded with `NodeRegistry.loadPlugin`.
+ *
+ * A plugin module exports its manifest as the default export (or as a
+ * named `plugin` export).
+ */
+export interface JamNodesPlugin {
+  /** Unique plugin name, usually the package name */
+  name: string;
+  /** Plugin version, shown in listings */
+  version?: string;
+  /**
+   * Range of @jam-nodes/core versions the plugin works with, e.g. '^0.2.0'.
+   * Supports the common npm forms: exact, x-ranges, ^, ~, comparators and ||.
+   */
+  coreVersion?: string;
+  /** Node definitions to register */
+  nodes?: AnyNodeDefinition[];
+  /** Credential definitions the nodes use */
+  credentials?: CredentialDefinition[];
+}
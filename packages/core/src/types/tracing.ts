@@ -0,0 +1,51 @@
+/**
+ * Tracing types, shaped after the OpenTelemetry API so an OpenTelemetry
+ * tracer can be plugged in through createOpenTelemetryTracer.
+ */
+
+/** Value of a span attribute. */
+export type SpanAttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+/** Attributes attached to a span, e.g. `{ 'jam.node.type': 'http_request' }`. */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** Outcome of a span (OpenTelemetry's SpanStatusCode UNSET / OK / ERROR). */
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+/** A timed operation within a trace. */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  setAttributes(attributes: SpanAttributes): void;
+  recordException(error: Error): void;
+  setStatus(status: SpanStatus): void;
+  /** Finish the span; calls after the first are ignored */
+  end(): void;
+}
+
+export interface SpanOptions {
+  attributes?: SpanAttributes;
+  /** Span this one is nested under (a new trace is started when omitted) */
+  parent?: Span;
+}
+
+/**
+ * Creates spans. Pass one as `tracer` in the execution config to trace
+ * workflows, node attempts and HTTP calls.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * Where new spans should be recorded: the tracer and the current parent span.
+ * NodeExecutionContext satisfies this, so nodes can pass their context along.
+ */
+export interface TraceContext {
+  tracer?: Tracer;
+  span?: Span;
+}
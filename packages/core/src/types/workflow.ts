@@ -0,0 +1,100 @@
+/**
+ * Descriptive metadata carried alongside a workflow.
+ * Known fields are typed; any additional keys are preserved on round-trip.
+ */
+export interface WorkflowMetadata {
+  /** Stable identifier for the workflow (e.g. 'social-monitor') */
+  id?: string;
+  /** Human-readable name */
+  name?: string;
+  /** What the workflow does */
+  description?: string;
+  /** Author-defined workflow version (e.g. '1.2.0') */
+  version?: string;
+  /** Free-form tags for grouping and search */
+  tags?: string[];
+  [key: string]: unknown;
+}
+
+/** A node entry in a serialized workflow document. */
+export interface WorkflowDocumentNode {
+  /** Unique identifier for this node within the workflow */
+  id: string;
+  /** Registered node type (e.g. 'http_request') */
+  type: string;
+  /** Node version the input was written for (default 1) */
+  version?: number;
+  /** Raw input passed to the node (supports {{variable}} interpolation) */
+  input: Record<string, unknown>;
+}
+
+/** An edge entry in a serialized workflow document. */
+export interface WorkflowDocumentEdge {
+  from: string;
+  to: string;
+  /** When set, this edge is only followed if the source node's nextNodeId matches */
+  condition?: string;
+}
+
+/**
+ * Portable, JSON-serializable representation of a workflow.
+ * Node types are stored by name and resolved through a NodeRegistry on load,
+ * so documents can be saved to disk, versioned in git, or written as YAML.
+ */
+export interface WorkflowDocument {
+  /** Document format version (see WORKFLOW_FORMAT_VERSION) */
+  formatVersion: number;
+  /** ID of the root node */
+  entryNodeId: string;
+  nodes: WorkflowDocumentNode[];
+  edges: WorkflowDocumentEdge[];
+  metadata?: WorkflowMetadata;
+}
+
+/** A single problem found while loading a workflow document. */
+export interface WorkflowDocumentIssue {
+  /** Location in the document, e.g. 'nodes[2].type' */
+  path: string;
+  message: string;
+}
+
+/** Options for loadWorkflow. */
+export interface LoadWorkflowOptions {
+  /**
+   * Migrate every node to its type's default version, even when the version
+   * the document pins is still registered (default false)
+   */
+  upgrade?: boolean;
+}
+
+/** Kind of problem reported by validateWorkflow. */
+export type WorkflowDiagnosticCode =
+  | 'duplicate_node_id'
+  | 'missing_entry_node'
+  | 'unknown_node_type'
+  | 'unknown_edge_node'
+  | 'cycle'
+  | 'unreachable_node'
+  | 'invalid_reference'
+  | 'invalid_expression'
+  | 'unmatched_condition'
+  | 'invalid_input';
+
+/** A single problem found by static workflow validation. */
+export interface WorkflowDiagnostic {
+  code: WorkflowDiagnosticCode;
+  /** Errors will make execution fail or misbehave; warnings are suspicious but runnable */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Node the diagnostic refers to, if any */
+  nodeId?: string;
+  /** Location in the workflow, e.g. 'nodes[2].input.contacts' or 'edges[0].to' */
+  path?: string;
+}
+
+/** Result returned by validateWorkflow. */
+export interface WorkflowValidationResult {
+  /** True when no error-severity diagnostics were found */
+  valid: boolean;
+  diagnostics: WorkflowDiagnostic[];
+}
@@ -4,6 +4,8 @@ import type {
   NodeExecutor,
   NodeCapabilities,
   NodeCategory,
+  NodeCredentialRequirements,
+  NodeInputMigration,
 } from '../types/index.js';
 
 /**
@@ -12,6 +14,8 @@ import type {
 export interface DefineNodeConfig<TInput, TOutput> {
   /** Unique node type identifier */
   type: string;
+  /** Version of the node's input contract (default 1) */
+  version?: number;
   /** Display name */
   name: string;
   /** Description of what the node does */
@@ -28,6 +32,12 @@ export interface DefineNodeConfig<TInput, TOutput> {
   estimatedDuration?: number;
   /** Node capabilities */
   capabilities?: NodeCapabilities;
+  /** Top-level input keys passed to the executor without {{variable}} interpolation */
+  rawInputKeys?: string[];
+  /** Credentials the node uses, by CredentialDefinition name */
+  credentials?: NodeCredentialRequirements;
+  /** Upgrade input written for an earlier version of this node type */
+  migrateInput?: NodeInputMigration;
 }
 
 /**
@@ -63,6 +73,7 @@ export function defineNode<TInput, TOutput>(
 ): NodeDefinition<TInput, TOutput> {
   return {
     type: config.type,
+    version: config.version,
     name: config.name,
     description: config.description,
     category: config.category,
@@ -71,5 +82,8 @@ export function defineNode<TInput, TOutput>(
     executor: config.executor,
     estimatedDuration: config.estimatedDuration,
     capabilities: config.capabilities,
+    rawInputKeys: config.rawInputKeys,
+    credentials: config.credentials,
+    migrateInput: config.migrateInput,
   };
 }
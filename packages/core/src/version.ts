@@ -0,0 +1,4 @@
+// Generated from package.json by scripts/write-version.mjs. Do not edit.
+
+/** Version of this @jam-nodes/core build, checked against plugins' `coreVersion`. */
+export const CORE_VERSION = '0.2.10';
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import { NodeRegistry } from '../registry';
+import { ExecutionContext } from '../execution/context';
+import { executeWorkflow } from '../execution/execute-workflow';
+import { WorkflowDocumentError, loadWorkflow, serializeWorkflow } from './document';
+
+const greetV1 = defineNode({
+  type: 'greet',
+  name: 'Greet',
+  description: 'Greets a name',
+  category: 'action',
+  inputSchema: z.object({ name: z.string() }),
+  outputSchema: z.object({ text: z.string() }),
+  executor: async (input) => ({ success: true, output: { text: `Hello ${input.name}` } }),
+});
+
+const greetV2 = defineNode({
+  type: 'greet',
+  version: 2,
+  name: 'Greet',
+  description: 'Greets a person with a configurable greeting',
+  category: 'action',
+  inputSchema: z.object({ person: z.string(), greeting: z.string() }),
+  outputSchema: z.object({ text: z.string() }),
+  migrateInput: (_fromVersion, input) => ({ person: input['name'], greeting: 'Hello' }),
+  executor: async (input) => ({ success: true, output: { text: `${input.greeting}, ${input.person}!` } }),
+});
+
+const createRegistry = () => new NodeRegistry().register(greetV1).register(greetV2);
+
+/** Written before greet v2 existed, so the node pins no version. */
+const document = {
+  formatVersion: 1,
+  entryNodeId: 'greet',
+  nodes: [{ id: 'greet', type: 'greet', input: { name: 'Ada' } }],
+  edges: [],
+};
+
+describe('loadWorkflow versions', () => {
+  it('runs the version a node was written for', async () => {
+    const workflow = loadWorkflow(document, createRegistry());
+
+    expect(workflow.nodes[0]?.node).toBe(greetV1);
+    const result = await executeWorkflow(workflow, new ExecutionContext());
+    expect(result.results['greet']?.output).toEqual({ text: 'Hello Ada' });
+  });
+
+  it('upgrades nodes to the default version and migrates their input when asked', async () => {
+    const workflow = loadWorkflow(document, createRegistry(), { upgrade: true });
+
+    expect(workflow.nodes[0]).toMatchObject({ node: greetV2, input: { person: 'Ada', greeting: 'Hello' } });
+    expect(serializeWorkflow(workflow).nodes[0]).toEqual({
+      id: 'greet',
+      type: 'greet',
+      version: 2,
+      input: { person: 'Ada', greeting: 'Hello' },
+    });
+    const result = await executeWorkflow(workflow, new ExecutionContext());
+    expect(result.results['greet']?.output).toEqual({ text: 'Hello, Ada!' });
+  });
+
+  it('does not change the document it loads', () => {
+    const source = structuredClone(document);
+
+    loadWorkflow(source, createRegistry(), { upgrade: true });
+
+    expect(source).toEqual(document);
+  });
+
+  it('upgrades nodes whose version is no longer registered', () => {
+    const registry = createRegistry();
+    registry.unregister('greet', 1);
+
+    const workflow = loadWorkflow(document, registry);
+
+    expect(workflow.nodes[0]).toMatchObject({ node: greetV2, input: { person: 'Ada', greeting: 'Hello' } });
+  });
+
+  it('rejects versions newer than the registered ones', () => {
+    const load = () =>
+      loadWorkflow({ ...document, nodes: [{ id: 'greet', type: 'greet', version: 3, input: {} }] }, createRegistry());
+
+    expect(load).toThrow(WorkflowDocumentError);
+    expect(load).toThrow(
+      'Cannot load workflow: nodes[0].version: Node type "greet" version 3 is not registered (default is 2) for node "greet"',
+    );
+  });
+
+  it('reports migrations that throw', () => {
+    const registry = new NodeRegistry().register({
+      ...greetV2,
+      migrateInput: () => {
+        throw new Error('name is required');
+      },
+    });
+
+    expect(() => loadWorkflow(document, registry)).toThrow(
+      expect.objectContaining({
+        name: 'WorkflowDocumentError',
+        issues: [{ path: 'nodes[0].input', message: 'Cannot migrate node "greet" from version 1 to 2: name is required' }],
+      }),
+    );
+  });
+});
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import type { Workflow, WorkflowNode } from '../types/execution.js';
+import type {
+  WorkflowDocument,
+  WorkflowDocumentIssue,
+  LoadWorkflowOptions,
+} from '../types/workflow.js';
+import { DEFAULT_NODE_VERSION, type NodeRegistry } from '../registry/index.js';
+
+/**
+ * Current workflow document format version.
+ * Bump when the document shape changes in a non-backward-compatible way.
+ */
+export const WORKFLOW_FORMAT_VERSION = 1;
+
+/**
+ * Error thrown when a workflow document cannot be parsed or resolved.
+ * Each issue carries the document path it refers to (e.g. 'nodes[2].type').
+ */
+export class WorkflowDocumentError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: WorkflowDocumentIssue[] = []
+  ) {
+    super(message);
+    this.name = 'WorkflowDocumentError';
+  }
+}
+
+const WorkflowDocumentSchema = z.object({
+  formatVersion: z.number().int().positive(),
+  entryNodeId: z.string().min(1),
+  nodes: z.array(
+    z.object({
+      id: z.string().min(1),
+      type: z.string().min(1),
+      version: z.number().int().positive().optional(),
+      input: z.record(z.string(), z.unknown()).optional().default({}),
+    })
+  ),
+  edges: z.array(
+    z.object({
+      from: z.string().min(1),
+      to: z.string().min(1),
+      condition: z.string().optional(),
+    })
+  ).optional().default([]),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Parse and structurally validate a workflow document.
+ *
+ * Accepts either a JSON string or an already-parsed object (e.g. the result
+ * of parsing a YAML file). Node types are not resolved here; use
+ * `loadWorkflow` to turn the document into an executable workflow.
+ *
+ * @throws WorkflowDocumentError if the document is malformed
+ */
+export function parseWorkflowDocument(source: string | unknown): WorkflowDocument {
+  let raw: unknown = source;
+
+  if (typeof source === 'string') {
+    try {
+      raw = JSON.parse(source);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new WorkflowDocumentError(`Invalid workflow document JSON: ${reason}`, [
+        { path: '', message: reason },
+      ]);
+    }
+  }
+
+  const parsed = WorkflowDocumentSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+    }));
+    throw new WorkflowDocumentError(
+      `Invalid workflow document: ${formatIssues(issues)}`,
+      issues
+    );
+  }
+
+  const document = parsed.data as WorkflowDocument;
+
+  if (document.formatVersion > WORKFLOW_FORMAT_VERSION) {
+    const issue = {
+      path: 'formatVersion',
+      message: `Unsupported format version ${document.formatVersion} (latest supported is ${WORKFLOW_FORMAT_VERSION})`,
+    };
+    throw new WorkflowDocumentError(`Invalid workflow document: ${formatIssues([issue])}`, [issue]);
+  }
+
+  const seen = new Map<string, number>();
+  const duplicates: WorkflowDocumentIssue[] = [];
+  document.nodes.forEach((node, index) => {
+    const first = seen.get(node.id);
+    if (first !== undefined) {
+      duplicates.push({
+        path: `nodes[${index}].id`,
+        message: `Duplicate node id "${node.id}" (first declared at nodes[${first}])`,
+      });
+    } else {
+      seen.set(node.id, index);
+    }
+  });
+
+  if (duplicates.length > 0) {
+    throw new WorkflowDocumentError(
+      `Invalid workflow document: ${formatIssues(duplicates)}`,
+      duplicates
+    );
+  }
+
+  return document;
+}
+
+/**
+ * Load a workflow document and resolve its node types through a registry.
+ *
+ * Each node runs the version its document entry pins (nodes without a
+ * `version` were written for version 1). When that version is no longer
+ * registered, or `options.upgrade` is set, the node gets the type's default
+ * version instead and its input is upgraded with `registry.migrateInput`.
+ *
+ * @example
+ * ```typescript
+ * const json = await readFile('workflows/outreach.json', 'utf-8');
+ * const workflow = loadWorkflow(json, registry);
+ * await executeWorkflow(workflow, new ExecutionContext());
+ * ```
+ *
+ * @param source - JSON string or parsed document object
+ * @param registry - Registry used to resolve each node's type
+ * @param options - Version upgrade behavior
+ * @throws WorkflowDocumentError if the document is malformed, references unknown
+ *   node types or versions, or a node's input cannot be migrated
+ */
+export function loadWorkflow(
+  source: string | unknown,
+  registry: NodeRegistry,
+  options: LoadWorkflowOptions = {}
+): Workflow {
+  const document = parseWorkflowDocument(source);
+
+  const unresolved: WorkflowDocumentIssue[] = [];
+  const nodes: WorkflowNode[] = [];
+
+  document.nodes.forEach((docNode, index) => {
+    const defaultVersion = registry.getDefaultVersion(docNode.type);
+    if (defaultVersion === undefined) {
+      unresolved.push({
+        path: `nodes[${index}].type`,
+        message: `Unknown node type "${docNode.type}" for node "${docNode.id}"`,
+      });
+      return;
+    }
+
+    const pinned = docNode.version ?? DEFAULT_NODE_VERSION;
+    const registered = registry.has(docNode.type, pinned);
+    if (!registered && pinned > defaultVersion) {
+      unresolved.push({
+        path: `nodes[${index}].version`,
+        message: `Node type "${docNode.type}" version ${pinned} is not registered (default is ${defaultVersion}) for node "${docNode.id}"`,
+      });
+      return;
+    }
+
+    const version = registered && !(options.upgrade && pinned < defaultVersion) ? pinned : defaultVersion;
+    let input = structuredClone(docNode.input);
+    if (version !== pinned) {
+      try {
+        input = registry.migrateInput(docNode.type, input, pinned, version);
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        unresolved.push({
+          path: `nodes[${index}].input`,
+          message: `Cannot migrate node "${docNode.id}" from version ${pinned} to ${version}: ${reason}`,
+        });
+        return;
+      }
+    }
+
+    nodes.push({
+      id: docNode.id,
+      type: docNode.type,
+      node: registry.getDefinition(docNode.type, version)!,
+      input,
+    });
+  });
+
+  if (unresolved.length > 0) {
+    throw new WorkflowDocumentError(
+      `Cannot load workflow: ${formatIssues(unresolved)}`,
+      unresolved
+    );
+  }
+
+  return {
+    entryNodeId: document.entryNodeId,
+    nodes,
+    edges: document.edges.map((edge) => ({ ...edge })),
+    ...(document.metadata && { metadata: structuredClone(document.metadata) }),
+  };
+}
+
+/**
+ * Convert a workflow into a portable document.
+ *
+ * Node definitions are replaced by their type names (and versions, for
+ * definitions that declare one), so the result can be written with
+ * `JSON.stringify` (or any YAML serializer) and later restored with `loadWorkflow`.
+ */
+export function serializeWorkflow(workflow: Workflow): WorkflowDocument {
+  return {
+    formatVersion: WORKFLOW_FORMAT_VERSION,
+    entryNodeId: workflow.entryNodeId,
+    nodes: workflow.nodes.map((node) => ({
+      id: node.id,
+      type: node.type,
+      ...(node.node.version !== undefined && { version: node.node.version }),
+      input: structuredClone(node.input),
+    })),
+    edges: workflow.edges.map((edge) => ({
+      from: edge.from,
+      to: edge.to,
+      ...(edge.condition !== undefined && { condition: edge.condition }),
+    })),
+    ...(workflow.metadata && { metadata: structuredClone(workflow.metadata) }),
+  };
+}
+
+/** @internal Format a Zod issue path as 'nodes[2].type'. */
+export function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, part) => {
+    if (typeof part === 'number') return `${acc}[${part}]`;
+    return acc ? `${acc}.${part}` : part;
+  }, '');
+}
+
+function formatIssues(issues: WorkflowDocumentIssue[]): string {
+  return issues
+    .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+    .join('; ');
+}
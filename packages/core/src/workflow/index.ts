@@ -0,0 +1,9 @@
+export {
+  WORKFLOW_FORMAT_VERSION,
+  WorkflowDocumentError,
+  parseWorkflowDocument,
+  loadWorkflow,
+  serializeWorkflow,
+} from './document.js';
+
+export { validateWorkflow } from './validate.js';
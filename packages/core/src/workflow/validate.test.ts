@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineNode } from '../utils/define-node';
+import { NodeRegistry } from '../registry';
+import type { Workflow, WorkflowNode } from '../types';
+import { validateWorkflow } from './validate';
+
+const fetchNode = defineNode({
+  type: 'fetch',
+  name: 'Fetch',
+  description: 'Returns items',
+  category: 'action',
+  inputSchema: z.object({ url: z.string().url() }),
+  outputSchema: z.object({ items: z.array(z.string()) }),
+  executor: async () => ({ success: true, output: { items: [] } }),
+});
+
+const notifyNode = defineNode({
+  type: 'notify',
+  name: 'Notify',
+  description: 'Sends a message',
+  category: 'action',
+  inputSchema: z.object({ message: z.string() }),
+  outputSchema: z.object({ sent: z.boolean() }),
+  executor: async () => ({ success: true, output: { sent: true } }),
+});
+
+const conditionalNode = defineNode({
+  type: 'conditional',
+  name: 'Conditional',
+  description: 'Picks a branch',
+  category: 'logic',
+  inputSchema: z.object({ trueNodeId: z.string(), falseNodeId: z.string() }),
+  outputSchema: z.object({}),
+  executor: async (input) => ({ success: true, output: {}, nextNodeId: input.trueNodeId }),
+});
+
+const registry = new NodeRegistry().register(fetchNode).register(notifyNode).register(conditionalNode);
+
+function node(id: string, type: string, input: Record<string, unknown> = {}): WorkflowNode {
+  const definition = registry.getDefinition(type) ?? fetchNode;
+  return { id, type, node: definition as WorkflowNode['node'], input };
+}
+
+function codes(workflow: Workflow): string[] {
+  return validateWorkflow(workflow, registry).diagnostics.map((d) => d.code);
+}
+
+describe('validateWorkflow', () => {
+  it('accepts a well-formed workflow', () => {
+    const result = validateWorkflow({
+      entryNodeId: 'fetch',
+      nodes: [
+        node('fetch', 'fetch', { url: 'https://example.com/feed' }),
+        node('notify', 'notify', { message: 'Found {{fetch.items | length}} items' }),
+      ],
+      edges: [{ from: 'fetch', to: 'notify' }],
+    }, registry);
+
+    expect(result).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('reports duplicate ids, a missing entry node and unknown types', () => {
+    const result = validateWorkflow({
+      entryNodeId: 'start',
+      nodes: [node('a', 'fetch', { url: 'https://a.example' }), node('a', 'fetch', { url: 'https://b.example' }), node('b', 'missing')],
+      edges: [],
+    }, registry);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ code: 'duplicate_node_id', nodeId: 'a', path: 'nodes[1].id' }),
+      expect.objectContaining({ code: 'missing_entry_node', path: 'entryNodeId', message: 'Entry node "start" does not exist' }),
+      expect.objectContaining({ code: 'unknown_node_type', nodeId: 'b', path: 'nodes[2].type' }),
+    ]));
+  });
+
+  it('reports unknown edge sources and targets, and cycles', () => {
+    const result = validateWorkflow({
+      entryNodeId: 'a',
+      nodes: [node('a', 'notify', { message: 'a' }), node('b', 'notify', { message: 'b' })],
+      edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }, { from: 'b', to: 'ghost' }, { from: 'phantom', to: 'a' }],
+    }, registry);
+
+    expect(result.diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ code: 'unknown_edge_node', path: 'edges[2].to', message: 'Edge target "ghost" does not exist' }),
+      expect.objectContaining({ code: 'unknown_edge_node', path: 'edges[3].from', message: 'Edge source "phantom" does not exist' }),
+      expect.objectContaining({ code: 'cycle', message: 'Workflow graph contains a cycle: a → b → a' }),
+    ]));
+  });
+
+  it('warns about unreachable nodes without failing validation', () => {
+    const result = validateWorkflow({
+      entryNodeId: 'a',
+      nodes: [node('a', 'notify', { message: 'a' }), node('orphan', 'notify', { message: 'b' })],
+      edges: [],
+    }, registry);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'unreachable_node', severity: 'warning', nodeId: 'orphan' }),
+    ]);
+  });
+
+  it('reports references to nodes that are not upstream, including inside expressions', () => {
+    const result = validateWorkflow({
+      entryNodeId: 'fetch',
+      nodes: [
+        node('fetch', 'fetch', { url: 'https://example.com' }),
+        node('first', 'notify', { message: '{{second.sent == true}}' }),
+        node('second', 'notify', { message: "{{fetch.items | default: 'none'}} {{$.first.sent}} {{second.sent}}" }),
+      ],
+      edges: [{ from: 'fetch', to: 'first' }, { from: 'fetch', to: 'second' }],
+    }, registry);
+
+    const references = result.diagnostics.filter((d) => d.code === 'invalid_reference');
+    expect(references.map((d) => d.message)).toEqual([
+      'Node "first" references "second", which is not upstream',
+      'Node "second" references "first", which is not upstream',
+      'Node "second" references its own output',
+    ]);
+    expect(references[1]?.path).toBe('nodes[2].input.message');
+  });
+
+  it('reports invalid and unterminated templates as errors', () => {
+    const result = validateWorkflow({
+      entryNodeId: 'a',
+      nodes: [
+        node('a', 'notify', { message: 'Total: {{count +}}' }),
+        node('b', 'notify', { message: 'Hi {{a.sent' }),
+        node('c', 'notify', { message: '\\{{#if vip}}ok\\{{/if}}' }),
+      ],
+      edges: [{ from: 'a', to: 'b' }, { from: 'a', to: 'c' }],
+    }, registry);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'invalid_expression', severity: 'error', nodeId: 'a', path: 'nodes[0].input.message' }),
+      expect.objectContaining({ code: 'invalid_expression', severity: 'error', nodeId: 'b', path: 'nodes[1].input.message' }),
+    ]);
+  });
+
+  it('skips rawInputKeys when checking templates', () => {
+    const templated = defineNode({
+      ...notifyNode,
+      type: 'templated',
+      rawInputKeys: ['message'],
+    });
+    const rawRegistry = new NodeRegistry().register(templated);
+
+    const result = validateWorkflow({
+      entryNodeId: 't',
+      nodes: [{ id: 't', type: 'templated', node: templated as WorkflowNode['node'], input: { message: '{{later.value' } }],
+      edges: [],
+    }, rawRegistry);
+
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('reports conditional edges that can never match', () => {
+    expect(codes({
+      entryNodeId: 'check',
+      nodes: [
+        node('check', 'conditional', { trueNodeId: 'yes', falseNodeId: 'no' }),
+        node('yes', 'notify', { message: 'yes' }),
+        node('no', 'notify', { message: 'no' }),
+      ],
+      edges: [{ from: 'check', to: 'yes', condition: 'yes' }, { from: 'check', to: 'no', condition: 'nope' }],
+    })).toEqual(['unmatched_condition']);
+  });
+
+  it('checks literal inputs against the schema but skips templated fields', () => {
+    const result = validateWorkflow({
+      entryNodeId: 'a',
+      nodes: [node('a', 'fetch', { url: 'not a url' }), node('b', 'fetch', { url: '{{a.items[0]}}' })],
+      edges: [{ from: 'a', to: 'b' }],
+    }, registry);
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'invalid_input', nodeId: 'a', path: 'nodes[0].input.url' }),
+    ]);
+  });
+});
@@ -0,0 +1,344 @@
+import type { Workflow } from '../types/execution.js';
+import type { NodeDefinition } from '../types/node.js';
+import type {
+  WorkflowDiagnostic,
+  WorkflowValidationResult,
+} from '../types/workflow.js';
+import { DEFAULT_NODE_VERSION, type NodeRegistry } from '../registry/index.js';
+import { TemplateSyntaxError, parseTemplate } from '../expression/index.js';
+import type { ExpressionNode } from '../expression/index.js';
+import { formatPath } from './document.js';
+
+/**
+ * Statically validate a workflow before execution.
+ *
+ * Collects every problem up front instead of failing mid-run:
+ * - duplicate node ids and a missing entry node
+ * - node types not present in the registry
+ * - edges pointing at unknown node ids
+ * - cycles (with the nodes involved)
+ * - nodes unreachable from `entryNodeId` (warning)
+ * - `{{nodeId.field}}` references to nodes that are not upstream, and
+ *   `{{ }}` blocks that do not parse, including an unterminated `{{`
+ *   (the node fails unless `lenientTemplates` is set). Inputs listed in the node's
+ *   `rawInputKeys` are not checked.
+ * - conditional edges whose `condition` can never match the
+ *   `conditional` node's `trueNodeId` / `falseNodeId`
+ * - literal inputs that already fail the node's `inputSchema`
+ *   (fields containing `{{...}}` templates are skipped)
+ *
+ * @example
+ * ```typescript
+ * const { valid, diagnostics } = validateWorkflow(workflow, registry);
+ * for (const d of diagnostics) {
+ *   console.log(`${d.severity} ${d.path}: ${d.message}`);
+ * }
+ * ```
+ */
+export function validateWorkflow(
+  workflow: Workflow,
+  registry: NodeRegistry,
+): WorkflowValidationResult {
+  const diagnostics: WorkflowDiagnostic[] = [];
+
+  const nodeIndex = new Map<string, number>();
+  workflow.nodes.forEach((node, index) => {
+    const first = nodeIndex.get(node.id);
+    if (first !== undefined) {
+      diagnostics.push({
+        code: 'duplicate_node_id',
+        severity: 'error',
+        message: `Duplicate node id "${node.id}" (first declared at nodes[${first}])`,
+        nodeId: node.id,
+        path: `nodes[${index}].id`,
+      });
+    } else {
+      nodeIndex.set(node.id, index);
+    }
+  });
+
+  if (!nodeIndex.has(workflow.entryNodeId)) {
+    diagnostics.push({
+      code: 'missing_entry_node',
+      severity: 'error',
+      message: `Entry node "${workflow.entryNodeId}" does not exist`,
+      path: 'entryNodeId',
+    });
+  }
+
+  workflow.nodes.forEach((node, index) => {
+    if (!registry.has(node.type)) {
+      diagnostics.push({
+        code: 'unknown_node_type',
+        severity: 'error',
+        message: `Node type "${node.type}" is not registered`,
+        nodeId: node.id,
+        path: `nodes[${index}].type`,
+      });
+    }
+  });
+
+  // Only edges between known nodes take part in graph analysis
+  const downstream = new Map<string, string[]>();
+  const upstream = new Map<string, string[]>();
+  for (const id of nodeIndex.keys()) {
+    downstream.set(id, []);
+    upstream.set(id, []);
+  }
+
+  workflow.edges.forEach((edge, index) => {
+    let known = true;
+    for (const end of ['from', 'to'] as const) {
+      if (!nodeIndex.has(edge[end])) {
+        known = false;
+        diagnostics.push({
+          code: 'unknown_edge_node',
+          severity: 'error',
+          message: `Edge ${end === 'from' ? 'source' : 'target'} "${edge[end]}" does not exist`,
+          path: `edges[${index}].${end}`,
+        });
+      }
+    }
+    if (known) {
+      downstream.get(edge.from)!.push(edge.to);
+      upstream.get(edge.to)!.push(edge.from);
+    }
+  });
+
+  for (const cycle of findCycles(downstream)) {
+    diagnostics.push({
+      code: 'cycle',
+      severity: 'error',
+      message: `Workflow graph contains a cycle: ${[...cycle, cycle[0]].join(' → ')}`,
+      nodeId: cycle[0],
+    });
+  }
+
+  if (nodeIndex.has(workflow.entryNodeId)) {
+    const reachable = collect(workflow.entryNodeId, downstream);
+    reachable.add(workflow.entryNodeId);
+    for (const [id, index] of nodeIndex) {
+      if (!reachable.has(id)) {
+        diagnostics.push({
+          code: 'unreachable_node',
+          severity: 'warning',
+          message: `Node "${id}" is not reachable from entry node "${workflow.entryNodeId}"`,
+          nodeId: id,
+          path: `nodes[${index}]`,
+        });
+      }
+    }
+  }
+
+  workflow.nodes.forEach((node, index) => {
+    if (nodeIndex.get(node.id) !== index) return;
+
+    const definition = registry.getDefinition(node.type, node.node.version ?? DEFAULT_NODE_VERSION) ?? node.node;
+    const rawKeys = definition.rawInputKeys ?? [];
+    const interpolated = Object.fromEntries(
+      Object.entries(node.input).filter(([key]) => !rawKeys.includes(key)),
+    );
+
+    const ancestors = collect(node.id, upstream);
+    const references: Array<{ path: string; nodeId: string }> = [];
+    for (const { path, template } of findTemplates(interpolated)) {
+      try {
+        for (const part of parseTemplate(template)) {
+          if (part.kind !== 'expression') continue;
+          for (const nodeId of referencedNodes(part.expression, nodeIndex)) {
+            references.push({ path, nodeId });
+          }
+        }
+      } catch (err) {
+        if (!(err instanceof TemplateSyntaxError)) throw err;
+        diagnostics.push({
+          code: 'invalid_expression',
+          severity: 'error',
+          message: `Invalid template in node "${node.id}": ${err.message}`,
+          nodeId: node.id,
+          path: `nodes[${index}].input${path}`,
+        });
+      }
+    }
+
+    for (const { path, nodeId } of references) {
+      if (!ancestors.has(nodeId)) {
+        diagnostics.push({
+          code: 'invalid_reference',
+          severity: 'error',
+          message: nodeId === node.id
+            ? `Node "${node.id}" references its own output`
+            : `Node "${node.id}" references "${nodeId}", which is not upstream`,
+          nodeId: node.id,
+          path: `nodes[${index}].input${path}`,
+        });
+      }
+    }
+
+    diagnostics.push(...validateLiteralInput(definition, node.input, node.id, index));
+  });
+
+  workflow.edges.forEach((edge, index) => {
+    if (edge.condition === undefined) return;
+    const source = workflow.nodes.find((n) => n.id === edge.from);
+    if (source?.type !== 'conditional') return;
+
+    const branches = [source.input['trueNodeId'], source.input['falseNodeId']];
+    if (!branches.every((b) => typeof b === 'string' && !b.includes('{{'))) return;
+
+    if (!branches.includes(edge.condition)) {
+      diagnostics.push({
+        code: 'unmatched_condition',
+        severity: 'error',
+        message: `Condition "${edge.condition}" never matches conditional node "${source.id}" (branches: ${branches.map((b) => `"${b}"`).join(', ')})`,
+        nodeId: source.id,
+        path: `edges[${index}].condition`,
+      });
+    }
+  });
+
+  return {
+    valid: diagnostics.every((d) => d.severity !== 'error'),
+    diagnostics,
+  };
+}
+
+/**
+ * Collect every node reachable from `start` by following `adjacency`
+ * (excluding `start` itself unless it lies on a cycle).
+ */
+function collect(start: string, adjacency: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>();
+  const queue = [...(adjacency.get(start) ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...(adjacency.get(id) ?? []));
+  }
+  return seen;
+}
+
+/**
+ * Depth-first search returning each distinct cycle once, as an ordered list of node IDs.
+ */
+function findCycles(adjacency: Map<string, string[]>): string[][] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seenCycles = new Set<string>();
+
+  const visit = (id: string): void => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const next of adjacency.get(id) ?? []) {
+      const nextState = state.get(next);
+      if (nextState === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(next));
+        const key = [...cycle].sort().join('\u0000');
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          cycles.push(cycle);
+        }
+      } else if (nextState === undefined) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of adjacency.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Find the strings containing `{{...}}` templates inside an input value.
+ * Paths are relative to the input root (e.g. '.contacts').
+ */
+function findTemplates(
+  value: unknown,
+  path = '',
+): Array<{ path: string; template: string }> {
+  if (typeof value === 'string') {
+    return value.includes('{{') ? [{ path, template: value }] : [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => findTemplates(item, `${path}[${i}]`));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) =>
+      findTemplates(item, `${path}.${key}`),
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Workflow nodes referenced by an expression's paths (`nodeId.field`) and
+ * JSONPaths (`$.nodeId.field`).
+ */
+function referencedNodes(node: ExpressionNode, nodeIds: Map<string, number>): string[] {
+  switch (node.kind) {
+    case 'literal':
+      return [];
+    case 'path':
+    case 'jsonpath': {
+      const head = node.path.replace(/^\$\.?/, '').match(/^[^.[]+/)?.[0];
+      return head && nodeIds.has(head) ? [head] : [];
+    }
+    case 'unary':
+      return referencedNodes(node.operand, nodeIds);
+    case 'binary':
+      return [...referencedNodes(node.left, nodeIds), ...referencedNodes(node.right, nodeIds)];
+    case 'filter':
+      return [node.input, ...node.args].flatMap((arg) => referencedNodes(arg, nodeIds));
+  }
+}
+
+/**
+ * Validate a node's input against its schema, ignoring issues under fields
+ * whose value is a `{{...}}` template (those are only known at runtime).
+ */
+function validateLiteralInput(
+  definition: NodeDefinition,
+  input: Record<string, unknown>,
+  nodeId: string,
+  index: number,
+): WorkflowDiagnostic[] {
+  const parsed = definition.inputSchema.safeParse(input);
+  if (parsed.success) return [];
+
+  return parsed.error.issues
+    .filter((issue) => !isUnderTemplate(input, issue.path))
+    .map((issue) => {
+      const issuePath = formatPath(issue.path);
+      return {
+        code: 'invalid_input' as const,
+        severity: 'error' as const,
+        message: `Invalid input for node "${nodeId}"${issuePath ? ` at ${issuePath}` : ''}: ${issue.message}`,
+        nodeId,
+        path: `nodes[${index}].input${issuePath ? `${issuePath.startsWith('[') ? '' : '.'}${issuePath}` : ''}`,
+      };
+    });
+}
+
+function isUnderTemplate(input: unknown, path: (string | number)[]): boolean {
+  let current: unknown = input;
+  for (const part of ['', ...path]) {
+    if (part !== '') {
+      if (current === null || typeof current !== 'object') return false;
+      current = (current as Record<string | number, unknown>)[part];
+    }
+    if (typeof current === 'string' && current.includes('{{')) return true;
+  }
+  return false;
+}
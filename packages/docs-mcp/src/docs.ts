@@ -105,11 +105,21 @@ Client-safe metadata (no executor). Used for UI rendering.
 \`\`\`typescript
 interface NodeMetadata {
   type: string;
+  version?: number;       // Defaults to 1
   name: string;
   description: string;
   category: NodeCategory;
   estimatedDuration?: number;
   capabilities?: NodeCapabilities;
+  credentials?: NodeCredentialRequirements;
+}
+
+/** Credentials a node uses, by CredentialDefinition name (e.g. 'twitter') */
+interface NodeCredentialRequirements {
+  required?: string[];
+  optional?: string[];
+  /** Fields the node reads, when not all the definition requires */
+  fields?: Record<string, string[]>;
 }
 \`\`\`
 
@@ -172,7 +182,14 @@ interface NodeDefinition<TInput = unknown, TOutput = unknown> extends NodeMetada
   inputSchema: z.ZodSchema<TInput>;
   outputSchema: z.ZodSchema<TOutput>;
   executor: NodeExecutor<TInput, TOutput>;
+  /** Upgrade input written for an earlier version of this node type */
+  migrateInput?: NodeInputMigration;
 }
+
+type NodeInputMigration = (
+  fromVersion: number,
+  input: Record<string, unknown>
+) => Record<string, unknown>;
 \`\`\`
 
 ### BaseNodeConfig / NodeApprovalConfig / NodeNotificationConfig
@@ -231,20 +248,33 @@ Manages node definitions. Generic over node type strings.
 
 | Method | Description |
 |--------|-------------|
-| \`register(definition)\` | Register a node. Throws if type already registered. |
+| \`register(definition)\` | Register a node. Throws if that version of the type is already registered. |
 | \`registerAll(definitions)\` | Register multiple nodes at once. |
-| \`unregister(type)\` | Remove a registered node type. |
-| \`has(type)\` | Check if a type is registered. |
-| \`getDefinition(type)\` | Get full definition including executor. |
-| \`getMetadata(type)\` | Get client-safe metadata (no executor). |
-| \`getExecutor(type)\` | Get just the executor function. |
+| \`unregister(type, version?)\` | Remove a registered node type, or one version of it. |
+| \`has(type, version?)\` | Check if a type (or version) is registered. |
+| \`getDefinition(type, version?)\` | Get full definition including executor. Defaults to the type's default version. |
+| \`getMetadata(type, version?)\` | Get client-safe metadata (no executor). |
+| \`getExecutor(type, version?)\` | Get just the executor function. |
+| \`getJsonSchema(type, version?)\` | Get the node's input and output as JSON Schema (draft 2020-12). |
+| \`exportMetadata()\` | Get all metadata with JSON Schema \`inputSchema\`/\`outputSchema\` (plain JSON, no Zod). |
+| \`getVersions(type)\` | Get the registered versions of a type, lowest first. |
+| \`getDefaultVersion(type)\` | Get the version used when none is given (the highest, unless set). |
+| \`setDefaultVersion(type, version)\` | Make a registered version the default. |
+| \`migrateInput(type, input, fromVersion, toVersion?)\` | Upgrade input by chaining each version's \`migrateInput\`. |
 | \`getNodeTypes()\` | Get all registered type identifiers. |
 | \`getAllDefinitions()\` | Get all definitions. |
 | \`getAllMetadata()\` | Get all metadata. |
 | \`getByCategory(category)\` | Filter definitions by category. |
+| \`getCredentialRequirements(type)\` | Get the credentials a node declares (\`{ required, optional, fields }\`). |
+| \`getNodeTypesByCredential(name)\` | Get node types that use a credential. |
+| \`registerCredential(definition)\` | Register a credential definition. Throws if the name is taken. |
+| \`getCredentialDefinition(name)\` | Get a registered credential definition. |
+| \`getAllCredentialDefinitions()\` | Get all registered credential definitions. |
+| \`loadPlugin(module)\` | Register a plugin's nodes and credentials (all or nothing). Throws \`PluginError\`. |
+| \`getPlugins()\` | Get the manifests of loaded plugins. |
 | \`validateInput(type, input)\` | Validate input against node's Zod schema. |
 | \`validateOutput(type, output)\` | Validate output against node's Zod schema. |
-| \`size\` | Number of registered nodes. |
+| \`size\` | Number of registered node types. |
 
 **Factory function:** \`createRegistry<TNodeType>()\` — creates a new empty \`NodeRegistry\`.
 
@@ -266,10 +296,12 @@ Manages workflow variables, interpolation, JSONPath evaluation, and node output
 | \`clearAll()\` | Clear all variables. |
 | \`mergeVariables(vars)\` | Merge multiple variables. |
 | \`evaluateJsonPath(path)\` | Evaluate JSONPath against variables. |
-| \`interpolate(template)\` | Interpolate \`{{var}}\` in strings. |
-| \`interpolateObject(obj)\` | Recursively interpolate all strings in an object/array. |
+| \`interpolate(template, options?)\` | Interpolate \`{{expression}}\` in strings (paths, JSONPath, filters such as \`upper\`, \`default\`, \`length\`, \`formatDate\`, arithmetic and comparisons). Invalid \`{{ }}\` blocks throw \`TemplateSyntaxError\` unless \`{ lenient: true }\` is passed. |
+| \`evaluate(expression)\` | Evaluate one expression (without braces) and return its value. |
+| \`interpolateObject(obj, options?)\` | Recursively interpolate all strings in an object/array. |
 | \`resolveNestedPath(path)\` | Resolve dot notation paths. |
-| \`storeNodeOutput(nodeId, output)\` | Store output under nodeId. |
+| \`storeNodeOutput(nodeId, output, scoping?)\` | Store output under nodeId and, in \`'legacy'\` scoping (default), merge its keys into root variables. Returns the variables it overwrote (\`OutputCollision[]\`). |
+| \`getOutputOwners()\` / \`restoreOutputOwners(owners)\` | Node that last stored each variable (saved in execution snapshots). |
 | \`getNodeOutput(nodeId)\` | Get a node's stored output. |
 | \`toNodeContext(userId, workflowExecutionId, campaignId?)\` | Create context for executor use. |
 | \`toJSON()\` | Export variables. |
@@ -593,6 +625,7 @@ export const mySearchNode = defineNode({
   outputSchema: MyOutputSchema,
   estimatedDuration: 10,
   capabilities: { supportsRerun: true, supportsCancel: true },
+  credentials: { required: ['mySearchApi'] },
   executor: async (input, context) => {
     try {
       const results = await doSearch(input.query, input.limit);
@@ -651,7 +684,25 @@ const result = await mySearchNode.executor({ query: 'test', limit: 5 }, nodeCont
 expect(result.success).toBe(true);
 \`\`\`
 
-### 8. File Organization Convention
+### 8. Packaging Nodes as a Plugin
+
+Nodes kept outside this repo ship as a plugin package whose default export is a manifest:
+
+\`\`\`typescript
+import { definePlugin } from '@jam-nodes/core';
+
+export default definePlugin({
+  name: '@acme/jam-nodes',
+  version: '1.0.0',
+  coreVersion: '^0.2.0', // @jam-nodes/core versions the plugin works with
+  nodes: [mySearchNode],
+  credentials: [mySearchCredential],
+});
+\`\`\`
+
+Load it with \`registry.loadPlugin(await import('@acme/jam-nodes'))\`, or list it under \`plugins\` in the playground's \`jam.config.json\`.
+
+### 9. File Organization Convention
 
 \`\`\`
 packages/nodes/src/
@@ -732,6 +783,9 @@ const NODE_TYPES: NodeInfo[] = [
   { type: 'conditional', name: 'Conditional', category: 'logic', description: 'Branch workflow based on a condition', fullDoc: '' },
   { type: 'end', name: 'End', category: 'logic', description: 'Mark the end of a workflow branch', fullDoc: '' },
   { type: 'delay', name: 'Delay', category: 'logic', description: 'Pause workflow execution for a specified duration', fullDoc: '' },
+  { type: 'sub_workflow', name: 'Sub-Workflow', category: 'logic', description: 'Run another workflow as a single step', fullDoc: '' },
+  { type: 'retry', name: 'Retry', category: 'logic', description: 'Retry a node or sub-workflow with exponential backoff', fullDoc: '' },
+  { type: 'rateLimiter', name: 'Rate Limiter', category: 'logic', description: 'Wait for a slot in a shared rate limit bucket', fullDoc: '' },
   { type: 'map', name: 'Map', category: 'transform', description: 'Extract a property from each item in an array', fullDoc: '' },
   { type: 'filter', name: 'Filter', category: 'transform', description: 'Filter items in an array based on a condition', fullDoc: '' },
   { type: 'http_request', name: 'HTTP Request', category: 'integration', description: 'Make HTTP requests to external APIs', fullDoc: '' },
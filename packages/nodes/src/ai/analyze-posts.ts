@@ -1,5 +1,6 @@
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../utils/authenticated-fetch.js';
+import { anthropicCredential } from './credentials.js';
 import {
   SocialAiAnalyzeInputSchema,
   SocialAiAnalyzeOutputSchema,
@@ -40,22 +41,22 @@ interface AnthropicMessagesResponse {
  * Generate text using Anthropic Claude API
  */
 async function generateText(
-  apiKey: string,
+  anthropicFetch: AuthenticatedFetch,
   prompt: string,
   options: {
     model?: string;
     maxTokens?: number;
+    trace?: TraceContext;
   } = {}
 ): Promise<string> {
-  const { model = 'claude-sonnet-4-20250514', maxTokens = 4000 } = options;
+  const { model = 'claude-sonnet-4-20250514', maxTokens = 4000, trace } = options;
 
-  const response = await fetchWithRetry(
+  const response = await anthropicFetch(
     `${ANTHROPIC_API_BASE}/messages`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': apiKey,
         'anthropic-version': ANTHROPIC_VERSION,
       },
       body: JSON.stringify({
@@ -69,7 +70,7 @@ async function generateText(
         ],
       }),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 120000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 120000, trace }
   );
 
   if (!response.ok) {
@@ -119,6 +120,7 @@ export const socialAiAnalyzeNode = defineNode({
   category: 'action',
   inputSchema: SocialAiAnalyzeInputSchema,
   outputSchema: SocialAiAnalyzeOutputSchema,
+  credentials: { required: ['anthropic'] },
   estimatedDuration: 60,
   capabilities: {
     supportsRerun: true,
@@ -127,14 +129,7 @@ export const socialAiAnalyzeNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for API key
-      const apiKey = context.credentials?.anthropic?.apiKey;
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'Anthropic API key not configured. Please provide context.credentials.anthropic.apiKey.',
-        };
-      }
+      const anthropicFetch = authenticatedFetch(anthropicCredential, context.credentials?.anthropic);
 
       // Combine posts from all platforms
       const allPosts: SocialPost[] = [
@@ -167,9 +162,10 @@ export const socialAiAnalyzeNode = defineNode({
 
         const prompt = buildAnalysisPrompt(input.topic, input.userIntent, batch);
 
-        const responseText = await generateText(apiKey, prompt, {
+        const responseText = await generateText(anthropicFetch, prompt, {
           model: 'claude-sonnet-4-20250514',
           maxTokens: 4000,
+          trace: context,
         });
 
         // Parse JSON from response
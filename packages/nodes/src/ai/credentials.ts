@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { defineApiKeyCredential } from '@jam-nodes/core';
+
+export const anthropicCredential = defineApiKeyCredential({
+  name: 'anthropic',
+  displayName: 'Anthropic API Key',
+  documentationUrl: 'https://docs.anthropic.com/en/api/getting-started',
+  schema: z.object({
+    apiKey: z.string(),
+  }),
+  authenticate: {
+    type: 'header',
+    properties: {
+      'x-api-key': '{{apiKey}}',
+    },
+  },
+});
@@ -1,5 +1,7 @@
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry, sleep } from '../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { sleep } from '../utils/http.js';
+import { authenticatedFetch, type AuthenticatedFetch } from '../utils/authenticated-fetch.js';
+import { anthropicCredential } from './credentials.js';
 import {
   DraftEmailsInputSchema,
   DraftEmailsOutputSchema,
@@ -39,22 +41,22 @@ interface AnthropicMessagesResponse {
  * Generate text using Anthropic Claude API
  */
 async function generateText(
-  apiKey: string,
+  anthropicFetch: AuthenticatedFetch,
   prompt: string,
   options: {
     model?: string;
     maxTokens?: number;
+    trace?: TraceContext;
   } = {}
 ): Promise<string> {
-  const { model = 'claude-sonnet-4-20250514', maxTokens = 1000 } = options;
+  const { model = 'claude-sonnet-4-20250514', maxTokens = 1000, trace } = options;
 
-  const response = await fetchWithRetry(
+  const response = await anthropicFetch(
     `${ANTHROPIC_API_BASE}/messages`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': apiKey,
         'anthropic-version': ANTHROPIC_VERSION,
       },
       body: JSON.stringify({
@@ -68,7 +70,7 @@ async function generateText(
         ],
       }),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000, trace }
   );
 
   if (!response.ok) {
@@ -101,6 +103,9 @@ export {
  * Note: This node generates email content but does NOT store drafts.
  * Storage is the responsibility of the host application.
  *
+ * When `approval.required` is set, the result includes `needsApproval` for the
+ * drafted emails, so executeWorkflow pauses downstream nodes until approved.
+ *
  * @example
  * ```typescript
  * const result = await draftEmailsNode.executor({
@@ -116,22 +121,17 @@ export const draftEmailsNode = defineNode({
   category: 'action',
   inputSchema: DraftEmailsInputSchema,
   outputSchema: DraftEmailsOutputSchema,
+  credentials: { required: ['anthropic'] },
   estimatedDuration: 30,
   capabilities: {
+    supportsApproval: true,
     supportsRerun: true,
     supportsBulkActions: true,
   },
 
   executor: async (input, context) => {
     try {
-      // Check for API key
-      const apiKey = context.credentials?.anthropic?.apiKey;
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'Anthropic API key not configured. Please provide context.credentials.anthropic.apiKey.',
-        };
-      }
+      const anthropicFetch = authenticatedFetch(anthropicCredential, context.credentials?.anthropic);
 
       // Get sender name from workflow variables
       const senderName = context.variables['senderName'] as string | undefined;
@@ -143,6 +143,7 @@ export const draftEmailsNode = defineNode({
       }
 
       const emails: DraftEmailInfo[] = [];
+      let firstError: unknown;
 
       // Generate drafts for each contact
       for (const contact of input.contacts) {
@@ -159,9 +160,10 @@ export const draftEmailsNode = defineNode({
             input.emailTemplate
           );
 
-          const rawBody = await generateText(apiKey, emailPrompt, {
+          const rawBody = await generateText(anthropicFetch, emailPrompt, {
             model: 'claude-sonnet-4-20250514',
             maxTokens: 250,
+            trace: context,
           });
 
           // Clean up the email body
@@ -169,9 +171,10 @@ export const draftEmailsNode = defineNode({
 
           // Generate subject line
           const subjectPrompt = buildSubjectPrompt(contact, emailBody);
-          const rawSubject = await generateText(apiKey, subjectPrompt, {
+          const rawSubject = await generateText(anthropicFetch, subjectPrompt, {
             model: 'claude-sonnet-4-20250514',
             maxTokens: 50,
+            trace: context,
           });
 
           // Clean up subject
@@ -190,11 +193,17 @@ export const draftEmailsNode = defineNode({
 
           // Small delay between API calls to avoid rate limiting
           await sleep(200);
-        } catch {
+        } catch (error) {
           // Continue with other contacts even if one fails
+          firstError ??= error;
         }
       }
 
+      // Fail when no draft could be written, e.g. credentials are missing or rejected
+      if (emails.length === 0 && firstError !== undefined) {
+        throw firstError;
+      }
+
       const output: DraftEmailsOutput = {
         emails,
         draftedCount: emails.length,
@@ -203,6 +212,13 @@ export const draftEmailsNode = defineNode({
       return {
         success: true,
         output,
+        ...(input.approval?.required && emails.length > 0 && {
+          needsApproval: {
+            resourceIds: emails.map((email) => email.id),
+            resourceType: 'email',
+            message: input.approval.message,
+          },
+        }),
       };
     } catch (error) {
       return {
@@ -27,3 +27,5 @@ export {
   type SocialPost,
   type AnalyzedPost,
 } from './analyze-posts.js';
+
+export { anthropicCredential } from './credentials.js';
@@ -1,5 +1,6 @@
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../utils/authenticated-fetch.js';
+import { anthropicCredential } from './credentials.js';
 import {
   SocialKeywordGeneratorInputSchema,
   SocialKeywordGeneratorOutputSchema,
@@ -33,22 +34,22 @@ interface AnthropicMessagesResponse {
  * Generate text using Anthropic Claude API
  */
 async function generateText(
-  apiKey: string,
+  anthropicFetch: AuthenticatedFetch,
   prompt: string,
   options: {
     model?: string;
     maxTokens?: number;
+    trace?: TraceContext;
   } = {}
 ): Promise<string> {
-  const { model = 'claude-sonnet-4-20250514', maxTokens = 2000 } = options;
+  const { model = 'claude-sonnet-4-20250514', maxTokens = 2000, trace } = options;
 
-  const response = await fetchWithRetry(
+  const response = await anthropicFetch(
     `${ANTHROPIC_API_BASE}/messages`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': apiKey,
         'anthropic-version': ANTHROPIC_VERSION,
       },
       body: JSON.stringify({
@@ -62,7 +63,7 @@ async function generateText(
         ],
       }),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000, trace }
   );
 
   if (!response.ok) {
@@ -106,6 +107,7 @@ export const socialKeywordGeneratorNode = defineNode({
   category: 'action',
   inputSchema: SocialKeywordGeneratorInputSchema,
   outputSchema: SocialKeywordGeneratorOutputSchema,
+  credentials: { required: ['anthropic'] },
   estimatedDuration: 15,
   capabilities: {
     supportsRerun: true,
@@ -113,22 +115,16 @@ export const socialKeywordGeneratorNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for API key
-      const apiKey = context.credentials?.anthropic?.apiKey;
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'Anthropic API key not configured. Please provide context.credentials.anthropic.apiKey.',
-        };
-      }
+      const anthropicFetch = authenticatedFetch(anthropicCredential, context.credentials?.anthropic);
 
       // Build prompt using helper
       const prompt = buildKeywordPrompt(input.topic, input.userKeywords);
 
       // Call Claude to generate keywords
-      const responseText = await generateText(apiKey, prompt, {
+      const responseText = await generateText(anthropicFetch, prompt, {
         model: 'claude-sonnet-4-20250514',
         maxTokens: 2000,
+        trace: context,
       });
 
       // Parse JSON from response
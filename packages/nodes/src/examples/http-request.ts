@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
+import { defineNode, startSpan } from '@jam-nodes/core';
 
 /**
  * HTTP method schema
@@ -76,10 +76,11 @@ export const httpRequestNode = defineNode({
     supportsRerun: true,
     supportsCancel: true,
   },
-  executor: async (input) => {
+  executor: async (input, context) => {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), input.timeout);
     const start = Date.now();
+    const span = startSpan(context, `HTTP ${input.method}`, { 'http.request.method': input.method });
 
     try {
       const response = await fetch(input.url, {
@@ -90,6 +91,8 @@ export const httpRequestNode = defineNode({
       });
 
       clearTimeout(timeoutId);
+      span.setAttribute('http.response.status_code', response.status);
+      span.setStatus({ code: response.ok ? 'ok' : 'error' });
 
       // Try to parse as JSON, fall back to text
       let body: unknown;
@@ -119,6 +122,7 @@ export const httpRequestNode = defineNode({
       };
     } catch (error) {
       clearTimeout(timeoutId);
+      span.setStatus({ code: 'error', message: error instanceof Error ? error.message : undefined });
 
       if (error instanceof Error && error.name === 'AbortError') {
         return {
@@ -131,6 +135,8 @@ export const httpRequestNode = defineNode({
         success: false,
         error: error instanceof Error ? error.message : 'Request failed',
       };
+    } finally {
+      span.end();
     }
   },
 });
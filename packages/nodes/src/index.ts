@@ -4,6 +4,9 @@ export {
   endNode,
   delayNode,
   loopNode,
+  retryNode,
+  rateLimiterNode,
+  subWorkflowNode,
   ConditionalInputSchema,
   ConditionalOutputSchema,
   ConditionSchema,
@@ -14,6 +17,15 @@ export {
   DelayOutputSchema,
   LoopInputSchema,
   LoopOutputSchema,
+  LoopBodySchema,
+  RetryInputSchema,
+  RetryOutputSchema,
+  RetryAttemptSchema,
+  RateLimiterInputSchema,
+  RateLimiterOutputSchema,
+  SubWorkflowInputSchema,
+  SubWorkflowOutputSchema,
+  OperationSchema,
 } from './logic/index.js'
 
 export type {
@@ -27,6 +39,15 @@ export type {
   DelayOutput,
   LoopInput,
   LoopOutput,
+  LoopBody,
+  RetryInput,
+  RetryOutput,
+  RetryAttempt,
+  RateLimiterInput,
+  RateLimiterOutput,
+  SubWorkflowInput,
+  SubWorkflowOutput,
+  Operation,
 } from './logic/index.js'
 
 // Transform nodes
@@ -84,6 +105,8 @@ export {
   TwitterMonitorInputSchema,
   TwitterMonitorOutputSchema,
   twitterCredential,
+  twitterApiIoCredential,
+  forumScoutCredential,
   twitterCreateTweetNode,
   TwitterCreateTweetInputSchema,
   TwitterCreateTweetOutputSchema,
@@ -112,6 +135,7 @@ export {
   soraVideoNode,
   SoraVideoInputSchema,
   SoraVideoOutputSchema,
+  openaiCredential,
   // DataForSEO
   seoKeywordResearchNode,
   SeoKeywordResearchInputSchema,
@@ -119,10 +143,12 @@ export {
   seoAuditNode,
   SeoAuditInputSchema,
   SeoAuditOutputSchema,
+  dataForSeoCredential,
   // Apollo
   searchContactsNode,
   SearchContactsInputSchema,
   SearchContactsOutputSchema,
+  apolloCredential,
   // Discord
   discordSendMessageNode,
   DiscordSendMessageInputSchema,
@@ -146,6 +172,7 @@ export {
   firecrawlExtractNode,
   FirecrawlExtractInputSchema,
   FirecrawlExtractOutputSchema,
+  firecrawlCredential,
   // Dev.to
   devtoCreateArticleNode,
   DevtoArticleSchema,
@@ -241,6 +268,15 @@ export type {
   WordPressUploadMediaOutput,
 } from './integrations/index.js'
 
+// Credential helpers
+export {
+  authenticatedFetch,
+  testCredential,
+  type AuthenticatedFetch,
+  type CredentialTestResult,
+  type TestCredentialOptions,
+} from './utils/index.js'
+
 // AI nodes
 export {
   socialKeywordGeneratorNode,
@@ -254,6 +290,7 @@ export {
   socialAiAnalyzeNode,
   SocialAiAnalyzeInputSchema,
   SocialAiAnalyzeOutputSchema,
+  anthropicCredential,
 } from './ai/index.js'
 
 export type {
@@ -274,6 +311,9 @@ import { conditionalNode } from './logic/index.js'
 import { endNode } from './logic/index.js'
 import { delayNode } from './logic/index.js'
 import { loopNode } from './logic/index.js'
+import { retryNode } from './logic/index.js'
+import { rateLimiterNode } from './logic/index.js'
+import { subWorkflowNode } from './logic/index.js'
 import { mapNode, filterNode, sortNode } from './transform/index.js'
 import { httpRequestNode, breadNode } from './examples/index.js'
 import {
@@ -310,6 +350,20 @@ import {
   draftEmailsNode,
   socialAiAnalyzeNode,
 } from './ai/index.js'
+import { definePlugin } from '@jam-nodes/core'
+import {
+  twitterCredential,
+  forumScoutCredential,
+  openaiCredential,
+  dataForSeoCredential,
+  apolloCredential,
+  discordBotCredential,
+  discordWebhookCredential,
+  firecrawlCredential,
+  devtoCredential,
+  WordPressCredential,
+} from './integrations/index.js'
+import { anthropicCredential } from './ai/index.js'
 
 /**
  * All built-in nodes as an array for easy registration
@@ -320,6 +374,9 @@ export const builtInNodes = [
   endNode,
   delayNode,
   loopNode,
+  retryNode,
+  rateLimiterNode,
+  subWorkflowNode,
   // Transform
   mapNode,
   filterNode,
@@ -360,3 +417,31 @@ export const builtInNodes = [
   draftEmailsNode,
   socialAiAnalyzeNode,
 ]
+
+/**
+ * Credential definitions of the built-in integrations. Each `name` matches
+ * the credential the nodes declare, e.g. 'wordpress'
+ */
+export const builtInCredentials = [
+  twitterCredential,
+  forumScoutCredential,
+  openaiCredential,
+  dataForSeoCredential,
+  apolloCredential,
+  discordBotCredential,
+  discordWebhookCredential,
+  firecrawlCredential,
+  devtoCredential,
+  WordPressCredential,
+  anthropicCredential,
+]
+
+/**
+ * The built-in nodes and credentials as a plugin, so they load the same way
+ * third-party plugins do: `registry.loadPlugin(builtInPlugin)`
+ */
+export const builtInPlugin = definePlugin({
+  name: '@jam-nodes/nodes',
+  nodes: builtInNodes,
+  credentials: builtInCredentials,
+})
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { defineApiKeyCredential } from '@jam-nodes/core';
+
+export const apolloCredential = defineApiKeyCredential({
+  name: 'apollo',
+  displayName: 'Apollo API Key',
+  documentationUrl: 'https://docs.apollo.io',
+  schema: z.object({
+    apiKey: z.string(),
+  }),
+  authenticate: {
+    type: 'header',
+    properties: {
+      'X-Api-Key': '{{apiKey}}',
+    },
+  },
+});
@@ -5,3 +5,4 @@ export {
   type SearchContactsInput,
   type SearchContactsOutput,
 } from './search-contacts.js';
+export { apolloCredential } from './credentials.js';
@@ -1,6 +1,8 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry, sleep } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { sleep } from '../../utils/http.js';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { apolloCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -107,7 +109,7 @@ export type SearchContactsOutput = z.infer<typeof SearchContactsOutputSchema>;
  * Search Apollo for contacts matching criteria
  */
 async function searchApolloContacts(
-  apiKey: string,
+  apolloFetch: AuthenticatedFetch,
   params: {
     personTitles?: string[];
     personLocations?: string[];
@@ -120,7 +122,8 @@ async function searchApolloContacts(
     technologies?: string[];
     industryTagIds?: string[];
     departments?: string[];
-  }
+  },
+  trace?: TraceContext
 ): Promise<ApolloPerson[]> {
   const defaultLocation = params.personLocations && params.personLocations.length > 0
     ? params.personLocations
@@ -155,18 +158,17 @@ async function searchApolloContacts(
     }),
   };
 
-  const response = await fetchWithRetry(
+  const response = await apolloFetch(
     `${APOLLO_API_BASE}/mixed_people/api_search`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'no-cache',
-        'X-Api-Key': apiKey,
       },
       body: JSON.stringify(requestBody),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -185,24 +187,24 @@ async function searchApolloContacts(
  * Enrich a contact to reveal their email address
  */
 async function enrichApolloContact(
-  apiKey: string,
-  personId: string
+  apolloFetch: AuthenticatedFetch,
+  personId: string,
+  trace?: TraceContext
 ): Promise<ApolloPerson | null> {
-  const response = await fetchWithRetry(
+  const response = await apolloFetch(
     `${APOLLO_API_BASE}/people/match`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'no-cache',
-        'X-Api-Key': apiKey,
       },
       body: JSON.stringify({
         id: personId,
         reveal_personal_emails: true,
       }),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -245,6 +247,7 @@ export const searchContactsNode = defineNode({
   category: 'integration',
   inputSchema: SearchContactsInputSchema,
   outputSchema: SearchContactsOutputSchema,
+  credentials: { required: ['apollo'] },
   estimatedDuration: 5,
   capabilities: {
     supportsEnrichment: true,
@@ -254,17 +257,10 @@ export const searchContactsNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for API key
-      const apiKey = context.credentials?.apollo?.apiKey;
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'Apollo API key not configured. Please provide context.credentials.apollo.apiKey.',
-        };
-      }
+      const apolloFetch = authenticatedFetch(apolloCredential, context.credentials?.apollo);
 
       // Search contacts
-      const results = await searchApolloContacts(apiKey, {
+      const results = await searchApolloContacts(apolloFetch, {
         personTitles: input.personTitles,
         personLocations: input.personLocations,
         organizationLocations: input.organizationLocations,
@@ -276,7 +272,7 @@ export const searchContactsNode = defineNode({
         technologies: input.technologies,
         industryTagIds: input.industryTagIds,
         departments: input.departments,
-      });
+      }, context);
 
       if (results.length === 0) {
         return {
@@ -304,7 +300,7 @@ export const searchContactsNode = defineNode({
       for (const contact of results) {
         if (contact.id) {
           try {
-            const enriched = await enrichApolloContact(apiKey, contact.id);
+            const enriched = await enrichApolloContact(apolloFetch, contact.id, context);
             if (enriched?.email) {
               const lastName = enriched.last_name || enriched.last_name_obfuscated || '';
               const fullName = enriched.name || `${enriched.first_name || ''} ${lastName}`.trim() || 'Unknown';
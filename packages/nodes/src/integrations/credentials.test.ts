@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ExecutionContext, type NodeCredentials, type NodeDefinition } from '@jam-nodes/core';
+import { builtInCredentials, builtInNodes } from '../index.js';
+import { socialKeywordGeneratorNode } from '../ai/index.js';
+import { searchContactsNode } from './apollo/index.js';
+import { seoAuditNode } from './dataforseo/index.js';
+import { firecrawlScrapeNode } from './firecrawl/index.js';
+import { soraVideoNode } from './openai/index.js';
+import { linkedinMonitorNode, twitterMonitorNode } from './social/index.js';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/** Answers every request with a completed Sora video, which the other nodes ignore. */
+function stubFetch() {
+  const fetchMock = vi.fn(
+    async () => new Response(JSON.stringify({ id: 'video_1', status: 'completed', output: { url: 'https://cdn/v.mp4' } }))
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function run(node: NodeDefinition, input: unknown, credentials: NodeCredentials) {
+  const context = new ExecutionContext().toNodeContext('user_1', 'wf_1');
+  return node.executor(input as never, { ...context, credentials });
+}
+
+describe('builtInCredentials', () => {
+  it('define every credential a built-in node declares', () => {
+    const defined = new Set(builtInCredentials.map((credential) => credential.name));
+    const declared = (builtInNodes as NodeDefinition[]).flatMap((node) => [
+      ...(node.credentials?.required ?? []),
+      ...(node.credentials?.optional ?? []),
+    ]);
+
+    expect(declared.filter((name) => !defined.has(name))).toEqual([]);
+  });
+
+  it('have unique names', () => {
+    const names = builtInCredentials.map((credential) => credential.name);
+
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe.each([
+  ['search_contacts', searchContactsNode, {}, 'apollo', 'apiKey', 'X-Api-Key', 'k-apollo'],
+  ['firecrawl_scrape', firecrawlScrapeNode, { url: 'https://example.com' }, 'firecrawl', 'bearerToken', 'Authorization', 'Bearer k-firecrawl'],
+  ['seo_audit', seoAuditNode, { url: 'https://example.com' }, 'dataForSeo', 'apiToken', 'Authorization', 'Basic k-dataForSeo'],
+  ['sora_video', soraVideoNode, { prompt: 'A sunset' }, 'openai', 'apiKey', 'Authorization', 'Bearer k-openai'],
+  ['social_keyword_generator', socialKeywordGeneratorNode, { topic: 'typescript' }, 'anthropic', 'apiKey', 'x-api-key', 'k-anthropic'],
+  ['linkedin_monitor', linkedinMonitorNode, { keywords: ['hiring'] }, 'forumScout', 'apiKey', 'X-API-Key', 'k-forumScout'],
+  ['twitter_monitor', twitterMonitorNode, { keywords: ['typescript'] }, 'twitter', 'twitterApiIoKey', 'X-API-Key', 'k-twitter'],
+])('%s', (_type, node, input, service, field, header, value) => {
+  it(`sends ${header} from context.credentials.${service}.${field}`, async () => {
+    const fetchMock = stubFetch();
+
+    await run(node as NodeDefinition, input, { [service]: { [field]: `k-${service}` } } as NodeCredentials);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>)[header]).toBe(value);
+  });
+
+  it('fails without sending a request when the credential is missing', async () => {
+    const fetchMock = stubFetch();
+
+    const result = await run(node as NodeDefinition, input, {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`Please provide context.credentials.${service}.${field}.`);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
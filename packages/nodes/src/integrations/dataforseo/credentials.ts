@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { defineBasicCredential } from '@jam-nodes/core';
+
+export const dataForSeoCredential = defineBasicCredential({
+  name: 'dataForSeo',
+  displayName: 'DataForSEO API Token',
+  documentationUrl: 'https://docs.dataforseo.com/v3/auth/',
+  schema: z.object({
+    // base64 of 'login:password', as shown in the DataForSEO dashboard
+    apiToken: z.string(),
+  }),
+  authenticate: {
+    type: 'header',
+    properties: {
+      Authorization: 'Basic {{apiToken}}',
+    },
+  },
+  testRequest: {
+    url: 'https://api.dataforseo.com/v3/appendix/user_data',
+    method: 'GET',
+  },
+});
@@ -14,3 +14,5 @@ export {
   type SeoAuditOutput,
   type SeoIssue,
 } from './seo-audit.js';
+
+export { dataForSeoCredential } from './credentials.js';
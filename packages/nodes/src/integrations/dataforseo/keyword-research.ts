@@ -1,6 +1,7 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { dataForSeoCredential } from './credentials.js';
 
 // Constants
 const DATAFORSEO_BASE_URL = 'https://api.dataforseo.com/v3';
@@ -67,13 +68,14 @@ export type SeoKeywordResearchOutput = z.infer<typeof SeoKeywordResearchOutputSc
  * Get keyword ideas from DataForSEO
  */
 async function getKeywordIdeas(
-  apiToken: string,
+  dataForSeoFetch: AuthenticatedFetch,
   keywords: string[],
   options: {
     locationCode?: number;
     languageCode?: string;
     limit?: number;
-  }
+  },
+  trace?: TraceContext
 ): Promise<DataForSEOKeywordIdea[]> {
   const requestBody = [{
     keywords,
@@ -85,17 +87,16 @@ async function getKeywordIdeas(
     offset: 0,
   }];
 
-  const response = await fetchWithRetry(
+  const response = await dataForSeoFetch(
     `${DATAFORSEO_BASE_URL}/dataforseo_labs/google/keyword_ideas/live`,
     {
       method: 'POST',
       headers: {
-        'Authorization': `Basic ${apiToken}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -149,6 +150,7 @@ export const seoKeywordResearchNode = defineNode({
   category: 'integration',
   inputSchema: SeoKeywordResearchInputSchema,
   outputSchema: SeoKeywordResearchOutputSchema,
+  credentials: { required: ['dataForSeo'] },
   estimatedDuration: 10,
   capabilities: {
     supportsRerun: true,
@@ -156,28 +158,24 @@ export const seoKeywordResearchNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for API token
-      const apiToken = context.credentials?.dataForSeo?.apiToken;
-      if (!apiToken) {
-        return {
-          success: false,
-          error: 'DataForSEO API token not configured. Please provide context.credentials.dataForSeo.apiToken.',
-        };
-      }
+      const dataForSeoFetch = authenticatedFetch(dataForSeoCredential, context.credentials?.dataForSeo);
 
       const researchedKeywords: SeoKeywordResearchOutput['keywords'] = [];
       const processedKeywords = new Set<string>();
+      let researched = 0;
+      let firstError: unknown;
 
       // Research each seed keyword
       for (const seedKeyword of input.seedKeywords) {
         if (!seedKeyword.trim()) continue;
 
         try {
-          const results = await getKeywordIdeas(apiToken, [seedKeyword], {
+          const results = await getKeywordIdeas(dataForSeoFetch, [seedKeyword], {
             locationCode: input.locationCode ?? 2840,
             languageCode: input.languageCode ?? 'en',
             limit: input.limit ?? 30,
-          });
+          }, context);
+          researched++;
 
           for (const kw of results) {
             // Skip duplicates
@@ -195,9 +193,15 @@ export const seoKeywordResearchNode = defineNode({
         } catch (kwError) {
           // Continue with other keywords on individual failures
           console.warn(`Error researching keyword "${seedKeyword}":`, kwError);
+          firstError ??= kwError;
         }
       }
 
+      // Fail when no keyword could be researched, e.g. credentials are missing or rejected
+      if (researched === 0 && firstError !== undefined) {
+        throw firstError;
+      }
+
       // Sort by search volume descending
       researchedKeywords.sort((a, b) => b.searchVolume - a.searchVolume);
 
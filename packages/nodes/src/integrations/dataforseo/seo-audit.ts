@@ -1,6 +1,7 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { dataForSeoCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -183,8 +184,9 @@ function validateUrl(url: string): { isValid: boolean; error?: string } {
  * Run on-page SEO audit using DataForSEO
  */
 async function runOnPageAudit(
-  apiToken: string,
-  url: string
+  dataForSeoFetch: AuthenticatedFetch,
+  url: string,
+  trace?: TraceContext
 ): Promise<DataForSEOOnPageResponse> {
   const requestBody = [{
     url,
@@ -197,17 +199,16 @@ async function runOnPageAudit(
     check_spell: false,
   }];
 
-  const response = await fetchWithRetry(
+  const response = await dataForSeoFetch(
     `${DATAFORSEO_BASE_URL}/on_page/instant_pages`,
     {
       method: 'POST',
       headers: {
-        'Authorization': `Basic ${apiToken}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000, trace }
   );
 
   if (!response.ok) {
@@ -251,6 +252,7 @@ export const seoAuditNode = defineNode({
   category: 'integration',
   inputSchema: SeoAuditInputSchema,
   outputSchema: SeoAuditOutputSchema,
+  credentials: { required: ['dataForSeo'] },
   estimatedDuration: 30,
   capabilities: {
     supportsRerun: true,
@@ -258,14 +260,7 @@ export const seoAuditNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for API token
-      const apiToken = context.credentials?.dataForSeo?.apiToken;
-      if (!apiToken) {
-        return {
-          success: false,
-          error: 'DataForSEO API token not configured. Please provide context.credentials.dataForSeo.apiToken.',
-        };
-      }
+      const dataForSeoFetch = authenticatedFetch(dataForSeoCredential, context.credentials?.dataForSeo);
 
       // Check for stored values from previous approval
       const storedUrl = context.variables?.['site_url'] as string | undefined;
@@ -313,7 +308,7 @@ export const seoAuditNode = defineNode({
       }
 
       // Call DataForSEO
-      const auditResponse = await runOnPageAudit(apiToken, urlToAudit);
+      const auditResponse = await runOnPageAudit(dataForSeoFetch, urlToAudit, context);
       const onPageResult = auditResponse.tasks?.[0]?.result?.[0]?.items?.[0];
 
       if (!onPageResult) {
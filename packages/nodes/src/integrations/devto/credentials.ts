@@ -14,4 +14,8 @@ export const devtoCredential = defineApiKeyCredential({
       'api-key': '{{apiKey}}',
     },
   },
+  testRequest: {
+    url: 'https://dev.to/api/users/me',
+    method: 'GET',
+  },
 })
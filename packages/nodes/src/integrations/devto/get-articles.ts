@@ -1,5 +1,6 @@
 import { defineNode } from '@jam-nodes/core'
-import { fetchWithRetry } from '../../utils/http.js'
+import { authenticatedFetch } from '../../utils/authenticated-fetch.js'
+import { devtoCredential } from './credentials.js'
 import {
   DevtoGetArticlesInputSchema,
   DevtoGetArticlesOutputSchema,
@@ -18,20 +19,14 @@ export const devtoGetArticlesNode = defineNode({
   category: 'integration',
   inputSchema: DevtoGetArticlesInputSchema,
   outputSchema: DevtoGetArticlesOutputSchema,
+  credentials: { required: ['devto'] },
   estimatedDuration: 5,
   capabilities: {
     supportsRerun: true,
   },
   executor: async (input: DevtoGetArticlesInput, context) => {
     try {
-      const apiKey = context.credentials?.devto?.apiKey
-      if (!apiKey) {
-        return {
-          success: false,
-          error:
-            'Dev.to API key not configured. Please provide context.credentials.devto.apiKey.',
-        }
-      }
+      const devtoFetch = authenticatedFetch(devtoCredential, context.credentials?.devto)
 
       const page = input.page ?? 1
       const perPage = input.perPage ?? 30
@@ -54,15 +49,12 @@ export const devtoGetArticlesNode = defineNode({
         url = `${DEVTO_API_BASE}/articles/me?${params.toString()}`
       }
 
-      const response = await fetchWithRetry(
+      const response = await devtoFetch(
         url,
         {
           method: 'GET',
-          headers: {
-            'api-key': apiKey,
-          },
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 },
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context },
       )
 
       if (!response.ok) {
@@ -1,5 +1,6 @@
 import { defineNode } from '@jam-nodes/core'
-import { fetchWithRetry } from '../../utils/http.js'
+import { authenticatedFetch } from '../../utils/authenticated-fetch.js'
+import { devtoCredential } from './credentials.js'
 import {
   DevtoUpdateArticleInputSchema,
   DevtoUpdateArticleOutputSchema,
@@ -17,20 +18,14 @@ export const devtoUpdateArticleNode = defineNode({
   category: 'integration',
   inputSchema: DevtoUpdateArticleInputSchema,
   outputSchema: DevtoUpdateArticleOutputSchema,
+  credentials: { required: ['devto'] },
   estimatedDuration: 5,
   capabilities: {
     supportsRerun: true,
   },
   executor: async (input: DevtoUpdateArticleInput, context) => {
     try {
-      const apiKey = context.credentials?.devto?.apiKey
-      if (!apiKey) {
-        return {
-          success: false,
-          error:
-            'Dev.to API key not configured. Please provide context.credentials.devto.apiKey.',
-        }
-      }
+      const devtoFetch = authenticatedFetch(devtoCredential, context.credentials?.devto)
 
       const articleBody: Record<string, unknown> = {}
       if (input.title !== undefined) articleBody['title'] = input.title
@@ -42,17 +37,16 @@ export const devtoUpdateArticleNode = defineNode({
       if (input.description !== undefined)
         articleBody['description'] = input.description
 
-      const response = await fetchWithRetry(
+      const response = await devtoFetch(
         `${DEVTO_API_BASE}/articles/${input.id}`,
         {
           method: 'PUT',
           headers: {
-            'api-key': apiKey,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ article: articleBody }),
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 },
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context },
       )
 
       if (!response.ok) {
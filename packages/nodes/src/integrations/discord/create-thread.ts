@@ -1,5 +1,6 @@
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { discordBotCredential } from './credentials.js';
 import {
   DiscordCreateThreadInputSchema,
   DiscordCreateThreadOutputSchema,
@@ -35,21 +36,21 @@ async function readDiscordError(response: Response): Promise<string> {
 async function createStarterMessage(
   channelId: string,
   message: string,
-  botToken: string
+  discordFetch: AuthenticatedFetch,
+  trace?: TraceContext
 ): Promise<DiscordMessageResponse> {
-  const response = await fetchWithRetry(
+  const response = await discordFetch(
     `${DISCORD_API_BASE}/channels/${channelId}/messages`,
     {
       method: 'POST',
       headers: {
-        Authorization: `Bot ${botToken}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         content: message,
       }),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -63,21 +64,21 @@ async function createThreadFromMessage(
   channelId: string,
   messageId: string,
   name: string,
-  botToken: string
+  discordFetch: AuthenticatedFetch,
+  trace?: TraceContext
 ): Promise<DiscordThreadResponse> {
-  const response = await fetchWithRetry(
+  const response = await discordFetch(
     `${DISCORD_API_BASE}/channels/${channelId}/messages/${messageId}/threads`,
     {
       method: 'POST',
       headers: {
-        Authorization: `Bot ${botToken}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         name,
       }),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -90,14 +91,14 @@ async function createThreadFromMessage(
 async function createStandaloneThread(
   channelId: string,
   name: string,
-  botToken: string
+  discordFetch: AuthenticatedFetch,
+  trace?: TraceContext
 ): Promise<DiscordThreadResponse> {
-  const response = await fetchWithRetry(
+  const response = await discordFetch(
     `${DISCORD_API_BASE}/channels/${channelId}/threads`,
     {
       method: 'POST',
       headers: {
-        Authorization: `Bot ${botToken}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -105,7 +106,7 @@ async function createStandaloneThread(
         type: GUILD_PUBLIC_THREAD,
       }),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -129,20 +130,14 @@ export const discordCreateThreadNode = defineNode({
   category: 'integration',
   inputSchema: DiscordCreateThreadInputSchema,
   outputSchema: DiscordCreateThreadOutputSchema,
+  credentials: { required: ['discordBot'] },
   estimatedDuration: 4,
   capabilities: {
     supportsRerun: true,
   },
   executor: async (input: DiscordCreateThreadInput, context) => {
     try {
-      const botToken = context.credentials?.discordBot?.botToken;
-      if (!botToken) {
-        return {
-          success: false,
-          error:
-            'Discord bot token not configured. Please provide context.credentials.discordBot.botToken.',
-        };
-      }
+      const discordFetch = authenticatedFetch(discordBotCredential, context.credentials?.discordBot);
 
       let starterMessageId: string | null = null;
       let thread: DiscordThreadResponse;
@@ -151,17 +146,19 @@ export const discordCreateThreadNode = defineNode({
         const starterMessage = await createStarterMessage(
           input.channelId,
           input.message,
-          botToken
+          discordFetch,
+          context
         );
         starterMessageId = starterMessage.id;
         thread = await createThreadFromMessage(
           input.channelId,
           starterMessage.id,
           input.name,
-          botToken
+          discordFetch,
+          context
         );
       } else {
-        thread = await createStandaloneThread(input.channelId, input.name, botToken);
+        thread = await createStandaloneThread(input.channelId, input.name, discordFetch, context);
       }
 
       const output: DiscordCreateThreadOutput = {
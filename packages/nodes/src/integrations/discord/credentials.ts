@@ -14,6 +14,10 @@ export const discordBotCredential = defineApiKeyCredential({
       Authorization: 'Bot {{botToken}}',
     },
   },
+  testRequest: {
+    url: 'https://discord.com/api/v10/users/@me',
+    method: 'GET',
+  },
 });
 
 export const discordWebhookCredential: WebhookCredentialDefinition = {
@@ -24,4 +28,9 @@ export const discordWebhookCredential: WebhookCredentialDefinition = {
   schema: z.object({
     webhookUrl: z.string().url(),
   }),
+  // Discord returns the webhook's details for a GET on its URL
+  testRequest: {
+    url: '{{webhookUrl}}',
+    method: 'GET',
+  },
 };
@@ -26,6 +26,12 @@ describe('discord credentials', () => {
     expect(discordWebhookCredential.name).toBe('discordWebhook');
     expect(discordWebhookCredential.type).toBe('webhook');
   });
+
+  it('declares the credentials each node requires', () => {
+    expect(discordSendMessageNode.credentials?.required).toEqual([discordBotCredential.name]);
+    expect(discordCreateThreadNode.credentials?.required).toEqual([discordBotCredential.name]);
+    expect(discordSendWebhookNode.credentials?.optional).toEqual([discordWebhookCredential.name]);
+  });
 });
 
 describe('discord schemas', () => {
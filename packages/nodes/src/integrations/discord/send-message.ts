@@ -1,5 +1,6 @@
 import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../../utils/http.js';
+import { authenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { discordBotCredential } from './credentials.js';
 import {
   DiscordSendMessageInputSchema,
   DiscordSendMessageOutputSchema,
@@ -42,27 +43,20 @@ export const discordSendMessageNode = defineNode({
   category: 'integration',
   inputSchema: DiscordSendMessageInputSchema,
   outputSchema: DiscordSendMessageOutputSchema,
+  credentials: { required: ['discordBot'] },
   estimatedDuration: 3,
   capabilities: {
     supportsRerun: true,
   },
   executor: async (input: DiscordSendMessageInput, context) => {
     try {
-      const botToken = context.credentials?.discordBot?.botToken;
-      if (!botToken) {
-        return {
-          success: false,
-          error:
-            'Discord bot token not configured. Please provide context.credentials.discordBot.botToken.',
-        };
-      }
+      const discordFetch = authenticatedFetch(discordBotCredential, context.credentials?.discordBot);
 
-      const response = await fetchWithRetry(
+      const response = await discordFetch(
         `${DISCORD_API_BASE}/channels/${input.channelId}/messages`,
         {
           method: 'POST',
           headers: {
-            Authorization: `Bot ${botToken}`,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
@@ -70,7 +64,7 @@ export const discordSendMessageNode = defineNode({
             embeds: input.embeds ?? [],
           }),
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context }
       );
 
       if (!response.ok) {
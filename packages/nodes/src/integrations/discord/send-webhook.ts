@@ -40,6 +40,8 @@ export const discordSendWebhookNode = defineNode({
   category: 'integration',
   inputSchema: DiscordSendWebhookInputSchema,
   outputSchema: DiscordSendWebhookOutputSchema,
+  // The webhook URL may come from the input instead
+  credentials: { optional: ['discordWebhook'] },
   estimatedDuration: 2,
   capabilities: {
     supportsRerun: true,
@@ -71,7 +73,7 @@ export const discordSendWebhookNode = defineNode({
             embeds: input.embeds ?? [],
           }),
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context }
       );
 
       if (!response.ok) {
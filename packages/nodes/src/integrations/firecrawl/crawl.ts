@@ -1,6 +1,8 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry, sleep } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { sleep } from '../../utils/http.js';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { firecrawlCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -94,14 +96,15 @@ export type FirecrawlCrawlOutput = z.infer<typeof FirecrawlCrawlOutputSchema>;
  * Start a Firecrawl crawl job (POST /v2/crawl)
  */
 async function startCrawlJob(
-  bearerToken: string,
+  firecrawlFetch: AuthenticatedFetch,
   params: {
     url: string;
     excludePaths?: string[];
     includePaths?: string[];
     maxDiscoveryDepth?: number;
     limit?: number;
-  }
+  },
+  trace?: TraceContext
 ): Promise<CrawlPostResponse> {
   const requestBody: Record<string, unknown> = {
     url: params.url,
@@ -111,17 +114,16 @@ async function startCrawlJob(
     ...(params.limit != null && { limit: params.limit })
   }
 
-  const response = await fetchWithRetry(
+  const response = await firecrawlFetch(
     `${FIRECRAWL_API_BASE}/crawl`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${bearerToken}`,
       },
       body: JSON.stringify(requestBody),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -136,19 +138,17 @@ async function startCrawlJob(
  * Poll a Firecrawl crawl job until completion (GET /v2/crawl/:id)
  */
 async function pollCrawlJob(
-  bearerToken: string,
-  jobId: string
+  firecrawlFetch: AuthenticatedFetch,
+  jobId: string,
+  trace?: TraceContext
 ): Promise<CrawlGetResponse> {
   for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
-    const response = await fetchWithRetry(
+    const response = await firecrawlFetch(
       `${FIRECRAWL_API_BASE}/crawl/${jobId}`,
       {
         method: 'GET',
-        headers: {
-          Authorization: `Bearer ${bearerToken}`,
-        },
       },
-      { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+      { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
     );
 
     if (!response.ok) {
@@ -194,6 +194,7 @@ export const firecrawlCrawlNode = defineNode({
   category: 'integration',
   inputSchema: FirecrawlCrawlInputSchema,
   outputSchema: FirecrawlCrawlOutputSchema,
+  credentials: { required: ['firecrawl'] },
   estimatedDuration: 60,
   capabilities: {
     supportsRerun: true,
@@ -202,23 +203,16 @@ export const firecrawlCrawlNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for Bearer Token
-      const bearerToken = context.credentials?.firecrawl?.bearerToken;
-      if (!bearerToken) {
-        return {
-          success: false,
-          error: 'Firecrawl Bearer Token not configured. Please provide context.credentials.firecrawl.bearerToken.',
-        };
-      }
+      const firecrawlFetch = authenticatedFetch(firecrawlCredential, context.credentials?.firecrawl);
 
       // Start crawling job
-      const job = await startCrawlJob(bearerToken, {
+      const job = await startCrawlJob(firecrawlFetch, {
         url: input.url,
         excludePaths: input.excludePaths,
         includePaths: input.includePaths,
         maxDiscoveryDepth: input.maxDiscoveryDepth,
         limit: input.limit,
-      });
+      }, context);
 
       if (!job.success) {
         return {
@@ -228,7 +222,7 @@ export const firecrawlCrawlNode = defineNode({
       }
 
       // Poll crawl jobs for scraped website data
-      const result = await pollCrawlJob(bearerToken, job.id);
+      const result = await pollCrawlJob(firecrawlFetch, job.id, context);
       const status = result.status as 'completed' | 'failed';
 
       return {
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { defineBearerCredential } from '@jam-nodes/core';
+
+export const firecrawlCredential = defineBearerCredential({
+  name: 'firecrawl',
+  displayName: 'Firecrawl Bearer Token',
+  documentationUrl: 'https://docs.firecrawl.dev',
+  schema: z.object({
+    bearerToken: z.string(),
+  }),
+  authenticate: {
+    type: 'header',
+    properties: {
+      Authorization: 'Bearer {{bearerToken}}',
+    },
+  },
+});
@@ -1,6 +1,8 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry, sleep } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { sleep } from '../../utils/http.js';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { firecrawlCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -63,12 +65,13 @@ export type FirecrawlExtractOutput = z.infer<typeof FirecrawlExtractOutputSchema
  * Start a Firecrawl extract job (POST /v2/extract)
  */
 async function startExtractJob(
-  bearerToken: string,
+  firecrawlFetch: AuthenticatedFetch,
   params: {
     urls: string[];
     prompt?: string;
     schema?: Record<string, unknown>;
-  }
+  },
+  trace?: TraceContext
 ): Promise<ExtractPostResponse> {
   const requestBody: Record<string, unknown> = {
     urls: params.urls,
@@ -76,17 +79,16 @@ async function startExtractJob(
     ...(params.schema && { schema: params.schema }),
   };
 
-  const response = await fetchWithRetry(
+  const response = await firecrawlFetch(
     `${FIRECRAWL_API_BASE}/extract`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${bearerToken}`,
       },
       body: JSON.stringify(requestBody),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -101,19 +103,17 @@ async function startExtractJob(
  * Poll a Firecrawl extract job until completion (GET /v2/extract/:id)
  */
 async function pollExtractJob(
-  bearerToken: string,
-  jobId: string
+  firecrawlFetch: AuthenticatedFetch,
+  jobId: string,
+  trace?: TraceContext
 ): Promise<ExtractGetResponse> {
   for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
-    const response = await fetchWithRetry(
+    const response = await firecrawlFetch(
       `${FIRECRAWL_API_BASE}/extract/${jobId}`,
       {
         method: 'GET',
-        headers: {
-          Authorization: `Bearer ${bearerToken}`,
-        },
       },
-      { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+      { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
     );
 
     if (!response.ok) {
@@ -174,6 +174,7 @@ export const firecrawlExtractNode = defineNode({
   category: 'integration',
   inputSchema: FirecrawlExtractInputSchema,
   outputSchema: FirecrawlExtractOutputSchema,
+  credentials: { required: ['firecrawl'] },
   estimatedDuration: 30,
   capabilities: {
     supportsRerun: true,
@@ -182,21 +183,14 @@ export const firecrawlExtractNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for Bearer Token
-      const bearerToken = context.credentials?.firecrawl?.bearerToken;
-      if (!bearerToken) {
-        return {
-          success: false,
-          error: 'Firecrawl Bearer Token not configured. Please provide context.credentials.firecrawl.bearerToken.',
-        };
-      }
+      const firecrawlFetch = authenticatedFetch(firecrawlCredential, context.credentials?.firecrawl);
 
       // Start extraction job
-      const job = await startExtractJob(bearerToken, {
+      const job = await startExtractJob(firecrawlFetch, {
         urls: input.urls,
         prompt: input.prompt,
         schema: input.schema,
-      });
+      }, context);
 
       if (!job.success) {
         return {
@@ -206,7 +200,7 @@ export const firecrawlExtractNode = defineNode({
       }
 
       // Poll extraction jobs for extracted data
-      const result = await pollExtractJob(bearerToken, job.id);
+      const result = await pollExtractJob(firecrawlFetch, job.id, context);
       const status = result.status as 'completed' | 'failed' | 'cancelled';
 
       return {
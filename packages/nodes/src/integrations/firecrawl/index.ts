@@ -21,3 +21,5 @@ export {
   type FirecrawlExtractInput,
   type FirecrawlExtractOutput,
 } from './extract.js';
+
+export { firecrawlCredential } from './credentials.js';
@@ -1,6 +1,7 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { firecrawlCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -224,13 +225,14 @@ export type FirecrawlScrapeOutput = z.infer<typeof FirecrawlScrapeOutputSchema>;
  * Scrape a single URL via Firecrawl (POST /v2/scrape)
  */
 async function scrapePage(
-  bearerToken: string,
+  firecrawlFetch: AuthenticatedFetch,
   params: {
     url: string;
     formats?: unknown[];
     onlyMainContent?: boolean;
     waitFor?: number;
-  }
+  },
+  trace?: TraceContext
 ): Promise<ScrapeResponse> {
   const requestBody: Record<string, unknown> = {
     url: params.url,
@@ -239,17 +241,16 @@ async function scrapePage(
     ...(params.waitFor && { waitFor: params.waitFor }),
   };
 
-  const response = await fetchWithRetry(
+  const response = await firecrawlFetch(
     `${FIRECRAWL_API_BASE}/scrape`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${bearerToken}`,
       },
       body: JSON.stringify(requestBody),
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -287,6 +288,7 @@ export const firecrawlScrapeNode = defineNode({
   category: 'integration',
   inputSchema: FirecrawlScrapeInputSchema,
   outputSchema: FirecrawlScrapeOutputSchema,
+  credentials: { required: ['firecrawl'] },
   estimatedDuration: 15,
   capabilities: {
     supportsRerun: true,
@@ -295,22 +297,15 @@ export const firecrawlScrapeNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for Bearer Token
-      const bearerToken = context.credentials?.firecrawl?.bearerToken;
-      if (!bearerToken) {
-        return {
-          success: false,
-          error: 'Firecrawl Bearer Token not configured. Please provide context.credentials.firecrawl.bearerToken.',
-        };
-      }
+      const firecrawlFetch = authenticatedFetch(firecrawlCredential, context.credentials?.firecrawl);
 
       // Scrape URL
-      const result = await scrapePage(bearerToken, {
+      const result = await scrapePage(firecrawlFetch, {
         url: input.url,
         formats: input.formats,
         onlyMainContent: input.onlyMainContent,
         waitFor: input.waitFor,
-      });
+      }, context);
 
       return {
         success: true,
@@ -13,6 +13,8 @@ export {
   type TwitterMonitorOutput,
   type TwitterPost,
   twitterCredential,
+  twitterApiIoCredential,
+  forumScoutCredential,
   twitterCreateTweetNode,
   TwitterCreateTweetInputSchema,
   TwitterCreateTweetOutputSchema,
@@ -63,6 +65,7 @@ export {
   SoraVideoOutputSchema,
   type SoraVideoInput,
   type SoraVideoOutput,
+  openaiCredential,
 } from './openai/index.js'
 
 // DataForSEO integrations
@@ -78,6 +81,7 @@ export {
   type SeoAuditInput,
   type SeoAuditOutput,
   type SeoIssue,
+  dataForSeoCredential,
 } from './dataforseo/index.js'
 
 // Apollo integrations
@@ -87,6 +91,7 @@ export {
   SearchContactsOutputSchema,
   type SearchContactsInput,
   type SearchContactsOutput,
+  apolloCredential,
 } from './apollo/index.js'
 
 // Discord integrations
@@ -129,6 +134,7 @@ export {
   FirecrawlExtractOutputSchema,
   type FirecrawlExtractInput,
   type FirecrawlExtractOutput,
+  firecrawlCredential,
 } from './firecrawl/index.js'
 
 // Dev.to integrations
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { defineApiKeyCredential } from '@jam-nodes/core';
+
+export const openaiCredential = defineApiKeyCredential({
+  name: 'openai',
+  displayName: 'OpenAI API Key',
+  documentationUrl: 'https://platform.openai.com/docs/api-reference/authentication',
+  schema: z.object({
+    apiKey: z.string(),
+  }),
+  authenticate: {
+    type: 'header',
+    properties: {
+      Authorization: 'Bearer {{apiKey}}',
+    },
+  },
+  testRequest: {
+    url: 'https://api.openai.com/v1/models',
+    method: 'GET',
+  },
+});
@@ -5,3 +5,5 @@ export {
   type SoraVideoInput,
   type SoraVideoOutput,
 } from './sora-video.js';
+
+export { openaiCredential } from './credentials.js';
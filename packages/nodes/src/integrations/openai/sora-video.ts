@@ -1,6 +1,8 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry, sleep } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { sleep } from '../../utils/http.js';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { openaiCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -65,13 +67,14 @@ export type SoraVideoOutput = z.infer<typeof SoraVideoOutputSchema>;
  * Create a Sora video generation request
  */
 async function createSoraVideo(
-  apiKey: string,
+  openaiFetch: AuthenticatedFetch,
   params: {
     prompt: string;
     model: string;
     seconds: number;
     size: string;
-  }
+  },
+  trace?: TraceContext
 ): Promise<SoraVideoCreateResponse> {
   const formData = new FormData();
   formData.append('prompt', params.prompt);
@@ -79,16 +82,13 @@ async function createSoraVideo(
   formData.append('seconds', params.seconds.toString());
   formData.append('size', params.size);
 
-  const response = await fetchWithRetry(
+  const response = await openaiFetch(
     `${OPENAI_API_BASE}/videos`,
     {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
       body: formData,
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000, trace }
   );
 
   if (!response.ok) {
@@ -103,18 +103,16 @@ async function createSoraVideo(
  * Check the status of a Sora video generation
  */
 async function getSoraVideoStatus(
-  apiKey: string,
-  videoId: string
+  openaiFetch: AuthenticatedFetch,
+  videoId: string,
+  trace?: TraceContext
 ): Promise<SoraVideoStatusResponse> {
-  const response = await fetchWithRetry(
+  const response = await openaiFetch(
     `${OPENAI_API_BASE}/videos/${videoId}`,
     {
       method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -129,15 +127,16 @@ async function getSoraVideoStatus(
  * Wait for video generation to complete with polling
  */
 async function waitForVideoCompletion(
-  apiKey: string,
+  openaiFetch: AuthenticatedFetch,
   videoId: string,
-  maxWaitMs: number = 300000 // 5 minutes
+  maxWaitMs: number = 300000, // 5 minutes
+  trace?: TraceContext
 ): Promise<SoraVideoStatusResponse> {
   const startTime = Date.now();
   const pollIntervalMs = 5000; // 5 seconds
 
   while (Date.now() - startTime < maxWaitMs) {
-    const status = await getSoraVideoStatus(apiKey, videoId);
+    const status = await getSoraVideoStatus(openaiFetch, videoId, trace);
 
     if (status.status === 'completed') {
       return status;
@@ -180,6 +179,7 @@ export const soraVideoNode = defineNode({
   category: 'integration',
   inputSchema: SoraVideoInputSchema,
   outputSchema: SoraVideoOutputSchema,
+  credentials: { required: ['openai'] },
   estimatedDuration: 60,
   capabilities: {
     supportsRerun: true,
@@ -187,27 +187,20 @@ export const soraVideoNode = defineNode({
 
   executor: async (input, context) => {
     try {
-      // Check for API key
-      const apiKey = context.credentials?.openai?.apiKey;
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'OpenAI API key not configured. Please provide context.credentials.openai.apiKey.',
-        };
-      }
+      const openaiFetch = authenticatedFetch(openaiCredential, context.credentials?.openai);
 
       const startTime = Date.now();
 
       // Create video generation request
-      const createResponse = await createSoraVideo(apiKey, {
+      const createResponse = await createSoraVideo(openaiFetch, {
         prompt: input.prompt,
         model: input.model || 'sora-2',
         seconds: input.seconds || 4,
         size: input.size || '1280x720',
-      });
+      }, context);
 
       // Wait for completion
-      const completedVideo = await waitForVideoCompletion(apiKey, createResponse.id);
+      const completedVideo = await waitForVideoCompletion(openaiFetch, createResponse.id, undefined, context);
 
       const processingTimeSeconds = Math.round((Date.now() - startTime) / 1000);
 
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { defineOAuth2Credential } from '@jam-nodes/core';
+import { defineApiKeyCredential, defineOAuth2Credential } from '@jam-nodes/core';
 
 export const twitterCredential = defineOAuth2Credential({
   pkce: true,
@@ -21,6 +21,13 @@ export const twitterCredential = defineOAuth2Credential({
     ],
     pkce: true,
   },
+  authenticate: {
+    type: 'header',
+    properties: {
+      // OAuth2 user token, or the app-only bearer token for read endpoints
+      Authorization: 'Bearer {{accessToken || bearerToken}}',
+    },
+  },
   schema: z.object({
     clientId: z.string(),
     clientSecret: z.string(),
@@ -32,5 +39,45 @@ export const twitterCredential = defineOAuth2Credential({
     consumerSecret: z.string().optional(),
     accessTokenSecret: z.string().optional(),
     bearerToken: z.string().optional(),
+    // twitterapi.io key used by the twitter_monitor node
+    twitterApiIoKey: z.string().optional(),
+  }),
+});
+
+/** OAuth 1.0a fields the Twitter API v2 nodes sign their requests with */
+export const TWITTER_OAUTH1_FIELDS = ['consumerKey', 'consumerSecret', 'accessToken', 'accessTokenSecret'];
+
+/**
+ * How twitter_monitor authenticates with twitterapi.io: the `twitterApiIoKey`
+ * field of the 'twitter' credential. Not one of the built-in credentials,
+ * since the 'twitter' name belongs to twitterCredential.
+ */
+export const twitterApiIoCredential = defineApiKeyCredential({
+  name: 'twitter',
+  displayName: 'TwitterAPI.io API Key',
+  documentationUrl: 'https://docs.twitterapi.io',
+  schema: z.object({
+    twitterApiIoKey: z.string(),
   }),
+  authenticate: {
+    type: 'header',
+    properties: {
+      'X-API-Key': '{{twitterApiIoKey}}',
+    },
+  },
+});
+
+export const forumScoutCredential = defineApiKeyCredential({
+  name: 'forumScout',
+  displayName: 'ForumScout API Key',
+  documentationUrl: 'https://forumscout.app',
+  schema: z.object({
+    apiKey: z.string(),
+  }),
+  authenticate: {
+    type: 'header',
+    properties: {
+      'X-API-Key': '{{apiKey}}',
+    },
+  },
 });
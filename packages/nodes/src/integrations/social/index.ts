@@ -18,6 +18,8 @@ export {
 
 export {
   twitterCredential,
+  twitterApiIoCredential,
+  forumScoutCredential,
 } from './credentials.js';
 
 export {
@@ -1,6 +1,7 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { forumScoutCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -150,11 +151,12 @@ function extractHandleFromUrl(url: string | undefined): string {
  * Search LinkedIn using ForumScout API
  */
 async function searchLinkedIn(
-  apiKey: string,
+  forumScoutFetch: AuthenticatedFetch,
   keyword: string,
   options: {
     sortBy?: 'relevance' | 'date_posted';
     page?: number;
+    trace?: TraceContext;
   } = {}
 ): Promise<ForumScoutLinkedInPost[]> {
   const url = new URL(`${FORUMSCOUT_BASE_URL}/linkedin_search`);
@@ -164,16 +166,15 @@ async function searchLinkedIn(
     url.searchParams.set('page', options.page.toString());
   }
 
-  const response = await fetchWithRetry(
+  const response = await forumScoutFetch(
     url.toString(),
     {
       method: 'GET',
       headers: {
-        'X-API-Key': apiKey,
         'Content-Type': 'application/json',
       },
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000, trace: options.trace }
   );
 
   if (!response.ok) {
@@ -214,6 +215,7 @@ export const linkedinMonitorNode = defineNode({
   category: 'integration',
   inputSchema: LinkedInMonitorInputSchema,
   outputSchema: LinkedInMonitorOutputSchema,
+  credentials: { required: ['forumScout'] },
   estimatedDuration: 60,
   capabilities: {
     supportsRerun: true,
@@ -230,19 +232,13 @@ export const linkedinMonitorNode = defineNode({
         };
       }
 
-      // Check for API key
-      const apiKey = context.credentials?.forumScout?.apiKey;
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'ForumScout API key not configured. Please provide context.credentials.forumScout.apiKey.',
-        };
-      }
+      const forumScoutFetch = authenticatedFetch(forumScoutCredential, context.credentials?.forumScout);
 
       // Search LinkedIn with combined keywords
       const searchKeyword = keywords.join(' ');
-      const results = await searchLinkedIn(apiKey, searchKeyword, {
+      const results = await searchLinkedIn(forumScoutFetch, searchKeyword, {
         sortBy: 'date_posted',
+        trace: context,
       });
 
       // Transform to unified format
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
 import { fetchWithRetry } from '../../utils/http.js';
 
 // =============================================================================
@@ -110,9 +110,10 @@ async function searchReddit(
     sort?: 'relevance' | 'hot' | 'top' | 'new' | 'comments';
     time?: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
     limit?: number;
+    trace?: TraceContext;
   } = {}
 ): Promise<RedditSearchResponse> {
-  const { sort = 'new', time = 'day', limit = 50 } = options;
+  const { sort = 'new', time = 'day', limit = 50, trace } = options;
 
   const params = new URLSearchParams({
     q: query,
@@ -132,7 +133,7 @@ async function searchReddit(
         'User-Agent': 'Mozilla/5.0 (compatible; JamNodes/1.0)',
       },
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -191,6 +192,7 @@ export const redditMonitorNode = defineNode({
         sort: input.sortBy || 'new',
         time: input.timeFilter || 'day',
         limit: maxResults,
+        trace: context,
       });
 
       // Transform to unified format
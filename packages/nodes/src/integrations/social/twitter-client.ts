@@ -1,5 +1,7 @@
 import type { NodeExecutionContext } from '@jam-nodes/core';
 import { fetchWithRetry } from '../../utils/http.js';
+import { authenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { twitterCredential } from './credentials.js';
 import { createHmac, randomBytes } from 'crypto';
 
 const TWITTER_API_BASE_URL = 'https://api.twitter.com';
@@ -128,24 +130,6 @@ function getOAuth1Credentials(context: NodeExecutionContext): TwitterOAuth1Crede
   return null;
 }
 
-export function getTwitterAccessToken(context: NodeExecutionContext): string | null {
-  const twitterCredentials = (context.credentials?.twitter || {}) as Record<string, string | undefined>;
-  return twitterCredentials['accessToken'] || twitterCredentials['bearerToken'] || null;
-}
-
-export function getTwitterAuthHeaders(context: NodeExecutionContext): Record<string, string> {
-  const accessToken = getTwitterAccessToken(context);
-  if (!accessToken) {
-    throw new Error(
-      'Twitter access token not configured. Please provide context.credentials.twitter.accessToken.'
-    );
-  }
-
-  return {
-    Authorization: `Bearer ${accessToken}`,
-  };
-}
-
 // =============================================================================
 // Twitter API Request
 // =============================================================================
@@ -158,9 +142,11 @@ export async function twitterRequest<T>(
   const fullUrl = `${TWITTER_API_BASE_URL}${path}`;
   const method = (init.method || 'GET').toUpperCase();
 
-  // Build auth headers — prefer OAuth 1.0a (supports read + write)
+  const retryConfig = { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context };
+
+  // Prefer OAuth 1.0a (supports read + write); otherwise send the OAuth2 or app bearer token
   const oauth1 = getOAuth1Credentials(context);
-  let authHeaders: Record<string, string>;
+  let response: Response;
 
   if (oauth1) {
     const oauthHeader = buildOAuth1Header(
@@ -171,23 +157,25 @@ export async function twitterRequest<T>(
       oauth1.accessToken,
       oauth1.accessTokenSecret,
     );
-    authHeaders = { Authorization: oauthHeader };
+    response = await fetchWithRetry(
+      fullUrl,
+      {
+        ...init,
+        headers: {
+          Authorization: oauthHeader,
+          ...(init.headers || {}),
+        },
+      },
+      retryConfig
+    );
   } else {
-    authHeaders = getTwitterAuthHeaders(context);
+    response = await authenticatedFetch(twitterCredential, context.credentials?.twitter)(
+      fullUrl,
+      init,
+      retryConfig
+    );
   }
 
-  const response = await fetchWithRetry(
-    fullUrl,
-    {
-      ...init,
-      headers: {
-        ...authHeaders,
-        ...(init.headers || {}),
-      },
-    },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
-  );
-
   if (!response.ok) {
     const errorText = await response.text();
     throw new Error(`Twitter API error: ${response.status} - ${errorText}`);
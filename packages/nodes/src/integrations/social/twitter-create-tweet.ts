@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { defineNode } from '@jam-nodes/core';
 import { twitterRequest } from './twitter-client.js';
+import { TWITTER_OAUTH1_FIELDS } from './credentials.js';
 
 interface TwitterCreateTweetResponse {
   data?: {
@@ -36,6 +37,7 @@ export const twitterCreateTweetNode = defineNode({
   category: 'integration',
   inputSchema: TwitterCreateTweetInputSchema,
   outputSchema: TwitterCreateTweetOutputSchema,
+  credentials: { required: ['twitter'], fields: { twitter: TWITTER_OAUTH1_FIELDS } },
   estimatedDuration: 8,
   capabilities: {
     supportsRerun: true,
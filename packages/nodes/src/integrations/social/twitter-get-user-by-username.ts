@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { defineNode } from '@jam-nodes/core';
 import { twitterRequest } from './twitter-client.js';
+import { TWITTER_OAUTH1_FIELDS } from './credentials.js';
 
 interface TwitterGetUserByUsernameResponse {
   data?: {
@@ -35,6 +36,7 @@ export const twitterGetUserByUsernameNode = defineNode({
   category: 'integration',
   inputSchema: TwitterGetUserByUsernameInputSchema,
   outputSchema: TwitterGetUserByUsernameOutputSchema,
+  credentials: { required: ['twitter'], fields: { twitter: TWITTER_OAUTH1_FIELDS } },
   estimatedDuration: 6,
   capabilities: {
     supportsRerun: true,
@@ -1,6 +1,7 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
-import { fetchWithRetry } from '../../utils/http.js';
+import { defineNode, type TraceContext } from '@jam-nodes/core';
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js';
+import { twitterApiIoCredential } from './credentials.js';
 
 // =============================================================================
 // Constants
@@ -164,23 +165,21 @@ function buildTwitterSearchQuery(
  * Search Twitter using TwitterAPI.io
  */
 async function searchTwitter(
-  apiKey: string,
+  twitterApiIoFetch: AuthenticatedFetch,
   query: string,
-  queryType: 'Latest' | 'Top' = 'Latest'
+  queryType: 'Latest' | 'Top' = 'Latest',
+  trace?: TraceContext
 ): Promise<TwitterApiSearchResponse> {
   const url = new URL(`${TWITTERAPI_BASE_URL}/twitter/tweet/advanced_search`);
   url.searchParams.set('query', query);
   url.searchParams.set('queryType', queryType);
 
-  const response = await fetchWithRetry(
+  const response = await twitterApiIoFetch(
     url.toString(),
     {
       method: 'GET',
-      headers: {
-        'X-API-Key': apiKey,
-      },
     },
-    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 }
+    { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace }
   );
 
   if (!response.ok) {
@@ -218,6 +217,7 @@ export const twitterMonitorNode = defineNode({
   category: 'integration',
   inputSchema: TwitterMonitorInputSchema,
   outputSchema: TwitterMonitorOutputSchema,
+  credentials: { required: ['twitter'], fields: { twitter: ['twitterApiIoKey'] } },
   estimatedDuration: 15,
   capabilities: {
     supportsRerun: true,
@@ -232,14 +232,7 @@ export const twitterMonitorNode = defineNode({
         };
       }
 
-      // Check for API key (prefer TwitterAPI.io key)
-      const apiKey = context.credentials?.twitter?.twitterApiIoKey;
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'Twitter API key not configured. Please provide context.credentials.twitter.twitterApiIoKey.',
-        };
-      }
+      const twitterApiIoFetch = authenticatedFetch(twitterApiIoCredential, context.credentials?.twitter);
 
       // Build the search query
       const sinceDate = input.sinceDays
@@ -256,7 +249,7 @@ export const twitterMonitorNode = defineNode({
       });
 
       // Search tweets
-      const response = await searchTwitter(apiKey, query, 'Latest');
+      const response = await searchTwitter(twitterApiIoFetch, query, 'Latest', context);
 
       // Transform to unified format
       const posts: TwitterPost[] = (response.tweets || [])
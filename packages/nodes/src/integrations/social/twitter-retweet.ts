@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { defineNode } from '@jam-nodes/core';
 import { getAuthenticatedTwitterUserId, twitterRequest } from './twitter-client.js';
+import { TWITTER_OAUTH1_FIELDS } from './credentials.js';
 
 interface TwitterRetweetResponse {
   data?: {
@@ -27,6 +28,7 @@ export const twitterRetweetNode = defineNode({
   category: 'integration',
   inputSchema: TwitterRetweetInputSchema,
   outputSchema: TwitterRetweetOutputSchema,
+  credentials: { required: ['twitter'], fields: { twitter: TWITTER_OAUTH1_FIELDS } },
   estimatedDuration: 6,
   capabilities: {
     supportsRerun: true,
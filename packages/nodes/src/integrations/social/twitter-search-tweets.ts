@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { defineNode } from '@jam-nodes/core';
 import { twitterRequest } from './twitter-client.js';
+import { TWITTER_OAUTH1_FIELDS } from './credentials.js';
 
 interface TwitterSearchTweet {
   id: string;
@@ -47,6 +48,7 @@ export const twitterSearchTweetsNode = defineNode({
   category: 'integration',
   inputSchema: TwitterSearchTweetsInputSchema,
   outputSchema: TwitterSearchTweetsOutputSchema,
+  credentials: { required: ['twitter'], fields: { twitter: TWITTER_OAUTH1_FIELDS } },
   estimatedDuration: 10,
   capabilities: {
     supportsRerun: true,
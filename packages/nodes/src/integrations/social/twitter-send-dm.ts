@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { defineNode } from '@jam-nodes/core';
 import { twitterRequest } from './twitter-client.js';
+import { TWITTER_OAUTH1_FIELDS } from './credentials.js';
 
 interface TwitterSendDMResponse {
   data?: {
@@ -33,6 +34,7 @@ export const twitterSendDMNode = defineNode({
   category: 'integration',
   inputSchema: TwitterSendDMInputSchema,
   outputSchema: TwitterSendDMOutputSchema,
+  credentials: { required: ['twitter'], fields: { twitter: TWITTER_OAUTH1_FIELDS } },
   estimatedDuration: 8,
   capabilities: {
     supportsRerun: true,
@@ -1,5 +1,4 @@
 import { defineNode } from '@jam-nodes/core'
-import { fetchWithRetry } from '../../utils/http.js'
 import { resolveWordPressAuth } from './utils.js'
 import {
   WordPressCreatePostInputSchema,
@@ -16,6 +15,7 @@ export const wordpressCreatePostNode = defineNode({
   category: 'integration',
   inputSchema: WordPressCreatePostInputSchema,
   outputSchema: WordPressCreatePostOutputSchema,
+  credentials: { required: ['wordpress'] },
   estimatedDuration: 5,
   capabilities: {
     supportsRerun: true,
@@ -26,7 +26,7 @@ export const wordpressCreatePostNode = defineNode({
       if ('error' in authResult) {
         return { success: false, error: authResult.error }
       }
-      const { baseUrl, authHeader } = authResult
+      const { baseUrl, wordpressFetch } = authResult
 
       const postBody: Record<string, unknown> = {
         title: input.title,
@@ -41,17 +41,16 @@ export const wordpressCreatePostNode = defineNode({
       if (input.excerpt !== undefined) postBody['excerpt'] = input.excerpt
       if (input.slug !== undefined) postBody['slug'] = input.slug
 
-      const response = await fetchWithRetry(
+      const response = await wordpressFetch(
         `${baseUrl}/wp-json/wp/v2/posts`,
         {
           method: 'POST',
           headers: {
-            Authorization: authHeader,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(postBody),
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 },
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context },
       )
 
       if (!response.ok) {
@@ -14,8 +14,6 @@ export const WordPressCredential = defineBasicCredential({
   authenticate: {
     type: 'header',
     properties: {
-      // Authorization header is computed at runtime as:
-      // Basic base64(username:applicationPassword)
       Authorization: 'Basic {{base64(username:applicationPassword)}}',
     },
   },
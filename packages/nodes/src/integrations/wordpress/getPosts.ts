@@ -1,5 +1,4 @@
 import { defineNode } from '@jam-nodes/core'
-import { fetchWithRetry } from '../../utils/http.js'
 import { resolveWordPressAuth } from './utils.js'
 import {
   WordPressGetPostsInputSchema,
@@ -18,6 +17,7 @@ export const wordpressGetPostsNode = defineNode({
   category: 'integration',
   inputSchema: WordPressGetPostsInputSchema,
   outputSchema: WordPressGetPostsOutputSchema,
+  credentials: { required: ['wordpress'] },
   estimatedDuration: 5,
   capabilities: {
     supportsRerun: true,
@@ -28,7 +28,7 @@ export const wordpressGetPostsNode = defineNode({
       if ('error' in authResult) {
         return { success: false, error: authResult.error }
       }
-      const { baseUrl, authHeader } = authResult
+      const { baseUrl, wordpressFetch } = authResult
 
       const perPage = input.perPage ?? DEFAULT_PER_PAGE
       const page = input.page ?? 1
@@ -40,15 +40,12 @@ export const wordpressGetPostsNode = defineNode({
       if (input.status !== undefined) params.set('status', input.status)
       if (input.search !== undefined) params.set('search', input.search)
 
-      const response = await fetchWithRetry(
+      const response = await wordpressFetch(
         `${baseUrl}/wp-json/wp/v2/posts?${params.toString()}`,
         {
           method: 'GET',
-          headers: {
-            Authorization: authHeader,
-          },
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 },
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context },
       )
 
       if (!response.ok) {
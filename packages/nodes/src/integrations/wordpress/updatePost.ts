@@ -1,5 +1,4 @@
 import { defineNode } from '@jam-nodes/core'
-import { fetchWithRetry } from '../../utils/http.js'
 import { resolveWordPressAuth } from './utils.js'
 import {
   WordPressUpdatePostInputSchema,
@@ -16,6 +15,7 @@ export const wordpressUpdatePostNode = defineNode({
   category: 'integration',
   inputSchema: WordPressUpdatePostInputSchema,
   outputSchema: WordPressUpdatePostOutputSchema,
+  credentials: { required: ['wordpress'] },
   estimatedDuration: 5,
   capabilities: {
     supportsRerun: true,
@@ -26,24 +26,23 @@ export const wordpressUpdatePostNode = defineNode({
       if ('error' in authResult) {
         return { success: false, error: authResult.error }
       }
-      const { baseUrl, authHeader } = authResult
+      const { baseUrl, wordpressFetch } = authResult
 
       const postBody: Record<string, unknown> = {}
       if (input.title !== undefined) postBody['title'] = input.title
       if (input.content !== undefined) postBody['content'] = input.content
       if (input.status !== undefined) postBody['status'] = input.status
 
-      const response = await fetchWithRetry(
+      const response = await wordpressFetch(
         `${baseUrl}/wp-json/wp/v2/posts/${input.postId}`,
         {
           method: 'POST',
           headers: {
-            Authorization: authHeader,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(postBody),
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000 },
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 30000, trace: context },
       )
 
       if (!response.ok) {
@@ -1,5 +1,4 @@
 import { defineNode } from '@jam-nodes/core'
-import { fetchWithRetry } from '../../utils/http.js'
 import { resolveWordPressAuth } from './utils.js'
 import {
   WordPressUploadMediaInputSchema,
@@ -16,6 +15,7 @@ export const wordpressUploadMediaNode = defineNode({
   category: 'integration',
   inputSchema: WordPressUploadMediaInputSchema,
   outputSchema: WordPressUploadMediaOutputSchema,
+  credentials: { required: ['wordpress'] },
   estimatedDuration: 10,
   capabilities: {
     supportsRerun: false,
@@ -26,24 +26,23 @@ export const wordpressUploadMediaNode = defineNode({
       if ('error' in authResult) {
         return { success: false, error: authResult.error }
       }
-      const { baseUrl, authHeader } = authResult
+      const { baseUrl, wordpressFetch } = authResult
 
       const fileBuffer = Buffer.from(input.contentBase64, 'base64')
       const formData = new FormData()
       const blob = new Blob([fileBuffer], { type: input.mimeType })
       formData.append('file', blob, input.filename)
 
-      const response = await fetchWithRetry(
+      const response = await wordpressFetch(
         `${baseUrl}/wp-json/wp/v2/media`,
         {
           method: 'POST',
           headers: {
-            Authorization: authHeader,
             'Content-Disposition': `attachment; filename="${input.filename}"`,
           },
           body: formData,
         },
-        { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000 },
+        { maxRetries: 3, backoffMs: 1000, timeoutMs: 60000, trace: context },
       )
 
       if (!response.ok) {
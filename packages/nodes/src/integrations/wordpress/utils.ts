@@ -1,12 +1,16 @@
+import { authenticatedFetch, type AuthenticatedFetch } from '../../utils/authenticated-fetch.js'
+import { WordPressCredential } from './credentials.js'
+
 /**
- * Resolve WordPress credentials and return computed baseUrl and authHeader.
+ * Resolve WordPress credentials into the site's baseUrl and a fetch that
+ * sends the Application Password as Basic auth.
  * Returns error if credentials are missing.
  */
 export function resolveWordPressAuth(creds: {
   siteUrl?: string
   username?: string
   applicationPassword?: string
-} | undefined): { baseUrl: string; authHeader: string } | { error: string } {
+} | undefined): { baseUrl: string; wordpressFetch: AuthenticatedFetch } | { error: string } {
   if (!creds?.siteUrl || !creds?.username || !creds?.applicationPassword) {
     return {
       error:
@@ -15,7 +19,7 @@ export function resolveWordPressAuth(creds: {
   }
 
   const baseUrl = creds.siteUrl.replace(/\/+$/, '')
-  const authHeader = `Basic ${Buffer.from(`${creds.username}:${creds.applicationPassword}`).toString('base64')}`
+  const wordpressFetch = authenticatedFetch(WordPressCredential, creds)
 
-  return { baseUrl, authHeader }
+  return { baseUrl, wordpressFetch }
 }
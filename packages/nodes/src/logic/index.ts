@@ -21,13 +21,20 @@ export type { DelayInput, DelayOutput } from './delay.js';
 export { DelayInputSchema, DelayOutputSchema } from './delay.js';
 
 export { loopNode } from './loop.js';
-export type { LoopInput, LoopOutput } from './loop.js';
-export { LoopInputSchema, LoopOutputSchema } from './loop.js';
+export type { LoopInput, LoopOutput, LoopBody } from './loop.js';
+export { LoopInputSchema, LoopOutputSchema, LoopBodySchema } from './loop.js';
 
 export { retryNode } from './retry.js';
-export type { RetryInput, RetryOutput } from './retry.js';
-export { RetryInputSchema, RetryOutputSchema } from './retry.js';
+export type { RetryInput, RetryOutput, RetryAttempt } from './retry.js';
+export { RetryInputSchema, RetryOutputSchema, RetryAttemptSchema } from './retry.js';
 
 export { rateLimiterNode } from './rateLimiter.js';
 export type { RateLimiterInput, RateLimiterOutput } from './rateLimiter.js';
-export { RateLimiterInputSchema, RateLimiterOutputSchema } from './rateLimiter.js';
\ No newline at end of file
+export { RateLimiterInputSchema, RateLimiterOutputSchema } from './rateLimiter.js';
+
+export { subWorkflowNode } from './subWorkflow.js';
+export type { SubWorkflowInput, SubWorkflowOutput } from './subWorkflow.js';
+export { SubWorkflowInputSchema, SubWorkflowOutputSchema } from './subWorkflow.js';
+
+export { OperationSchema } from './operation.js';
+export type { Operation } from './operation.js';
@@ -1,6 +1,15 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
 import { loopNode } from './loop';
-import { ExecutionContext } from '@jam-nodes/core';
+import {
+  defineNode,
+  executeWorkflow,
+  ExecutionContext,
+  NodeRegistry,
+  type Workflow,
+  type WorkflowExecutionConfig,
+  type WorkflowRuntime,
+} from '@jam-nodes/core';
 
 describe('loopNode', () => {
   let context: ExecutionContext;
@@ -70,4 +79,171 @@ describe('loopNode', () => {
     // Using a lower threshold due to potential timing variations in test environment
     expect(end - start).toBeGreaterThanOrEqual(5);
   });
-});
\ No newline at end of file
+
+  it('stops waiting and iterating when the workflow is aborted', async () => {
+    const controller = new AbortController();
+    const executeNode = vi.fn(async () => ({ success: false, error: 'flaky' }));
+    const runtime = { nodeId: 'loop', signal: controller.signal, executeNode } as unknown as WorkflowRuntime;
+    setTimeout(() => controller.abort(), 20);
+
+    const result = await loopNode.executor(
+      {
+        items: ['bad', 'ada'],
+        body: { type: 'flaky' },
+        concurrency: 1,
+        delayMs: 0,
+        continueOnError: true,
+        retry: { maxAttempts: 3, backoffMs: 60_000, backoffMultiplier: 2 },
+      },
+      { ...context.toNodeContext('test', 'workflow'), runtime },
+    );
+
+    expect(result).toEqual({ success: false, error: 'Loop aborted' });
+    expect(executeNode).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('loopNode bodies', () => {
+  const events: string[] = [];
+  const attemptsByItem = new Map<string, number>();
+
+  const greetNode = defineNode({
+    type: 'greet',
+    name: 'Greet',
+    description: 'Greets an item',
+    category: 'action',
+    inputSchema: z.object({ name: z.string(), position: z.number(), waitMs: z.number().optional() }),
+    outputSchema: z.object({ greeting: z.string() }),
+    executor: async (input) => {
+      events.push(`start:${input.name}`);
+      await new Promise((resolve) => setTimeout(resolve, input.waitMs ?? 0));
+      events.push(`end:${input.name}`);
+      return { success: true, output: { greeting: `#${input.position} hi ${input.name}` } };
+    },
+  });
+
+  const flakyNode = defineNode({
+    type: 'flaky',
+    name: 'Flaky',
+    description: 'Fails the first time per item, always for "bad"',
+    category: 'action',
+    inputSchema: z.object({ name: z.string() }),
+    outputSchema: z.object({ name: z.string() }),
+    executor: async (input) => {
+      const attempts = (attemptsByItem.get(input.name) ?? 0) + 1;
+      attemptsByItem.set(input.name, attempts);
+      if (input.name === 'bad' || attempts === 1) {
+        return { success: false, error: `flaky ${input.name}` };
+      }
+      return { success: true, output: { name: input.name } };
+    },
+  });
+
+  const registry = new NodeRegistry().register(greetNode).register(flakyNode);
+
+  beforeEach(() => {
+    events.length = 0;
+    attemptsByItem.clear();
+  });
+
+  async function runLoop(input: Record<string, unknown>, config: WorkflowExecutionConfig = {}) {
+    const workflow: Workflow = {
+      entryNodeId: 'loop',
+      nodes: [{ id: 'loop', type: 'loop', node: loopNode, input }],
+      edges: [],
+    };
+    const result = await executeWorkflow(workflow, new ExecutionContext({ names: ['ada', 'bob', 'cy'] }), {
+      registry,
+      ...config,
+    });
+    return result.results['loop']!;
+  }
+
+  it('executes a node type per item with {{item}} and {{index}}', async () => {
+    const started: string[] = [];
+    const result = await runLoop(
+      {
+        items: '{{names}}',
+        body: { type: 'greet', input: { name: '{{item}}', position: '{{index}}' } },
+      },
+      { onNodeStart: (id) => started.push(id) },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.output).toEqual({
+      results: [
+        { greeting: '#0 hi ada' },
+        { greeting: '#1 hi bob' },
+        { greeting: '#2 hi cy' },
+      ],
+    });
+    expect(started).toEqual(['loop', 'loop/0', 'loop/1', 'loop/2']);
+  });
+
+  it('uses a concurrency pool instead of fixed batches', async () => {
+    await runLoop({
+      items: [
+        { name: 'slow', waitMs: 40 },
+        { name: 'a', waitMs: 1 },
+        { name: 'b', waitMs: 1 },
+      ],
+      body: { type: 'greet', input: { name: '{{item.name}}', position: '{{index}}', waitMs: '{{item.waitMs}}' } },
+      concurrency: 2,
+    });
+
+    // 'b' starts as soon as 'a' finishes, while 'slow' is still running
+    expect(events.indexOf('start:b')).toBeLessThan(events.indexOf('end:slow'));
+    expect(events.filter((e) => e.startsWith('start:')).length).toBe(3);
+  });
+
+  it('executes a sub-workflow per item', async () => {
+    const body: Workflow = {
+      entryNodeId: 'say',
+      nodes: [{ id: 'say', type: 'greet', node: greetNode, input: { name: '{{item}}', position: '{{index}}' } }],
+      edges: [],
+    };
+    const result = await runLoop({
+      items: ['ada', 'bob'],
+      body: { workflow: body, output: '{{say.greeting}}' },
+      concurrency: 2,
+    });
+
+    expect(result.output).toEqual({ results: ['#0 hi ada', '#1 hi bob'] });
+  });
+
+  it('retries items and collects per-item errors', async () => {
+    const result = await runLoop({
+      items: ['ada', 'bad', 'cy'],
+      body: { type: 'flaky', input: { name: '{{item}}' } },
+      retry: { maxAttempts: 2 },
+      continueOnError: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toEqual({
+      results: [{ name: 'ada' }, null, { name: 'cy' }],
+      errors: [{ index: 1, error: 'flaky bad', attempts: 2 }],
+    });
+    expect(attemptsByItem.get('ada')).toBe(2);
+  });
+
+  it('stops at the first failing item without continueOnError', async () => {
+    const result = await runLoop({
+      items: ['bad', 'ada'],
+      body: { type: 'flaky', input: { name: '{{item}}' } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Loop iteration failed at index 0: flaky bad');
+    expect(attemptsByItem.has('ada')).toBe(false);
+  });
+
+  it('requires the workflow runtime for bodies', async () => {
+    const result = await loopNode.executor(
+      { items: [1], body: { type: 'greet' }, concurrency: 1, delayMs: 0, continueOnError: false },
+      new ExecutionContext().toNodeContext('test', 'workflow'),
+    );
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -1,14 +1,33 @@
 import { z } from 'zod';
 import { defineNode } from '@jam-nodes/core';
+import { sleep } from '../utils/http.js';
+import { OperationSchema, runOperation, type Operation, type OperationResult } from './operation.js';
+
+/**
+ * Loop body executed once per item.
+ * Either a node type with an input template, or a sub-workflow
+ * (inline or by ID). `{{item}}` and `{{index}}` are available in templates.
+ */
+export const LoopBodySchema = OperationSchema;
+
+export type LoopBody = Operation;
 
 /**
  * Input schema for loop node
  */
 export const LoopInputSchema = z.object({
   items: z.array(z.unknown()).min(0, 'Items array is required'),
+  /** What to run per item; without a body, items are passed through as results */
+  body: LoopBodySchema.optional(),
   concurrency: z.number().int().positive().optional().default(1),
   delayMs: z.number().int().nonnegative().optional().default(0),
   continueOnError: z.boolean().optional().default(false),
+  /** Per-item retry with exponential backoff */
+  retry: z.object({
+    maxAttempts: z.number().int().positive(),
+    backoffMs: z.number().int().nonnegative().optional().default(0),
+    backoffMultiplier: z.number().positive().optional().default(2),
+  }).optional(),
 });
 
 export type LoopInput = z.infer<typeof LoopInputSchema>;
@@ -22,6 +41,7 @@ export const LoopOutputSchema = z.object({
     z.object({
       index: z.number().int().nonnegative(),
       error: z.string(),
+      attempts: z.number().int().positive().optional(),
     })
   ).optional(),
 });
@@ -31,11 +51,28 @@ export type LoopOutput = z.infer<typeof LoopOutputSchema>;
 /**
  * Loop node that iterates over an array of items with rate limiting
  *
- * Executes child nodes for each item in the input array with support for:
- * - Sequential iteration (default)
- * - Parallel execution with concurrency limit
- * - Rate limiting via delay between iterations
- * - Error handling per item with continue option
+ * Executes a body for each item in the input array with support for:
+ * - A node type + input template, or a sub-workflow, per item
+ * - `{{item}}` and `{{index}}` variables in body templates
+ * - A concurrency pool (a new item starts as soon as a slot frees up)
+ * - Rate limiting via delay between item starts
+ * - Per-item retries and error handling with continue option
+ * - Stops when the workflow is aborted, including during delays and backoff
+ *
+ * Body iterations are reported to lifecycle callbacks as `${loopNodeId}/${index}`.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   items: '{{contacts}}',
+ *   body: {
+ *     type: 'draft_emails',
+ *     input: { contacts: ['{{item}}'], productDescription: '{{productDescription}}' }
+ *   },
+ *   concurrency: 3,
+ *   continueOnError: true
+ * }
+ * ```
  */
 export const loopNode = defineNode({
   type: 'loop',
@@ -48,52 +85,112 @@ export const loopNode = defineNode({
   capabilities: {
     supportsRerun: true,
   },
+  rawInputKeys: ['body'],
   executor: async (input, context) => {
-    const { items, concurrency = 1, delayMs = 0, continueOnError = false } = input;
-    
-    const results: unknown[] = [];
-    const errors: { index: number; error: string }[] = [];
-    
-    // Process items in batches based on concurrency
-    for (let batchStart = 0; batchStart < items.length; batchStart += concurrency) {
-      const batchEnd = Math.min(batchStart + concurrency, items.length);
-      const batchItems = items.slice(batchStart, batchEnd);
-      
-      // Process each item in the current batch
-      const batchPromises = batchItems.map(async (item, batchIndex) => {
-        const globalIndex = batchStart + batchIndex;
-        
-        try {
-          // Apply delay if specified (except for first item)
-          if (delayMs > 0 && globalIndex > 0) {
-            await new Promise(resolve => setTimeout(resolve, delayMs));
+    const { items, body, concurrency = 1, delayMs = 0, continueOnError = false } = input;
+    const maxAttempts = input.retry?.maxAttempts ?? 1;
+    const backoffMs = input.retry?.backoffMs ?? 0;
+    const backoffMultiplier = input.retry?.backoffMultiplier ?? 2;
+    const signal = context.runtime?.signal;
+
+    if (body && !context.runtime) {
+      return {
+        success: false,
+        error: 'Loop bodies must be executed inside executeWorkflow',
+      };
+    }
+
+    const results: unknown[] = new Array(items.length).fill(null);
+    const errors: { index: number; error: string; attempts?: number }[] = [];
+    let failure: string | undefined;
+    let next = 0;
+    let nextStartAt = Date.now();
+
+    const runItem = async (item: unknown, index: number): Promise<OperationResult> => {
+      if (!body) {
+        return { success: true, result: item };
+      }
+      return runOperation(
+        body,
+        { ...context.variables, item, index },
+        context.runtime!,
+        String(index)
+      );
+    };
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length && !failure) {
+        if (signal?.aborted) {
+          failure = 'Loop aborted';
+          break;
+        }
+        const index = next++;
+
+        // Space item starts by delayMs
+        if (delayMs > 0) {
+          const now = Date.now();
+          const startAt = Math.max(now, nextStartAt);
+          nextStartAt = startAt + delayMs;
+          if (startAt > now) {
+            await sleep(startAt - now, signal);
+          }
+        }
+
+        let outcome: OperationResult = { success: false, error: 'Not executed' };
+        let attempts = 0;
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+          if (signal?.aborted) {
+            outcome = { success: false, error: 'Loop aborted' };
+            break;
+          }
+
+          attempts = attempt;
+          try {
+            outcome = await runItem(items[index], index);
+          } catch (error) {
+            outcome = {
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            };
           }
-          
-          // For now, we just pass through the item as the result
-          // In a real implementation, this would execute child nodes
-          results[globalIndex] = item;
-          
-          return { success: true, index: globalIndex, result: item };
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          
-          if (!continueOnError) {
-            throw new Error(`Loop iteration failed at index ${globalIndex}: ${errorMessage}`);
+
+          if (outcome.success) break;
+          if (attempt < maxAttempts && backoffMs > 0) {
+            await sleep(backoffMs * Math.pow(backoffMultiplier, attempt - 1), signal);
           }
-          
-          errors.push({
-            index: globalIndex,
-            error: errorMessage,
-          });
-          
-          return { success: false, index: globalIndex, error: errorMessage };
         }
-      });
-      
-      // Wait for all promises in the batch to complete
-      await Promise.all(batchPromises);
+
+        if (outcome.success) {
+          results[index] = outcome.result;
+          continue;
+        }
+        // Aborting stops the loop even with continueOnError
+        if (signal?.aborted) {
+          failure = 'Loop aborted';
+          break;
+        }
+
+        errors.push({
+          index,
+          error: outcome.error,
+          ...(maxAttempts > 1 && { attempts }),
+        });
+
+        if (!continueOnError) {
+          failure = `Loop iteration failed at index ${index}: ${outcome.error}`;
+        }
+      }
+    };
+
+    const poolSize = Math.min(concurrency, items.length);
+    await Promise.all(Array.from({ length: poolSize }, () => worker()));
+
+    if (failure) {
+      return { success: false, error: failure };
     }
-    
+
+    errors.sort((a, b) => a.index - b.index);
+
     return {
       success: true,
       output: {
@@ -102,4 +199,4 @@ export const loopNode = defineNode({
       },
     };
   },
-});
\ No newline at end of file
+});
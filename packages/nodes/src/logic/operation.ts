@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { WorkflowReference, WorkflowRuntime } from '@jam-nodes/core';
+import { describeChildFailure, selectChildOutputs } from './subWorkflow.js';
+
+/**
+ * An operation run by composite logic nodes (loop bodies, retry targets):
+ * either a node type with an input template, or a sub-workflow (inline or by ID).
+ */
+export const OperationSchema = z.object({
+  /** Node type to execute (resolved through the execution config's registry) */
+  type: z.string().optional(),
+  /** Input template for the node type, e.g. { text: 'Hi {{item.name}}' } */
+  input: z.record(z.string(), z.unknown()).optional(),
+  /** Inline workflow to execute */
+  workflow: z.record(z.string(), z.unknown()).optional(),
+  /** ID of a workflow (resolved through workflowProvider) to execute */
+  workflowId: z.string().optional(),
+  /** For workflow operations: template evaluated against the child context to form the result */
+  output: z.unknown().optional(),
+}).refine(
+  (operation) => [operation.type, operation.workflow, operation.workflowId].filter(Boolean).length === 1,
+  { message: 'Operation needs exactly one of type, workflow or workflowId' }
+);
+
+export type Operation = z.infer<typeof OperationSchema>;
+
+export type OperationResult =
+  | { success: true; result: unknown }
+  | { success: false; error: string; errorCode?: string };
+
+/**
+ * Run an operation through the workflow runtime.
+ *
+ * @param variables - Variables available to the operation's templates
+ * @param id - Suffix for nested node IDs reported to lifecycle callbacks
+ */
+export async function runOperation(
+  operation: Operation,
+  variables: Record<string, unknown>,
+  runtime: WorkflowRuntime,
+  id: string
+): Promise<OperationResult> {
+  if (operation.type) {
+    const result = await runtime.executeNode(operation.type, operation.input ?? {}, {
+      id,
+      variables,
+    });
+    return result.success
+      ? { success: true, result: result.output }
+      : {
+          success: false,
+          error: result.error ?? 'Node execution failed',
+          ...(result.errorCode && { errorCode: result.errorCode }),
+        };
+  }
+
+  const reference = (operation.workflowId ?? operation.workflow) as WorkflowReference;
+  const workflow = await runtime.resolveWorkflow(reference);
+  const child = await runtime.executeWorkflow(workflow, variables, { id });
+
+  if (child.success) {
+    return { success: true, result: selectChildOutputs(child, operation.output) };
+  }
+
+  const errorCode = Object.values(child.results).find((result) => result.errorCode)?.errorCode;
+  return {
+    success: false,
+    error: describeChildFailure(child),
+    ...(errorCode && { errorCode }),
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import {
+  defineNode,
+  executeWorkflow,
+  ExecutionContext,
+  FileRateLimitStore,
+  MemoryRateLimitStore,
+  type Workflow,
+  type WorkflowExecutionConfig,
+} from '@jam-nodes/core';
+import { rateLimiterNode } from './rateLimiter';
+
+function limiterWorkflow(count: number, input: Record<string, unknown>): Workflow {
+  const nodes = Array.from({ length: count }, (_, i) => ({
+    id: `limit${i}`,
+    type: 'rateLimiter',
+    node: rateLimiterNode,
+    input,
+  }));
+  return {
+    entryNodeId: 'limit0',
+    nodes,
+    edges: nodes.slice(1).map((node, i) => ({ from: `limit${i}`, to: node.id })),
+  };
+}
+
+async function run(workflow: Workflow, config: WorkflowExecutionConfig) {
+  return executeWorkflow(workflow, new ExecutionContext(), config);
+}
+
+const pingNode = defineNode({
+  type: 'ping',
+  name: 'Ping',
+  description: 'Records when it ran',
+  category: 'action',
+  inputSchema: z.object({}),
+  outputSchema: z.object({ at: z.number() }),
+  executor: async () => ({ success: true, output: { at: Date.now() } }),
+});
+
+describe('rateLimiterNode', () => {
+  it('shares a bucket between nodes and workflow runs', async () => {
+    const rateLimitStore = new MemoryRateLimitStore();
+    const input = { requestsPerWindow: 2, windowMs: 150, strategy: 'fixed', bucket: 'api' };
+
+    const first = await run(limiterWorkflow(2, input), { rateLimitStore });
+    expect(first.results['limit0']?.output).toMatchObject({ limited: false, currentRequests: 1, bucket: 'api' });
+    expect(first.results['limit1']?.output).toMatchObject({ limited: false, currentRequests: 2 });
+
+    // A second run sees the slots taken by the first and has to wait
+    const second = await run(limiterWorkflow(1, input), { rateLimitStore });
+    const output = second.results['limit0']?.output as { limited: boolean; waitedMs: number; currentRequests: number };
+    expect(output.limited).toBe(true);
+    expect(output.waitedMs).toBeGreaterThan(0);
+    expect(output.currentRequests).toBe(1);
+  });
+
+  it('allows bursts and then refills with token_bucket', async () => {
+    const rateLimitStore = new MemoryRateLimitStore();
+    const input = { requestsPerWindow: 3, windowMs: 300, strategy: 'token_bucket', bucket: 'burst' };
+
+    const result = await run(limiterWorkflow(4, input), { rateLimitStore });
+    const outputs = [0, 1, 2, 3].map((i) => result.results[`limit${i}`]?.output as { limited: boolean; waitedMs: number });
+
+    expect(outputs.slice(0, 3).every((o) => !o.limited)).toBe(true);
+    expect(outputs[3]!.limited).toBe(true);
+    expect(outputs[3]!.waitedMs).toBeGreaterThanOrEqual(50);
+  });
+
+  it('limits any node type through nodeConfig', async () => {
+    const workflow: Workflow = {
+      entryNodeId: 'a',
+      nodes: ['a', 'b', 'c'].map((id) => ({ id, type: 'ping', node: pingNode, input: {} })),
+      edges: [
+        { from: 'a', to: 'b' },
+        { from: 'b', to: 'c' },
+      ],
+    };
+
+    const result = await run(workflow, {
+      rateLimitStore: new MemoryRateLimitStore(),
+      nodeConfig: { ping: { rateLimit: { bucket: 'ping', strategy: 'sliding', limit: 2, windowMs: 120 } } },
+    });
+
+    const at = ['a', 'b', 'c'].map((id) => (result.results[id]?.output as { at: number }).at);
+    expect(result.success).toBe(true);
+    expect(at[2]! - at[0]!).toBeGreaterThanOrEqual(100);
+  });
+
+  it('persists buckets with FileRateLimitStore', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'jam-rate-limit-'));
+    try {
+      const input = { requestsPerWindow: 1, windowMs: 60_000, strategy: 'fixed', bucket: 'shared/api' };
+      await run(limiterWorkflow(1, input), { rateLimitStore: new FileRateLimitStore(directory) });
+
+      // A fresh store instance (e.g. another process) sees the exhausted window
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+      const result = await run(limiterWorkflow(1, input), {
+        rateLimitStore: new FileRateLimitStore(directory),
+        signal: controller.signal,
+      });
+
+      expect(result.results['limit0']?.success).toBe(false);
+      expect(result.results['limit0']?.error).toMatch(/aborted/i);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
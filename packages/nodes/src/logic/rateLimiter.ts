@@ -1,13 +1,20 @@
 import { z } from 'zod';
-import { defineNode } from '@jam-nodes/core';
+import { defineNode, acquireRateLimit } from '@jam-nodes/core';
 
 /**
  * Input schema for rate limiter node
  */
 export const RateLimiterInputSchema = z.object({
+  /** Requests per window (fixed/sliding) or bucket capacity (token_bucket) */
   requestsPerWindow: z.number().int().positive(),
+  /** Window length (fixed/sliding) or time to refill an empty bucket (token_bucket) */
   windowMs: z.number().int().positive(),
-  strategy: z.enum(['fixed', 'sliding']),
+  strategy: z.enum(['fixed', 'sliding', 'token_bucket']),
+  /**
+   * Shared bucket name; every limiter using the same bucket shares one quota
+   * across nodes and workflow runs. Defaults to a name derived from the settings.
+   */
+  bucket: z.string().min(1).optional(),
 });
 
 export type RateLimiterInput = z.infer<typeof RateLimiterInputSchema>;
@@ -16,24 +23,32 @@ export type RateLimiterInput = z.infer<typeof RateLimiterInputSchema>;
  * Output schema for rate limiter node
  */
 export const RateLimiterOutputSchema = z.object({
+  /** Whether the node had to wait for a slot */
   limited: z.boolean(),
   currentRequests: z.number(),
   limit: z.number(),
   windowMs: z.number(),
-  strategy: z.enum(['fixed', 'sliding']),
+  strategy: z.enum(['fixed', 'sliding', 'token_bucket']),
+  bucket: z.string(),
+  waitedMs: z.number(),
 });
 
 export type RateLimiterOutput = z.infer<typeof RateLimiterOutputSchema>;
 
 /**
  * Rate limiter node that queues requests to stay within API limits.
- * 
- * This node implements rate limiting by tracking request timestamps and 
- * delaying execution when limits are exceeded.
- * 
+ *
+ * Waits until the named bucket has room, then takes a slot. Bucket state
+ * lives in the execution's `rateLimitStore` (a process-wide in-memory store
+ * by default, or e.g. a FileRateLimitStore to share limits across processes).
+ *
  * Strategies:
  * - fixed: Reset counter at fixed intervals
  * - sliding: Use sliding window algorithm
+ * - token_bucket: Allow bursts up to the limit, refilling continuously
+ *
+ * To limit a node type directly, set `rateLimit` in
+ * `WorkflowExecutionConfig.nodeConfig` instead.
  */
 export const rateLimiterNode = defineNode({
   type: 'rateLimiter',
@@ -48,73 +63,37 @@ export const rateLimiterNode = defineNode({
   },
   executor: async (input, context) => {
     const { requestsPerWindow, windowMs, strategy } = input;
-    
-    // Initialize rate limiting state in context if not present
-    const rateLimitKey = `rateLimit_${JSON.stringify(input)}`;
-    let state = context.variables[rateLimitKey] as {
-      requests: number[];
-      windowStart: number;
-    } | undefined;
-    
-    if (!state) {
-      state = {
-        requests: [],
-        windowStart: Date.now(),
+    const bucket = input.bucket ?? `rateLimiter:${strategy}:${requestsPerWindow}/${windowMs}`;
+
+    try {
+      const { waitedMs, used } = await acquireRateLimit(
+        {
+          bucket,
+          strategy,
+          limit: requestsPerWindow,
+          windowMs,
+          store: context.runtime?.rateLimitStore,
+        },
+        context.runtime?.signal
+      );
+
+      return {
+        success: true,
+        output: {
+          limited: waitedMs > 0,
+          currentRequests: used,
+          limit: requestsPerWindow,
+          windowMs,
+          strategy,
+          bucket,
+          waitedMs,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Rate limiter failed',
       };
-      context.variables[rateLimitKey] = state;
-    }
-    
-    const now = Date.now();
-    const windowStart = state.windowStart;
-    
-    // Remove requests outside the current window
-    if (strategy === 'fixed') {
-      // Fixed window: reset if we've passed the window
-      if (now - windowStart >= windowMs) {
-        state.requests = [];
-        state.windowStart = now;
-      }
-    } else {
-      // Sliding window: remove old requests
-      state.requests = state.requests.filter(timestamp => now - timestamp < windowMs);
-    }
-    
-    // Check if we're at the limit
-    if (state.requests.length >= requestsPerWindow) {
-      // Calculate when the next request will be allowed
-      const oldestRequest = Math.min(...state.requests);
-      const waitTime = windowMs - (now - oldestRequest);
-      
-      // Wait until we can make another request
-      await new Promise(resolve => setTimeout(resolve, Math.max(0, waitTime)));
-      
-      // After waiting, update state
-      const newNow = Date.now();
-      if (strategy === 'fixed') {
-        // Check if we need to reset the window
-        if (newNow - state.windowStart >= windowMs) {
-          state.requests = [];
-          state.windowStart = newNow;
-        }
-      } else {
-        // Sliding window: remove old requests again
-        state.requests = state.requests.filter(timestamp => newNow - timestamp < windowMs);
-      }
     }
-    
-    // Record this request
-    state.requests.push(Date.now());
-    
-    // Operation succeeded - return success
-    return {
-      success: true,
-      output: { 
-        limited: false,
-        currentRequests: state.requests.length,
-        limit: requestsPerWindow,
-        windowMs,
-        strategy
-      },
-    };
   },
-});
\ No newline at end of file
+});
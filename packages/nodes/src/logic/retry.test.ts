@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  defineNode,
+  executeWorkflow,
+  ExecutionContext,
+  NodeRegistry,
+  type Workflow,
+  type WorkflowExecutionConfig,
+  type WorkflowRuntime,
+} from '@jam-nodes/core';
+import { retryNode } from './retry';
+
+class StatusError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+let calls = 0;
+
+const flakyNode = defineNode({
+  type: 'flaky',
+  name: 'Flaky',
+  description: 'Fails until the given attempt',
+  category: 'action',
+  inputSchema: z.object({ succeedOn: z.number(), status: z.number().optional(), attempt: z.number() }),
+  outputSchema: z.object({ value: z.string() }),
+  executor: async (input) => {
+    calls++;
+    if (input.attempt < input.succeedOn) {
+      if (input.status) {
+        throw new StatusError(`Request failed (attempt ${input.attempt})`, input.status);
+      }
+      return { success: false, error: `Temporary timeout (attempt ${input.attempt})` };
+    }
+    return { success: true, output: { value: `ok on ${input.attempt}` } };
+  },
+});
+
+const registry = new NodeRegistry().register(flakyNode);
+
+async function runRetry(input: Record<string, unknown>, config: WorkflowExecutionConfig = {}) {
+  const workflow: Workflow = {
+    entryNodeId: 'retry',
+    nodes: [{ id: 'retry', type: 'retry', node: retryNode, input: { initialDelayMs: 1, ...input } }],
+    edges: [],
+  };
+  const result = await executeWorkflow(workflow, new ExecutionContext(), { registry, ...config });
+  return result.results['retry']!;
+}
+
+describe('retryNode', () => {
+  beforeEach(() => {
+    calls = 0;
+  });
+
+  it('retries a node target until it succeeds and records history', async () => {
+    const started: string[] = [];
+    const result = await runRetry(
+      { target: { type: 'flaky', input: { succeedOn: 3, attempt: '{{attempt}}' } } },
+      { onNodeStart: (id) => started.push(id) },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.output).toMatchObject({
+      success: true,
+      output: { value: 'ok on 3' },
+      attempts: 3,
+      history: [
+        { attempt: 1, success: false, error: 'Temporary timeout (attempt 1)', delayMs: 1 },
+        { attempt: 2, success: false, error: 'Temporary timeout (attempt 2)', delayMs: 2 },
+        { attempt: 3, success: true },
+      ],
+    });
+    expect(started).toEqual(['retry', 'retry/1', 'retry/2', 'retry/3']);
+  });
+
+  it('fails with the last error after all attempts', async () => {
+    const result = await runRetry({
+      target: { type: 'flaky', input: { succeedOn: 10, attempt: '{{attempt}}' } },
+      maxRetries: 2,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Temporary timeout (attempt 2)');
+    expect(result.output).toMatchObject({ success: false, attempts: 2 });
+    expect(calls).toBe(2);
+  });
+
+  it('matches retryOn against structured error codes', async () => {
+    const retried = await runRetry({
+      target: { type: 'flaky', input: { succeedOn: 2, status: 429, attempt: '{{attempt}}' } },
+      retryOn: ['429'],
+    });
+
+    expect(retried.success).toBe(true);
+    expect(retried.output).toMatchObject({
+      history: [{ attempt: 1, success: false, errorCode: '429' }, { attempt: 2, success: true }],
+    });
+  });
+
+  it('stops immediately on errors not listed in retryOn', async () => {
+    const result = await runRetry({
+      target: { type: 'flaky', input: { succeedOn: 2, status: 401, attempt: '{{attempt}}' } },
+      retryOn: ['429', 'timeout'],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('401');
+    expect(calls).toBe(1);
+  });
+
+  it('matches retryOn against error messages', async () => {
+    const result = await runRetry({
+      target: { type: 'flaky', input: { succeedOn: 2, attempt: '{{attempt}}' } },
+      retryOn: ['TIMEOUT'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(calls).toBe(2);
+  });
+
+  it('retries a sub-graph target', async () => {
+    const result = await runRetry({
+      target: {
+        workflow: {
+          entryNodeId: 'step',
+          nodes: [{ id: 'step', type: 'flaky', node: flakyNode, input: { succeedOn: 2, attempt: '{{attempt}}' } }],
+          edges: [],
+        },
+        output: '{{step.value}}',
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toMatchObject({ output: 'ok on 2', attempts: 2 });
+  });
+
+  it('stops waiting and retrying when the workflow is aborted', async () => {
+    const controller = new AbortController();
+    const executeNode = vi.fn(async () => ({ success: false, error: 'Temporary timeout' }));
+    const runtime = { nodeId: 'retry', signal: controller.signal, executeNode } as unknown as WorkflowRuntime;
+    setTimeout(() => controller.abort(), 20);
+
+    const result = await retryNode.executor(
+      {
+        target: { type: 'flaky' },
+        maxRetries: 3,
+        initialDelayMs: 60_000,
+        maxDelayMs: 60_000,
+        backoffMultiplier: 2,
+      },
+      { ...new ExecutionContext().toNodeContext('test', 'workflow'), runtime },
+    );
+
+    expect(result).toMatchObject({ success: false, error: 'Retry aborted', output: { attempts: 1 } });
+    expect(executeNode).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires the workflow runtime', async () => {
+    const result = await retryNode.executor(
+      {
+        target: { type: 'flaky' },
+        maxRetries: 1,
+        initialDelayMs: 0,
+        maxDelayMs: 0,
+        backoffMultiplier: 2,
+      },
+      new ExecutionContext().toNodeContext('test', 'workflow'),
+    );
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -1,19 +1,44 @@
 import { z } from 'zod';
 import { defineNode } from '@jam-nodes/core';
+import { sleep } from '../utils/http.js';
+import { OperationSchema, runOperation, type OperationResult } from './operation.js';
 
 /**
  * Input schema for retry node
  */
 export const RetryInputSchema = z.object({
+  /** Operation to retry: a node type + input template, or a sub-workflow */
+  target: OperationSchema,
+  /** Maximum number of attempts */
   maxRetries: z.number().int().min(1).max(10).default(3),
   initialDelayMs: z.number().int().nonnegative().optional().default(1000),
   maxDelayMs: z.number().int().nonnegative().optional().default(30000),
   backoffMultiplier: z.number().int().min(1).optional().default(2),
+  /**
+   * Only retry failures matching one of these entries: an error code
+   * (e.g. 'ECONNRESET', '429') or a case-insensitive substring of the error
+   * message. Retries every failure when omitted.
+   */
   retryOn: z.array(z.string()).optional(),
 });
 
 export type RetryInput = z.infer<typeof RetryInputSchema>;
 
+/**
+ * A single attempt recorded by the retry node
+ */
+export const RetryAttemptSchema = z.object({
+  attempt: z.number().int().positive(),
+  success: z.boolean(),
+  error: z.string().optional(),
+  errorCode: z.string().optional(),
+  durationMs: z.number().nonnegative(),
+  /** Delay waited after this attempt before the next one */
+  delayMs: z.number().nonnegative().optional(),
+});
+
+export type RetryAttempt = z.infer<typeof RetryAttemptSchema>;
+
 /**
  * Output schema for retry node
  */
@@ -21,12 +46,30 @@ export const RetryOutputSchema = z.object({
   success: z.boolean(),
   output: z.unknown().optional(),
   error: z.string().optional(),
+  attempts: z.number().int().nonnegative(),
+  history: z.array(RetryAttemptSchema),
 });
 
 export type RetryOutput = z.infer<typeof RetryOutputSchema>;
 
 /**
  * Retry node that executes an operation with automatic retry using exponential backoff.
+ *
+ * The target runs through the workflow runtime, so it gets the same
+ * credentials, signal and per-node-type config as any other node; attempts
+ * are reported to lifecycle callbacks as `${retryNodeId}/${attempt}`.
+ * `{{attempt}}` is available in the target's templates. Aborting the workflow
+ * ends the backoff delay and stops retrying.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   target: { type: 'search_contacts', input: { jobTitles: ['CTO'], limit: 10 } },
+ *   maxRetries: 4,
+ *   initialDelayMs: 2000,
+ *   retryOn: ['429', 'timeout', 'ECONNRESET']
+ * }
+ * ```
  */
 export const retryNode = defineNode({
   type: 'retry',
@@ -39,71 +82,117 @@ export const retryNode = defineNode({
   capabilities: {
     supportsRerun: true,
   },
+  rawInputKeys: ['target'],
   executor: async (input, context) => {
-    const { 
-      maxRetries = 3, 
-      initialDelayMs = 1000, 
-      maxDelayMs = 30000, 
-      backoffMultiplier = 2 
+    const {
+      target,
+      maxRetries = 3,
+      initialDelayMs = 1000,
+      maxDelayMs = 30000,
+      backoffMultiplier = 2,
+      retryOn,
     } = input;
-    
-    let lastError: Error | null = null;
-    
-    // Simple operation that can fail based on context (for testing)
-    const operation = async (): Promise<{ success: true; output: unknown }> => {
-      // Simulate failure if context variable is set
-      if (context.variables['retryShouldFail'] === true) {
-        const failAttempt = context.variables['retryFailAttempt'] as number | undefined;
-        const attemptNum = context.variables['retryAttemptCount'] as number || 0;
-        
-        // Increment attempt count
-        context.variables['retryAttemptCount'] = attemptNum + 1;
-        
-        // Check if we should fail this attempt
-        if (failAttempt === undefined || attemptNum < failAttempt) {
-          let errorMessage: string;
-          const retryErrorMessage = context.variables['retryErrorMessage'];
-          if (typeof retryErrorMessage === 'string') {
-            errorMessage = retryErrorMessage;
-          } else {
-            errorMessage = `Simulated failure on attempt ${attemptNum + 1}`;
-          }
-          throw new Error(errorMessage);
-        }
+
+    const runtime = context.runtime;
+    if (!runtime) {
+      return {
+        success: false,
+        error: 'Retry targets must be executed inside executeWorkflow',
+      };
+    }
+
+    const history: RetryAttempt[] = [];
+    let lastFailure: Extract<OperationResult, { success: false }> | undefined;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      if (runtime.signal?.aborted) {
+        lastFailure = { success: false, error: 'Retry aborted' };
+        break;
       }
-      
-      // Return success with some output
-      return { success: true, output: { retried: true, attempt: context.variables['retryAttemptCount'] || 0 } };
-    };
-    
-    // Try the operation up to maxRetries times
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
+
+      const startedAt = Date.now();
+      let outcome: OperationResult;
       try {
-        const result = await operation();
-        return { success: true, output: result.output };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        
-        // If this was our last attempt, don't retry
-        if (attempt === maxRetries - 1) {
-          break;
-        }
-        
-        // Calculate delay with exponential backoff
-        const delay = Math.min(
-          initialDelayMs * Math.pow(backoffMultiplier, attempt),
-          maxDelayMs
+        outcome = await runOperation(
+          target,
+          { ...context.variables, attempt },
+          runtime,
+          String(attempt)
         );
-        
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, delay));
+      } catch (error) {
+        outcome = {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
       }
+      const durationMs = Date.now() - startedAt;
+
+      if (outcome.success) {
+        history.push({ attempt, success: true, durationMs });
+        return {
+          success: true,
+          output: {
+            success: true,
+            output: outcome.result,
+            attempts: attempt,
+            history,
+          },
+        };
+      }
+
+      lastFailure = outcome;
+      const record: RetryAttempt = {
+        attempt,
+        success: false,
+        error: outcome.error,
+        ...(outcome.errorCode && { errorCode: outcome.errorCode }),
+        durationMs,
+      };
+      history.push(record);
+
+      // Stop on the last attempt or on errors that shouldn't be retried
+      if (attempt === maxRetries || !shouldRetry(outcome, retryOn)) {
+        break;
+      }
+
+      const delay = Math.min(
+        initialDelayMs * Math.pow(backoffMultiplier, attempt - 1),
+        maxDelayMs
+      );
+      record.delayMs = delay;
+      await sleep(delay, runtime.signal);
     }
-    
-    // All retries exhausted
+
+    const error = lastFailure?.error ?? 'Operation failed after all retries';
+
     return {
       success: false,
-      error: lastError ? lastError.message : 'Operation failed after all retries',
+      error,
+      ...(lastFailure?.errorCode && { errorCode: lastFailure.errorCode }),
+      output: {
+        success: false,
+        error,
+        attempts: history.length,
+        history,
+      },
     };
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Check a failure against retryOn entries (error codes or message substrings).
+ */
+function shouldRetry(
+  failure: Extract<OperationResult, { success: false }>,
+  retryOn: string[] | undefined
+): boolean {
+  if (!retryOn || retryOn.length === 0) return true;
+
+  const message = failure.error.toLowerCase();
+  const code = failure.errorCode?.toLowerCase();
+
+  return retryOn.some((pattern) => {
+    const normalized = pattern.toLowerCase();
+    return normalized === code || message.includes(normalized);
+  });
+}
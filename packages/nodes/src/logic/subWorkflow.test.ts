@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  defineNode,
+  executeWorkflow,
+  executeWorkflowStream,
+  ExecutionContext,
+  NodeRegistry,
+  serializeWorkflow,
+  type NodeExecutionContext,
+  type Workflow,
+} from '@jam-nodes/core';
+import { subWorkflowNode } from './subWorkflow';
+
+const seenContexts: NodeExecutionContext[] = [];
+
+const shoutNode = defineNode({
+  type: 'shout',
+  name: 'Shout',
+  description: 'Uppercases text',
+  category: 'transform',
+  inputSchema: z.object({ text: z.string() }),
+  outputSchema: z.object({ loud: z.string() }),
+  executor: async (input, context) => {
+    seenContexts.push(context);
+    return { success: true, output: { loud: input.text.toUpperCase() } };
+  },
+});
+
+const failNode = defineNode({
+  type: 'fail',
+  name: 'Fail',
+  description: 'Always fails',
+  category: 'action',
+  inputSchema: z.object({}),
+  outputSchema: z.object({}),
+  executor: async () => ({ success: false, error: 'boom' }),
+});
+
+const child: Workflow = {
+  entryNodeId: 'first',
+  nodes: [
+    { id: 'first', type: 'shout', node: shoutNode, input: { text: '{{topic}}' } },
+    { id: 'second', type: 'shout', node: shoutNode, input: { text: '{{first.loud}}!' } },
+  ],
+  edges: [{ from: 'first', to: 'second' }],
+};
+
+function parentWith(input: Record<string, unknown>): Workflow {
+  return {
+    entryNodeId: 'sub',
+    nodes: [{ id: 'sub', type: 'sub_workflow', node: subWorkflowNode, input }],
+    edges: [],
+  };
+}
+
+describe('subWorkflowNode', () => {
+  it('runs an inline workflow with mapped input and selected outputs', async () => {
+    const context = new ExecutionContext({ keyword: 'jam' });
+    const result = await executeWorkflow(
+      parentWith({
+        workflow: child,
+        input: { topic: '{{keyword}}' },
+        outputs: { headline: '{{second.loud}}' },
+      }),
+      context,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.results['sub']?.output).toEqual({
+      outputs: { headline: 'JAM!' },
+      executionId: `${result.executionId}/sub`,
+    });
+    expect(context.getVariable('outputs')).toEqual({ headline: 'JAM!' });
+  });
+
+  it('returns every child output when no mapping is given', async () => {
+    const result = await executeWorkflow(
+      parentWith({ workflow: child, input: { topic: 'hi' } }),
+      new ExecutionContext(),
+    );
+
+    expect(result.results['sub']?.output).toMatchObject({
+      outputs: { first: { loud: 'HI' }, second: { loud: 'HI!' } },
+    });
+  });
+
+  it('loads workflows by id from the workflow provider', async () => {
+    const registry = new NodeRegistry().register(shoutNode);
+    const result = await executeWorkflow(
+      parentWith({ workflowId: 'shout-twice', input: { topic: 'doc' } }),
+      new ExecutionContext(),
+      {
+        registry,
+        workflowProvider: {
+          getWorkflow: async (id) => (id === 'shout-twice' ? serializeWorkflow(child) : undefined),
+        },
+      },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.results['sub']?.output).toMatchObject({
+      outputs: { second: { loud: 'DOC!' } },
+    });
+  });
+
+  it('propagates user, credentials and nested callback ids', async () => {
+    seenContexts.length = 0;
+    const started: string[] = [];
+    const completed: string[] = [];
+
+    await executeWorkflow(
+      parentWith({ workflow: child, input: { topic: 'x' } }),
+      new ExecutionContext(),
+      {
+        userId: 'user-1',
+        credentials: { openai: { apiKey: 'sk-test' } },
+        onNodeStart: (id) => started.push(id),
+        onNodeComplete: (id) => completed.push(id),
+      },
+    );
+
+    expect(started).toEqual(['sub', 'sub/first', 'sub/second']);
+    expect(completed).toEqual(['sub/first', 'sub/second', 'sub']);
+    expect(seenContexts.map((c) => c.userId)).toEqual(['user-1', 'user-1']);
+    expect(seenContexts[0]?.credentials?.openai?.apiKey).toBe('sk-test');
+    expect(seenContexts[0]?.runtime?.nodeId).toBe('first');
+  });
+
+  it('streams child events with nested node and execution ids', async () => {
+    const events: string[] = [];
+    let parentId = '';
+
+    for await (const event of executeWorkflowStream(
+      parentWith({ workflow: child, input: { topic: 'x' } }),
+      new ExecutionContext(),
+    )) {
+      if (event.type === 'workflow_started' && !parentId) parentId = event.executionId;
+      if (event.type === 'node_succeeded') events.push(`${event.executionId}:${event.nodeId}`);
+    }
+
+    expect(events).toEqual([
+      `${parentId}/sub:sub/first`,
+      `${parentId}/sub:sub/second`,
+      `${parentId}:sub`,
+    ]);
+  });
+
+  it('propagates the parent abort signal', async () => {
+    const controller = new AbortController();
+    const abortNode = defineNode({
+      type: 'abort',
+      name: 'Abort',
+      description: 'Aborts the parent execution',
+      category: 'action',
+      inputSchema: z.object({}),
+      outputSchema: z.object({}),
+      executor: async () => {
+        controller.abort();
+        return { success: true, output: {} };
+      },
+    });
+    const abortingChild: Workflow = {
+      entryNodeId: 'stop',
+      nodes: [
+        { id: 'stop', type: 'abort', node: abortNode, input: {} },
+        { id: 'after', type: 'shout', node: shoutNode, input: { text: 'never' } },
+      ],
+      edges: [{ from: 'stop', to: 'after' }],
+    };
+    const started: string[] = [];
+
+    await executeWorkflow(
+      parentWith({ workflow: abortingChild, input: {} }),
+      new ExecutionContext(),
+      { signal: controller.signal, onNodeStart: (id) => started.push(id) },
+    );
+
+    expect(started).toEqual(['sub', 'sub/stop']);
+  });
+
+  it('fails with the child error', async () => {
+    const errors: string[] = [];
+    const result = await executeWorkflow(
+      parentWith({
+        workflow: {
+          entryNodeId: 'bad',
+          nodes: [{ id: 'bad', type: 'fail', node: failNode, input: {} }],
+          edges: [],
+        },
+      }),
+      new ExecutionContext(),
+      { onNodeError: (id) => errors.push(id) },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.results['sub']?.error).toBe('Sub-workflow failed (bad: boom)');
+    expect(errors).toEqual(['sub/bad', 'sub']);
+  });
+
+  it('reports unknown workflow ids', async () => {
+    const result = await executeWorkflow(
+      parentWith({ workflowId: 'missing' }),
+      new ExecutionContext(),
+      { workflowProvider: { getWorkflow: async () => undefined } },
+    );
+
+    expect(result.results['sub']?.error).toBe('Workflow "missing" not found');
+  });
+
+  it('fails workflows that call themselves through the provider', async () => {
+    const calls: Record<string, string> = { a: 'b', b: 'a' };
+    const result = await executeWorkflow(
+      parentWith({ workflowId: 'a' }),
+      new ExecutionContext(),
+      { workflowProvider: { getWorkflow: async (id) => parentWith({ workflowId: calls[id] }) } },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.results['sub']?.error).toBe(
+      'Sub-workflow failed (sub: Sub-workflow failed (sub: Workflow "a" calls itself (a → b → a)))',
+    );
+  });
+
+  it('fails workflows nested deeper than maxWorkflowDepth', async () => {
+    const levels: string[] = [];
+    const result = await executeWorkflow(
+      parentWith({ workflowId: 'level-1' }),
+      new ExecutionContext(),
+      {
+        maxWorkflowDepth: 3,
+        workflowProvider: {
+          getWorkflow: async (id) => {
+            levels.push(id);
+            return parentWith({ workflowId: `level-${levels.length + 1}` });
+          },
+        },
+      },
+    );
+
+    expect(result.success).toBe(false);
+    expect(levels).toEqual(['level-1', 'level-2', 'level-3', 'level-4']);
+    expect(result.results['sub']?.error).toContain('Workflows are nested more than 3 levels deep');
+  });
+
+  it('requires the workflow runtime', async () => {
+    const result = await subWorkflowNode.executor(
+      { workflowId: 'anything', input: {} },
+      new ExecutionContext().toNodeContext('test', 'workflow'),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('executeWorkflow');
+  });
+});
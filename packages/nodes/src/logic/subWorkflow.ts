@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import {
+  defineNode,
+  ExecutionContext,
+  type ChildWorkflowResult,
+  type WorkflowReference,
+} from '@jam-nodes/core';
+
+/**
+ * Input schema for sub-workflow node
+ */
+export const SubWorkflowInputSchema = z.object({
+  /** ID of a workflow resolved through the execution config's workflowProvider */
+  workflowId: z.string().optional(),
+  /** Inline workflow (executable Workflow or portable WorkflowDocument) */
+  workflow: z.record(z.string(), z.unknown()).optional(),
+  /** Variables for the child execution context */
+  input: z.record(z.string(), z.unknown()).optional().default({}),
+  /**
+   * Child outputs to return, as templates evaluated against the child context
+   * (e.g. { summary: '{{analyze.summary}}' }). Defaults to every child node's output.
+   */
+  outputs: z.record(z.string(), z.unknown()).optional(),
+}).refine(
+  (input) => Boolean(input.workflowId) !== Boolean(input.workflow),
+  { message: 'Provide exactly one of workflowId or workflow' }
+);
+
+export type SubWorkflowInput = z.infer<typeof SubWorkflowInputSchema>;
+
+/**
+ * Output schema for sub-workflow node
+ */
+export const SubWorkflowOutputSchema = z.object({
+  outputs: z.record(z.string(), z.unknown()),
+  executionId: z.string(),
+});
+
+export type SubWorkflowOutput = z.infer<typeof SubWorkflowOutputSchema>;
+
+/**
+ * Sub-workflow node - runs another workflow as a single step.
+ *
+ * The child runs through executeWorkflow with the parent's abort signal,
+ * user, credentials and lifecycle callbacks; child node IDs are reported as
+ * `${subWorkflowNodeId}/${childNodeId}`. `workflow` and `outputs` are not
+ * interpolated against the parent context, so their templates refer to the
+ * child's variables. A workflow ID that is already running further up fails
+ * as a cycle, and nesting is limited by the config's `maxWorkflowDepth`.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   workflowId: 'monitor-analyze-notify',
+ *   input: { keywords: '{{keywords}}' },
+ *   outputs: { posts: '{{analyze.posts}}' }
+ * }
+ * ```
+ */
+export const subWorkflowNode = defineNode({
+  type: 'sub_workflow',
+  name: 'Sub-Workflow',
+  description: 'Run another workflow as a single step',
+  category: 'logic',
+  inputSchema: SubWorkflowInputSchema,
+  outputSchema: SubWorkflowOutputSchema,
+  rawInputKeys: ['workflow', 'outputs'],
+  executor: async (input, context) => {
+    const runtime = context.runtime;
+    if (!runtime) {
+      return {
+        success: false,
+        error: 'sub_workflow must be executed inside executeWorkflow',
+      };
+    }
+
+    try {
+      const reference = (input.workflowId ?? input.workflow) as WorkflowReference;
+      const workflow = await runtime.resolveWorkflow(reference);
+      const child = await runtime.executeWorkflow(workflow, input.input);
+
+      if (!child.success) {
+        return {
+          success: false,
+          error: `Sub-workflow failed (${describeChildFailure(child)})`,
+        };
+      }
+
+      return {
+        success: true,
+        output: {
+          outputs: selectChildOutputs(child, input.outputs),
+          executionId: child.executionId,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Sub-workflow execution failed',
+      };
+    }
+  },
+});
+
+/**
+ * Evaluate an output template against a finished child workflow, or collect
+ * every child node's output keyed by node ID when no template is given.
+ */
+export function selectChildOutputs<T = Record<string, unknown>>(
+  child: ChildWorkflowResult,
+  template?: T
+): T | Record<string, unknown> {
+  if (template !== undefined) {
+    return new ExecutionContext(child.variables).interpolateObject(template);
+  }
+
+  return Object.fromEntries(
+    Object.entries(child.results)
+      .filter(([, result]) => result.output !== undefined)
+      .map(([nodeId, result]) => [nodeId, result.output])
+  );
+}
+
+/**
+ * Summarize why a child workflow did not succeed (failed or pending nodes).
+ */
+export function describeChildFailure(child: ChildWorkflowResult): string {
+  const failures = Object.entries(child.statuses)
+    .filter(([, status]) => status === 'error' || status === 'waiting_approval')
+    .map(([nodeId, status]) => status === 'error'
+      ? `${nodeId}: ${child.results[nodeId]?.error ?? 'failed'}`
+      : `${nodeId}: waiting for approval`);
+
+  return failures.join('; ') || 'execution aborted';
+}
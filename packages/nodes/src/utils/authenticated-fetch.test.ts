@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { defineApiKeyCredential, defineOAuth2Credential } from '@jam-nodes/core';
+import { devtoCredential } from '../integrations/devto/index.js';
+import { discordWebhookCredential } from '../integrations/discord/index.js';
+import { twitterCredential } from '../integrations/social/index.js';
+import { WordPressCredential } from '../integrations/wordpress/index.js';
+import { authenticatedFetch } from './authenticated-fetch.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+function stubFetch() {
+  const fetchMock = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function lastRequest(fetchMock: ReturnType<typeof stubFetch>) {
+  const [url, init] = fetchMock.mock.calls.at(-1) as [string, RequestInit];
+  return { url, init, headers: init.headers as Record<string, string> };
+}
+
+const searchCredential = (type: 'query' | 'body') =>
+  defineApiKeyCredential({
+    name: 'search',
+    displayName: 'Search API',
+    schema: z.object({ apiKey: z.string() }),
+    authenticate: { type, properties: { api_key: '{{apiKey}}' } },
+  });
+
+describe('authenticatedFetch', () => {
+  it('adds header properties next to the request headers', async () => {
+    const fetchMock = stubFetch();
+
+    await authenticatedFetch(devtoCredential, { apiKey: 'dev-key' })('https://dev.to/api/articles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const { headers, init } = lastRequest(fetchMock);
+    expect(headers).toEqual({ 'Content-Type': 'application/json', 'api-key': 'dev-key' });
+    expect(init.method).toBe('POST');
+  });
+
+  it('encodes base64(username:password) placeholders for Basic auth', async () => {
+    const fetchMock = stubFetch();
+
+    await authenticatedFetch(WordPressCredential, {
+      siteUrl: 'https://example.com',
+      username: 'admin',
+      applicationPassword: 'abcd efgh',
+    })('https://example.com/wp-json/wp/v2/posts');
+
+    expect(lastRequest(fetchMock).headers['Authorization']).toBe(
+      `Basic ${Buffer.from('admin:abcd efgh').toString('base64')}`
+    );
+  });
+
+  it('adds query properties to the URL', async () => {
+    const fetchMock = stubFetch();
+
+    await authenticatedFetch(searchCredential('query'), { apiKey: 'q-key' })(
+      'https://api.example.com/search?q=jam'
+    );
+
+    expect(lastRequest(fetchMock).url).toBe('https://api.example.com/search?q=jam&api_key=q-key');
+  });
+
+  it('merges body properties into a JSON body', async () => {
+    const fetchMock = stubFetch();
+
+    await authenticatedFetch(searchCredential('body'), { apiKey: 'b-key' })(
+      'https://api.example.com/search',
+      { method: 'POST', body: JSON.stringify({ q: 'jam' }) }
+    );
+
+    expect(JSON.parse(String(lastRequest(fetchMock).init.body))).toEqual({ q: 'jam', api_key: 'b-key' });
+  });
+
+  it('sends OAuth2 access tokens as Bearer by default', async () => {
+    const fetchMock = stubFetch();
+    const oauthCredential = defineOAuth2Credential({
+      name: 'example',
+      displayName: 'Example OAuth2',
+      schema: z.object({ accessToken: z.string() }),
+      config: { authorizationUrl: 'https://example.com/authorize', tokenUrl: 'https://example.com/token', scopes: [] },
+    });
+
+    await authenticatedFetch(oauthCredential, { accessToken: 'oauth-token' })('https://api.example.com/me');
+
+    expect(lastRequest(fetchMock).headers['Authorization']).toBe('Bearer oauth-token');
+  });
+
+  it('falls back between fields with ||', async () => {
+    const fetchMock = stubFetch();
+
+    await authenticatedFetch(twitterCredential, { bearerToken: 'app-token' })('https://api.twitter.com/2/tweets');
+
+    expect(lastRequest(fetchMock).headers['Authorization']).toBe('Bearer app-token');
+  });
+
+  it('names the missing credential fields without sending the request', async () => {
+    const fetchMock = stubFetch();
+
+    await expect(
+      authenticatedFetch(WordPressCredential, { siteUrl: 'https://example.com' })('https://example.com')
+    ).rejects.toThrow(
+      'Please provide context.credentials.wordpress.username, context.credentials.wordpress.applicationPassword.'
+    );
+    await expect(
+      authenticatedFetch(twitterCredential, undefined)('https://api.twitter.com/2/tweets')
+    ).rejects.toThrow(
+      'Please provide context.credentials.twitter.accessToken or context.credentials.twitter.bearerToken.'
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('leaves webhook requests unchanged', async () => {
+    const fetchMock = stubFetch();
+
+    await authenticatedFetch(discordWebhookCredential, undefined)('https://discord.com/api/webhooks/1/abc', {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    expect(lastRequest(fetchMock).headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Apply a credential definition's `authenticate` rules to HTTP requests.
+ */
+
+import {
+  ExecutionContext,
+  parseExpression,
+  type CredentialAuthenticate,
+  type CredentialDefinition,
+  type ExpressionNode,
+} from '@jam-nodes/core';
+import { fetchWithRetry, type FetchWithRetryOptions } from './http.js';
+
+/**
+ * Fetch function returned by authenticatedFetch, with the same arguments as fetchWithRetry.
+ */
+export type AuthenticatedFetch = (
+  url: string,
+  options?: RequestInit,
+  config?: FetchWithRetryOptions
+) => Promise<Response>;
+
+const PLACEHOLDER = /\{\{\s*(.*?)\s*\}\}/g;
+const BASE64_PLACEHOLDER = /^base64\(([\w.]+(?::[\w.]+)*)\)$/;
+
+/** OAuth2 credentials without an explicit `authenticate` send their access token. */
+const BEARER_ACCESS_TOKEN: CredentialAuthenticate = {
+  type: 'header',
+  properties: { Authorization: 'Bearer {{accessToken}}' },
+};
+
+/**
+ * Create a fetch that authenticates every request as the credential
+ * definition describes, on top of fetchWithRetry.
+ *
+ * `authenticate.properties` are resolved against the credentials and added
+ * as headers, query parameters or body fields. Placeholders are `{{ }}`
+ * expressions (e.g. `{{apiKey}}` or `{{accessToken || bearerToken}}`), plus
+ * `{{base64(username:password)}}` for Basic auth. OAuth2 credentials default
+ * to `Authorization: Bearer {{accessToken}}`; webhook credentials add nothing.
+ *
+ * @throws Error naming the missing `context.credentials` fields when a
+ *   placeholder resolves to nothing, before any request is sent
+ *
+ * @example
+ * ```typescript
+ * const devtoFetch = authenticatedFetch(devtoCredential, context.credentials?.devto);
+ * const response = await devtoFetch(`${DEVTO_API_BASE}/articles/me`, {}, { trace: context });
+ * ```
+ */
+export function authenticatedFetch(
+  credential: CredentialDefinition,
+  credentials: object | undefined
+): AuthenticatedFetch {
+  const authenticate = getAuthenticate(credential);
+  const values = (credentials ?? {}) as Record<string, unknown>;
+
+  return async (url, options = {}, config = {}) => {
+    if (!authenticate) {
+      return fetchWithRetry(url, options, config);
+    }
+
+    const properties = Object.fromEntries(
+      Object.entries(authenticate.properties).map(([key, template]) => [
+        key,
+        resolveTemplate(credential, values, template),
+      ])
+    );
+    const request = applyAuthenticate(url, options, authenticate.type, properties);
+    return fetchWithRetry(request.url, request.options, config);
+  };
+}
+
+function getAuthenticate(credential: CredentialDefinition): CredentialAuthenticate | undefined {
+  switch (credential.type) {
+    case 'oauth2':
+    case 'oauth2_pkce':
+      return credential.authenticate ?? BEARER_ACCESS_TOKEN;
+    case 'webhook':
+      return undefined;
+    default:
+      return credential.authenticate;
+  }
+}
+
+/**
+ * Replace each `{{ }}` placeholder in a template (an authenticate property or
+ * a test request URL) with its value.
+ * @throws Error if a placeholder refers to credential fields that are not set
+ */
+export function resolveTemplate(
+  credential: CredentialDefinition,
+  credentials: Record<string, unknown>,
+  template: string
+): string {
+  const scope = new ExecutionContext(credentials);
+
+  return template.replace(PLACEHOLDER, (_match, source: string) => {
+    const base64 = BASE64_PLACEHOLDER.exec(source);
+    if (base64) {
+      const fields = base64[1]!.split(':');
+      const missing = fields.filter((field) => isEmpty(scope.resolveNestedPath(field)));
+      if (missing.length > 0) {
+        throw missingFieldsError(credential, missing, ', ');
+      }
+      const joined = fields.map((field) => String(scope.resolveNestedPath(field))).join(':');
+      return Buffer.from(joined).toString('base64');
+    }
+
+    const value = scope.evaluate(source);
+    if (isEmpty(value)) {
+      // Any one of the fields may do, e.g. {{accessToken || bearerToken}}
+      throw missingFieldsError(credential, referencedFields(parseExpression(source)), ' or ');
+    }
+    return String(value);
+  });
+}
+
+function applyAuthenticate(
+  url: string,
+  options: RequestInit,
+  type: CredentialAuthenticate['type'],
+  properties: Record<string, string>
+): { url: string; options: RequestInit } {
+  switch (type) {
+    case 'header':
+      return {
+        url,
+        options: { ...options, headers: { ...headersToRecord(options.headers), ...properties } },
+      };
+    case 'query': {
+      const withQuery = new URL(url);
+      for (const [key, value] of Object.entries(properties)) {
+        withQuery.searchParams.set(key, value);
+      }
+      return { url: withQuery.toString(), options };
+    }
+    case 'body':
+      return { url, options: withBodyProperties(options, properties) };
+  }
+}
+
+/** Add properties to a JSON, form or empty request body. */
+function withBodyProperties(options: RequestInit, properties: Record<string, string>): RequestInit {
+  const { body } = options;
+
+  if (body === undefined || body === null) {
+    return {
+      ...options,
+      headers: { 'Content-Type': 'application/json', ...headersToRecord(options.headers) },
+      body: JSON.stringify(properties),
+    };
+  }
+  if (body instanceof URLSearchParams || body instanceof FormData) {
+    for (const [key, value] of Object.entries(properties)) {
+      body.set(key, value);
+    }
+    return options;
+  }
+  if (typeof body === 'string') {
+    const parsed: unknown = JSON.parse(body);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { ...options, body: JSON.stringify({ ...parsed, ...properties }) };
+    }
+  }
+  throw new Error('Credentials can only be added to a JSON object, form or empty request body');
+}
+
+function headersToRecord(headers: HeadersInit | undefined): Record<string, string> {
+  if (!headers) return {};
+  if (headers instanceof Headers) {
+    const record: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+    return record;
+  }
+  if (Array.isArray(headers)) return Object.fromEntries(headers);
+  return { ...headers };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/** Credential fields an expression reads, in order of appearance. */
+function referencedFields(node: ExpressionNode): string[] {
+  switch (node.kind) {
+    case 'path':
+      return [node.path];
+    case 'unary':
+      return referencedFields(node.operand);
+    case 'binary':
+      return [...referencedFields(node.left), ...referencedFields(node.right)];
+    case 'filter':
+      return [node.input, ...node.args].flatMap(referencedFields);
+    default:
+      return [];
+  }
+}
+
+function missingFieldsError(
+  credential: CredentialDefinition,
+  fields: string[],
+  separator: string
+): Error {
+  const paths = fields.map((field) => `context.credentials.${credential.name}.${field}`);
+  return new Error(
+    `${credential.displayName} credentials not configured. Please provide ${paths.join(separator)}.`
+  );
+}
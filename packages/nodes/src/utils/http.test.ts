@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { executeWorkflow, ExecutionContext, InMemoryTracer, type Workflow } from '@jam-nodes/core';
+import { discordSendMessageNode } from '../integrations/discord/index.js';
+import { fetchWithRetry, FetchRetryError } from './http.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('fetchWithRetry tracing', () => {
+  it('records one HTTP span with status, retries and no query string', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const tracer = new InMemoryTracer();
+
+    const response = await fetchWithRetry(
+      'https://api.example.com/v1/items?api_key=secret',
+      { method: 'post' },
+      { backoffMs: 1, trace: { tracer } }
+    );
+
+    expect(response.status).toBe(200);
+    const [span] = tracer.getFinishedSpans();
+    expect(tracer.getFinishedSpans()).toHaveLength(1);
+    expect(span).toMatchObject({
+      name: 'HTTP POST',
+      status: { code: 'ok' },
+      attributes: {
+        'http.request.method': 'POST',
+        'server.address': 'api.example.com',
+        'url.path': '/v1/items',
+        'http.response.status_code': 200,
+        'http.request.resend_count': 1,
+      },
+    });
+    expect(JSON.stringify(span)).not.toContain('secret');
+  });
+
+  it('marks the span as failed when the request is rejected', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('no', { status: 401 })));
+    const tracer = new InMemoryTracer();
+
+    await expect(
+      fetchWithRetry('https://api.example.com/me', {}, { trace: { tracer } })
+    ).rejects.toBeInstanceOf(FetchRetryError);
+
+    expect(tracer.getFinishedSpans()[0]).toMatchObject({
+      status: { code: 'error' },
+      attributes: { 'http.response.status_code': 401 },
+      exceptions: [expect.stringContaining('401')],
+    });
+  });
+
+  it('nests node HTTP calls under workflow, node and attempt spans', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ id: 'm1', channel_id: '123', content: 'hi', embeds: [] }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      )
+    );
+    const tracer = new InMemoryTracer();
+    const workflow: Workflow = {
+      entryNodeId: 'send',
+      nodes: [
+        {
+          id: 'send',
+          type: 'discord_send_message',
+          node: discordSendMessageNode,
+          input: { channelId: '123', content: 'hi' },
+        },
+      ],
+      edges: [],
+    };
+
+    const result = await executeWorkflow(workflow, new ExecutionContext(), {
+      tracer,
+      credentials: { discordBot: { botToken: 'token_abc' } },
+    });
+
+    expect(result.success).toBe(true);
+    const spans = Object.fromEntries(tracer.getFinishedSpans().map((s) => [s.name, s]));
+    expect(Object.keys(spans)).toEqual(['HTTP POST', 'node.attempt', 'node', 'workflow']);
+    expect(spans['HTTP POST']?.parentSpanId).toBe(spans['node.attempt']?.spanId);
+    expect(spans['node.attempt']?.parentSpanId).toBe(spans['node']?.spanId);
+    expect(spans['node']?.parentSpanId).toBe(spans['workflow']?.spanId);
+    expect(spans['node']?.attributes).toMatchObject({
+      'jam.node.id': 'send',
+      'jam.node.type': 'discord_send_message',
+      'jam.node.status': 'success',
+    });
+    expect(spans['workflow']?.attributes['jam.execution.id']).toBe(result.executionId);
+  });
+});
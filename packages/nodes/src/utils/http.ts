@@ -2,11 +2,21 @@
  * HTTP utilities for making API calls with retry logic, timeouts, and rate limiting.
  */
 
+import { startSpan, type Span, type SpanAttributes, type TraceContext } from '@jam-nodes/core';
+
 /**
- * Sleep for a specified duration
+ * Sleep for a specified duration, ending early when the signal aborts
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
 
 /**
@@ -19,6 +29,8 @@ export interface FetchWithRetryOptions {
   backoffMs?: number;
   /** Request timeout in milliseconds (default: 30000) */
   timeoutMs?: number;
+  /** Records the call as an HTTP span; pass the node's execution context */
+  trace?: TraceContext;
 }
 
 /**
@@ -43,6 +55,7 @@ export class FetchRetryError extends Error {
  * - Configurable timeout
  * - Respects Retry-After header
  * - Does not retry on auth errors (401, 403) or client errors (4xx)
+ * - Records an 'HTTP <method>' span when `config.trace` is given
  *
  * @param url - URL to fetch
  * @param options - Fetch options (same as native fetch)
@@ -59,7 +72,7 @@ export class FetchRetryError extends Error {
  *     headers: { 'Authorization': 'Bearer token' },
  *     body: JSON.stringify({ key: 'value' })
  *   },
- *   { maxRetries: 3, timeoutMs: 30000 }
+ *   { maxRetries: 3, timeoutMs: 30000, trace: context }
  * );
  * ```
  */
@@ -67,12 +80,60 @@ export async function fetchWithRetry(
   url: string,
   options: RequestInit = {},
   config: FetchWithRetryOptions = {}
+): Promise<Response> {
+  const method = (options.method || 'GET').toUpperCase();
+  const span = startSpan(config.trace, `HTTP ${method}`, httpSpanAttributes(url, method));
+
+  try {
+    const response = await fetchWithRetryAttempts(url, options, config, span);
+    span.setAttribute('http.response.status_code', response.status);
+    span.setStatus(response.ok ? { code: 'ok' } : { code: 'error', message: `HTTP ${response.status}` });
+    return response;
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (err instanceof FetchRetryError && err.status !== undefined) {
+      span.setAttribute('http.response.status_code', err.status);
+    }
+    span.recordException(err);
+    span.setStatus({ code: 'error', message: err.message });
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Span attributes for an HTTP call. The query string is left out since it
+ * may carry API keys.
+ */
+function httpSpanAttributes(url: string, method: string): SpanAttributes {
+  try {
+    const parsed = new URL(url);
+    return {
+      'http.request.method': method,
+      'server.address': parsed.hostname,
+      'url.path': parsed.pathname,
+    };
+  } catch {
+    return { 'http.request.method': method };
+  }
+}
+
+async function fetchWithRetryAttempts(
+  url: string,
+  options: RequestInit,
+  config: FetchWithRetryOptions,
+  span: Span
 ): Promise<Response> {
   const { maxRetries = 3, backoffMs = 1000, timeoutMs = 30000 } = config;
 
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
+    if (attempt > 0) {
+      span.setAttribute('http.request.resend_count', attempt);
+    }
+
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
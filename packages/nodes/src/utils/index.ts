@@ -7,3 +7,11 @@ export {
 } from './http.js';
 
 export { resolvePath } from './resolve-path.js';
+
+export { authenticatedFetch, type AuthenticatedFetch } from './authenticated-fetch.js';
+
+export {
+  testCredential,
+  type CredentialTestResult,
+  type TestCredentialOptions,
+} from './test-credential.js';
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { devtoCredential } from '../integrations/devto/index.js';
+import { discordWebhookCredential } from '../integrations/discord/index.js';
+import { twitterCredential } from '../integrations/social/index.js';
+import { WordPressCredential } from '../integrations/wordpress/index.js';
+import { testCredential } from './test-credential.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+function stubFetch(response: Response) {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const wordpress = {
+  siteUrl: 'https://example.com',
+  username: 'admin',
+  applicationPassword: 'abcd efgh ijkl',
+};
+
+describe('testCredential', () => {
+  it('sends the authenticated test request and reports ok', async () => {
+    const fetchMock = stubFetch(new Response('{"id":1}', { status: 200 }));
+
+    const result = await testCredential(WordPressCredential, wordpress);
+
+    expect(result).toEqual({
+      status: 'ok',
+      httpStatus: 200,
+      message: 'WordPress Application Password credentials are valid',
+    });
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://example.com/wp-json/wp/v2/users/me');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe(
+      `Basic ${Buffer.from('admin:abcd efgh ijkl').toString('base64')}`
+    );
+  });
+
+  it('reports the HTTP status and API message of a rejected credential', async () => {
+    stubFetch(
+      new Response(
+        JSON.stringify({
+          code: 'incorrect_password',
+          message: 'The provided password is an invalid application password.',
+        }),
+        { status: 401 }
+      )
+    );
+
+    const result = await testCredential(WordPressCredential, wordpress);
+
+    expect(result).toEqual({
+      status: 'failed',
+      httpStatus: 401,
+      message:
+        'WordPress Application Password rejected the credentials (HTTP 401): The provided password is an invalid application password.',
+    });
+  });
+
+  it('redacts credential values from the message', async () => {
+    stubFetch(new Response(JSON.stringify({ error: 'Invalid key dev-secret-key' }), { status: 400 }));
+
+    const result = await testCredential(devtoCredential, { apiKey: 'dev-secret-key' });
+
+    expect(result.status).toBe('failed');
+    expect(result.httpStatus).toBe(400);
+    expect(result.message).toBe('Dev.to API Key rejected the credentials (HTTP 400): Invalid key [REDACTED]');
+  });
+
+  it('redacts values from network errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND https://discord.com/api/webhooks/1/tok3n'))
+    );
+
+    const result = await testCredential(discordWebhookCredential, {
+      webhookUrl: 'https://discord.com/api/webhooks/1/tok3n',
+    });
+
+    expect(result).toEqual({ status: 'failed', message: 'getaddrinfo ENOTFOUND [REDACTED]' });
+  });
+
+  it('validates credentials against the schema before sending a request', async () => {
+    const fetchMock = stubFetch(new Response('{}', { status: 200 }));
+
+    const result = await testCredential(WordPressCredential, { ...wordpress, siteUrl: 'example.com' });
+
+    expect(result.status).toBe('failed');
+    expect(result.httpStatus).toBeUndefined();
+    expect(result.message).toContain('Invalid WordPress Application Password credentials: siteUrl:');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('skips definitions without a test request', async () => {
+    const fetchMock = stubFetch(new Response('{}', { status: 200 }));
+
+    const result = await testCredential(twitterCredential, { accessToken: 'token' });
+
+    expect(result).toEqual({ status: 'skipped', message: 'Twitter/X OAuth2 has no test request' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
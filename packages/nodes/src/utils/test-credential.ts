@@ -0,0 +1,126 @@
+/**
+ * Verify credentials by sending a credential definition's `testRequest`.
+ */
+
+import { SecretRedactor, type CredentialDefinition } from '@jam-nodes/core';
+import { authenticatedFetch, resolveTemplate } from './authenticated-fetch.js';
+import { FetchRetryError } from './http.js';
+
+/**
+ * Outcome of testCredential. `message` never contains credential values.
+ */
+export interface CredentialTestResult {
+  /** 'skipped' when the definition has no testRequest */
+  status: 'ok' | 'failed' | 'skipped';
+  /** HTTP status of the test request, when one was answered */
+  httpStatus?: number;
+  message: string;
+}
+
+export interface TestCredentialOptions {
+  /** Test request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+/** Longest API error message included in a failed result */
+const MAX_DETAIL_LENGTH = 200;
+
+/**
+ * Check that credentials work by sending the definition's `testRequest`,
+ * authenticated as the definition describes (see authenticatedFetch).
+ *
+ * The credentials are validated against the definition's schema first, and
+ * the request is not retried, so a mistyped key fails fast. Failures report
+ * the HTTP status and the API's error message, with every credential value
+ * redacted.
+ *
+ * @example
+ * ```typescript
+ * const result = await testCredential(WordPressCredential, credentials.wordpress);
+ * if (result.status === 'failed') {
+ *   console.log(result.httpStatus, result.message);
+ *   // 401 'WordPress Application Password rejected the credentials (HTTP 401): The provided password is an invalid application password.'
+ * }
+ * ```
+ */
+export async function testCredential(
+  definition: CredentialDefinition,
+  credentials: object | undefined,
+  options: TestCredentialOptions = {}
+): Promise<CredentialTestResult> {
+  const values = (credentials ?? {}) as Record<string, unknown>;
+  const redactor = new SecretRedactor();
+  redactor.addSecrets(values);
+  const redact = (message: string) => redactor.redact(message);
+
+  if (!definition.testRequest) {
+    return { status: 'skipped', message: `${definition.displayName} has no test request` };
+  }
+
+  const parsed = definition.schema.safeParse(values);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    return {
+      status: 'failed',
+      message: redact(`Invalid ${definition.displayName} credentials: ${issues.join('; ')}`),
+    };
+  }
+
+  try {
+    const url = resolveTemplate(definition, values, definition.testRequest.url);
+    const response = await authenticatedFetch(definition, values)(
+      url,
+      { method: definition.testRequest.method ?? 'GET' },
+      { maxRetries: 1, timeoutMs: options.timeoutMs ?? 10000 }
+    );
+
+    if (response.ok) {
+      return {
+        status: 'ok',
+        httpStatus: response.status,
+        message: `${definition.displayName} credentials are valid`,
+      };
+    }
+    return rejected(definition, response.status, await response.text(), redact);
+  } catch (error) {
+    if (error instanceof FetchRetryError && error.status !== undefined) {
+      return rejected(definition, error.status, error.body ?? '', redact);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: 'failed', message: redact(message) };
+  }
+}
+
+function rejected(
+  definition: CredentialDefinition,
+  httpStatus: number,
+  body: string,
+  redact: (message: string) => string
+): CredentialTestResult {
+  const detail = errorDetail(body);
+  const message = `${definition.displayName} rejected the credentials (HTTP ${httpStatus})`;
+  return {
+    status: 'failed',
+    httpStatus,
+    message: redact(detail ? `${message}: ${detail}` : message),
+  };
+}
+
+/** The error message from an API error body, e.g. `{ "message": "..." }` */
+function errorDetail(body: string): string | undefined {
+  let detail: unknown = body.trim();
+  try {
+    const data = JSON.parse(body) as Record<string, unknown>;
+    const error = data['error'];
+    detail =
+      data['message'] ??
+      (error && typeof error === 'object' ? (error as Record<string, unknown>)['message'] : error) ??
+      data['detail'];
+  } catch {
+    // Not JSON; use the text as is
+  }
+
+  if (typeof detail !== 'string' || !detail) return undefined;
+  return detail.length > MAX_DETAIL_LENGTH ? `${detail.slice(0, MAX_DETAIL_LENGTH)}…` : detail;
+}
+
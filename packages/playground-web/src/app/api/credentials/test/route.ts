@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecretRedactor } from '@jam-nodes/core';
+import { builtInCredentials, testCredential } from '@jam-nodes/nodes';
+
+export async function POST(request: NextRequest) {
+  const redactor = new SecretRedactor();
+
+  try {
+    const { service, credentials } = await request.json();
+    redactor.addSecrets(credentials);
+
+    const definition = builtInCredentials.find(
+      (d) => d.name.toLowerCase() === String(service).toLowerCase()
+    );
+    if (!definition) {
+      return NextResponse.json(
+        { status: 'skipped', message: `No credential definition for ${service}` },
+        { status: 404 }
+      );
+    }
+
+    const result = await testCredential(definition, credentials || {});
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Credential test error:', redactor.redact(message));
+    return NextResponse.json(
+      { status: 'failed', message: 'Credential test failed' },
+      { status: 500 }
+    );
+  }
+}
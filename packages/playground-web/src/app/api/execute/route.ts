@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createRegistry, type NodeExecutionContext } from '@jam-nodes/core';
+import { createRegistry, SecretRedactor, type NodeExecutionContext } from '@jam-nodes/core';
 import { builtInNodes } from '@jam-nodes/nodes';
 import { getMockOutput } from '@/lib/utils';
 
@@ -11,8 +11,12 @@ for (const node of builtInNodes) {
 }
 
 export async function POST(request: NextRequest) {
+  // Keep credential values and webhook URLs out of responses and server logs
+  const redactor = new SecretRedactor();
+
   try {
     const { nodeType, input, credentials, mockMode } = await request.json();
+    redactor.addSecrets(credentials);
 
     // Get node definition
     const node = registry.getDefinition(nodeType);
@@ -40,7 +44,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           success: false,
-          error: `Invalid input: ${zodError instanceof Error ? zodError.message : 'Validation failed'}`,
+          error: redactor.redact(
+            `Invalid input: ${zodError instanceof Error ? zodError.message : 'Validation failed'}`
+          ),
         },
         { status: 400 }
       );
@@ -69,13 +75,14 @@ export async function POST(request: NextRequest) {
     // Execute node
     const result = await node.executor(validatedInput, context);
 
-    return NextResponse.json(result);
+    return NextResponse.json(redactor.redactValue(result));
   } catch (error) {
-    console.error('Execution error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Execution error:', redactor.redact(message));
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: redactor.redact(message),
       },
       { status: 500 }
     );
@@ -11,7 +11,8 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
-import { X, Eye, EyeOff, Trash2 } from 'lucide-react';
+import type { CredentialTestResult } from '@jam-nodes/nodes';
+import { X, Eye, EyeOff, Trash2, Loader2, CheckCircle, XCircle, PlugZap } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface CredentialsModalProps {
@@ -30,6 +31,9 @@ export function CredentialsModal({
   const [credentials, setCredentials] = useState<Record<string, CredentialData>>({});
   const [showPassword, setShowPassword] = useState<Record<string, boolean>>({});
   const [saveToStorage, setSaveToStorage] = useState(true);
+  const [testResults, setTestResults] = useState<
+    Record<string, CredentialTestResult | 'testing'>
+  >({});
 
   // Load existing credentials
   useEffect(() => {
@@ -42,6 +46,7 @@ export function CredentialsModal({
         }
       }
       setCredentials(loaded);
+      setTestResults({});
     }
   }, [isOpen, services]);
 
@@ -50,6 +55,11 @@ export function CredentialsModal({
     field: string,
     value: string
   ) => {
+    setTestResults((prev) => {
+      const updated = { ...prev };
+      delete updated[service];
+      return updated;
+    });
     setCredentials((prev) => ({
       ...prev,
       [service]: {
@@ -72,6 +82,27 @@ export function CredentialsModal({
     onClose();
   };
 
+  const handleTest = async (service: string) => {
+    setTestResults((prev) => ({ ...prev, [service]: 'testing' }));
+    try {
+      const response = await fetch('/api/credentials/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ service, credentials: credentials[service] }),
+      });
+      const result: CredentialTestResult = await response.json();
+      setTestResults((prev) => ({ ...prev, [service]: result }));
+    } catch (error) {
+      setTestResults((prev) => ({
+        ...prev,
+        [service]: {
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      }));
+    }
+  };
+
   const handleClear = (service: string) => {
     deleteCredential(service);
     setCredentials((prev) => {
@@ -79,6 +110,11 @@ export function CredentialsModal({
       delete updated[service];
       return updated;
     });
+    setTestResults((prev) => {
+      const updated = { ...prev };
+      delete updated[service];
+      return updated;
+    });
     onCredentialsUpdate();
   };
 
@@ -117,6 +153,7 @@ export function CredentialsModal({
 
             const hasCredentials = credentials[service] &&
               Object.values(credentials[service]).some(v => v);
+            const testResult = testResults[service];
 
             return (
               <div key={service} className="mb-6 last:mb-0">
@@ -125,15 +162,31 @@ export function CredentialsModal({
                     {service}
                   </h3>
                   {hasCredentials && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleClear(service)}
-                      className="h-7 text-destructive hover:text-destructive hover:bg-destructive/10"
-                    >
-                      <Trash2 className="h-3 w-3 mr-1" />
-                      Clear
-                    </Button>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleTest(service)}
+                        disabled={testResult === 'testing'}
+                        className="h-7"
+                      >
+                        {testResult === 'testing' ? (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                          <PlugZap className="h-3 w-3 mr-1" />
+                        )}
+                        Test
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleClear(service)}
+                        className="h-7 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        Clear
+                      </Button>
+                    </div>
                   )}
                 </div>
 
@@ -183,6 +236,21 @@ export function CredentialsModal({
                     </div>
                   ))}
                 </div>
+
+                {testResult && testResult !== 'testing' && (
+                  <div
+                    className={cn(
+                      'mt-3 flex items-start gap-1.5 text-xs',
+                      testResult.status === 'ok' && 'text-green-600 dark:text-green-400',
+                      testResult.status === 'failed' && 'text-destructive',
+                      testResult.status === 'skipped' && 'text-muted-foreground'
+                    )}
+                  >
+                    {testResult.status === 'ok' && <CheckCircle className="h-3.5 w-3.5 shrink-0" />}
+                    {testResult.status === 'failed' && <XCircle className="h-3.5 w-3.5 shrink-0" />}
+                    <span>{testResult.message}</span>
+                  </div>
+                )}
               </div>
             );
           })}
@@ -1,9 +1,8 @@
 'use client';
 
 import { useForm, Controller } from 'react-hook-form';
-import type { Resolver } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import type { z } from 'zod';
+import type { FieldErrors, Resolver } from 'react-hook-form';
+import type { JsonSchema } from '@jam-nodes/core';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -12,7 +11,7 @@ import { cn } from '@/lib/utils';
 import { useState, useEffect, useMemo, useCallback } from 'react';
 
 interface InputFormProps {
-  schema: z.ZodSchema;
+  schema: JsonSchema;
   onSubmit: (data: Record<string, unknown>) => void;
   isLoading?: boolean;
   mockMode?: boolean;
@@ -30,14 +29,6 @@ interface FieldConfig {
   description?: string;
 }
 
-type ZodDefWithTypeName = z.ZodTypeDef & {
-  typeName?: string;
-  shape?: () => Record<string, z.ZodTypeAny>;
-  innerType?: z.ZodTypeAny;
-  defaultValue?: () => unknown;
-  values?: string[];
-};
-
 // Generate example values based on field name and type - ALWAYS returns a value
 function getExampleValue(fieldName: string, fieldType: string, options?: string[]): unknown {
   const name = fieldName.toLowerCase();
@@ -181,50 +172,35 @@ function getExampleValue(fieldName: string, fieldType: string, options?: string[
   return `example_${cleanName.replace(/\s+/g, '_')}`;
 }
 
-function extractFieldsFromSchema(schema: z.ZodSchema): FieldConfig[] {
+function extractFieldsFromSchema(schema: JsonSchema): FieldConfig[] {
   const fields: FieldConfig[] = [];
-  const def = schema._def as ZodDefWithTypeName;
-
-  if (def.typeName !== 'ZodObject' || !def.shape) return fields;
-
-  const shape = def.shape();
-
-  for (const [key, fieldSchema] of Object.entries(shape)) {
-    const fieldDef = fieldSchema._def as ZodDefWithTypeName;
-    let isRequired = true;
-    let innerDef = fieldDef;
-    let defaultValue: unknown = undefined;
-
-    // Unwrap optional/default
-    if (fieldDef.typeName === 'ZodOptional' && fieldDef.innerType) {
-      isRequired = false;
-      innerDef = fieldDef.innerType._def as ZodDefWithTypeName;
-    } else if (fieldDef.typeName === 'ZodDefault' && fieldDef.innerType && fieldDef.defaultValue) {
-      isRequired = false;
-      innerDef = fieldDef.innerType._def as ZodDefWithTypeName;
-      defaultValue = fieldDef.defaultValue();
-    }
+
+  if (schema.type !== 'object' || !schema.properties) return fields;
+
+  const required = new Set(schema.required ?? []);
+
+  for (const [key, property] of Object.entries(schema.properties)) {
+    // Nullable fields have a ['string', 'null'] style type
+    const types = Array.isArray(property.type) ? property.type : [property.type];
+    let defaultValue: unknown = property.default;
 
     // Determine field type
     let fieldType: FieldConfig['type'] = 'text';
     let options: string[] | undefined;
 
-    if (innerDef.typeName === 'ZodNumber') {
+    if (property.enum?.every((value) => typeof value === 'string')) {
+      fieldType = 'select';
+      options = property.enum as string[];
+    } else if (types.includes('number') || types.includes('integer')) {
       fieldType = 'number';
-    } else if (innerDef.typeName === 'ZodBoolean') {
+    } else if (types.includes('boolean')) {
       fieldType = 'checkbox';
-    } else if (innerDef.typeName === 'ZodEnum' && innerDef.values) {
-      fieldType = 'select';
-      options = innerDef.values;
-    } else if (innerDef.typeName === 'ZodArray') {
+    } else if (types.includes('array')) {
       fieldType = 'array';
-    } else if (innerDef.typeName === 'ZodObject' || innerDef.typeName === 'ZodRecord') {
+    } else if (types.includes('object')) {
       fieldType = 'textarea';
     }
 
-    // Get description
-    const description = fieldSchema.description;
-
     // ALWAYS generate an example value
     if (defaultValue === undefined) {
       defaultValue = getExampleValue(key, fieldType, options);
@@ -234,10 +210,10 @@ function extractFieldsFromSchema(schema: z.ZodSchema): FieldConfig[] {
       name: key,
       label: key.replace(/([A-Z])/g, ' $1').replace(/^./, (s) => s.toUpperCase()),
       type: fieldType,
-      required: isRequired,
+      required: required.has(key),
       default: defaultValue,
       options,
-      description,
+      description: property.description,
     });
   }
 
@@ -245,7 +221,7 @@ function extractFieldsFromSchema(schema: z.ZodSchema): FieldConfig[] {
 }
 
 // Generate a full example object from schema
-function generateExampleFromSchema(schema: z.ZodSchema): Record<string, unknown> {
+function generateExampleFromSchema(schema: JsonSchema): Record<string, unknown> {
   const fields = extractFieldsFromSchema(schema);
   const example: Record<string, unknown> = {};
 
@@ -270,8 +246,9 @@ export function InputForm({
   const [showExample, setShowExample] = useState(false);
   const exampleJson = useMemo(() => generateExampleFromSchema(schema), [schema]);
 
-  // Create a resolver that transforms values before Zod validation
-  const transformingResolver: Resolver = useCallback(async (values, context, options) => {
+  // Create a resolver that transforms values and checks required fields.
+  // The execute route validates the full input against the node's Zod schema.
+  const transformingResolver: Resolver = useCallback(async (values) => {
     // Transform values based on field types before validation
     const transformed: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(values)) {
@@ -300,17 +277,24 @@ export function InputForm({
         } catch {
           transformed[key] = value;
         }
-      } else if (value === '' || value === undefined || value === null) {
-        // Skip empty values
+      } else if (value === '' || value === undefined || value === null || Number.isNaN(value)) {
+        // Skip empty values (an empty number input gives NaN)
       } else {
         transformed[key] = value;
       }
     }
 
-    // Run Zod validation on transformed values
-    const zodResolverFn = zodResolver(schema);
-    return zodResolverFn(transformed, context, options);
-  }, [schema, fields]);
+    const errors: FieldErrors = {};
+    for (const field of fields) {
+      if (field.required && transformed[field.name] === undefined) {
+        errors[field.name] = { type: 'required', message: `${field.label} is required` };
+      }
+    }
+
+    return Object.keys(errors).length > 0
+      ? { values: {}, errors }
+      : { values: transformed, errors: {} };
+  }, [fields]);
 
   const defaultValues = useMemo(() => {
     return fields.reduce(
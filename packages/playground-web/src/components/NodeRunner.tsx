@@ -1,12 +1,11 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import type { NodeDefinition, NodeCategory } from '@jam-nodes/core';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { NodeJsonMetadata, NodeCategory } from '@jam-nodes/core';
 import { InputForm } from './InputForm';
 import { OutputViewer } from './OutputViewer';
 import { CredentialsModal } from './CredentialsModal';
 import { getCredential, hasCredential } from '@/lib/credentials';
-import { getRequiredServices } from '@/lib/registry';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -14,7 +13,7 @@ import { CheckCircle, AlertTriangle, Settings } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface NodeRunnerProps {
-  node: NodeDefinition;
+  node: NodeJsonMetadata;
 }
 
 const CATEGORY_BADGE: Record<NodeCategory, 'logic' | 'transform' | 'integration' | 'action'> = {
@@ -39,7 +38,7 @@ export function NodeRunner({ node }: NodeRunnerProps) {
     Record<string, boolean>
   >({});
 
-  const requiredServices = getRequiredServices(node.type);
+  const requiredServices = useMemo(() => node.credentials?.required ?? [], [node]);
   const needsCredentials = requiredServices.length > 0;
 
   // Check credentials status
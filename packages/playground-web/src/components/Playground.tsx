@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { Sidebar } from './Sidebar';
+import { NodeRunner } from './NodeRunner';
+import { Plug } from 'lucide-react';
+import type { NodeJsonMetadata } from '@jam-nodes/core';
+
+interface PlaygroundProps {
+  nodes: NodeJsonMetadata[];
+}
+
+export function Playground({ nodes }: PlaygroundProps) {
+  const [selectedNodeType, setSelectedNodeType] = useState<string | null>(null);
+  const selectedNode = nodes.find((node) => node.type === selectedNodeType);
+
+  return (
+    <div className="flex h-screen bg-background">
+      {/* Sidebar */}
+      <Sidebar
+        nodes={nodes}
+        selectedNode={selectedNodeType || undefined}
+        onSelect={setSelectedNodeType}
+      />
+
+      {/* Main area - Node runner */}
+      <main className="flex-1 overflow-hidden">
+        {selectedNode ? (
+          <NodeRunner node={selectedNode} />
+        ) : (
+          <div className="h-full flex items-center justify-center">
+            <div className="text-center">
+              <div className="mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                <Plug className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-lg font-medium text-foreground">Select a node to get started</p>
+              <p className="text-sm mt-1 text-muted-foreground">
+                Choose from {nodes.length} available workflow nodes
+              </p>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+export { Playground } from './Playground';
 export { Sidebar } from './Sidebar';
 export { NodeRunner } from './NodeRunner';
 export { InputForm } from './InputForm';
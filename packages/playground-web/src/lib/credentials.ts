@@ -130,6 +130,13 @@ export const CREDENTIAL_SCHEMAS: Record<
   forumscout: [{ name: 'apiKey', label: 'API Key', type: 'password' }],
   discordbot: [{ name: 'botToken', label: 'Bot Token', type: 'password' }],
   discordwebhook: [{ name: 'webhookUrl', label: 'Webhook URL', type: 'text' }],
+  firecrawl: [{ name: 'bearerToken', label: 'API Key', type: 'password' }],
+  devto: [{ name: 'apiKey', label: 'API Key', type: 'password' }],
+  wordpress: [
+    { name: 'siteUrl', label: 'Site URL', type: 'text' },
+    { name: 'username', label: 'Username', type: 'text' },
+    { name: 'applicationPassword', label: 'Application Password', type: 'password' },
+  ],
 };
 
 /**
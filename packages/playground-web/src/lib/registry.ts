@@ -1,4 +1,10 @@
-import { createRegistry, type NodeDefinition, type NodeMetadata, type NodeCategory } from '@jam-nodes/core';
+import {
+  createRegistry,
+  type NodeDefinition,
+  type NodeMetadata,
+  type NodeJsonMetadata,
+  type NodeCategory,
+} from '@jam-nodes/core';
 import { builtInNodes } from '@jam-nodes/nodes';
 
 // Create and populate the registry
@@ -8,6 +14,9 @@ for (const node of builtInNodes) {
   registry.register(node as any);
 }
 
+// Zod schemas stay on the server; pages pass this plain JSON to client components
+const nodeJsonMetadata = registry.exportMetadata();
+
 /**
  * Get all node definitions
  */
@@ -58,37 +67,22 @@ export function getRegistry() {
 }
 
 /**
- * Service requirements for each node type
+ * Get required services (credential names) declared by a node type
  */
-export const NODE_SERVICE_REQUIREMENTS: Record<string, string[]> = {
-  search_contacts: ['apollo'],
-  reddit_monitor: ['forumScout'],
-  twitter_monitor: ['twitter'],
-  twitter_create_tweet: ['twitter'],
-  twitter_delete_tweet: ['twitter'],
-  twitter_like_tweet: ['twitter'],
-  twitter_retweet: ['twitter'],
-  twitter_search_tweets: ['twitter'],
-  twitter_send_dm: ['twitter'],
-  twitter_get_user_by_username: ['twitter'],
-  linkedin_monitor: ['forumScout'],
-  sora_video: ['openai'],
-  seo_keyword_research: ['dataForSeo'],
-  seo_audit: ['dataForSeo'],
-  social_keyword_generator: ['anthropic'],
-  draft_emails: ['anthropic'],
-  social_ai_analyze: ['anthropic'],
-  discord_send_message: ['discordBot'],
-  discord_send_webhook: ['discordWebhook'],
-  discord_create_thread: ['discordBot'],
-  firecrawl_scrape: ['firecrawl'],
-  firecrawl_crawl: ['firecrawl'],
-  firecrawl_extract: ['firecrawl'],
-};
+export function getRequiredServices(nodeType: string): string[] {
+  return registry.getCredentialRequirements(nodeType)?.required ?? [];
+}
 
 /**
- * Get required services for a node type
+ * Get all node metadata with JSON Schema inputs and outputs (serializable)
  */
-export function getRequiredServices(nodeType: string): string[] {
-  return NODE_SERVICE_REQUIREMENTS[nodeType] || [];
+export function getAllNodeJsonMetadata(): NodeJsonMetadata[] {
+  return nodeJsonMetadata;
+}
+
+/**
+ * Get node metadata with JSON Schema inputs and outputs by type
+ */
+export function getNodeJsonMetadata(type: string): NodeJsonMetadata | undefined {
+  return nodeJsonMetadata.find((node) => node.type === type);
 }
@@ -1,6 +1,8 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import ora from 'ora';
+import { testCredential, type CredentialTestResult } from '@jam-nodes/nodes';
 import {
   getCredentials,
   saveCredentials,
@@ -10,6 +12,8 @@ import {
   clearAllCredentials,
   getStorePath,
 } from '../credentials/index.js';
+import { loadRegistry } from '../plugins/index.js';
+import { credentialFieldNames } from '../utils/index.js';
 
 /**
  * Known credential types and their required fields
@@ -46,6 +50,12 @@ const CREDENTIAL_SCHEMAS: Record<
   ],
   discordbot: [{ name: 'botToken', message: 'Discord Bot Token:', type: 'password' }],
   discordwebhook: [{ name: 'webhookUrl', message: 'Discord Webhook URL:', type: 'input' }],
+  devto: [{ name: 'apiKey', message: 'Dev.to API Key:', type: 'password' }],
+  wordpress: [
+    { name: 'siteUrl', message: 'WordPress Site URL:', type: 'input' },
+    { name: 'username', message: 'WordPress Username:', type: 'input' },
+    { name: 'applicationPassword', message: 'WordPress Application Password:', type: 'password' },
+  ],
 };
 
 /**
@@ -94,8 +104,19 @@ credentialsCommand
   .action(async (service: string) => {
     const serviceLower = service.toLowerCase();
 
-    // Get schema for this service
-    const schema = CREDENTIAL_SCHEMAS[serviceLower];
+    // Get schema for this service, falling back to the fields of a
+    // registered credential definition (e.g. from a plugin)
+    const registry = await loadRegistry();
+    const definition = registry
+      .getAllCredentialDefinitions()
+      .find((d) => d.name.toLowerCase() === serviceLower);
+    const definitionFields = credentialFieldNames(definition).map((name) => ({
+      name,
+      message: `${definition?.displayName ?? service} ${name}:`,
+      type: 'password' as const,
+    }));
+    const schema =
+      CREDENTIAL_SCHEMAS[serviceLower] ?? (definitionFields.length > 0 ? definitionFields : undefined);
 
     if (!schema) {
       console.log(chalk.yellow(`Unknown service: ${service}`));
@@ -212,6 +233,57 @@ credentialsCommand
     }
   });
 
+/**
+ * Test credentials against their service's API
+ */
+credentialsCommand
+  .command('test [service]')
+  .description('Verify credentials by calling the service (all configured services if omitted)')
+  .action(async (service: string | undefined) => {
+    const allDefinitions = (await loadRegistry()).getAllCredentialDefinitions();
+    const definitions = service
+      ? allDefinitions.filter((d) => d.name.toLowerCase() === service.toLowerCase())
+      : allDefinitions;
+
+    if (service && definitions.length === 0) {
+      console.log(chalk.yellow(`No credential definition for ${service}`));
+      console.log(chalk.dim('Testable services:'));
+      console.log(chalk.dim(`  ${allDefinitions.map((d) => d.name).join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log();
+    let failed = 0;
+    let tested = 0;
+
+    for (const definition of definitions) {
+      const credentials = await getCredentials(definition.name);
+      if (!credentials) {
+        if (service) {
+          console.log(chalk.red(`✗ ${definition.name} credentials not found`));
+          console.log(chalk.dim(`Use "jam credentials set ${definition.name}" to add them.`));
+          failed++;
+        }
+        continue;
+      }
+
+      tested++;
+      const spinner = ora({ text: `Testing ${definition.name}...`, color: 'cyan' }).start();
+      const result = await testCredential(definition, credentials);
+      spinner.stop();
+      console.log(formatTestResult(definition.name, result));
+      if (result.status === 'failed') failed++;
+    }
+
+    if (!service && tested === 0) {
+      console.log(chalk.dim('No configured credentials to test.'));
+    }
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  });
+
 /**
  * Clear all saved credentials
  */
@@ -250,3 +322,17 @@ credentialsCommand
   .action(() => {
     console.log(getStorePath());
   });
+
+/**
+ * Format a credential test result as one line
+ */
+function formatTestResult(service: string, result: CredentialTestResult): string {
+  switch (result.status) {
+    case 'ok':
+      return chalk.green(`✓ ${service}: ${result.message}`);
+    case 'failed':
+      return chalk.red(`✗ ${service}: ${result.message}`);
+    case 'skipped':
+      return chalk.dim(`- ${service}: ${result.message}`);
+  }
+}
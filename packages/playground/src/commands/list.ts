@@ -1,14 +1,8 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { createRegistry, type NodeCategory } from '@jam-nodes/core';
-import { builtInNodes } from '@jam-nodes/nodes';
-
-// Create and populate the registry
-const registry = createRegistry();
-for (const node of builtInNodes) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  registry.register(node as any);
-}
+import type { NodeCategory, NodeRegistry } from '@jam-nodes/core';
+import { builtInPlugin } from '@jam-nodes/nodes';
+import { loadRegistry } from '../plugins/index.js';
 
 /**
  * Category colors for display
@@ -37,7 +31,15 @@ export const listCommand = new Command('list')
   .description('List all available jam-nodes')
   .option('-c, --category <category>', 'Filter by category (logic, transform, integration, action)')
   .option('--json', 'Output as JSON')
-  .action((options) => {
+  .action(async (options) => {
+    // Built-in nodes plus plugins from jam.config.json
+    let registry: NodeRegistry;
+    try {
+      registry = await loadRegistry();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
     const allDefinitions = registry.getAllDefinitions();
 
     // Filter by category if specified
@@ -62,6 +64,7 @@ export const listCommand = new Command('list')
         category: d.category,
         estimatedDuration: d.estimatedDuration,
         capabilities: d.capabilities,
+        credentials: d.credentials,
       }));
       console.log(JSON.stringify(output, null, 2));
       return;
@@ -114,10 +117,23 @@ export const listCommand = new Command('list')
           }
         }
 
+        const required = node.credentials?.required ?? [];
+        if (required.length > 0) {
+          console.log(`  ${chalk.dim('Credentials:')} ${required.join(', ')}`);
+        }
+
         console.log();
       }
     }
 
+    // Plugins loaded from jam.config.json
+    const plugins = registry.getPlugins().filter((plugin) => plugin !== builtInPlugin);
+    if (plugins.length > 0) {
+      const names = plugins.map((plugin) => (plugin.version ? `${plugin.name}@${plugin.version}` : plugin.name));
+      console.log(chalk.dim(`Plugins: ${names.join(', ')}`));
+      console.log();
+    }
+
     // Usage hint
     console.log(chalk.dim('Run a node: jam run <node-type>'));
     console.log(chalk.dim('Example: jam run conditional'));
@@ -3,14 +3,13 @@ import chalk from 'chalk'
 import ora from 'ora'
 import dotenv from 'dotenv'
 import {
-  createRegistry,
+  SecretRedactor,
   type NodeExecutionContext,
   type NodeCredentials,
 } from '@jam-nodes/core'
 
 // Load environment variables from .env file
 dotenv.config()
-import { builtInNodes } from '@jam-nodes/nodes'
 import {
   getCredentials,
   saveCredentials,
@@ -22,222 +21,12 @@ import {
   promptSaveCredentials,
   selectNode,
 } from '../ui/index.js'
-import { generateMockOutput } from '../utils/index.js'
-
-// Create and populate the registry
-const registry = createRegistry()
-for (const node of builtInNodes) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  registry.register(node as any)
-}
-
-/**
- * Credential requirements for each node type
- */
-const NODE_CREDENTIAL_REQUIREMENTS: Record<
-  string,
-  { service: string; fields: { name: string; envVar: string }[] }[]
-> = {
-  search_contacts: [
-    {
-      service: 'apollo',
-      fields: [{ name: 'apiKey', envVar: 'APOLLO_API_KEY' }],
-    },
-  ],
-  reddit_monitor: [], // No credentials required - uses public API
-  twitter_monitor: [
-    {
-      service: 'twitter',
-      fields: [{ name: 'twitterApiIoKey', envVar: 'TWITTERAPI_IO_KEY' }],
-    },
-  ],
-  twitter_create_tweet: [
-    {
-      service: 'twitter',
-      fields: [
-        { name: 'consumerKey', envVar: 'TWITTER_CONSUMER_KEY' },
-        { name: 'consumerSecret', envVar: 'TWITTER_CONSUMER_SECRET' },
-        { name: 'accessToken', envVar: 'TWITTER_ACCESS_TOKEN' },
-        { name: 'accessTokenSecret', envVar: 'TWITTER_ACCESS_TOKEN_SECRET' },
-      ],
-    },
-  ],
-  twitter_delete_tweet: [
-    {
-      service: 'twitter',
-      fields: [
-        { name: 'consumerKey', envVar: 'TWITTER_CONSUMER_KEY' },
-        { name: 'consumerSecret', envVar: 'TWITTER_CONSUMER_SECRET' },
-        { name: 'accessToken', envVar: 'TWITTER_ACCESS_TOKEN' },
-        { name: 'accessTokenSecret', envVar: 'TWITTER_ACCESS_TOKEN_SECRET' },
-      ],
-    },
-  ],
-  twitter_like_tweet: [
-    {
-      service: 'twitter',
-      fields: [
-        { name: 'consumerKey', envVar: 'TWITTER_CONSUMER_KEY' },
-        { name: 'consumerSecret', envVar: 'TWITTER_CONSUMER_SECRET' },
-        { name: 'accessToken', envVar: 'TWITTER_ACCESS_TOKEN' },
-        { name: 'accessTokenSecret', envVar: 'TWITTER_ACCESS_TOKEN_SECRET' },
-      ],
-    },
-  ],
-  twitter_retweet: [
-    {
-      service: 'twitter',
-      fields: [
-        { name: 'consumerKey', envVar: 'TWITTER_CONSUMER_KEY' },
-        { name: 'consumerSecret', envVar: 'TWITTER_CONSUMER_SECRET' },
-        { name: 'accessToken', envVar: 'TWITTER_ACCESS_TOKEN' },
-        { name: 'accessTokenSecret', envVar: 'TWITTER_ACCESS_TOKEN_SECRET' },
-      ],
-    },
-  ],
-  twitter_search_tweets: [
-    {
-      service: 'twitter',
-      fields: [
-        { name: 'consumerKey', envVar: 'TWITTER_CONSUMER_KEY' },
-        { name: 'consumerSecret', envVar: 'TWITTER_CONSUMER_SECRET' },
-        { name: 'accessToken', envVar: 'TWITTER_ACCESS_TOKEN' },
-        { name: 'accessTokenSecret', envVar: 'TWITTER_ACCESS_TOKEN_SECRET' },
-      ],
-    },
-  ],
-  twitter_send_dm: [
-    {
-      service: 'twitter',
-      fields: [
-        { name: 'consumerKey', envVar: 'TWITTER_CONSUMER_KEY' },
-        { name: 'consumerSecret', envVar: 'TWITTER_CONSUMER_SECRET' },
-        { name: 'accessToken', envVar: 'TWITTER_ACCESS_TOKEN' },
-        { name: 'accessTokenSecret', envVar: 'TWITTER_ACCESS_TOKEN_SECRET' },
-      ],
-    },
-  ],
-  twitter_get_user_by_username: [
-    {
-      service: 'twitter',
-      fields: [
-        { name: 'consumerKey', envVar: 'TWITTER_CONSUMER_KEY' },
-        { name: 'consumerSecret', envVar: 'TWITTER_CONSUMER_SECRET' },
-        { name: 'accessToken', envVar: 'TWITTER_ACCESS_TOKEN' },
-        { name: 'accessTokenSecret', envVar: 'TWITTER_ACCESS_TOKEN_SECRET' },
-      ],
-    },
-  ],
-  linkedin_monitor: [
-    {
-      service: 'forumScout',
-      fields: [{ name: 'apiKey', envVar: 'FORUMSCOUT_API_KEY' }],
-    },
-  ],
-  sora_video: [
-    {
-      service: 'openai',
-      fields: [{ name: 'apiKey', envVar: 'OPENAI_API_KEY' }],
-    },
-  ],
-  seo_keyword_research: [
-    {
-      service: 'dataForSeo',
-      fields: [{ name: 'apiToken', envVar: 'DATAFORSEO_API_TOKEN' }],
-    },
-  ],
-  seo_audit: [
-    {
-      service: 'dataForSeo',
-      fields: [{ name: 'apiToken', envVar: 'DATAFORSEO_API_TOKEN' }],
-    },
-  ],
-  social_keyword_generator: [
-    {
-      service: 'anthropic',
-      fields: [{ name: 'apiKey', envVar: 'ANTHROPIC_API_KEY' }],
-    },
-  ],
-  draft_emails: [
-    {
-      service: 'anthropic',
-      fields: [{ name: 'apiKey', envVar: 'ANTHROPIC_API_KEY' }],
-    },
-  ],
-  social_ai_analyze: [
-    {
-      service: 'anthropic',
-      fields: [{ name: 'apiKey', envVar: 'ANTHROPIC_API_KEY' }],
-    },
-  ],
-  discord_send_message: [
-    {
-      service: 'discordBot',
-      fields: [{ name: 'botToken', envVar: 'DISCORD_BOT_TOKEN' }],
-    },
-  ],
-  discord_send_webhook: [
-    {
-      service: 'discordWebhook',
-      fields: [{ name: 'webhookUrl', envVar: 'DISCORD_WEBHOOK_URL' }],
-    },
-  ],
-  discord_create_thread: [
-    {
-      service: 'discordBot',
-      fields: [{ name: 'botToken', envVar: 'DISCORD_BOT_TOKEN' }],
-    },
-  ],
-  devto_create_article: [
-    { service: 'devto', fields: [{ name: 'apiKey', envVar: 'DEVTO_API_KEY' }] },
-  ],
-  devto_update_article: [
-    { service: 'devto', fields: [{ name: 'apiKey', envVar: 'DEVTO_API_KEY' }] },
-  ],
-  devto_get_articles: [
-    { service: 'devto', fields: [{ name: 'apiKey', envVar: 'DEVTO_API_KEY' }] },
-  ],
-  wordpress_create_post: [
-    {
-      service: 'wordpress',
-      fields: [
-        { name: 'siteUrl', envVar: 'WORDPRESS_SITE_URL' },
-        { name: 'username', envVar: 'WORDPRESS_USERNAME' },
-        { name: 'applicationPassword', envVar: 'WORDPRESS_APP_PASSWORD' },
-      ],
-    },
-  ],
-  wordpress_update_post: [
-    {
-      service: 'wordpress',
-      fields: [
-        { name: 'siteUrl', envVar: 'WORDPRESS_SITE_URL' },
-        { name: 'username', envVar: 'WORDPRESS_USERNAME' },
-        { name: 'applicationPassword', envVar: 'WORDPRESS_APP_PASSWORD' },
-      ],
-    },
-  ],
-  wordpress_get_posts: [
-    {
-      service: 'wordpress',
-      fields: [
-        { name: 'siteUrl', envVar: 'WORDPRESS_SITE_URL' },
-        { name: 'username', envVar: 'WORDPRESS_USERNAME' },
-        { name: 'applicationPassword', envVar: 'WORDPRESS_APP_PASSWORD' },
-      ],
-    },
-  ],
-  wordpress_upload_media: [
-    {
-      service: 'wordpress',
-      fields: [
-        { name: 'siteUrl', envVar: 'WORDPRESS_SITE_URL' },
-        { name: 'username', envVar: 'WORDPRESS_USERNAME' },
-        { name: 'applicationPassword', envVar: 'WORDPRESS_APP_PASSWORD' },
-      ],
-    },
-  ],
-}
+import {
+  generateMockOutput,
+  credentialFieldNames,
+  credentialEnvVar,
+} from '../utils/index.js'
+import { loadRegistry } from '../plugins/index.js'
 
 /**
  * Run command - executes a node with input
@@ -256,6 +45,9 @@ export const runCommand = new Command('run')
   .option('--no-confirm', 'Skip confirmation prompt')
   .action(async (nodeType: string | undefined, options) => {
     try {
+      // Built-in nodes plus plugins from jam.config.json
+      const registry = await loadRegistry()
+
       // If no node type specified, show selection
       if (!nodeType) {
         const nodes = registry.getAllMetadata()
@@ -303,20 +95,36 @@ export const runCommand = new Command('run')
         )
       }
 
-      // Check for required credentials
-      const credentialRequirements =
-        NODE_CREDENTIAL_REQUIREMENTS[nodeType] || []
+      // Check for the credentials the node declares
+      const { required = [], optional = [], fields = {} } =
+        registry.getCredentialRequirements(nodeType) ?? {}
       const nodeCredentials: NodeCredentials = {}
+      const setCredentials = (
+        service: string,
+        creds: Record<string, string>,
+      ) => {
+        ;(nodeCredentials as Record<string, Record<string, string>>)[service] =
+          creds
+      }
 
-      if (credentialRequirements.length > 0 && !options.mock) {
+      if (required.length > 0 && !options.mock) {
         console.log()
-        const serviceNames = credentialRequirements
-          .map((r) => r.service)
-          .join(', ')
-        console.log(chalk.dim(`This node requires: ${serviceNames}`))
+        console.log(chalk.dim(`This node requires: ${required.join(', ')}`))
 
-        for (const requirement of credentialRequirements) {
-          const { service, fields } = requirement
+        for (const service of required) {
+          // Prompt for the fields the node reads, else the fields its
+          // credential definition requires, else a single API key
+          const definitionFields = credentialFieldNames(
+            registry.getCredentialDefinition(service),
+            { requiredOnly: true },
+          )
+          const fieldNames =
+            fields[service] ??
+            (definitionFields.length > 0 ? definitionFields : ['apiKey'])
+          const serviceFields = fieldNames.map((name) => ({
+            name,
+            envVar: credentialEnvVar(service, name),
+          }))
           const source = await getCredentialSource(service)
 
           if (source) {
@@ -326,16 +134,14 @@ export const runCommand = new Command('run')
             const creds = await getCredentials(service)
             if (creds) {
               // Map stored credentials to NodeCredentials format
-              ;(nodeCredentials as Record<string, Record<string, string>>)[
-                service
-              ] = creds
+              setCredentials(service, creds)
             }
           } else {
             // Check environment variables first
             let foundInEnv = true
             const envCreds: Record<string, string> = {}
 
-            for (const field of fields) {
+            for (const field of serviceFields) {
               const envValue = process.env[field.envVar]
               if (envValue) {
                 envCreds[field.name] = envValue
@@ -350,23 +156,22 @@ export const runCommand = new Command('run')
             }
 
             if (foundInEnv) {
-              ;(nodeCredentials as Record<string, Record<string, string>>)[
-                service
-              ] = envCreds
+              setCredentials(service, envCreds)
             } else {
               console.log(chalk.yellow(`⚠ ${service} credentials not found`))
 
               // Prompt for credentials
-              const promptFields = fields.map((f) => ({
+              const promptFields = serviceFields.map((f) => ({
                 name: f.name,
                 message: `${service} ${f.name} (or set ${f.envVar}):`,
                 type: 'password' as const,
               }))
-              const creds = await promptForCredentials(service, promptFields)
+              const answers = await promptForCredentials(service, promptFields)
+              const creds = Object.fromEntries(
+                Object.entries(answers).filter(([, value]) => value),
+              )
 
-              ;(nodeCredentials as Record<string, Record<string, string>>)[
-                service
-              ] = creds
+              setCredentials(service, creds)
 
               // Ask if they want to save
               const shouldSave = await promptSaveCredentials()
@@ -379,6 +184,21 @@ export const runCommand = new Command('run')
         }
       }
 
+      // Optional credentials are used when configured, never prompted for
+      if (!options.mock) {
+        for (const service of optional) {
+          const creds = await getCredentials(service)
+          if (creds) {
+            console.log(chalk.green(`✓ ${service} credentials found (optional)`))
+            setCredentials(service, creds)
+          }
+        }
+      }
+
+      // Keep credential values and webhook URLs out of terminal output
+      const redactor = new SecretRedactor()
+      redactor.addSecrets(nodeCredentials)
+
       // Get input
       let input: Record<string, unknown>
 
@@ -397,7 +217,7 @@ export const runCommand = new Command('run')
       // Display input summary
       console.log()
       console.log(chalk.dim('Input:'))
-      console.log(chalk.dim(JSON.stringify(input, null, 2)))
+      console.log(chalk.dim(JSON.stringify(redactor.redactValue(input), null, 2)))
 
       // Execute node
       const spinner = ora({
@@ -452,21 +272,25 @@ export const runCommand = new Command('run')
           console.log(chalk.green.bold('✓ Success!'))
           console.log()
           console.log(chalk.dim('Output:'))
-          console.log(formatJson(result.output))
+          console.log(formatJson(redactor.redactValue(result.output)))
         } else {
           console.log(chalk.red.bold('✗ Failed'))
-          console.log(chalk.red(result.error || 'Unknown error'))
+          console.log(chalk.red(redactor.redact(result.error || 'Unknown error')))
         }
       } catch (error) {
         spinner.stop()
         console.log()
         console.log(chalk.red.bold('✗ Execution failed'))
         console.log(
-          chalk.red(error instanceof Error ? error.message : 'Unknown error'),
+          chalk.red(
+            redactor.redact(
+              error instanceof Error ? error.message : 'Unknown error',
+            ),
+          ),
         )
 
         if (error instanceof Error && error.stack) {
-          console.log(chalk.dim(error.stack))
+          console.log(chalk.dim(redactor.redact(error.stack)))
         }
       }
     } catch (error) {
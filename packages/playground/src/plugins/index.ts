@@ -0,0 +1,7 @@
+export {
+  CONFIG_FILE,
+  findConfigFile,
+  readConfig,
+  loadRegistry,
+  type PlaygroundConfig,
+} from './loader.js';
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { createRegistry, PluginError, type NodeRegistry } from '@jam-nodes/core';
+import { builtInPlugin } from '@jam-nodes/nodes';
+
+/**
+ * Name of the playground config file, looked up from the current directory
+ * upwards (or set JAM_CONFIG to its path)
+ */
+export const CONFIG_FILE = 'jam.config.json';
+
+const configSchema = z.object({
+  /** Package names, or paths relative to the config file */
+  plugins: z.array(z.string().min(1)).default([]),
+});
+
+export type PlaygroundConfig = z.infer<typeof configSchema>;
+
+/**
+ * Find the config file: JAM_CONFIG, or the nearest jam.config.json
+ */
+export function findConfigFile(): string | undefined {
+  const fromEnv = process.env['JAM_CONFIG'];
+  if (fromEnv) return path.resolve(fromEnv);
+
+  let dir = process.cwd();
+  for (;;) {
+    const candidate = path.join(dir, CONFIG_FILE);
+    if (fs.existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a config file
+ */
+export function readConfig(configPath: string): PlaygroundConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read ${configPath}: ${reason}`);
+  }
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid ${configPath}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Import a plugin module. Paths ('./', '../', absolute; files or package
+ * directories) are resolved against the config file's directory; anything
+ * else is a package installed next to it.
+ */
+async function importPlugin(specifier: string, configDir: string): Promise<unknown> {
+  const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+  let resolved: string;
+  try {
+    resolved = createRequire(path.join(configDir, CONFIG_FILE)).resolve(
+      isPath ? path.resolve(configDir, specifier) : specifier
+    );
+  } catch {
+    throw new PluginError(`Cannot find plugin "${specifier}" from ${configDir}`);
+  }
+  return import(pathToFileURL(resolved).href);
+}
+
+let registryPromise: Promise<NodeRegistry> | undefined;
+
+/**
+ * Registry with the built-in nodes plus every plugin listed in the config
+ * file. Loaded once per process.
+ *
+ * @throws PluginError if a plugin can't be found or loaded
+ */
+export function loadRegistry(): Promise<NodeRegistry> {
+  registryPromise ??= (async () => {
+    const registry = createRegistry();
+    registry.loadPlugin(builtInPlugin);
+
+    const configPath = findConfigFile();
+    if (!configPath) return registry;
+
+    const { plugins } = readConfig(configPath);
+    for (const specifier of plugins) {
+      registry.loadPlugin(await importPlugin(specifier, path.dirname(configPath)));
+    }
+    return registry;
+  })();
+  return registryPromise;
+}
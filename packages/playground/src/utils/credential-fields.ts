@@ -0,0 +1,26 @@
+import type { CredentialDefinition } from '@jam-nodes/core';
+
+/**
+ * Field names of a credential definition whose schema is a Zod object
+ * (e.g. ['siteUrl', 'username', 'applicationPassword']), for prompting for
+ * credentials the CLI has no hand-written fields for, like a plugin's.
+ * With requiredOnly, fields the schema marks optional are left out.
+ */
+export function credentialFieldNames(
+  definition: CredentialDefinition | undefined,
+  { requiredOnly = false }: { requiredOnly?: boolean } = {},
+): string[] {
+  const shape = (definition?.schema as { shape?: unknown } | undefined)?.shape;
+  if (!shape || typeof shape !== 'object') return [];
+  return Object.entries(shape as Record<string, { isOptional?: () => boolean }>)
+    .filter(([, field]) => !requiredOnly || !field.isOptional?.())
+    .map(([name]) => name);
+}
+
+/**
+ * Environment variable for a credential field, e.g. acmeCrm.apiKey -> JAM_ACMECRM_API_KEY
+ */
+export function credentialEnvVar(service: string, field: string): string {
+  const snake = field.replace(/([a-z0-9])([A-Z])/g, '$1_$2');
+  return `JAM_${service.toUpperCase()}_${snake.toUpperCase()}`;
+}
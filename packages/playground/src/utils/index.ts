@@ -1 +1,2 @@
 export { generateMockFromSchema, generateMockOutput } from './mock-generator.js';
+export { credentialFieldNames, credentialEnvVar } from './credential-fields.js';
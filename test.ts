@@ -3,10 +3,23 @@
  * Run with: npx tsx test.ts
  */
 
-import { NodeRegistry, ExecutionContext, defineNode, executeNode, executeWorkflow, MemoryCacheStore } from './packages/core/src/index';
-import type { Workflow } from './packages/core/src/index';
-import { conditionalNode, endNode, delayNode, mapNode, filterNode, sortNode, httpRequestNode, breadNode, builtInNodes } from './packages/nodes/src/index';
+import { NodeRegistry, ExecutionContext, defineNode, executeNode, executeWorkflow, executeWorkflowStream, MemoryCacheStore, TemplateSyntaxError, InMemoryTracer, createOpenTelemetryTracer, loadWorkflow, serializeWorkflow, WorkflowDocumentError, validateWorkflow, resumeWorkflow, approveNode, rejectNode, MemoryExecutionStateStore, FileExecutionStateStore, OAuth2Client, OAuth2Error, withOAuth2Refresh, startMockOAuth2Server, SecretRedactor, DEFAULT_REDACTION_PATTERNS, definePlugin, PluginError, CORE_VERSION, satisfiesVersionRange, zodToJsonSchema } from './packages/core/src/index';
+import type { Workflow, WorkflowExecutionConfig } from './packages/core/src/index';
+import { conditionalNode, endNode, delayNode, mapNode, filterNode, sortNode, httpRequestNode, breadNode, builtInNodes, twitterCredential } from './packages/nodes/src/index';
 import { z } from 'zod';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/** Return the error thrown by `fn`; fails the run when nothing is thrown */
+async function expectThrow(label: string, fn: () => unknown): Promise<Error> {
+  try {
+    await fn();
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error(`Expected ${label} to throw`);
+}
 
 async function test() {
   console.log('=== Testing @jam-nodes/core ===\n');
@@ -280,7 +293,770 @@ async function test() {
   console.log(`  statuses: ${JSON.stringify(wfResult3.statuses)}`);
   console.log(`  error: ${wfResult3.results['fail-step']?.error}`);
 
+  // Test 16: Workflow document round-trip
+  console.log('\n=== Testing workflow documents ===\n');
+
+  registry.register(stepA).register(stepB);
+  const document = serializeWorkflow({ ...workflow, metadata: { name: 'A to B', tags: ['demo'] } });
+  const json = JSON.stringify(document);
+  const loaded = loadWorkflow(json, registry);
+  const roundTrip = JSON.stringify(serializeWorkflow(loaded)) === json;
+  const loadedResult = await executeWorkflow(loaded, new ExecutionContext());
+  console.log(`✓ Workflow document round-trip: identical=${roundTrip}, success=${loadedResult.success}`);
+  console.log(`  format: v${document.formatVersion}, nodes: ${document.nodes.map((n) => n.type).join(', ')}`);
+
+  // Test 17: Unknown node types are reported with their path
+  const unknownTypeError = await expectThrow('loadWorkflow', () =>
+    loadWorkflow({ ...document, nodes: [...document.nodes, { id: 'x', type: 'missing_type', input: {} }] }, registry)
+  );
+  const issues = unknownTypeError instanceof WorkflowDocumentError ? unknownTypeError.issues : [];
+  console.log(`✓ Unknown node type rejected: ${issues.map((i) => `${i.path} (${i.message})`).join(', ')}`);
+
+  // Test 18: Static workflow validation
+  const clean = validateWorkflow(workflow, registry);
+  const cleanConditional = validateWorkflow(workflow2, registry);
+  console.log(`✓ Valid workflows pass: ${clean.valid && cleanConditional.valid} (${clean.diagnostics.length + cleanConditional.diagnostics.length} diagnostics)`);
+
+  const broken: Workflow = {
+    ...workflow2,
+    nodes: [
+      ...workflow2.nodes,
+      { id: 'a', type: 'step_a', node: stepA, input: {} },
+      { id: 'b', type: 'step_b', node: stepB, input: { upstream: 42 } },
+      { id: 'c', type: 'step_b', node: stepB, input: { upstream: '{{b.value}}' } },
+      { id: 'orphan', type: 'end', node: endNode, input: { message: '{{a.value}}' } },
+    ],
+    edges: [
+      ...workflow2.edges,
+      { from: 'check', to: 'a', condition: 'maybe' },
+      { from: 'a', to: 'b' },
+      { from: 'b', to: 'a' },
+      { from: 'a', to: 'ghost' },
+    ],
+  };
+  const report = validateWorkflow(broken, registry);
+  console.log(`✓ Broken workflow rejected: valid=${report.valid}`);
+  for (const d of report.diagnostics) {
+    console.log(`  ${d.severity} [${d.code}] ${d.path ?? d.nodeId}: ${d.message}`);
+  }
+
+  // Test 19: Checkpointed execution resumes after a failure
+  console.log('\n=== Testing resumable execution ===\n');
+
+  let countRuns = 0;
+  let flakyFails = true;
+  const countStep = defineNode({
+    type: 'count_step',
+    name: 'Count Step',
+    description: 'Counts how often it runs',
+    category: 'action',
+    inputSchema: z.object({}),
+    outputSchema: z.object({ runs: z.number() }),
+    executor: async () => ({ success: true, output: { runs: ++countRuns } }),
+  });
+  const flakyStep = defineNode({
+    type: 'flaky_step',
+    name: 'Flaky Step',
+    description: 'Fails until told otherwise',
+    category: 'action',
+    inputSchema: z.object({ runs: z.number() }),
+    outputSchema: z.object({ summary: z.string() }),
+    executor: async (input) => flakyFails
+      ? { success: false, error: 'Deploy interrupted' }
+      : { success: true, output: { summary: `count ran ${input.runs} time(s)` } },
+  });
+  const resumable: Workflow = {
+    entryNodeId: 'count',
+    nodes: [
+      { id: 'count', type: 'count_step', node: countStep, input: {} },
+      { id: 'flaky', type: 'flaky_step', node: flakyStep, input: { runs: '{{count.runs}}' } },
+    ],
+    edges: [{ from: 'count', to: 'flaky' }],
+  };
+
+  for (const [label, makeStore] of [
+    ['memory', async () => ({ store: new MemoryExecutionStateStore(), cleanup: async () => {} })],
+    ['file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'jam-state-'));
+      return { store: new FileExecutionStateStore(dir), cleanup: () => rm(dir, { recursive: true, force: true }) };
+    }],
+  ] as const) {
+    countRuns = 0;
+    flakyFails = true;
+    const { store, cleanup } = await makeStore();
+    const first = await executeWorkflow(resumable, new ExecutionContext(), { stateStore: store });
+    const saved = await store.load(first.executionId);
+    flakyFails = false;
+    const resumed = await resumeWorkflow(resumable, first.executionId, store);
+    const final = await store.load(first.executionId);
+    console.log(`✓ Resume (${label} store): first=${first.success} (${saved?.status}), resumed=${resumed.success} (${final?.status}), count runs=${countRuns}`);
+    console.log(`  output: ${JSON.stringify(resumed.results['flaky']?.output)}`);
+    await cleanup();
+  }
+
+  // Test 20: Approval requests suspend the branch until approved or rejected
+  console.log('\n=== Testing approvals ===\n');
+
+  const reviewStep = defineNode({
+    type: 'review_step',
+    name: 'Review Step',
+    description: 'Drafts something that needs human approval',
+    category: 'action',
+    capabilities: { supportsApproval: true },
+    inputSchema: z.object({}),
+    outputSchema: z.object({ draft: z.string() }),
+    executor: async () => ({
+      success: true,
+      output: { draft: 'Hello there' },
+      needsApproval: { resourceIds: ['draft-1'], resourceType: 'email', message: 'Review the draft' },
+    }),
+  });
+  const sendStep = defineNode({
+    type: 'send_step',
+    name: 'Send Step',
+    description: 'Sends the approved draft',
+    category: 'action',
+    inputSchema: z.object({ draft: z.string() }),
+    outputSchema: z.object({ sent: z.string() }),
+    executor: async (input) => ({ success: true, output: { sent: input.draft } }),
+  });
+  const approvalFlow: Workflow = {
+    entryNodeId: 'review',
+    nodes: [
+      { id: 'review', type: 'review_step', node: reviewStep, input: {} },
+      { id: 'send', type: 'send_step', node: sendStep, input: { draft: '{{review.draft}}' } },
+      { id: 'log', type: 'step_a', node: stepA, input: {} },
+    ],
+    edges: [{ from: 'review', to: 'send' }],
+  };
+
+  const approvalStore = new MemoryExecutionStateStore();
+  const paused = await executeWorkflow(approvalFlow, new ExecutionContext(), { stateStore: approvalStore });
+  console.log(`✓ Approval pauses branch: statuses=${JSON.stringify(paused.statuses)}`);
+  console.log(`  pending: ${JSON.stringify(paused.pendingApprovals)}`);
+
+  const approved = await approveNode(approvalFlow, paused.executionId, 'review', approvalStore);
+  console.log(`✓ approveNode resumes: success=${approved.success}, sent=${JSON.stringify(approved.results['send']?.output)}`);
+
+  const pausedAgain = await executeWorkflow(approvalFlow, new ExecutionContext(), { stateStore: approvalStore });
+  const rejected = await rejectNode(approvalFlow, pausedAgain.executionId, 'review', approvalStore);
+  console.log(`✓ rejectNode skips downstream: success=${rejected.success}, statuses=${JSON.stringify(rejected.statuses)}`);
+
+  const reapproveError = await expectThrow('approveNode', () =>
+    approveNode(approvalFlow, pausedAgain.executionId, 'review', approvalStore)
+  );
+  console.log(`✓ Resolved approvals cannot be approved again: ${reapproveError.message}`);
+
+  // Test 21: Streaming execution events
+  console.log('\n=== Testing execution event stream ===\n');
+
+  let streamAttempts = 0;
+  const retriedStep = defineNode({
+    type: 'retried_step',
+    name: 'Retried Step',
+    description: 'Fails on its first attempt',
+    category: 'action',
+    inputSchema: z.object({}),
+    outputSchema: z.object({ attempts: z.number() }),
+    executor: async () => {
+      streamAttempts++;
+      return streamAttempts === 1
+        ? { success: false, error: 'First attempt fails' }
+        : { success: true, output: { attempts: streamAttempts } };
+    },
+  });
+  const streamed: Workflow = {
+    entryNodeId: 'a',
+    nodes: [
+      { id: 'a', type: 'step_a', node: stepA, input: {} },
+      { id: 'retried', type: 'retried_step', node: retriedStep, input: {} },
+      { id: 'fail', type: 'always_fail', node: failingNode, input: {} },
+      { id: 'after', type: 'step_b', node: stepB, input: {} },
+    ],
+    edges: [
+      { from: 'a', to: 'retried' },
+      { from: 'a', to: 'fail' },
+      { from: 'fail', to: 'after' },
+    ],
+  };
+  const streamConfig = {
+    stopOnError: true,
+    nodeConfig: {
+      step_a: { cache: { enabled: true, store: new MemoryCacheStore() } },
+      retried_step: { retry: { maxAttempts: 2 } },
+    },
+  };
+
+  for (const run of [1, 2]) {
+    const types: string[] = [];
+    for await (const event of executeWorkflowStream(streamed, new ExecutionContext(), streamConfig)) {
+      types.push('nodeId' in event ? `${event.type}:${event.nodeId}` : event.type);
+      if (event.type === 'workflow_finished') {
+        console.log(`✓ Stream run ${run}: finished success=${event.result.success} in ${event.durationMs}ms (${event.executionId})`);
+      }
+    }
+    console.log(`  events: ${types.filter((t) => !t.startsWith('node_queued')).join(', ')}`);
+  }
+
+  // Test 22: Tracing spans
+  console.log('\n=== Testing tracing ===\n');
+
+  streamAttempts = 0;
+  const tracer = new InMemoryTracer();
+  await executeWorkflow(streamed, new ExecutionContext(), { ...streamConfig, tracer });
+  const spans = tracer.getFinishedSpans();
+  const attemptsOf = (nodeType: string) =>
+    spans.filter((s) => s.name === 'node.attempt' && s.attributes['jam.node.type'] === nodeType).length;
+  console.log(`✓ Spans recorded: ${spans.map((s) => s.name).join(', ')}`);
+  console.log(`  retried_step attempts=${attemptsOf('retried_step')}, step_a cache hit=${spans.find((s) => s.attributes['jam.node.id'] === 'a')?.attributes['jam.cache.hit']}`);
+  console.log(`  single trace: ${new Set(spans.map((s) => s.traceId)).size === 1}`);
+
+  const otelCalls: string[] = [];
+  const otelTracer = createOpenTelemetryTracer(
+    {
+      startSpan: (name, _options, parentContext) => {
+        otelCalls.push(`start ${name}${parentContext ? ' (with parent)' : ''}`);
+        return {
+          setAttribute: () => {},
+          setAttributes: () => {},
+          recordException: () => {},
+          setStatus: (status) => otelCalls.push(`status ${name}=${status.code}`),
+          end: () => otelCalls.push(`end ${name}`),
+        };
+      },
+    },
+    {
+      trace: { setSpan: (context, span) => ({ context, span }) },
+      context: { active: () => ({}) },
+    },
+  );
+  await executeWorkflow(
+    { entryNodeId: 'a', nodes: [{ id: 'a', type: 'step_a', node: stepA, input: {} }], edges: [] },
+    new ExecutionContext(),
+    { tracer: otelTracer },
+  );
+  console.log(`✓ OpenTelemetry adapter: ${otelCalls.join('; ')}`);
+
+  // Test 23: Execution metrics
+  console.log('\n=== Testing execution metrics ===\n');
+
+  streamAttempts = 0;
+  const metricsConfig = {
+    ...streamConfig,
+    nodeConfig: {
+      ...streamConfig.nodeConfig,
+      step_a: { cache: { enabled: true, store: new MemoryCacheStore() } },
+    },
+  };
+  for (const run of [1, 2]) {
+    const { metrics } = await executeWorkflow(streamed, new ExecutionContext(), metricsConfig);
+    const { nodes, totals } = metrics;
+    console.log(`✓ Metrics run ${run}: wall=${metrics.wallTimeMs}ms, step_a cache=${nodes['a']?.cache}, retried attempts=${nodes['retried']?.attempts}, after=${nodes['after']?.status}`);
+    console.log(`  totals: nodes=${totals.nodes} succeeded=${totals.succeeded} failed=${totals.failed} skipped=${totals.skipped} retries=${totals.retries} cacheHits=${totals.cacheHits} cacheMisses=${totals.cacheMisses}`);
+  }
+
+  const timedOut = await executeWorkflow(
+    { entryNodeId: 'slow', nodes: [{ id: 'slow', type: 'slow', node: slowNode, input: {} }], edges: [] },
+    new ExecutionContext(),
+    { timeout: 50 },
+  );
+  const slowMetrics = timedOut.metrics.nodes['slow'];
+  console.log(`✓ Timed out node: interrupted=${slowMetrics?.interrupted}, queueMs=${slowMetrics?.queueMs}, durationMs=${slowMetrics?.durationMs}, timeouts=${timedOut.metrics.totals.timeouts}`);
+
+  // Test 24: Eager scheduling and concurrency caps
+  console.log('\n=== Testing eager scheduling ===\n');
+
+  const sleepNode = defineNode({
+    type: 'sleep',
+    name: 'Sleep',
+    description: 'Waits for the given number of milliseconds',
+    category: 'action',
+    inputSchema: z.object({ ms: z.number() }),
+    outputSchema: z.object({}),
+    executor: async ({ ms }) => {
+      await new Promise((r) => setTimeout(r, ms));
+      return { success: true, output: {} };
+    },
+  });
+  const fanOut: Workflow = {
+    entryNodeId: 'slowMonitor',
+    nodes: [
+      { id: 'slowMonitor', type: 'sleep', node: sleepNode, input: { ms: 150 } },
+      { id: 'fastMonitor', type: 'sleep', node: sleepNode, input: { ms: 10 } },
+      { id: 'slowAnalyzer', type: 'analyze', node: sleepNode, input: { ms: 10 } },
+      { id: 'fastAnalyzer', type: 'analyze', node: sleepNode, input: { ms: 10 } },
+    ],
+    edges: [
+      { from: 'slowMonitor', to: 'slowAnalyzer' },
+      { from: 'fastMonitor', to: 'fastAnalyzer' },
+    ],
+  };
+
+  const order = async (config: WorkflowExecutionConfig = {}) => {
+    const finished: string[] = [];
+    const { metrics } = await executeWorkflow(fanOut, new ExecutionContext(), {
+      ...config,
+      onNodeComplete: (nodeId) => finished.push(nodeId),
+    });
+    return `${finished.join(' → ')} (${metrics.wallTimeMs}ms)`;
+  };
+  console.log(`✓ Unlimited: ${await order()}`);
+  console.log(`✓ maxConcurrency=1: ${await order({ maxConcurrency: 1 })}`);
+  console.log(`✓ sleep capped at 1: ${await order({ nodeTypeConcurrency: { sleep: 1 } })}`);
+  console.log(`✓ Invalid cap rejected: ${(await expectThrow('maxConcurrency: 0', () => order({ maxConcurrency: 0 }))).message}`);
+
+  // Test 25: Expressions in interpolation
+  console.log('\n=== Testing expressions ===\n');
+
+  const exprCtx = new ExecutionContext({
+    contact: { name: 'Alice' },
+    posts: [{ score: 0.9 }, { score: 0.4 }, { score: 0.7 }],
+    publishedAt: '2026-03-05T14:30:00Z',
+    count: 2,
+    'search-contacts': { total: 7 },
+  });
+  const expressions = [
+    '{{contact.name | upper}}',
+    '{{title | default: "Untitled"}}',
+    '{{posts | length}}',
+    '{{publishedAt | formatDate: "yyyy-MM-dd"}}',
+    'Next page: {{count + 1}}, half: {{count / 2}}',
+    '{{count * 3 >= 6 && contact.name == "Alice"}}',
+    '{{search-contacts.total - count}}',
+    '{{$.posts[?(@.score > 0.5)] | length}}',
+    '{{"Dear " + (contact.nickname || contact.name) + "!"}}',
+  ];
+  for (const template of expressions) {
+    console.log(`✓ ${template} → ${JSON.stringify(exprCtx.interpolate(template))}`);
+  }
+  for (const invalid of ['{{count +}}', '{{name | shout}}', '{{constructor.constructor("return 1")()}}']) {
+    console.log(`✓ Rejected ${invalid}: ${(await expectThrow(invalid, () => exprCtx.interpolate(invalid))).message}`);
+  }
+
+  const exprWorkflow: Workflow = {
+    entryNodeId: 'a',
+    nodes: [
+      { id: 'a', type: 'step_a', node: stepA, input: {} },
+      { id: 'b', type: 'step_b', node: stepB, input: { upstream: '{{a.value | upper}} / {{b.value + }}' } },
+      { id: 'c', type: 'step_b', node: stepB, input: { upstream: '{{(a.value | length) > 3 || b.value}}' } },
+    ],
+    edges: [{ from: 'a', to: 'b' }, { from: 'a', to: 'c' }],
+  };
+  for (const d of validateWorkflow(exprWorkflow, registry).diagnostics) {
+    console.log(`  ${d.severity} [${d.code}] ${d.path}: ${d.message}`);
+  }
+
+  // Test 26: Template tokenizing and escapes
+  console.log('\n=== Testing template tokenizer ===\n');
+
+  const templateCtx = new ExecutionContext({
+    user: { name: 'Alice' },
+    snippets: [{ name: 'closer', code: '}}' }, { name: 'opener', code: '{{' }],
+  });
+  const templates = [
+    'Handlebars: \\{{#if user}}{{user.name}}\\{{/if}}',
+    'Backslash then value: \\\\{{user.name}}',
+    "{{$.snippets[?(@.code == '}}')].name}}",
+    '{{$.snippets[?(@.code == "{{")].name | upper}}',
+    'Literal braces outside: {} } {{user.name}}}',
+  ];
+  for (const template of templates) {
+    console.log(`✓ ${template} → ${JSON.stringify(templateCtx.interpolate(template))}`);
+  }
+  for (const invalid of ['Hi {{user.name', 'Hi {{ }} there', "{{user.name | default: 'x}}", 'Total: {{1 + * 2}}']) {
+    const err = await expectThrow(invalid, () => templateCtx.interpolate(invalid));
+    const { offset, template } = err as TemplateSyntaxError;
+    console.log(`✓ ${err.name}: ${err.message} (points at "${template.slice(offset, offset + 3)}")`);
+  }
+  const handlebars = '{{#if vip}}Dear {{user.name}},{{/if}} {"total": {{1 + 1}}}';
+  console.log(`✓ Lenient: ${JSON.stringify(templateCtx.interpolate(handlebars, { lenient: true }))}`);
+
+  // Test 27: Output validation
+  console.log('\n=== Testing output validation ===\n');
+
+  const sloppyApi = defineNode({
+    type: 'sloppy_api',
+    name: 'Sloppy API',
+    description: 'Returns a count as a string and an extra field',
+    category: 'integration',
+    inputSchema: z.object({}),
+    outputSchema: z.object({ count: z.coerce.number(), source: z.string().default('api') }),
+    executor: async () => ({ success: true, output: { count: '42', debug: true } as never }),
+  });
+  const brokenApi = defineNode({
+    type: 'broken_api',
+    name: 'Broken API',
+    description: 'Returns a malformed payload',
+    category: 'integration',
+    inputSchema: z.object({}),
+    outputSchema: z.object({ items: z.array(z.object({ id: z.string() })) }),
+    executor: async () => ({ success: true, output: { items: [{ id: 1 }] } as never }),
+  });
+  const validated: Workflow = {
+    entryNodeId: 'sloppy',
+    nodes: [
+      { id: 'sloppy', type: 'sloppy_api', node: sloppyApi, input: {} },
+      { id: 'broken', type: 'broken_api', node: brokenApi, input: {} },
+    ],
+    edges: [],
+  };
+
+  for (const mode of ['strict', 'warn', 'coerce'] as const) {
+    const warnings: string[] = [];
+    const result = await executeWorkflow(validated, new ExecutionContext(), {
+      validateOutput: mode,
+      onEvent: (event) => {
+        if (event.type === 'node_output_invalid') {
+          warnings.push(`${event.nodeId}: ${event.issues.map((i) => `${i.path} ${i.message}`).join(', ')}`);
+        }
+      },
+    });
+    console.log(`✓ ${mode}: sloppy=${JSON.stringify(result.results['sloppy']?.output ?? result.results['sloppy']?.error)}`);
+    console.log(`  broken=${result.statuses['broken']} ${result.results['broken']?.errorCode ?? ''} ${result.results['broken']?.error ?? ''}`);
+    if (warnings.length > 0) console.log(`  warnings: ${warnings.join(' | ')}`);
+  }
+
+  const perType = await executeWorkflow(validated, new ExecutionContext(), {
+    nodeConfig: { broken_api: { validateOutput: 'strict' } },
+  });
+  console.log(`✓ Per node type: sloppy=${perType.statuses['sloppy']}, broken=${perType.statuses['broken']}`);
+
+  // Test 28: Credentials from a CredentialProvider
+  console.log('\n=== Testing credential provider ===\n');
+
+  const providerCalls: string[] = [];
+  const stored: Record<string, Record<string, unknown>> = {
+    twitter: { accessToken: 'expired', expiresAt: 0 },
+    openai: { apiKey: 'sk-test' },
+  };
+  const credentialProvider = {
+    getCredentials: async (name: string) => {
+      providerCalls.push(`get ${name}`);
+      return stored[name] ?? null;
+    },
+    hasCredentials: async (name: string) => name in stored,
+    refreshIfNeeded: async (name: string) => {
+      providerCalls.push(`refresh ${name}`);
+      return name === 'twitter' ? { accessToken: 'fresh', expiresAt: Date.now() + 3600_000 } : null;
+    },
+  };
+  const seenCredentials = (type: string, credentials?: { required?: string[]; optional?: string[] }) =>
+    defineNode({
+      type,
+      name: type,
+      description: 'Reports the credentials it received',
+      category: 'integration',
+      inputSchema: z.object({}),
+      outputSchema: z.object({ services: z.array(z.string()) }),
+      credentials,
+      executor: async (_input, nodeCtx) => ({
+        success: true,
+        output: { services: Object.keys(nodeCtx.credentials ?? {}) },
+      }),
+    });
+  const credentialed: Workflow = {
+    entryNodeId: 'tweet',
+    nodes: [
+      { id: 'tweet', type: 'tweet', node: seenCredentials('tweet', { required: ['twitter'], optional: ['openai', 'anthropic'] }), input: {} },
+      { id: 'plain', type: 'plain', node: seenCredentials('plain'), input: {} },
+      { id: 'post', type: 'post', node: seenCredentials('post', { required: ['wordpress'] }), input: {} },
+    ],
+    edges: [],
+  };
+  const credentialResult = await executeWorkflow(credentialed, new ExecutionContext(), {
+    credentialProvider,
+    credentials: { devto: { apiKey: 'static' } },
+  });
+  console.log(`✓ tweet received: ${JSON.stringify(credentialResult.results['tweet']?.output)}`);
+  console.log(`  plain received: ${JSON.stringify(credentialResult.results['plain']?.output)}`);
+  console.log(`  post: ${credentialResult.results['post']?.errorCode} ${credentialResult.results['post']?.error}`);
+  console.log(`  provider calls: ${providerCalls.sort().join(', ')}`);
+
+  // Test 29: Credential requirements declared by nodes
+  console.log('\n=== Testing node credential requirements ===\n');
+
+  const credentialRegistry = new NodeRegistry();
+  credentialRegistry.registerAll(builtInNodes);
+  credentialRegistry.register(seenCredentials('tweet', { required: ['twitter'], optional: ['anthropic'] }));
+  console.log(`✓ tweet metadata: ${JSON.stringify(credentialRegistry.getMetadata('tweet')?.credentials)}`);
+  console.log(`  twitter_send_dm requires: ${credentialRegistry.getCredentialRequirements('twitter_send_dm')?.required}`);
+  console.log(`  conditional requires: ${JSON.stringify(credentialRegistry.getCredentialRequirements('conditional'))}`);
+  console.log(`  nodes using anthropic: ${credentialRegistry.getNodeTypesByCredential('anthropic').join(', ')}`);
+
+  // Test 30: OAuth2 code exchange and refresh against a mock token server
+  console.log('\n=== Testing OAuth2 client ===\n');
+
+  const tokenServer = await startMockOAuth2Server({ clientId: 'jam-client', clientSecret: 'shh' });
+  const vault: Record<string, Record<string, unknown>> = { twitter: { clientId: 'jam-client', consumerKey: 'keep-me' } };
+  const vaultProvider = {
+    getCredentials: async (name: string) => vault[name] ?? null,
+    hasCredentials: async (name: string) => name in vault,
+    saveCredentials: async (name: string, credentials: Record<string, unknown>) => {
+      vault[name] = credentials;
+    },
+  };
+  const twitterOAuth = new OAuth2Client(
+    { ...twitterCredential, config: { ...twitterCredential.config, authorizationUrl: tokenServer.authorizationUrl, tokenUrl: tokenServer.tokenUrl } },
+    { clientId: 'jam-client', clientSecret: 'shh', redirectUri: 'http://localhost:3000/callback', credentialProvider: vaultProvider },
+  );
+
+  const authRequest = twitterOAuth.createAuthorizationUrl();
+  const authParams = new URL(authRequest.url).searchParams;
+  console.log(`✓ Authorization URL: challenge=${authParams.get('code_challenge_method')} scopes=${authParams.get('scope')?.split(' ').length}`);
+  const callback = await tokenServer.authorize(authRequest.url);
+  console.log(`  state round-trips: ${callback.state === authRequest.state}`);
+  await twitterOAuth.exchangeCode(callback.code, authRequest.codeVerifier);
+  console.log(`  stored after exchange: ${JSON.stringify({ ...vault['twitter'], expiresAt: typeof vault['twitter']?.['expiresAt'] })}`);
+
+  const oauthReplay = await twitterOAuth.exchangeCode(callback.code, authRequest.codeVerifier).catch((err: OAuth2Error) => err);
+  console.log(`  reused code: ${oauthReplay instanceof OAuth2Error ? `${oauthReplay.code} (${oauthReplay.status})` : 'accepted'}`);
+
+  // Two nodes needing Twitter start together while the token is expired: one refresh serves both
+  vault['twitter'] = { ...vault['twitter'], expiresAt: Date.now() - 1000 };
+  const tokenRequestsBefore = tokenServer.requests.length;
+  const tweeter = (type: string) =>
+    defineNode({
+      type,
+      name: type,
+      description: 'Reports its access token',
+      category: 'integration',
+      inputSchema: z.object({}),
+      outputSchema: z.object({ token: z.string() }),
+      credentials: { required: ['twitter'] },
+      executor: async (_input, nodeCtx) => ({
+        success: true,
+        output: { token: String(nodeCtx.credentials?.twitter?.accessToken) },
+      }),
+    });
+  const oauthResult = await executeWorkflow(
+    {
+      entryNodeId: 'a',
+      nodes: [
+        { id: 'a', type: 'tweet_a', node: tweeter('tweet_a'), input: {} },
+        { id: 'b', type: 'tweet_b', node: tweeter('tweet_b'), input: {} },
+      ],
+      edges: [],
+    },
+    new ExecutionContext(),
+    // Redaction off to show which token each node received
+    { credentialProvider: withOAuth2Refresh(vaultProvider, [twitterOAuth]), redaction: false },
+  );
+  const refreshRequests = tokenServer.requests.slice(tokenRequestsBefore);
+  console.log(`✓ Refreshed before run: a=${oauthResult.results['a']?.output?.['token']} b=${oauthResult.results['b']?.output?.['token']}`);
+  console.log(`  token requests: ${refreshRequests.map((r) => `${r.grantType}/${r.clientAuth}`).join(', ')}`);
+  console.log(`  stored refresh token: ${vault['twitter']?.['refreshToken']}, consumerKey kept: ${vault['twitter']?.['consumerKey']}`);
+
+  const oauthRevoked = await twitterOAuth.refresh('mock-refresh-1').catch((err: OAuth2Error) => err);
+  console.log(`  rotated refresh token rejected: ${oauthRevoked instanceof OAuth2Error ? oauthRevoked.message : 'accepted'}`);
+  await tokenServer.close();
+
+  // Test 31: Secrets redacted from results, errors, events and callbacks
+  console.log('\n=== Testing secret redaction ===\n');
+  const leakyPost = defineNode({
+    type: 'leaky_post',
+    name: 'Leaky Post',
+    description: 'Fails with an error quoting its token',
+    category: 'integration',
+    inputSchema: z.object({ via: z.string() }),
+    outputSchema: z.object({}),
+    credentials: { required: ['twitter'] },
+    executor: async (input, nodeCtx) => ({
+      success: false,
+      error: `Twitter API error: 401 - token ${nodeCtx.credentials?.twitter?.accessToken} rejected (via ${input.via})`,
+    }),
+  });
+  const hookEcho = defineNode({
+    type: 'hook_echo',
+    name: 'Hook Echo',
+    description: 'Outputs a Discord webhook URL',
+    category: 'action',
+    inputSchema: z.object({}),
+    outputSchema: z.object({ url: z.string() }),
+    executor: async () => ({
+      success: true,
+      output: { url: 'https://discord.com/api/webhooks/123/abc-DEF_456' },
+    }),
+  });
+  const redactionEvents: string[] = [];
+  const redactionErrors: string[] = [];
+  const redactionResult = await executeWorkflow(
+    {
+      entryNodeId: 'hook',
+      nodes: [
+        { id: 'hook', type: 'hook_echo', node: hookEcho, input: {} },
+        { id: 'post', type: 'leaky_post', node: leakyPost, input: { via: '{{hook.url}}' } },
+      ],
+      edges: [{ from: 'hook', to: 'post' }],
+    },
+    new ExecutionContext(),
+    {
+      credentialProvider: {
+        getCredentials: async () => ({ accessToken: 'tw-secret-token-42' }),
+        hasCredentials: async () => true,
+      },
+      onNodeError: (_id, error) => redactionErrors.push(error.message),
+      onEvent: (event) => redactionEvents.push(JSON.stringify(event)),
+    },
+  );
+  console.log(`✓ Result error: ${redactionResult.results['post']?.error}`);
+  console.log(`  hook output: ${redactionResult.results['hook']?.output?.['url']}`);
+  console.log(`  onNodeError: ${redactionErrors[0]}`);
+  console.log(`  events leaking secrets: ${redactionEvents.filter((e) => e.includes('tw-secret-token-42') || e.includes('abc-DEF_456')).length}/${redactionEvents.length}`);
+
+  const customRedactor = new SecretRedactor({ patterns: [...DEFAULT_REDACTION_PATTERNS, /sk-[A-Za-z0-9]{10,}/] });
+  customRedactor.addSecrets({ wordpress: { applicationPassword: 'abcd efgh ijkl' } });
+  console.log(`✓ Custom pattern: ${customRedactor.redact('key sk-ABCDEFGHIJKL, password abcd%20efgh%20ijkl')}`);
+
+  // Test 32: Versioned nodes, input migrations and pinned document versions
+  console.log('\n=== Testing node versions ===\n');
+  const greetV1 = defineNode({
+    type: 'greet',
+    name: 'Greet',
+    description: 'Greets a name',
+    category: 'action',
+    inputSchema: z.object({ name: z.string() }),
+    outputSchema: z.object({ text: z.string() }),
+    executor: async (input) => ({ success: true, output: { text: `Hello ${input.name}` } }),
+  });
+  const greetV2 = defineNode({
+    type: 'greet',
+    version: 2,
+    name: 'Greet',
+    description: 'Greets a person with a configurable greeting',
+    category: 'action',
+    inputSchema: z.object({ person: z.string(), greeting: z.string() }),
+    outputSchema: z.object({ text: z.string() }),
+    migrateInput: (_fromVersion, input) => ({ person: input['name'], greeting: 'Hello' }),
+    executor: async (input) => ({ success: true, output: { text: `${input.greeting}, ${input.person}!` } }),
+  });
+  const versionRegistry = new NodeRegistry().register(greetV1).register(greetV2);
+  console.log(`✓ Versions: ${versionRegistry.getVersions('greet').join(', ')} (default ${versionRegistry.getDefaultVersion('greet')})`);
+  console.log(`✓ Duplicate version rejected: ${(await expectThrow('register', () => versionRegistry.register(greetV2))).message}`);
+  console.log(`✓ Migrated input: ${JSON.stringify(versionRegistry.migrateInput('greet', { name: 'Ada' }, 1))}`);
+
+  const greetDocument = {
+    formatVersion: 1,
+    entryNodeId: 'greet',
+    nodes: [{ id: 'greet', type: 'greet', input: { name: 'Ada' } }],
+    edges: [],
+  };
+  const pinnedRun = await executeWorkflow(loadWorkflow(greetDocument, versionRegistry), new ExecutionContext());
+  console.log(`✓ Pinned v1: ${pinnedRun.results['greet']?.output?.['text']}`);
+  const upgraded = loadWorkflow(greetDocument, versionRegistry, { upgrade: true });
+  const upgradedRun = await executeWorkflow(upgraded, new ExecutionContext());
+  console.log(`✓ Upgraded to v${upgraded.nodes[0]?.node.version}: ${upgradedRun.results['greet']?.output?.['text']}`);
+  console.log(`  serialized: ${JSON.stringify(serializeWorkflow(upgraded).nodes[0])}`);
+
+  versionRegistry.unregister('greet', 1);
+  const autoUpgraded = loadWorkflow(greetDocument, versionRegistry);
+  console.log(`✓ v1 removed, loaded as v${autoUpgraded.nodes[0]?.node.version} with ${JSON.stringify(autoUpgraded.nodes[0]?.input)}`);
+  const unknownVersionError = await expectThrow('loadWorkflow', () =>
+    loadWorkflow({ ...greetDocument, nodes: [{ id: 'greet', type: 'greet', version: 3, input: {} }] }, versionRegistry)
+  );
+  console.log(`✓ Unknown version rejected: ${unknownVersionError.message}`);
+
+  // Test 33: Plugin manifests
+  console.log('\n=== Testing plugins ===\n');
+  const corePackage = JSON.parse(await readFile('./packages/core/package.json', 'utf-8')) as { version: string };
+  console.log(`✓ CORE_VERSION matches package.json: ${CORE_VERSION === corePackage.version}`);
+  const ranges = ['^0.2.0', '~0.2.3', '0.x', '>=0.2.0 <0.3.0', '^1.0.0 || ^0.2.9', '^0.3.0', '>0.2.10', '1.x'];
+  console.log(`✓ Ranges for 0.2.10: ${ranges.map((range) => `${range}=${satisfiesVersionRange('0.2.10', range)}`).join(', ')}`);
+
+  const acmeCredential = {
+    name: 'acmeCrm',
+    type: 'bearer' as const,
+    displayName: 'Acme CRM',
+    schema: z.object({ token: z.string() }),
+    authenticate: { type: 'header' as const, properties: { Authorization: 'Bearer {{token}}' } },
+  };
+  const acmePlugin = definePlugin({
+    name: '@acme/jam-nodes',
+    version: '1.0.0',
+    coreVersion: '^0.2.0',
+    nodes: [greetV1, { ...greetV2, type: 'acme_greet' }],
+    credentials: [acmeCredential],
+  });
+  const pluginRegistry = new NodeRegistry();
+  // Accepts a module namespace, as returned by `await import(...)`
+  const loadedPlugin = pluginRegistry.loadPlugin({ default: acmePlugin });
+  console.log(`✓ Loaded ${loadedPlugin.name}: ${pluginRegistry.getNodeTypes().join(', ')}; credentials: ${pluginRegistry.getAllCredentialDefinitions().map((c) => c.name).join(', ')}`);
+
+  const pluginFailures = [
+    acmePlugin,
+    { name: 'other', nodes: [greetV1] },
+    { name: 'future', coreVersion: '>=1.0.0' },
+    { name: 'broken', nodes: [{ type: 'no_executor' }] },
+  ];
+  for (const candidate of pluginFailures) {
+    const e = await expectThrow('loadPlugin', () => pluginRegistry.loadPlugin(candidate)) as PluginError;
+    console.log(`✓ ${e.name} (${e.pluginName}): ${e.message}`);
+  }
+  console.log(`  plugins: ${pluginRegistry.getPlugins().map((p) => p.name).join(', ')}; types: ${pluginRegistry.size}`);
+
+  // Test 34: JSON Schema export of node inputs and outputs
+  console.log('\n=== Testing JSON Schema export ===\n');
+  type Category = { name: string; children: Category[] };
+  const categorySchema: z.ZodType<Category> = z.lazy(() => z.object({ name: z.string(), children: z.array(categorySchema) }));
+  const searchSchema = z.object({
+    query: z.string().min(1).describe('Search terms'),
+    limit: z.number().int().positive().max(100).default(10),
+    sort: z.enum(['newest', 'top']).optional(),
+    since: z.string().datetime().nullable(),
+    source: z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('feed'), url: z.string().url() }),
+      z.object({ kind: z.literal('tag'), tag: z.string().regex(/^[a-z-]+$/) }),
+    ]),
+    category: categorySchema.optional(),
+    score: z.string().transform(Number).pipe(z.number().min(0)),
+  }).strict();
+  console.log(`✓ Input:  ${JSON.stringify(zodToJsonSchema(searchSchema))}`);
+  console.log(`✓ Output: ${JSON.stringify(zodToJsonSchema(searchSchema, { io: 'output', $schema: false }).required)}`);
+
+  const schemaRegistry = new NodeRegistry().register(httpRequestNode).register(conditionalNode);
+  console.log(`✓ http_request input: ${JSON.stringify(schemaRegistry.getJsonSchema('http_request')?.input.properties?.['method'])}`);
+  const exported = JSON.parse(JSON.stringify(schemaRegistry.exportMetadata())) as Array<{ type: string; inputSchema: { required?: string[] } }>;
+  console.log(`✓ Exported metadata: ${exported.map((meta) => `${meta.type}(${meta.inputSchema.required?.join(', ')})`).join('; ')}`);
+
+  // Test 35: Output scoping and collision detection
+  console.log('\n=== Testing output scoping ===\n');
+  const scopingWorkflow: Workflow = {
+    entryNodeId: 'filter',
+    nodes: [
+      { id: 'filter', type: 'filter', node: filterNode, input: { items: '{{items}}', path: '', operator: 'greater_than', value: 2 } },
+      { id: 'sort', type: 'sort', node: sortNode, input: { items: '{{items}}', path: '', direction: 'desc' } },
+      {
+        id: 'report', type: 'end', node: endNode,
+        input: { message: "root={{results | default: 'none'}} filter={{filter.results}} sort={{sort.results}}" },
+      },
+    ],
+    edges: [
+      { from: 'filter', to: 'report' },
+      { from: 'sort', to: 'report' },
+    ],
+  };
+
+  const collisionEvents: string[] = [];
+  const legacyRun = await executeWorkflow(scopingWorkflow, new ExecutionContext({ items: [3, 1, 4, 2], count: 4 }), {
+    onEvent: (event) => {
+      if (event.type === 'node_output_collision') collisionEvents.push(`${event.nodeId}:${event.collisions.map((c) => c.key).join('+')}`);
+    },
+  });
+  console.log(`✓ Legacy: ${(legacyRun.results['report']?.output as { message?: string })?.message}`);
+  console.log(`  collisions: ${legacyRun.outputCollisions?.map((c) => `${c.key} ${c.previousNodeId ?? 'input'} → ${c.nodeId}`).join(', ')}`);
+  console.log(`  events: ${collisionEvents.join(', ')}`);
+
+  const strictRun = await executeWorkflow(scopingWorkflow, new ExecutionContext({ items: [3, 1, 4, 2], count: 4 }), { outputScoping: 'strict' });
+  console.log(`✓ Strict: ${(strictRun.results['report']?.output as { message?: string })?.message}`);
+  console.log(`  collisions: ${strictRun.outputCollisions?.length ?? 0}`);
+
+  const scopedCtx = new ExecutionContext({ results: 'input' });
+  scopedCtx.storeNodeOutput('results', { results: [1] });
+  console.log(`✓ Own ID clobbered: ${JSON.stringify(scopedCtx.storeNodeOutput('results', { results: [2] }))}`);
+
   console.log('\n=== All tests passed! ===');
 }
 
-test().catch(console.error);
+test().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});